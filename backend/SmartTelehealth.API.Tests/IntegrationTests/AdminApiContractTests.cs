@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.OpenApi.Extensions;
+using Microsoft.OpenApi;
+using SmartTelehealth.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Swashbuckle.AspNetCore.Swagger;
+using System.Diagnostics;
+using Xunit;
+
+namespace SmartTelehealth.API.Tests.IntegrationTests
+{
+    /// <summary>
+    /// Fails the build when the admin portal's generated API types no longer match this API,
+    /// or when a frontend service calls an endpoint the API does not expose.
+    /// </summary>
+    public class AdminApiContractTests : IClassFixture<WebApplicationFactory<Program>>
+    {
+        private readonly WebApplicationFactory<Program> _factory;
+
+        public AdminApiContractTests(WebApplicationFactory<Program> factory)
+        {
+            _factory = factory.WithWebHostBuilder(builder =>
+            {
+                builder.ConfigureServices(services =>
+                {
+                    // Use in-memory database for testing
+                    var descriptor = services.SingleOrDefault(d => d.ServiceType == typeof(DbContextOptions<ApplicationDbContext>));
+                    if (descriptor != null)
+                        services.Remove(descriptor);
+
+                    services.AddDbContext<ApplicationDbContext>(options =>
+                    {
+                        options.UseInMemoryDatabase("ContractTestDb");
+                    });
+                });
+            });
+        }
+
+        [Fact]
+        public async Task AdminPortalApiTypes_ShouldMatchSwaggerDocument()
+        {
+            // Arrange
+            var swaggerProvider = _factory.Services.GetRequiredService<ISwaggerProvider>();
+            var document = swaggerProvider.GetSwagger("v1");
+            var swaggerPath = Path.Combine(Path.GetTempPath(), $"smarttelehealth-swagger-{Guid.NewGuid():N}.json");
+            await File.WriteAllTextAsync(swaggerPath, document.SerializeAsJson(OpenApiSpecVersion.OpenApi3_0));
+
+            var generator = FindGeneratorScript();
+            var startInfo = new ProcessStartInfo("node")
+            {
+                WorkingDirectory = Path.GetDirectoryName(Path.GetDirectoryName(generator))!,
+                RedirectStandardOutput = true,
+                RedirectStandardError = true
+            };
+            startInfo.ArgumentList.Add(generator);
+            startInfo.ArgumentList.Add("--check");
+            startInfo.ArgumentList.Add("--input");
+            startInfo.ArgumentList.Add(swaggerPath);
+
+            try
+            {
+                // Act
+                using var process = Process.Start(startInfo)!;
+                var output = process.StandardOutput.ReadToEndAsync();
+                var errors = process.StandardError.ReadToEndAsync();
+                await process.WaitForExitAsync();
+
+                // Assert
+                Assert.True(process.ExitCode == 0,
+                    $"{await errors}{await output}Run `node scripts/generate-api.mjs` in frontend/ against this API and commit the result.");
+            }
+            finally
+            {
+                File.Delete(swaggerPath);
+            }
+        }
+
+        // The frontend lives next to the backend in the repository; walk up from the test output to find it
+        private static string FindGeneratorScript()
+        {
+            for (var directory = new DirectoryInfo(AppContext.BaseDirectory); directory != null; directory = directory.Parent)
+            {
+                var candidate = Path.Combine(directory.FullName, "frontend", "scripts", "generate-api.mjs");
+                if (File.Exists(candidate))
+                    return candidate;
+            }
+
+            throw new FileNotFoundException("Could not find frontend/scripts/generate-api.mjs above " + AppContext.BaseDirectory);
+        }
+    }
+}
@@ -93,6 +93,7 @@ public class AdminSubscriptionController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for analytics data range (optional)</param>
     /// <param name="endDate">End date for analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing comprehensive subscription analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -108,9 +109,10 @@ public class AdminSubscriptionController : BaseController
     [HttpGet("analytics")]
     public async Task<JsonModel> GetSubscriptionAnalytics(
         [FromQuery] DateTime? startDate = null,
-        [FromQuery] DateTime? endDate = null)
+        [FromQuery] DateTime? endDate = null,
+        [FromQuery] Guid? currencyId = null)
     {
-        return await _analyticsService.GetSubscriptionAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetSubscriptionAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -120,6 +122,7 @@ public class AdminSubscriptionController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for revenue analytics data range (optional)</param>
     /// <param name="endDate">End date for revenue analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing detailed revenue analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -135,9 +138,10 @@ public class AdminSubscriptionController : BaseController
     [HttpGet("analytics/revenue")]
     public async Task<JsonModel> GetRevenueAnalytics(
         [FromQuery] DateTime? startDate = null,
-        [FromQuery] DateTime? endDate = null)
+        [FromQuery] DateTime? endDate = null,
+        [FromQuery] Guid? currencyId = null)
     {
-        return await _analyticsService.GetRevenueAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetRevenueAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -147,6 +151,7 @@ public class AdminSubscriptionController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for churn analytics data range (optional)</param>
     /// <param name="endDate">End date for churn analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing churn and retention analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -162,9 +167,10 @@ public class AdminSubscriptionController : BaseController
     [HttpGet("analytics/churn")]
     public async Task<JsonModel> GetChurnAnalytics(
         [FromQuery] DateTime? startDate = null,
-        [FromQuery] DateTime? endDate = null)
+        [FromQuery] DateTime? endDate = null,
+        [FromQuery] Guid? currencyId = null)
     {
-        return await _analyticsService.GetChurnAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetChurnAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -358,6 +364,16 @@ public class AdminSubscriptionController : BaseController
         return await _automationService.ChangePlanAsync(id, request, GetToken(HttpContext));
     }
 
+    /// <summary>
+    /// Change the billing cycle of a subscription to another cycle its plan is offered on.
+    /// The new cycle and its price apply from the next billing date.
+    /// </summary>
+    [HttpPost("{id}/change-billing-cycle")]
+    public async Task<JsonModel> ChangeSubscriptionBillingCycle(string id, [FromBody] ChangeBillingCycleRequest request)
+    {
+        return await _automationService.ChangeBillingCycleAsync(id, request, GetToken(HttpContext));
+    }
+
     /// <summary>
     /// Renew subscription
     /// </summary>
@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using SmartTelehealth.Application.DTOs;
 using SmartTelehealth.Application.Interfaces;
+using SmartTelehealth.API.Filters;
 
 namespace SmartTelehealth.API.Controllers;
 
@@ -148,11 +149,41 @@ public class BillingController : BaseController
     /// - Provides complete audit trail of billing activities
     /// </remarks>
     [HttpGet("{id}")]
+    [ResponseData(typeof(BillingRecordDto))]
     public async Task<JsonModel> GetBillingRecord(Guid id)
     {
         return await _billingService.GetBillingRecordAsync(id, GetToken(HttpContext));
     }
 
+    /// <summary>
+    /// Retrieves the refunds ledger: every refund issued against a billing record, newest first.
+    /// </summary>
+    /// <param name="startDate">Only include refunds issued on or after this date</param>
+    /// <param name="endDate">Only include refunds issued on or before this date</param>
+    /// <param name="planId">Only include refunds for subscriptions on this plan</param>
+    /// <param name="refundedBy">Only include refunds issued by this admin</param>
+    /// <param name="page">Page number (default: 1)</param>
+    /// <param name="pageSize">Number of refunds per page (default: 20)</param>
+    /// <returns>JsonModel containing a page of refunds with pagination metadata</returns>
+    /// <remarks>
+    /// This endpoint:
+    /// - Lists refunds issued through process-refund
+    /// - Includes the patient, plan, payment and the admin who issued each refund
+    /// - Access restricted to administrators only
+    /// </remarks>
+    [HttpGet("refunds")]
+    [ResponseData(typeof(List<RefundLedgerEntryDto>))]
+    public async Task<JsonModel> GetRefunds(
+        [FromQuery] DateTime? startDate = null,
+        [FromQuery] DateTime? endDate = null,
+        [FromQuery] string? planId = null,
+        [FromQuery] int? refundedBy = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 20)
+    {
+        return await _billingService.GetRefundsAsync(startDate, endDate, planId, refundedBy, page, pageSize, GetToken(HttpContext));
+    }
+
     /// <summary>
     /// Retrieves the complete billing history for a specific user.
     /// This endpoint returns all billing records associated with the specified user,
@@ -262,6 +293,7 @@ public class BillingController : BaseController
     /// - Includes refund validation and business rule checks
     /// </remarks>
     [HttpPost("{id}/process-refund")]
+    [ResponseData(typeof(BillingRecordDto))]
     public async Task<JsonModel> ProcessRefund(Guid id, [FromBody] RefundRequestDto refundRequest)
     {
         return await _billingService.ProcessRefundAsync(id, refundRequest.Amount, refundRequest.Reason, GetToken(HttpContext));
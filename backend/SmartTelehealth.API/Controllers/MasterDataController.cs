@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using SmartTelehealth.Application.Interfaces;
 using SmartTelehealth.Application.DTOs;
+using SmartTelehealth.API.Filters;
 
 namespace SmartTelehealth.API.Controllers;
 
@@ -32,10 +33,12 @@ public class MasterDataController : BaseController
     /// This endpoint provides comprehensive billing cycle information including cycle types,
     /// durations, and billing configuration details for subscription and billing management.
     /// </summary>
+    /// <param name="includeInactive">Whether to include inactive billing cycles</param>
+    /// <param name="includeDeleted">Whether to include soft-deleted billing cycles</param>
     /// <returns>JsonModel containing all billing cycles with configuration details</returns>
     /// <remarks>
     /// This endpoint:
-    /// - Returns all billing cycles configured in the system
+    /// - Returns active billing cycles unless includeInactive or includeDeleted is set
     /// - Includes billing cycle types, durations, and configuration details
     /// - Shows billing cycle settings and subscription options
     /// - Access restricted to authenticated users
@@ -45,9 +48,84 @@ public class MasterDataController : BaseController
     /// - Handles billing cycle data retrieval and error responses
     /// </remarks>
     [HttpGet("billing-cycles")]
-    public async Task<JsonModel> GetBillingCycles()
+    [ResponseData(typeof(List<MasterBillingCycleDto>))]
+    public async Task<JsonModel> GetBillingCycles([FromQuery] bool includeInactive = false, [FromQuery] bool includeDeleted = false)
     {
-        return await _masterDataService.GetBillingCyclesAsync(GetToken(HttpContext));
+        return await _masterDataService.GetBillingCyclesAsync(includeInactive, includeDeleted, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Creates a billing cycle.
+    /// </summary>
+    /// <param name="createDto">The billing cycle to create</param>
+    /// <returns>JsonModel containing the created billing cycle or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// </remarks>
+    [HttpPost("billing-cycles")]
+    [ResponseData(typeof(MasterBillingCycleDto))]
+    public async Task<JsonModel> CreateBillingCycle([FromBody] SaveMasterBillingCycleDto createDto)
+    {
+        return await _masterDataService.CreateBillingCycleAsync(createDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Updates a billing cycle, including its sort order and whether it is active.
+    /// </summary>
+    /// <param name="id">The unique identifier of the billing cycle</param>
+    /// <param name="updateDto">The new values of the billing cycle</param>
+    /// <returns>JsonModel containing the updated billing cycle or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the billing cycle doesn't exist or is deleted
+    /// - Returns 400 Bad Request when deactivating a billing cycle used by active plans
+    /// </remarks>
+    [HttpPut("billing-cycles/{id}")]
+    [ResponseData(typeof(MasterBillingCycleDto))]
+    public async Task<JsonModel> UpdateBillingCycle(Guid id, [FromBody] SaveMasterBillingCycleDto updateDto)
+    {
+        return await _masterDataService.UpdateBillingCycleAsync(id, updateDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Soft-deletes a billing cycle. It keeps its id, so records that point at it still show it, and it can be restored.
+    /// </summary>
+    /// <param name="id">The unique identifier of the billing cycle</param>
+    /// <returns>JsonModel indicating whether the billing cycle was deleted</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the billing cycle doesn't exist or is already deleted
+    /// - Returns 400 Bad Request when the billing cycle is used by plans, live subscriptions or plan privilege usage periods
+    /// </remarks>
+    [HttpDelete("billing-cycles/{id}")]
+    [ResponseData(typeof(bool))]
+    public async Task<JsonModel> DeleteBillingCycle(Guid id)
+    {
+        return await _masterDataService.DeleteBillingCycleAsync(id, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Restores a soft-deleted billing cycle.
+    /// </summary>
+    /// <param name="id">The unique identifier of the deleted billing cycle</param>
+    /// <returns>JsonModel containing the restored billing cycle or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if there is no deleted billing cycle with this id
+    /// </remarks>
+    [HttpPost("billing-cycles/{id}/restore")]
+    [ResponseData(typeof(MasterBillingCycleDto))]
+    public async Task<JsonModel> RestoreBillingCycle(Guid id)
+    {
+        return await _masterDataService.RestoreBillingCycleAsync(id, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -55,10 +133,12 @@ public class MasterDataController : BaseController
     /// This endpoint provides comprehensive currency information including currency codes,
     /// symbols, exchange rates, and currency configuration details for payment processing.
     /// </summary>
+    /// <param name="includeInactive">Whether to include inactive currencies</param>
+    /// <param name="includeDeleted">Whether to include soft-deleted currencies</param>
     /// <returns>JsonModel containing all supported currencies with configuration details</returns>
     /// <remarks>
     /// This endpoint:
-    /// - Returns all currencies supported by the system
+    /// - Returns active currencies unless includeInactive or includeDeleted is set
     /// - Includes currency codes, symbols, and exchange rate information
     /// - Shows currency configuration and payment processing details
     /// - Access restricted to authenticated users
@@ -68,9 +148,121 @@ public class MasterDataController : BaseController
     /// - Handles currency data retrieval and error responses
     /// </remarks>
     [HttpGet("currencies")]
-    public async Task<JsonModel> GetCurrencies()
+    [ResponseData(typeof(List<MasterCurrencyDto>))]
+    public async Task<JsonModel> GetCurrencies([FromQuery] bool includeInactive = false, [FromQuery] bool includeDeleted = false)
     {
-        return await _masterDataService.GetCurrenciesAsync(GetToken(HttpContext));
+        return await _masterDataService.GetCurrenciesAsync(includeInactive, includeDeleted, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Creates a currency.
+    /// </summary>
+    /// <param name="createDto">The currency to create</param>
+    /// <returns>JsonModel containing the created currency or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// </remarks>
+    [HttpPost("currencies")]
+    [ResponseData(typeof(MasterCurrencyDto))]
+    public async Task<JsonModel> CreateCurrency([FromBody] SaveMasterCurrencyDto createDto)
+    {
+        return await _masterDataService.CreateCurrencyAsync(createDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Updates a currency, including its sort order and whether it is active.
+    /// </summary>
+    /// <param name="id">The unique identifier of the currency</param>
+    /// <param name="updateDto">The new values of the currency</param>
+    /// <returns>JsonModel containing the updated currency or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the currency doesn't exist or is deleted
+    /// - Returns 400 Bad Request when deactivating a currency used by active plans
+    /// </remarks>
+    [HttpPut("currencies/{id}")]
+    [ResponseData(typeof(MasterCurrencyDto))]
+    public async Task<JsonModel> UpdateCurrency(Guid id, [FromBody] SaveMasterCurrencyDto updateDto)
+    {
+        return await _masterDataService.UpdateCurrencyAsync(id, updateDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Soft-deletes a currency. It keeps its id, so records that point at it still show it, and it can be restored.
+    /// </summary>
+    /// <param name="id">The unique identifier of the currency</param>
+    /// <returns>JsonModel indicating whether the currency was deleted</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the currency doesn't exist or is already deleted
+    /// - Returns 400 Bad Request when the currency is used by plans
+    /// </remarks>
+    [HttpDelete("currencies/{id}")]
+    [ResponseData(typeof(bool))]
+    public async Task<JsonModel> DeleteCurrency(Guid id)
+    {
+        return await _masterDataService.DeleteCurrencyAsync(id, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Restores a soft-deleted currency.
+    /// </summary>
+    /// <param name="id">The unique identifier of the deleted currency</param>
+    /// <returns>JsonModel containing the restored currency or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if there is no deleted currency with this id
+    /// </remarks>
+    [HttpPost("currencies/{id}/restore")]
+    [ResponseData(typeof(MasterCurrencyDto))]
+    public async Task<JsonModel> RestoreCurrency(Guid id)
+    {
+        return await _masterDataService.RestoreCurrencyAsync(id, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Retrieves the exchange rates used to convert revenue to the reporting currency (USD).
+    /// Each currency that is not deleted is listed; its rate is null until an admin sets it.
+    /// </summary>
+    /// <returns>JsonModel containing the exchange rate of each currency</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Access restricted to authenticated users
+    /// - The reporting currency is listed with a rate of 1
+    /// </remarks>
+    [HttpGet("exchange-rates")]
+    [ResponseData(typeof(List<ExchangeRateDto>))]
+    public async Task<JsonModel> GetExchangeRates()
+    {
+        return await _masterDataService.GetExchangeRatesAsync(GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Sets how many units of the reporting currency one unit of a currency is worth.
+    /// </summary>
+    /// <param name="currencyId">The unique identifier of the currency</param>
+    /// <param name="saveDto">The new rate</param>
+    /// <returns>JsonModel containing the saved exchange rate or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the currency doesn't exist or is deleted
+    /// - Returns 400 Bad Request for the reporting currency or a rate that is not positive
+    /// </remarks>
+    [HttpPut("exchange-rates/{currencyId}")]
+    [ResponseData(typeof(ExchangeRateDto))]
+    public async Task<JsonModel> SaveExchangeRate(Guid currencyId, [FromBody] SaveExchangeRateDto saveDto)
+    {
+        return await _masterDataService.SaveExchangeRateAsync(currencyId, saveDto, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -78,10 +270,12 @@ public class MasterDataController : BaseController
     /// This endpoint provides comprehensive privilege type information including privilege categories,
     /// descriptions, and privilege configuration details for access control and permission management.
     /// </summary>
+    /// <param name="includeInactive">Whether to include inactive privilege types</param>
+    /// <param name="includeDeleted">Whether to include soft-deleted privilege types</param>
     /// <returns>JsonModel containing all privilege types with configuration details</returns>
     /// <remarks>
     /// This endpoint:
-    /// - Returns all privilege types available in the system
+    /// - Returns active privilege types unless includeInactive or includeDeleted is set
     /// - Includes privilege categories, descriptions, and configuration details
     /// - Shows privilege settings and access control options
     /// - Access restricted to authenticated users
@@ -91,8 +285,83 @@ public class MasterDataController : BaseController
     /// - Handles privilege data retrieval and error responses
     /// </remarks>
     [HttpGet("privilege-types")]
-    public async Task<JsonModel> GetPrivilegeTypes()
+    [ResponseData(typeof(List<MasterPrivilegeTypeDto>))]
+    public async Task<JsonModel> GetPrivilegeTypes([FromQuery] bool includeInactive = false, [FromQuery] bool includeDeleted = false)
+    {
+        return await _masterDataService.GetPrivilegeTypesAsync(includeInactive, includeDeleted, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Creates a privilege type.
+    /// </summary>
+    /// <param name="createDto">The privilege type to create</param>
+    /// <returns>JsonModel containing the created privilege type or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// </remarks>
+    [HttpPost("privilege-types")]
+    [ResponseData(typeof(MasterPrivilegeTypeDto))]
+    public async Task<JsonModel> CreatePrivilegeType([FromBody] SaveMasterPrivilegeTypeDto createDto)
+    {
+        return await _masterDataService.CreatePrivilegeTypeAsync(createDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Updates a privilege type, including its sort order and whether it is active.
+    /// </summary>
+    /// <param name="id">The unique identifier of the privilege type</param>
+    /// <param name="updateDto">The new values of the privilege type</param>
+    /// <returns>JsonModel containing the updated privilege type or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the privilege type doesn't exist or is deleted
+    /// - Returns 400 Bad Request when deactivating a privilege type used by active privileges
+    /// </remarks>
+    [HttpPut("privilege-types/{id}")]
+    [ResponseData(typeof(MasterPrivilegeTypeDto))]
+    public async Task<JsonModel> UpdatePrivilegeType(Guid id, [FromBody] SaveMasterPrivilegeTypeDto updateDto)
+    {
+        return await _masterDataService.UpdatePrivilegeTypeAsync(id, updateDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Soft-deletes a privilege type. It keeps its id, so records that point at it still show it, and it can be restored.
+    /// </summary>
+    /// <param name="id">The unique identifier of the privilege type</param>
+    /// <returns>JsonModel indicating whether the privilege type was deleted</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the privilege type doesn't exist or is already deleted
+    /// - Returns 400 Bad Request when the privilege type is used by privileges
+    /// </remarks>
+    [HttpDelete("privilege-types/{id}")]
+    [ResponseData(typeof(bool))]
+    public async Task<JsonModel> DeletePrivilegeType(Guid id)
+    {
+        return await _masterDataService.DeletePrivilegeTypeAsync(id, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Restores a soft-deleted privilege type.
+    /// </summary>
+    /// <param name="id">The unique identifier of the deleted privilege type</param>
+    /// <returns>JsonModel containing the restored privilege type or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if there is no deleted privilege type with this id
+    /// </remarks>
+    [HttpPost("privilege-types/{id}/restore")]
+    [ResponseData(typeof(MasterPrivilegeTypeDto))]
+    public async Task<JsonModel> RestorePrivilegeType(Guid id)
     {
-        return await _masterDataService.GetPrivilegeTypesAsync(GetToken(HttpContext));
+        return await _masterDataService.RestorePrivilegeTypeAsync(id, GetToken(HttpContext));
     }
 }
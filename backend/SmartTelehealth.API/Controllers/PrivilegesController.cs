@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using SmartTelehealth.Application.DTOs;
 using SmartTelehealth.Application.Interfaces;
+using SmartTelehealth.API.Filters;
 using SmartTelehealth.Core.Entities;
 
 namespace SmartTelehealth.API.Controllers;
@@ -224,4 +225,24 @@ public class PrivilegesController : BaseController
     {
         return await _privilegeService.ExportUsageDataAsync(format, privilegeId, userId, subscriptionId, startDate, endDate, GetToken(HttpContext));
     }
+
+    /// <summary>
+    /// Grant one-off extra usage of a privilege to a subscription for the current usage period
+    /// </summary>
+    [HttpPost("usage/grant")]
+    [ResponseData(typeof(PrivilegeUsageDto))]
+    public async Task<JsonModel> GrantUsage([FromBody] GrantPrivilegeUsageDto grantDto)
+    {
+        return await _privilegeService.GrantPrivilegeUsageAsync(grantDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Reset a subscription's usage counter for a privilege
+    /// </summary>
+    [HttpPost("usage/reset")]
+    [ResponseData(typeof(PrivilegeUsageDto))]
+    public async Task<JsonModel> ResetUsage([FromBody] ResetPrivilegeUsageDto resetDto)
+    {
+        return await _privilegeService.ResetPrivilegeUsageAsync(resetDto, GetToken(HttpContext));
+    }
 } 
\ No newline at end of file
@@ -34,6 +34,7 @@ public class SubscriptionAnalyticsController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for analytics data range (optional)</param>
     /// <param name="endDate">End date for analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing comprehensive subscription analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -47,9 +48,9 @@ public class SubscriptionAnalyticsController : BaseController
     /// - Includes subscription health metrics and performance indicators
     /// </remarks>
     [HttpGet]
-    public async Task<JsonModel> GetSubscriptionAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate)
+    public async Task<JsonModel> GetSubscriptionAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate, [FromQuery] Guid? currencyId)
     {
-        return await _analyticsService.GetSubscriptionAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetSubscriptionAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -59,6 +60,7 @@ public class SubscriptionAnalyticsController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for revenue analytics data range (optional)</param>
     /// <param name="endDate">End date for revenue analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing detailed revenue analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -72,9 +74,9 @@ public class SubscriptionAnalyticsController : BaseController
     /// - Includes revenue per customer and lifetime value metrics
     /// </remarks>
     [HttpGet("revenue")]
-    public async Task<JsonModel> GetRevenueAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate)
+    public async Task<JsonModel> GetRevenueAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate, [FromQuery] Guid? currencyId)
     {
-        return await _analyticsService.GetRevenueAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetRevenueAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -84,6 +86,7 @@ public class SubscriptionAnalyticsController : BaseController
     /// </summary>
     /// <param name="startDate">Start date for churn analytics data range (optional)</param>
     /// <param name="endDate">End date for churn analytics data range (optional)</param>
+    /// <param name="currencyId">Only include plans and billing records in this currency (optional)</param>
     /// <returns>JsonModel containing churn and retention analytics data</returns>
     /// <remarks>
     /// This endpoint:
@@ -97,9 +100,9 @@ public class SubscriptionAnalyticsController : BaseController
     /// - Includes cohort analysis and retention cohort metrics
     /// </remarks>
     [HttpGet("churn")]
-    public async Task<JsonModel> GetChurnAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate)
+    public async Task<JsonModel> GetChurnAnalytics([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate, [FromQuery] Guid? currencyId)
     {
-        return await _analyticsService.GetChurnAnalyticsAsync(startDate, endDate, GetToken(HttpContext));
+        return await _analyticsService.GetChurnAnalyticsAsync(startDate, endDate, currencyId, GetToken(HttpContext));
     }
 
     /// <summary>
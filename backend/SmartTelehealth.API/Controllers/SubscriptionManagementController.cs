@@ -304,7 +304,7 @@ public class SubscriptionManagementController : BaseController
     [HttpPost("subscriptions/{id}/pause")]
     public async Task<JsonModel> PauseUserSubscription(string id, [FromBody] string? reason = null)
     {
-        return await _subscriptionLifecycleService.PauseSubscriptionAsync(id, GetToken(HttpContext));
+        return await _subscriptionLifecycleService.PauseSubscriptionAsync(id, GetToken(HttpContext), reason);
     }
 
     /// <summary>
@@ -360,7 +360,7 @@ public class SubscriptionManagementController : BaseController
             return new JsonModel { data = new object(), Message = "New end date must be in the future", StatusCode = 400 };
         }
         
-        return await _subscriptionLifecycleService.ExtendUserSubscriptionAsync(id, additionalDays, GetToken(HttpContext));
+        return await _subscriptionLifecycleService.ExtendUserSubscriptionAsync(id, additionalDays, GetToken(HttpContext), extendDto.Reason);
     }
 
     #endregion
@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using SmartTelehealth.Application.DTOs;
 using SmartTelehealth.Application.Interfaces;
+using SmartTelehealth.API.Filters;
 using Microsoft.AspNetCore.Http;
 
 namespace SmartTelehealth.API.Controllers;
@@ -18,14 +19,17 @@ namespace SmartTelehealth.API.Controllers;
 public class SubscriptionPlansController : BaseController
 {
     private readonly ISubscriptionPlanService _subscriptionPlanService;
+    private readonly IPlanVersionService _planVersionService;
 
     /// <summary>
-    /// Initializes a new instance of the SubscriptionPlansController with the required subscription plan service.
+    /// Initializes a new instance of the SubscriptionPlansController with the required subscription plan services.
     /// </summary>
     /// <param name="subscriptionPlanService">Service for handling subscription plan-related business logic</param>
-    public SubscriptionPlansController(ISubscriptionPlanService subscriptionPlanService)
+    /// <param name="planVersionService">Service for publishing versions of subscription plans</param>
+    public SubscriptionPlansController(ISubscriptionPlanService subscriptionPlanService, IPlanVersionService planVersionService)
     {
         _subscriptionPlanService = subscriptionPlanService;
+        _planVersionService = planVersionService;
     }
 
 
@@ -261,6 +265,7 @@ public class SubscriptionPlansController : BaseController
     /// - Handles plan validation and error responses
     /// </remarks>
     [HttpGet("admin/{planId}")]
+    [ResponseData(typeof(SubscriptionPlanDto))]
     public async Task<JsonModel> GetSubscriptionPlan(string planId)
     {
         return await _subscriptionPlanService.GetSubscriptionPlanAsync(planId, GetToken(HttpContext));
@@ -287,6 +292,7 @@ public class SubscriptionPlansController : BaseController
     /// - Maintains plan creation audit trails and history
     /// </remarks>
     [HttpPost("admin")]
+    [ResponseData(typeof(SubscriptionPlanDto))]
     public async Task<JsonModel> CreateSubscriptionPlan([FromBody] CreateSubscriptionPlanDto createDto)
     {
         return await _subscriptionPlanService.CreatePlanAsync(createDto, GetToken(HttpContext));
@@ -314,11 +320,96 @@ public class SubscriptionPlansController : BaseController
     /// - Maintains plan update audit trails and change history
     /// </remarks>
     [HttpPut("admin/{planId}")]
+    [ResponseData(typeof(SubscriptionPlanDto))]
     public async Task<JsonModel> UpdateSubscriptionPlan(string planId, [FromBody] UpdateSubscriptionPlanDto updateDto)
     {
         return await _subscriptionPlanService.UpdatePlanAsync(planId, updateDto, GetToken(HttpContext));
     }
 
+    /// <summary>
+    /// Sets the order plans are listed in without changing anything else about them.
+    /// </summary>
+    /// <param name="displayOrders">The new display order of each plan</param>
+    /// <returns>JsonModel containing the saved display order or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if a plan doesn't exist; no plan is changed in that case
+    /// - Returns 400 Bad Request if a plan is listed twice
+    /// </remarks>
+    [HttpPut("admin/display-order")]
+    [ResponseData(typeof(List<PlanDisplayOrderDto>))]
+    public async Task<JsonModel> UpdatePlanDisplayOrder([FromBody] List<PlanDisplayOrderDto> displayOrders)
+    {
+        return await _subscriptionPlanService.UpdatePlanDisplayOrderAsync(displayOrders, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Retrieves the published and scheduled versions of a subscription plan, newest first.
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <returns>JsonModel containing the plan versions with the number of subscribers billed at each</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 404 Not Found if the plan doesn't exist
+    /// </remarks>
+    [HttpGet("admin/{planId}/versions")]
+    [ResponseData(typeof(List<PlanVersionDto>))]
+    public async Task<JsonModel> GetPlanVersions(string planId)
+    {
+        return await _planVersionService.GetPlanVersionsAsync(planId, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Publishes a new version of a subscription plan.
+    /// A version without a future effective date is applied to the plan right away; otherwise it is
+    /// scheduled and applied by the subscription background service on its effective date.
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <param name="createDto">The plan, privileges, effective date, notice and migration policy of the version</param>
+    /// <returns>JsonModel containing the created version or error information</returns>
+    /// <remarks>
+    /// Migration policies for existing subscribers:
+    /// - Grandfather: they keep the price of the version they are on
+    /// - NextRenewal: they move to the new price at their first renewal after the effective date
+    /// - Immediate: they move to the new price on the effective date
+    /// Privilege changes apply to everyone on the plan from the effective date, whatever the policy.
+    ///
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 400 Bad Request if the plan already has a scheduled version, or if the effective date
+    ///   leaves less than the notice period for a policy that changes existing subscribers' price
+    /// </remarks>
+    [HttpPost("admin/{planId}/versions")]
+    [ResponseData(typeof(PlanVersionDto))]
+    public async Task<JsonModel> CreatePlanVersion(string planId, [FromBody] CreatePlanVersionDto createDto)
+    {
+        return await _planVersionService.CreatePlanVersionAsync(planId, createDto, GetToken(HttpContext));
+    }
+
+    /// <summary>
+    /// Cancels a scheduled version of a subscription plan before it takes effect.
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <param name="versionId">The unique identifier of the scheduled version</param>
+    /// <returns>JsonModel containing the cancelled version or error information</returns>
+    /// <remarks>
+    /// Access Control:
+    /// - Admin access required
+    /// - Returns 403 Forbidden for non-admin users
+    /// - Returns 400 Bad Request if the version has already taken effect
+    /// </remarks>
+    [HttpDelete("admin/{planId}/versions/{versionId}")]
+    [ResponseData(typeof(PlanVersionDto))]
+    public async Task<JsonModel> CancelPlanVersion(string planId, string versionId)
+    {
+        return await _planVersionService.CancelPlanVersionAsync(planId, versionId, GetToken(HttpContext));
+    }
+
     /// <summary>
     /// Deletes a subscription plan from the system for administrative management.
     /// This endpoint handles subscription plan deletion including validation, dependency checking,
@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using SmartTelehealth.Application.DTOs;
 using SmartTelehealth.Application.Interfaces;
+using SmartTelehealth.API.Filters;
 
 namespace SmartTelehealth.API.Controllers;
 
@@ -227,6 +228,7 @@ public class SubscriptionsController : BaseController
     /// - Access restricted to subscription owner or admins
     /// </remarks>
     [HttpGet("{id}/billing-history")]
+    [ResponseData(typeof(List<BillingHistoryDto>))]
     public async Task<JsonModel> GetBillingHistory(string id)
     {
         return await _subscriptionService.GetBillingHistoryAsync(id, GetToken(HttpContext));
@@ -379,6 +381,7 @@ public class SubscriptionsController : BaseController
     /// - Used for usage monitoring and optimization
     /// </remarks>
     [HttpGet("{id}/usage-statistics")]
+    [ResponseData(typeof(UsageStatisticsDto))]
     public async Task<JsonModel> GetUsageStatistics(string id)
     {
         return await _subscriptionService.GetUsageStatisticsAsync(id, GetToken(HttpContext));
@@ -621,12 +624,15 @@ public class SubscriptionsController : BaseController
     /// and pause processing for administrative subscription management.
     /// </summary>
     /// <param name="id">The unique identifier of the subscription to pause</param>
+    /// <param name="request">The pause reason and the optional date the subscription resumes automatically</param>
     /// <returns>JsonModel containing the pause result</returns>
     /// <remarks>
     /// This endpoint:
     /// - Pauses a user subscription with administrative authority
     /// - Validates subscription status and pause eligibility
+    /// - Limits the resume date to the plan's maximum pause duration
     /// - Updates subscription status to paused
+    /// - Records the pause reason in the status history
     /// - Access restricted to administrators only
     /// - Used for administrative subscription pause and management
     /// - Includes comprehensive validation and error handling
@@ -634,9 +640,9 @@ public class SubscriptionsController : BaseController
     /// - Maintains subscription pause audit trails
     /// </remarks>
     [HttpPost("admin/{id}/pause")]
-    public async Task<JsonModel> PauseUserSubscription(string id)
+    public async Task<JsonModel> PauseUserSubscription(string id, [FromBody] PauseSubscriptionDto request)
     {
-        return await _subscriptionLifecycleService.PauseSubscriptionAsync(id, GetToken(HttpContext));
+        return await _subscriptionLifecycleService.PauseSubscriptionAsync(id, GetToken(HttpContext), request.Reason, request.ResumeDate);
     }
 
     /// <summary>
@@ -669,7 +675,7 @@ public class SubscriptionsController : BaseController
     /// and extension processing for administrative subscription management.
     /// </summary>
     /// <param name="id">The unique identifier of the subscription to extend</param>
-    /// <param name="additionalDays">Number of additional days to extend the subscription</param>
+    /// <param name="request">Number of additional days with the reason category and notes for the audit trail</param>
     /// <returns>JsonModel containing the extension result</returns>
     /// <remarks>
     /// This endpoint:
@@ -680,12 +686,29 @@ public class SubscriptionsController : BaseController
     /// - Used for administrative subscription extension and management
     /// - Includes comprehensive validation and error handling
     /// - Provides detailed feedback on extension operations
-    /// - Maintains subscription extension audit trails
+    /// - Records the reason category and notes in the subscription status history
     /// </remarks>
     [HttpPost("admin/{id}/extend")]
-    public async Task<JsonModel> ExtendUserSubscription(string id, [FromBody] int additionalDays)
+    public async Task<JsonModel> ExtendUserSubscription(string id, [FromBody] ExtendSubscriptionRequest request)
+    {
+        return await _subscriptionLifecycleService.ExtendUserSubscriptionAsync(id, request.AdditionalDays, GetToken(HttpContext), request.ReasonCategory, request.Notes);
+    }
+
+    /// <summary>
+    /// Retrieves the status history of a subscription for administrative review.
+    /// </summary>
+    /// <param name="id">The unique identifier of the subscription</param>
+    /// <returns>JsonModel containing the status history, newest first</returns>
+    /// <remarks>
+    /// This endpoint:
+    /// - Returns every recorded status change with its reason, notes and who made it
+    /// - Includes extensions and renewals, which keep the same status
+    /// - Access restricted to administrators or the subscription owner
+    /// </remarks>
+    [HttpGet("admin/{id}/history")]
+    public async Task<JsonModel> GetSubscriptionHistory(string id)
     {
-        return await _subscriptionLifecycleService.ExtendUserSubscriptionAsync(id, additionalDays, GetToken(HttpContext));
+        return await _subscriptionLifecycleService.GetSubscriptionStatusHistoryAsync(id, GetToken(HttpContext));
     }
 
     /// <summary>
@@ -0,0 +1,41 @@
+using System.Reflection;
+using Microsoft.OpenApi.Models;
+using SmartTelehealth.Application.DTOs;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace SmartTelehealth.API.Filters;
+
+/// <summary>
+/// Describes the 200 response of actions marked with <see cref="ResponseDataAttribute"/> as a JsonModel
+/// whose data property has the declared type, instead of a JsonModel with an untyped data object.
+/// </summary>
+public class JsonModelResponseOperationFilter : IOperationFilter
+{
+    public void Apply(OpenApiOperation operation, OperationFilterContext context)
+    {
+        var attribute = context.MethodInfo.GetCustomAttribute<ResponseDataAttribute>();
+        if (attribute == null || !operation.Responses.TryGetValue("200", out var response))
+            return;
+
+        var schema = new OpenApiSchema
+        {
+            AllOf = new List<OpenApiSchema>
+            {
+                context.SchemaGenerator.GenerateSchema(typeof(JsonModel), context.SchemaRepository),
+                new OpenApiSchema
+                {
+                    Type = "object",
+                    Properties = new Dictionary<string, OpenApiSchema>
+                    {
+                        ["data"] = context.SchemaGenerator.GenerateSchema(attribute.DataType, context.SchemaRepository)
+                    }
+                }
+            }
+        };
+
+        foreach (var content in response.Content.Values)
+        {
+            content.Schema = schema;
+        }
+    }
+}
@@ -0,0 +1,16 @@
+namespace SmartTelehealth.API.Filters;
+
+/// <summary>
+/// Declares the type an action returns in JsonModel.data when it succeeds, so the OpenAPI document
+/// (and the admin portal types generated from it) can describe the response.
+/// </summary>
+[AttributeUsage(AttributeTargets.Method, AllowMultiple = false)]
+public class ResponseDataAttribute : Attribute
+{
+    public ResponseDataAttribute(Type dataType)
+    {
+        DataType = dataType;
+    }
+
+    public Type DataType { get; }
+}
@@ -50,6 +50,7 @@ builder.Services.AddSwaggerGen(options =>
     options.CustomSchemaIds(type => type.FullName);
     options.SupportNonNullableReferenceTypes();
     options.SchemaFilter<IgnoreNavigationPropertiesSchemaFilter>();
+    options.OperationFilter<JsonModelResponseOperationFilter>();
 });
 
 // Database Configuration - Only register if not in test environment
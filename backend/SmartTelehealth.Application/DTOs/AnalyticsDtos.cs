@@ -36,6 +36,19 @@ namespace SmartTelehealth.Application.DTOs
         public int Subscriptions { get; set; }
     }
 
+    // Revenue in one currency as charged, and in the reporting currency when the currency has an exchange rate
+    public class CurrencyRevenueData
+    {
+        public Guid CurrencyId { get; set; }
+        public string Currency { get; set; } = string.Empty;
+        public decimal TotalRevenue { get; set; }
+        public decimal MonthlyRecurringRevenue { get; set; }
+        public int SubscriptionCount { get; set; }
+        public decimal? ExchangeRate { get; set; }
+        public decimal? NormalizedRevenue { get; set; }
+        public decimal? NormalizedMonthlyRecurringRevenue { get; set; }
+    }
+
     public class UserActivityAnalyticsDto
     {
         public int TotalUsers { get; set; }
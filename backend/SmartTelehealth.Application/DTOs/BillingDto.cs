@@ -19,6 +19,8 @@ public class BillingHistoryDto
     public string UserName { get; set; } = string.Empty;
     public string BillingType { get; set; } = string.Empty;
     public decimal Amount { get; set; }
+    public decimal TaxAmount { get; set; }
+    public decimal? RefundAmount { get; set; }
     public string Currency { get; set; } = "USD";
     public string Status { get; set; } = string.Empty;
     public DateTime DueDate { get; set; }
@@ -34,6 +36,7 @@ public class BillingHistoryDto
     public DateTime? PaidAt { get; set; }
     public string? StripeInvoiceId { get; set; }
     public string? StripePaymentIntentId { get; set; }
+    public string? FailureReason { get; set; }
 }
 
 public class CreateBillingAdjustmentDto
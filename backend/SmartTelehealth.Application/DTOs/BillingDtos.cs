@@ -62,6 +62,29 @@ public class BillingAdjustmentDto
     public string? Notes { get; set; }
 }
 
+/// <summary>
+/// A refund issued against a billing record, as listed in the refunds ledger
+/// </summary>
+public class RefundLedgerEntryDto
+{
+    public Guid Id { get; set; }
+    public Guid BillingRecordId { get; set; }
+    public string? InvoiceNumber { get; set; }
+    public string? SubscriptionId { get; set; }
+    public int UserId { get; set; }
+    public string UserName { get; set; } = string.Empty;
+    public string? PlanId { get; set; }
+    public string? PlanName { get; set; }
+    public decimal Amount { get; set; }
+    public decimal PaymentAmount { get; set; }
+    public string Currency { get; set; } = "USD";
+    public string Reason { get; set; } = string.Empty;
+    public DateTime RefundedAt { get; set; }
+    public int? RefundedBy { get; set; }
+    public string? RefundedByName { get; set; }
+    public string? StripePaymentIntentId { get; set; }
+}
+
 public class InvoiceDto
 {
     public Guid Id { get; set; }
@@ -0,0 +1,11 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartTelehealth.Application.DTOs;
+
+public class ChangeBillingCycleRequest
+{
+    [Required]
+    public string BillingCycleId { get; set; } = string.Empty;
+    
+    public string? Reason { get; set; }
+}
@@ -77,10 +77,64 @@ public class CreateSubscriptionPlanDto
     public DateTime? EffectiveDate { get; set; }
     public DateTime? ExpirationDate { get; set; }
     
+    // Prices in currencies other than CurrencyId
+    public List<PlanCurrencyPriceDto> CurrencyPrices { get; set; } = new List<PlanCurrencyPriceDto>();
+    
+    // Prices on billing cycles other than BillingCycleId
+    public List<PlanCyclePriceDto> CyclePrices { get; set; } = new List<PlanCyclePriceDto>();
+    
     // Privilege configuration - NEW
     public List<PlanPrivilegeDto> Privileges { get; set; } = new List<PlanPrivilegeDto>();
 }
 
+/// <summary>
+/// DTO for a subscription plan's price in a currency other than the plan's own
+/// </summary>
+public class PlanCurrencyPriceDto
+{
+    [Required]
+    [CustomValidation(typeof(PlanPrivilegeDto), nameof(PlanPrivilegeDto.ValidateGuidNotEmpty))]
+    public Guid CurrencyId { get; set; }
+    
+    // Filled in on responses
+    public string? CurrencyCode { get; set; }
+    
+    [Required]
+    [Range(0.01, double.MaxValue, ErrorMessage = "Price must be greater than 0")]
+    public decimal Price { get; set; }
+    
+    [Range(0.01, double.MaxValue, ErrorMessage = "Discounted price must be greater than 0")]
+    public decimal? DiscountedPrice { get; set; }
+    
+    // Stripe price charged in this currency; created on the plan's Stripe product when left empty
+    [MaxLength(100)]
+    public string? StripePriceId { get; set; }
+}
+
+/// <summary>
+/// DTO for a subscription plan's price on a billing cycle other than the plan's own
+/// </summary>
+public class PlanCyclePriceDto
+{
+    [Required]
+    [CustomValidation(typeof(PlanPrivilegeDto), nameof(PlanPrivilegeDto.ValidateGuidNotEmpty))]
+    public Guid BillingCycleId { get; set; }
+    
+    // Filled in on responses
+    public string? BillingCycleName { get; set; }
+    
+    [Required]
+    [Range(0.01, double.MaxValue, ErrorMessage = "Price must be greater than 0")]
+    public decimal Price { get; set; }
+    
+    [Range(0.01, double.MaxValue, ErrorMessage = "Discounted price must be greater than 0")]
+    public decimal? DiscountedPrice { get; set; }
+    
+    // Stripe price charged on this cycle; created on the plan's Stripe product when left empty
+    [MaxLength(100)]
+    public string? StripePriceId { get; set; }
+}
+
 /// <summary>
 /// DTO for configuring privileges within a subscription plan
 /// </summary>
@@ -0,0 +1,17 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartTelehealth.Application.DTOs;
+
+public class ExtendSubscriptionRequest
+{
+    [Range(1, 365)]
+    public int AdditionalDays { get; set; }
+    
+    [Required]
+    [MaxLength(50)]
+    public string ReasonCategory { get; set; } = string.Empty;
+    
+    [Required]
+    [MaxLength(1000)]
+    public string Notes { get; set; } = string.Empty;
+}
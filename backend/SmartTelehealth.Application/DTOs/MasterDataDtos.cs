@@ -0,0 +1,118 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartTelehealth.Application.DTOs;
+
+public class MasterBillingCycleDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int DurationInDays { get; set; }
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; }
+    public bool IsDeleted { get; set; }
+    public int? CreatedBy { get; set; }
+    public DateTime? CreatedDate { get; set; }
+    public int? UpdatedBy { get; set; }
+    public DateTime? UpdatedDate { get; set; }
+    public int? DeletedBy { get; set; }
+    public DateTime? DeletedDate { get; set; }
+}
+
+public class SaveMasterBillingCycleDto
+{
+    [Required]
+    [MaxLength(50)]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(200)]
+    public string? Description { get; set; }
+
+    [Range(1, int.MaxValue)]
+    public int DurationInDays { get; set; }
+
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; } = true;
+}
+
+public class MasterCurrencyDto
+{
+    public Guid Id { get; set; }
+    public string Code { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string? Symbol { get; set; }
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; }
+    public bool IsDeleted { get; set; }
+    public int? CreatedBy { get; set; }
+    public DateTime? CreatedDate { get; set; }
+    public int? UpdatedBy { get; set; }
+    public DateTime? UpdatedDate { get; set; }
+    public int? DeletedBy { get; set; }
+    public DateTime? DeletedDate { get; set; }
+}
+
+public class SaveMasterCurrencyDto
+{
+    // ISO 4217 code, e.g. USD
+    [Required]
+    [RegularExpression("^[A-Za-z]{3}$")]
+    public string Code { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(50)]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(10)]
+    public string? Symbol { get; set; }
+
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; } = true;
+}
+
+// How many units of the reporting currency one unit of a currency is worth; Rate is null until an admin sets it
+public class ExchangeRateDto
+{
+    public Guid CurrencyId { get; set; }
+    public string CurrencyCode { get; set; } = string.Empty;
+    public string CurrencyName { get; set; } = string.Empty;
+    public decimal? Rate { get; set; }
+    public bool IsReportingCurrency { get; set; }
+    public int? UpdatedBy { get; set; }
+    public DateTime? UpdatedDate { get; set; }
+}
+
+public class SaveExchangeRateDto
+{
+    [Range(0.000001, double.MaxValue, ErrorMessage = "Rate must be greater than 0")]
+    public decimal Rate { get; set; }
+}
+
+public class MasterPrivilegeTypeDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; }
+    public bool IsDeleted { get; set; }
+    public int? CreatedBy { get; set; }
+    public DateTime? CreatedDate { get; set; }
+    public int? UpdatedBy { get; set; }
+    public DateTime? UpdatedDate { get; set; }
+    public int? DeletedBy { get; set; }
+    public DateTime? DeletedDate { get; set; }
+}
+
+public class SaveMasterPrivilegeTypeDto
+{
+    [Required]
+    [MaxLength(50)]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(200)]
+    public string? Description { get; set; }
+
+    public int SortOrder { get; set; }
+    public bool IsActive { get; set; } = true;
+}
@@ -0,0 +1,48 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmartTelehealth.Application.DTOs;
+
+// A published version of a subscription plan
+public class PlanVersionDto
+{
+    public string Id { get; set; } = string.Empty;
+    public string SubscriptionPlanId { get; set; } = string.Empty;
+    public int VersionNumber { get; set; }
+    public string Status { get; set; } = string.Empty;
+    public decimal Price { get; set; }
+    public DateTime EffectiveDate { get; set; }
+    public DateTime? AppliedDate { get; set; }
+    public string MigrationPolicy { get; set; } = string.Empty;
+    public int NoticeDays { get; set; }
+    public DateTime? NoticeSentDate { get; set; }
+    public string? ChangeSummary { get; set; }
+
+    // Subscribers billed at this version's price
+    public int SubscriberCount { get; set; }
+
+    public UpdateSubscriptionPlanDto Plan { get; set; } = new();
+    public List<PlanPrivilegeDto> Privileges { get; set; } = new();
+    public int? CreatedBy { get; set; }
+    public DateTime? CreatedDate { get; set; }
+}
+
+public class CreatePlanVersionDto
+{
+    [Required]
+    public UpdateSubscriptionPlanDto Plan { get; set; } = new();
+
+    // The plan's current privileges are kept when not sent
+    public List<PlanPrivilegeDto>? Privileges { get; set; }
+
+    // Takes effect immediately when not sent or not in the future
+    public DateTime? EffectiveDate { get; set; }
+
+    [Required]
+    public string MigrationPolicy { get; set; } = string.Empty;
+
+    [Range(0, 365)]
+    public int NoticeDays { get; set; }
+
+    [MaxLength(500)]
+    public string? ChangeSummary { get; set; }
+}
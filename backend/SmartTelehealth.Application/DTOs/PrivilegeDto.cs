@@ -43,3 +43,36 @@ public class PrivilegeDto
     public DateTime CreatedDate { get; set; }
     public DateTime UpdatedDate { get; set; }
 }
+
+public class GrantPrivilegeUsageDto
+{
+    [Required]
+    public Guid SubscriptionId { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string PrivilegeName { get; set; } = string.Empty;
+
+    [Range(1, 1000)]
+    public int Amount { get; set; }
+
+    [Required]
+    [MinLength(10)]
+    [MaxLength(400)]
+    public string Reason { get; set; } = string.Empty;
+}
+
+public class ResetPrivilegeUsageDto
+{
+    [Required]
+    public Guid SubscriptionId { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string PrivilegeName { get; set; } = string.Empty;
+
+    [Required]
+    [MinLength(10)]
+    [MaxLength(400)]
+    public string Reason { get; set; } = string.Empty;
+}
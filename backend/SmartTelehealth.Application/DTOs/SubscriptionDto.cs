@@ -25,6 +25,7 @@ namespace SmartTelehealth.Application.DTOs
         public DateTime NextBillingDate { get; set; }
         public DateTime? PausedDate { get; set; }
         public DateTime? ResumedDate { get; set; }
+        public DateTime? ScheduledResumeDate { get; set; }
         public DateTime? CancelledDate { get; set; }
         public DateTime? ExpirationDate { get; set; }
         public string? CancellationReason { get; set; }
@@ -60,6 +61,7 @@ namespace SmartTelehealth.Application.DTOs
         public DateTime CreatedDate { get; set; }
         public DateTime UpdatedDate { get; set; }
         public Guid BillingCycleId { get; set; }
+        public string? BillingCycleName { get; set; }
         public Guid CurrencyId { get; set; }
     }
 
@@ -157,9 +159,9 @@ namespace SmartTelehealth.Application.DTOs
     public class PauseSubscriptionDto
     {
         [Required]
+        [MaxLength(500)]
         public string Reason { get; set; } = string.Empty;
         public DateTime? ResumeDate { get; set; }
-        public DateTime? PauseDate { get; set; }
     }
 
     public class SubscriptionReminderDto
@@ -188,11 +190,24 @@ namespace SmartTelehealth.Application.DTOs
         public Guid CategoryId { get; set; }
         public bool IsActive { get; set; }
         
-        // Marketing and display properties
-        public bool IsMostPopular { get; set; } = false;
-        public bool IsTrending { get; set; } = false;
+        // Marketing and display properties; left unchanged when not sent
+        public bool? IsFeatured { get; set; }
+        public bool? IsMostPopular { get; set; }
+        public bool? IsTrending { get; set; }
         
         public int? DisplayOrder { get; set; } // Added property
+        
+        // Prices in currencies other than CurrencyId; left unchanged when not sent
+        public List<PlanCurrencyPriceDto>? CurrencyPrices { get; set; }
+        
+        // Prices on billing cycles other than BillingCycleId; left unchanged when not sent
+        public List<PlanCyclePriceDto>? CyclePrices { get; set; }
+    }
+
+    public class PlanDisplayOrderDto
+    {
+        public string PlanId { get; set; } = string.Empty;
+        public int DisplayOrder { get; set; }
     }
 
     public class SubscriptionStatusHistoryDto
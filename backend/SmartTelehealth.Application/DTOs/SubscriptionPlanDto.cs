@@ -28,6 +28,12 @@ public class SubscriptionPlanDto
     public string? StripeMonthlyPriceId { get; set; }
     public string? StripeQuarterlyPriceId { get; set; }
     public string? StripeAnnualPriceId { get; set; }
+    
+    // Prices in currencies other than CurrencyId
+    public List<PlanCurrencyPriceDto> CurrencyPrices { get; set; } = new List<PlanCurrencyPriceDto>();
+    
+    // Prices on billing cycles other than BillingCycleId
+    public List<PlanCyclePriceDto> CyclePrices { get; set; } = new List<PlanCyclePriceDto>();
     public string? Features { get; set; }
     public string? Terms { get; set; }
     public DateTime? EffectiveDate { get; set; }
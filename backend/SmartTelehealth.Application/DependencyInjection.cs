@@ -104,9 +104,16 @@ public static class DependencyInjection
                 provider.GetRequiredService<SmartTelehealth.Core.Interfaces.IPrivilegeRepository>(),
                 provider.GetRequiredService<INotificationService>(),
                 provider.GetRequiredService<IUserService>(),
-                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.ISubscriptionRepository>()
+                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.ISubscriptionRepository>(),
+                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.IGenericRepository<SmartTelehealth.Core.Entities.SubscriptionPlanCurrencyPrice>>(),
+                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.IGenericRepository<SmartTelehealth.Core.Entities.MasterCurrency>>(),
+                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.IGenericRepository<SmartTelehealth.Core.Entities.SubscriptionPlanCyclePrice>>(),
+                provider.GetRequiredService<SmartTelehealth.Core.Interfaces.IGenericRepository<SmartTelehealth.Core.Entities.MasterBillingCycle>>()
             )
         );
+
+        // Register Plan Version Service
+        services.AddScoped<IPlanVersionService, PlanVersionService>();
         
         return services;
     }
@@ -15,6 +15,7 @@ public interface IBillingService
     Task<JsonModel> ProcessPaymentAsync(Guid billingRecordId, TokenModel tokenModel);
     Task<JsonModel> ProcessRefundAsync(Guid billingRecordId, decimal amount, TokenModel tokenModel);
     Task<JsonModel> ProcessRefundAsync(Guid billingRecordId, decimal amount, string reason, TokenModel tokenModel);
+    Task<JsonModel> GetRefundsAsync(DateTime? startDate, DateTime? endDate, string? planId, int? refundedBy, int page, int pageSize, TokenModel tokenModel);
     Task<JsonModel> GetOverdueBillingRecordsAsync(TokenModel tokenModel);
     Task<JsonModel> GetPendingPaymentsAsync(TokenModel tokenModel);
     Task<JsonModel> CalculateTotalAmountAsync(decimal baseAmount, decimal taxAmount, decimal shippingAmount, TokenModel tokenModel);
@@ -5,7 +5,24 @@ namespace SmartTelehealth.Application.Interfaces;
 
 public interface IMasterDataService
 {
-    Task<JsonModel> GetBillingCyclesAsync(TokenModel token);
-    Task<JsonModel> GetCurrenciesAsync(TokenModel token);
-    Task<JsonModel> GetPrivilegeTypesAsync(TokenModel token);
+    Task<JsonModel> GetBillingCyclesAsync(bool includeInactive, bool includeDeleted, TokenModel token);
+    Task<JsonModel> CreateBillingCycleAsync(SaveMasterBillingCycleDto createDto, TokenModel token);
+    Task<JsonModel> UpdateBillingCycleAsync(Guid id, SaveMasterBillingCycleDto updateDto, TokenModel token);
+    Task<JsonModel> DeleteBillingCycleAsync(Guid id, TokenModel token);
+    Task<JsonModel> RestoreBillingCycleAsync(Guid id, TokenModel token);
+
+    Task<JsonModel> GetCurrenciesAsync(bool includeInactive, bool includeDeleted, TokenModel token);
+    Task<JsonModel> CreateCurrencyAsync(SaveMasterCurrencyDto createDto, TokenModel token);
+    Task<JsonModel> UpdateCurrencyAsync(Guid id, SaveMasterCurrencyDto updateDto, TokenModel token);
+    Task<JsonModel> DeleteCurrencyAsync(Guid id, TokenModel token);
+    Task<JsonModel> RestoreCurrencyAsync(Guid id, TokenModel token);
+
+    Task<JsonModel> GetExchangeRatesAsync(TokenModel token);
+    Task<JsonModel> SaveExchangeRateAsync(Guid currencyId, SaveExchangeRateDto saveDto, TokenModel token);
+
+    Task<JsonModel> GetPrivilegeTypesAsync(bool includeInactive, bool includeDeleted, TokenModel token);
+    Task<JsonModel> CreatePrivilegeTypeAsync(SaveMasterPrivilegeTypeDto createDto, TokenModel token);
+    Task<JsonModel> UpdatePrivilegeTypeAsync(Guid id, SaveMasterPrivilegeTypeDto updateDto, TokenModel token);
+    Task<JsonModel> DeletePrivilegeTypeAsync(Guid id, TokenModel token);
+    Task<JsonModel> RestorePrivilegeTypeAsync(Guid id, TokenModel token);
 }
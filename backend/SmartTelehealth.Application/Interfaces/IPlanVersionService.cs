@@ -0,0 +1,48 @@
+using SmartTelehealth.Application.DTOs;
+using SmartTelehealth.Core.DTOs;
+
+namespace SmartTelehealth.Application.Interfaces;
+
+/// <summary>
+/// Service interface for publishing versions of subscription plans.
+/// A version records the plan and its privileges as published, the date it takes effect
+/// and whether existing subscribers keep their price, move at their next renewal or move immediately.
+/// </summary>
+public interface IPlanVersionService
+{
+    /// <summary>
+    /// Retrieves the versions of a subscription plan, newest first, with the number of subscribers on each
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <param name="tokenModel">Token containing user authentication information</param>
+    /// <returns>JsonModel containing the plan versions or error information</returns>
+    Task<JsonModel> GetPlanVersionsAsync(string planId, TokenModel tokenModel);
+
+    /// <summary>
+    /// Publishes a new version of a subscription plan. A version without a future effective date
+    /// is applied to the plan immediately; otherwise it is scheduled.
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <param name="createDto">The plan, privileges, effective date and migration policy of the version</param>
+    /// <param name="tokenModel">Token containing user authentication information</param>
+    /// <returns>JsonModel containing the created version or error information</returns>
+    Task<JsonModel> CreatePlanVersionAsync(string planId, CreatePlanVersionDto createDto, TokenModel tokenModel);
+
+    /// <summary>
+    /// Cancels a scheduled version before it takes effect
+    /// </summary>
+    /// <param name="planId">The unique identifier of the subscription plan</param>
+    /// <param name="versionId">The unique identifier of the scheduled version</param>
+    /// <param name="tokenModel">Token containing user authentication information</param>
+    /// <returns>JsonModel containing the cancelled version or error information</returns>
+    Task<JsonModel> CancelPlanVersionAsync(string planId, string versionId, TokenModel tokenModel);
+
+    /// <summary>
+    /// Sends notices for upcoming versions, applies the versions that are due and moves
+    /// subscribers whose renewal has arrived to the version they are waiting for.
+    /// Called by the subscription background service.
+    /// </summary>
+    /// <param name="tokenModel">Token containing system authentication information</param>
+    /// <returns>JsonModel containing the number of versions applied and subscriptions moved</returns>
+    Task<JsonModel> ProcessScheduledPlanVersionsAsync(TokenModel tokenModel);
+}
@@ -6,19 +6,19 @@ namespace SmartTelehealth.Application.Interfaces;
 public interface ISubscriptionAnalyticsService
 {
     /// <summary>
-    /// Get comprehensive subscription analytics for a date range
+    /// Get comprehensive subscription analytics for a date range, optionally limited to one currency
     /// </summary>
-    Task<JsonModel> GetSubscriptionAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel);
+    Task<JsonModel> GetSubscriptionAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel);
 
     /// <summary>
-    /// Get detailed revenue analytics for a date range
+    /// Get detailed revenue analytics for a date range, optionally limited to one currency
     /// </summary>
-    Task<JsonModel> GetRevenueAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel);
+    Task<JsonModel> GetRevenueAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel);
 
     /// <summary>
-    /// Get churn and retention analytics for a date range
+    /// Get churn and retention analytics for a date range, optionally limited to one currency
     /// </summary>
-    Task<JsonModel> GetChurnAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel);
+    Task<JsonModel> GetChurnAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel);
 
     /// <summary>
     /// Get usage analytics for a specific subscription
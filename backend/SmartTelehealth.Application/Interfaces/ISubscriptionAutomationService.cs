@@ -8,6 +8,7 @@ public interface ISubscriptionAutomationService
     Task<JsonModel> TriggerBillingAsync(TokenModel tokenModel);
     Task<JsonModel> RenewSubscriptionAsync(string subscriptionId, TokenModel tokenModel);
     Task<JsonModel> ChangePlanAsync(string subscriptionId, ChangePlanRequest request, TokenModel tokenModel);
+    Task<JsonModel> ChangeBillingCycleAsync(string subscriptionId, ChangeBillingCycleRequest request, TokenModel tokenModel);
     Task<JsonModel> ProcessAutomatedRenewalsAsync(TokenModel tokenModel);
     Task<JsonModel> ProcessExpiredSubscriptionsAsync(TokenModel tokenModel);
     
@@ -17,14 +17,14 @@ public interface ISubscriptionLifecycleService
     // Core Lifecycle Methods
     Task<JsonModel> CreateSubscriptionAsync(CreateSubscriptionDto createDto, TokenModel tokenModel);
     Task<JsonModel> CancelSubscriptionAsync(string subscriptionId, string? reason, TokenModel tokenModel);
-    Task<JsonModel> PauseSubscriptionAsync(string subscriptionId, TokenModel tokenModel);
+    Task<JsonModel> PauseSubscriptionAsync(string subscriptionId, TokenModel tokenModel, string? reason = null, DateTime? resumeDate = null);
     Task<JsonModel> ResumeSubscriptionAsync(string subscriptionId, TokenModel tokenModel);
     Task<JsonModel> ReactivateSubscriptionAsync(string subscriptionId, TokenModel tokenModel);
     Task<JsonModel> UpgradeSubscriptionAsync(string subscriptionId, string newPlanId, TokenModel tokenModel);
     Task<JsonModel> AutoRenewSubscriptionAsync(string subscriptionId, TokenModel tokenModel);
     Task<JsonModel> ProrateUpgradeAsync(string subscriptionId, string newPlanId, TokenModel tokenModel);
     Task<JsonModel> ChangeBillingCycleAsync(string subscriptionId, string newBillingCycleId, TokenModel tokenModel);
-    Task<JsonModel> ExtendUserSubscriptionAsync(string subscriptionId, int additionalDays, TokenModel tokenModel);
+    Task<JsonModel> ExtendUserSubscriptionAsync(string subscriptionId, int additionalDays, TokenModel tokenModel, string? reason = null, string? notes = null);
     Task<JsonModel> UpdateSubscriptionAsync(string subscriptionId, UpdateSubscriptionDto updateDto, TokenModel tokenModel);
 
     // Bulk Lifecycle Methods
@@ -41,6 +41,7 @@ public interface ISubscriptionLifecycleService
     Task<bool> MarkPaymentSucceededAsync(Guid subscriptionId, string? reason = null, TokenModel tokenModel = null);
     Task<bool> UpdateSubscriptionStatusAsync(Guid subscriptionId, string newStatus, string? reason = null, TokenModel tokenModel = null);
     Task<IEnumerable<SubscriptionStatusHistory>> GetStatusHistoryAsync(Guid subscriptionId, TokenModel tokenModel = null);
+    Task<JsonModel> GetSubscriptionStatusHistoryAsync(string subscriptionId, TokenModel tokenModel);
     Task<bool> ValidateStatusTransitionAsync(string currentStatus, string newStatus, TokenModel tokenModel = null);
     Task<string> GetNextValidStatusAsync(string currentStatus, TokenModel tokenModel = null);
     
@@ -80,6 +80,14 @@ public interface ISubscriptionPlanService
     /// <param name="tokenModel">Token containing user authentication information</param>
     /// <returns>JsonModel containing the activation result</returns>
     Task<JsonModel> ActivatePlanAsync(string planId, TokenModel tokenModel);
+
+    /// <summary>
+    /// Sets the display order of several plans without changing anything else about them
+    /// </summary>
+    /// <param name="displayOrders">The new display order of each plan</param>
+    /// <param name="tokenModel">Token containing user authentication information</param>
+    /// <returns>JsonModel containing the saved display order or error information</returns>
+    Task<JsonModel> UpdatePlanDisplayOrderAsync(List<PlanDisplayOrderDto> displayOrders, TokenModel tokenModel);
     
     
     #endregion
@@ -85,6 +85,7 @@ public class MappingProfile : Profile
             .ForMember(dest => dest.CanResume, opt => opt.MapFrom(src => src.CanResume))
             .ForMember(dest => dest.CanCancel, opt => opt.MapFrom(src => src.CanCancel))
             .ForMember(dest => dest.CanRenew, opt => opt.MapFrom(src => src.CanRenew))
+            .ForMember(dest => dest.BillingCycleName, opt => opt.MapFrom(src => src.BillingCycle != null ? src.BillingCycle.Name : null))
             .ForMember(dest => dest.CreatedDate, opt => opt.MapFrom(src => src.CreatedDate))
             .ForMember(dest => dest.UpdatedDate, opt => opt.MapFrom(src => src.UpdatedDate));
         CreateMap<SubscriptionStatusHistory, SubscriptionStatusHistoryDto>()
@@ -160,6 +161,8 @@ public class MappingProfile : Profile
             .ForMember(dest => dest.StripeMonthlyPriceId, opt => opt.MapFrom(src => src.StripeMonthlyPriceId))
             .ForMember(dest => dest.StripeQuarterlyPriceId, opt => opt.MapFrom(src => src.StripeQuarterlyPriceId))
             .ForMember(dest => dest.StripeAnnualPriceId, opt => opt.MapFrom(src => src.StripeAnnualPriceId))
+            .ForMember(dest => dest.CurrencyPrices, opt => opt.MapFrom(src => src.CurrencyPrices))
+            .ForMember(dest => dest.CyclePrices, opt => opt.MapFrom(src => src.CyclePrices))
             .ForMember(dest => dest.Features, opt => opt.MapFrom(src => src.Features))
             .ForMember(dest => dest.Terms, opt => opt.MapFrom(src => src.Terms))
             .ForMember(dest => dest.EffectiveDate, opt => opt.MapFrom(src => src.EffectiveDate))
@@ -169,6 +172,10 @@ public class MappingProfile : Profile
             .ForMember(dest => dest.IsCurrentlyAvailable, opt => opt.MapFrom(src => src.IsCurrentlyAvailable))
             .ForMember(dest => dest.CreatedDate, opt => opt.MapFrom(src => src.CreatedDate))
             .ForMember(dest => dest.UpdatedDate, opt => opt.MapFrom(src => src.UpdatedDate));
+        CreateMap<SubscriptionPlanCurrencyPrice, PlanCurrencyPriceDto>()
+            .ForMember(dest => dest.CurrencyCode, opt => opt.MapFrom(src => src.Currency != null ? src.Currency.Code : null));
+        CreateMap<SubscriptionPlanCyclePrice, PlanCyclePriceDto>()
+            .ForMember(dest => dest.BillingCycleName, opt => opt.MapFrom(src => src.BillingCycle != null ? src.BillingCycle.Name : null));
 
         // Category mappings
         CreateMap<Category, CategoryDto>()
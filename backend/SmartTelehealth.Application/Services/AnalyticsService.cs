@@ -1133,8 +1133,8 @@ public class AnalyticsService : IAnalyticsService
             var reportData = new
             {
                 Period = new { StartDate = start, EndDate = end },
-                SubscriptionAnalytics = await GetSubscriptionAnalyticsAsync(start, end, tokenModel),
-                RevenueAnalytics = await GetRevenueAnalyticsAsync(start, end, tokenModel),
+                SubscriptionAnalytics = (await GetSubscriptionAnalyticsAsync(start, end, tokenModel)).data,
+                RevenueAnalytics = (await GetRevenueAnalyticsAsync(start, end, tokenModel)).data,
                 TopCategories = await GetTopCategoriesAsync(start, end, tokenModel),
                 GeneratedAt = DateTime.UtcNow,
                 GeneratedBy = tokenModel?.UserID ?? 0
@@ -1155,7 +1155,16 @@ public class AnalyticsService : IAnalyticsService
     {
         try
         {
-            var reportData = await GenerateBillingReportAsync(startDate ?? DateTime.UtcNow.AddMonths(-1), endDate ?? DateTime.UtcNow, "pdf");
+            var start = startDate ?? DateTime.UtcNow.AddMonths(-1);
+            var end = endDate ?? DateTime.UtcNow;
+
+            var reportData = new
+            {
+                Period = new { StartDate = start, EndDate = end },
+                BillingAnalytics = (await GetBillingAnalyticsAsync(start, end, tokenModel)).data,
+                GeneratedAt = DateTime.UtcNow,
+                GeneratedBy = tokenModel?.UserID ?? 0
+            };
             _logger.LogInformation("Billing report generated by user {UserId}", tokenModel?.UserID ?? 0);
             return new JsonModel { data = reportData, Message = "Billing report generated successfully", StatusCode = 200 };
         }
@@ -1170,7 +1179,16 @@ public class AnalyticsService : IAnalyticsService
     {
         try
         {
-            var reportData = await GenerateUserReportAsync(startDate ?? DateTime.UtcNow.AddMonths(-1), endDate ?? DateTime.UtcNow, "pdf");
+            var start = startDate ?? DateTime.UtcNow.AddMonths(-1);
+            var end = endDate ?? DateTime.UtcNow;
+
+            var reportData = new
+            {
+                Period = new { StartDate = start, EndDate = end },
+                UserAnalytics = (await GetUserAnalyticsAsync(start, end, tokenModel)).data,
+                GeneratedAt = DateTime.UtcNow,
+                GeneratedBy = tokenModel?.UserID ?? 0
+            };
             _logger.LogInformation("User report generated by user {UserId}", tokenModel?.UserID ?? 0);
             return new JsonModel { data = reportData, Message = "User report generated successfully", StatusCode = 200 };
         }
@@ -31,6 +31,9 @@ public class SubscriptionBackgroundService : BackgroundService
         {
             try
             {
+                // Apply plan versions that are due before billing, so renewals are charged the new prices
+                await ProcessScheduledPlanVersionsAsync(stoppingToken);
+
                 // Process automated billing
                 await ProcessAutomatedBillingAsync(stoppingToken);
 
@@ -55,6 +58,28 @@ public class SubscriptionBackgroundService : BackgroundService
         _logger.LogInformation("Subscription Background Service stopped");
     }
 
+    private async Task ProcessScheduledPlanVersionsAsync(CancellationToken stoppingToken)
+    {
+        try
+        {
+            using var scope = _serviceProvider.CreateScope();
+            var planVersionService = scope.ServiceProvider.GetRequiredService<IPlanVersionService>();
+
+            // Create system-level token for background service operations
+            var systemToken = new TokenModel
+            {
+                UserID = 0, // System user ID
+                RoleID = 1  // Admin role
+            };
+
+            await planVersionService.ProcessScheduledPlanVersionsAsync(systemToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error processing scheduled plan versions");
+        }
+    }
+
     private async Task ProcessAutomatedBillingAsync(CancellationToken stoppingToken)
     {
         try
@@ -125,8 +150,30 @@ public class SubscriptionBackgroundService : BackgroundService
                 }
             }
 
-            _logger.LogInformation("Lifecycle management completed. Expired: {Expired}, Trial Expired: {TrialExpired}",
-                expiredCount, trialExpiredCount);
+            // Process scheduled resumes of paused subscriptions
+            var pausedSubscriptions = await subscriptionRepository.GetAllSubscriptionsAsync();
+            pausedSubscriptions = pausedSubscriptions.Where(s => s.Status == "Paused" && s.ScheduledResumeDate.HasValue);
+            var resumedCount = 0;
+            var systemToken = new TokenModel
+            {
+                UserID = 0, // System user ID
+                RoleID = 1  // Admin role
+            };
+
+            foreach (var subscription in pausedSubscriptions)
+            {
+                if (subscription.ScheduledResumeDate <= DateTime.UtcNow)
+                {
+                    var result = await lifecycleService.ResumeSubscriptionAsync(subscription.Id.ToString(), systemToken);
+                    if (result.StatusCode == 200)
+                    {
+                        resumedCount++;
+                    }
+                }
+            }
+
+            _logger.LogInformation("Lifecycle management completed. Expired: {Expired}, Trial Expired: {TrialExpired}, Resumed: {Resumed}",
+                expiredCount, trialExpiredCount, resumedCount);
         }
         catch (Exception ex)
         {
@@ -22,6 +22,8 @@ namespace SmartTelehealth.Application.Services
     {
         private readonly IBillingRepository _billingRepository;
         private readonly ISubscriptionRepository _subscriptionRepository;
+        private readonly IBillingAdjustmentRepository _billingAdjustmentRepository;
+        private readonly IStripeService _stripeService;
         private readonly IMapper _mapper;
         private readonly ILogger<BillingService> _logger;
 
@@ -30,16 +32,22 @@ namespace SmartTelehealth.Application.Services
         /// </summary>
         /// <param name="billingRepository">Repository for billing record data access operations</param>
         /// <param name="subscriptionRepository">Repository for subscription data access operations</param>
+        /// <param name="billingAdjustmentRepository">Repository for billing adjustments, including refunds</param>
+        /// <param name="stripeService">Stripe service used to refund card payments</param>
         /// <param name="mapper">AutoMapper instance for entity-DTO mapping</param>
         /// <param name="logger">Logger instance for logging operations and errors</param>
         public BillingService(
             IBillingRepository billingRepository,
             ISubscriptionRepository subscriptionRepository,
+            IBillingAdjustmentRepository billingAdjustmentRepository,
+            IStripeService stripeService,
             IMapper mapper,
             ILogger<BillingService> logger)
         {
             _billingRepository = billingRepository ?? throw new ArgumentNullException(nameof(billingRepository));
             _subscriptionRepository = subscriptionRepository ?? throw new ArgumentNullException(nameof(subscriptionRepository));
+            _billingAdjustmentRepository = billingAdjustmentRepository ?? throw new ArgumentNullException(nameof(billingAdjustmentRepository));
+            _stripeService = stripeService ?? throw new ArgumentNullException(nameof(stripeService));
             _mapper = mapper ?? throw new ArgumentNullException(nameof(mapper));
             _logger = logger ?? throw new ArgumentNullException(nameof(logger));
         }
@@ -118,6 +126,7 @@ namespace SmartTelehealth.Application.Services
                 }
 
                 var billingRecordDto = _mapper.Map<BillingRecordDto>(billingRecord);
+                await ApplyRefundTotalsAsync(billingRecordDto, billingRecord.Id);
                 return new JsonModel { data = billingRecordDto, Message = "Billing record retrieved successfully", StatusCode = 200 };
             }
             catch (Exception ex)
@@ -337,8 +346,12 @@ namespace SmartTelehealth.Application.Services
                         record.Id, record.SubscriptionId, record.Amount, record.Status);
                 }
                 
-                var billingRecordDtos = _mapper.Map<IEnumerable<BillingRecordDto>>(billingRecords);
-                _logger.LogInformation("Mapped {Count} billing record DTOs", billingRecordDtos.Count());
+                var billingRecordDtos = _mapper.Map<List<BillingRecordDto>>(billingRecords);
+                foreach (var dto in billingRecordDtos)
+                {
+                    await ApplyRefundTotalsAsync(dto, Guid.Parse(dto.Id));
+                }
+                _logger.LogInformation("Mapped {Count} billing record DTOs", billingRecordDtos.Count);
                 
                 return new JsonModel { data = billingRecordDtos, Message = "Subscription billing history retrieved successfully", StatusCode = 200 };
             }
@@ -1614,45 +1627,91 @@ namespace SmartTelehealth.Application.Services
         }
 
         /// <summary>
-        /// Processes a refund for a specific billing record with reason
+        /// Refunds all or part of a paid billing record and records the refund in the refunds ledger
         /// </summary>
         /// <param name="billingRecordId">The unique identifier of the billing record to process refund for</param>
         /// <param name="amount">The amount to refund</param>
         /// <param name="reason">The reason for the refund</param>
         /// <param name="tokenModel">Token containing user authentication information for audit purposes</param>
-        /// <returns>JsonModel containing refund processing results and status</returns>
+        /// <returns>JsonModel containing the billing record with its refunded total</returns>
         /// <exception cref="Exception">Thrown when refund processing fails</exception>
         /// <remarks>
         /// This method:
-        /// - Processes refund for the specified billing record with reason
-        /// - Validates refund amount and billing record information
-        /// - Returns comprehensive refund processing results
-        /// - Used for refund processing and management
-        /// - Ensures proper refund processing and validation
-        /// - Logs all refund processing activities for audit purposes
+        /// - Restricts refunds to administrators
+        /// - Only refunds paid billing records, up to the amount not yet refunded
+        /// - Refunds the card payment through Stripe when the record has a payment intent
+        /// - Records the refund as a Refund billing adjustment with the admin who issued it
+        /// - Marks the billing record as Refunded once it is refunded in full
         /// </remarks>
         public async Task<JsonModel> ProcessRefundAsync(Guid billingRecordId, decimal amount, string reason, TokenModel tokenModel)
         {
             try
             {
+                if (tokenModel.RoleID != 1)
+                {
+                    return new JsonModel { data = new object(), Message = "Access denied. Only administrators can issue refunds", StatusCode = 403 };
+                }
+
                 var billingRecord = await _billingRepository.GetByIdAsync(billingRecordId);
                 if (billingRecord == null)
                 {
                     return new JsonModel { data = new object(), Message = "Billing record not found", StatusCode = 404 };
                 }
 
-                // Process refund logic
-                var refundResult = new RefundResultDto
+                if (billingRecord.Status != BillingRecord.BillingStatus.Paid)
+                {
+                    return new JsonModel { data = new object(), Message = "Only paid billing records can be refunded", StatusCode = 400 };
+                }
+
+                if (string.IsNullOrWhiteSpace(reason))
+                {
+                    return new JsonModel { data = new object(), Message = "A refund reason is required", StatusCode = 400 };
+                }
+
+                var refunds = await GetRefundAdjustmentsAsync(billingRecordId);
+                var refundable = billingRecord.Amount - refunds.Sum(r => r.Amount);
+                if (amount <= 0 || amount > refundable)
+                {
+                    return new JsonModel { data = new object(), Message = $"Refund amount must be between 0.01 and {refundable:0.00}", StatusCode = 400 };
+                }
+
+                if (!string.IsNullOrEmpty(billingRecord.StripePaymentIntentId))
+                {
+                    var refunded = await _stripeService.ProcessRefundAsync(billingRecord.StripePaymentIntentId, amount, tokenModel);
+                    if (!refunded)
+                    {
+                        return new JsonModel { data = new object(), Message = "Stripe did not accept the refund", StatusCode = 502 };
+                    }
+                }
+
+                await _billingAdjustmentRepository.CreateAsync(new BillingAdjustment
                 {
-                    Success = true,
-                    RefundId = Guid.NewGuid().ToString(),
+                    Id = Guid.NewGuid(),
+                    BillingRecordId = billingRecordId,
+                    Type = BillingAdjustment.AdjustmentType.Refund,
                     Amount = amount,
-                    Reason = reason,
-                    Status = "Completed",
-                    Message = "Refund processed successfully"
-                };
+                    Description = "Refund",
+                    Reason = reason.Trim(),
+                    AppliedAt = DateTime.UtcNow,
+                    AppliedBy = tokenModel.UserID,
+                    IsApproved = true,
+                    IsActive = true,
+                    CreatedBy = tokenModel.UserID,
+                    CreatedDate = DateTime.UtcNow
+                });
 
-                return new JsonModel { data = refundResult, Message = "Refund processed successfully", StatusCode = 200 };
+                if (amount == refundable)
+                {
+                    billingRecord.Status = BillingRecord.BillingStatus.Refunded;
+                    billingRecord.UpdatedBy = tokenModel.UserID;
+                    billingRecord.UpdatedDate = DateTime.UtcNow;
+                    billingRecord = await _billingRepository.UpdateAsync(billingRecord);
+                }
+
+                var billingRecordDto = _mapper.Map<BillingRecordDto>(billingRecord);
+                await ApplyRefundTotalsAsync(billingRecordDto, billingRecordId);
+
+                return new JsonModel { data = billingRecordDto, Message = "Refund processed successfully", StatusCode = 200 };
             }
             catch (Exception ex)
             {
@@ -1661,6 +1720,105 @@ namespace SmartTelehealth.Application.Services
             }
         }
 
+        /// <summary>
+        /// Retrieves the refunds ledger, newest first
+        /// </summary>
+        /// <param name="startDate">Only include refunds issued on or after this date</param>
+        /// <param name="endDate">Only include refunds issued on or before this date</param>
+        /// <param name="planId">Only include refunds for subscriptions on this plan</param>
+        /// <param name="refundedBy">Only include refunds issued by this admin</param>
+        /// <param name="page">Page number, starting at 1</param>
+        /// <param name="pageSize">Number of refunds per page</param>
+        /// <param name="tokenModel">Token containing user authentication information for audit purposes</param>
+        /// <returns>JsonModel containing a page of refunds with pagination metadata</returns>
+        /// <remarks>
+        /// Refunds are the Refund billing adjustments recorded by ProcessRefundAsync.
+        /// Access is restricted to administrators.
+        /// </remarks>
+        public async Task<JsonModel> GetRefundsAsync(DateTime? startDate, DateTime? endDate, string? planId, int? refundedBy, int page, int pageSize, TokenModel tokenModel)
+        {
+            try
+            {
+                if (tokenModel.RoleID != 1)
+                {
+                    return new JsonModel { data = new object(), Message = "Access denied. Only administrators can view refunds", StatusCode = 403 };
+                }
+
+                var refunds = await _billingAdjustmentRepository.GetRefundsAsync(startDate, endDate);
+
+                if (Guid.TryParse(planId, out var planGuid))
+                {
+                    refunds = refunds.Where(r => r.BillingRecord.Subscription?.SubscriptionPlanId == planGuid);
+                }
+
+                if (refundedBy.HasValue)
+                {
+                    refunds = refunds.Where(r => r.AppliedBy == refundedBy.Value);
+                }
+
+                var totalCount = refunds.Count();
+                var entries = refunds
+                    .Skip((page - 1) * pageSize)
+                    .Take(pageSize)
+                    .Select(r => new RefundLedgerEntryDto
+                    {
+                        Id = r.Id,
+                        BillingRecordId = r.BillingRecordId,
+                        InvoiceNumber = r.BillingRecord.InvoiceNumber,
+                        SubscriptionId = r.BillingRecord.SubscriptionId?.ToString(),
+                        UserId = r.BillingRecord.UserId,
+                        UserName = r.BillingRecord.User?.FullName ?? string.Empty,
+                        PlanId = r.BillingRecord.Subscription?.SubscriptionPlanId.ToString(),
+                        PlanName = r.BillingRecord.Subscription?.SubscriptionPlan?.Name,
+                        Amount = r.Amount,
+                        PaymentAmount = r.BillingRecord.Amount,
+                        Currency = r.BillingRecord.Currency?.Code ?? "USD",
+                        Reason = r.Reason ?? string.Empty,
+                        RefundedAt = r.AppliedAt,
+                        RefundedBy = r.AppliedBy,
+                        RefundedByName = r.AppliedByUser?.FullName,
+                        StripePaymentIntentId = r.BillingRecord.StripePaymentIntentId
+                    })
+                    .ToList();
+
+                var paginationMeta = new Meta
+                {
+                    TotalRecords = totalCount,
+                    PageSize = pageSize,
+                    CurrentPage = page,
+                    TotalPages = (int)Math.Ceiling((double)totalCount / pageSize),
+                    DefaultPageSize = pageSize
+                };
+
+                return new JsonModel { data = entries, meta = paginationMeta, Message = "Refunds retrieved successfully", StatusCode = 200 };
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting refunds");
+                return new JsonModel { data = new object(), Message = "Error retrieving refunds", StatusCode = 500 };
+            }
+        }
+
+        private async Task<List<BillingAdjustment>> GetRefundAdjustmentsAsync(Guid billingRecordId)
+        {
+            var adjustments = await _billingAdjustmentRepository.GetByBillingRecordIdAsync(billingRecordId);
+            return adjustments.Where(a => a.IsRefund).OrderBy(a => a.AppliedAt).ToList();
+        }
+
+        /// <summary>
+        /// Fills in the refunded total, latest refund date and latest refund reason from the record's refunds
+        /// </summary>
+        private async Task ApplyRefundTotalsAsync(BillingRecordDto billingRecordDto, Guid billingRecordId)
+        {
+            var refunds = await GetRefundAdjustmentsAsync(billingRecordId);
+            if (refunds.Count == 0) return;
+
+            var latest = refunds.Last();
+            billingRecordDto.RefundAmount = refunds.Sum(r => r.Amount);
+            billingRecordDto.RefundDate = latest.AppliedAt;
+            billingRecordDto.RefundReason = latest.Reason;
+        }
+
         /// <summary>
         /// Retrieves payment analytics for a specific user and date range
         /// </summary>
@@ -0,0 +1,698 @@
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+using SmartTelehealth.Application.DTOs;
+using SmartTelehealth.Core.DTOs;
+using SmartTelehealth.Application.Interfaces;
+using SmartTelehealth.Core.Entities;
+using SmartTelehealth.Core.Interfaces;
+
+namespace SmartTelehealth.Application.Services;
+
+/// <summary>
+/// Service for publishing versions of subscription plans.
+/// Versions are applied to the plan through the subscription plan service, so Stripe prices are
+/// created the same way as for any plan edit. The migration policy of a version decides the price
+/// existing subscribers pay; the plan's privileges are shared by everyone on the plan.
+/// </summary>
+public class PlanVersionService : IPlanVersionService
+{
+    private readonly IGenericRepository<SubscriptionPlanVersion> _planVersionRepository;
+    private readonly ISubscriptionPlanRepository _subscriptionPlanRepository;
+    private readonly ISubscriptionPlanPrivilegeRepository _planPrivilegeRepository;
+    private readonly ISubscriptionRepository _subscriptionRepository;
+    private readonly ISubscriptionPlanService _subscriptionPlanService;
+    private readonly IStripeService _stripeService;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<PlanVersionService> _logger;
+
+    // Subscriptions in these statuses are no longer billed, so versions leave them alone
+    private static readonly string[] EndedStatuses =
+    {
+        Subscription.SubscriptionStatuses.Cancelled,
+        Subscription.SubscriptionStatuses.Expired,
+        Subscription.SubscriptionStatuses.TrialExpired
+    };
+
+    /// <summary>
+    /// Initializes a new instance of the PlanVersionService with required dependencies
+    /// </summary>
+    /// <param name="planVersionRepository">Repository for plan version data access</param>
+    /// <param name="subscriptionPlanRepository">Repository for subscription plan data access</param>
+    /// <param name="planPrivilegeRepository">Repository for subscription plan privilege data access</param>
+    /// <param name="subscriptionRepository">Repository for subscription data access</param>
+    /// <param name="subscriptionPlanService">Service that applies plan edits, including Stripe prices</param>
+    /// <param name="stripeService">Service for Stripe integration operations</param>
+    /// <param name="notificationService">Service for sending notifications</param>
+    /// <param name="logger">Logger instance for logging operations and errors</param>
+    public PlanVersionService(
+        IGenericRepository<SubscriptionPlanVersion> planVersionRepository,
+        ISubscriptionPlanRepository subscriptionPlanRepository,
+        ISubscriptionPlanPrivilegeRepository planPrivilegeRepository,
+        ISubscriptionRepository subscriptionRepository,
+        ISubscriptionPlanService subscriptionPlanService,
+        IStripeService stripeService,
+        INotificationService notificationService,
+        ILogger<PlanVersionService> logger)
+    {
+        _planVersionRepository = planVersionRepository ?? throw new ArgumentNullException(nameof(planVersionRepository));
+        _subscriptionPlanRepository = subscriptionPlanRepository ?? throw new ArgumentNullException(nameof(subscriptionPlanRepository));
+        _planPrivilegeRepository = planPrivilegeRepository ?? throw new ArgumentNullException(nameof(planPrivilegeRepository));
+        _subscriptionRepository = subscriptionRepository ?? throw new ArgumentNullException(nameof(subscriptionRepository));
+        _subscriptionPlanService = subscriptionPlanService ?? throw new ArgumentNullException(nameof(subscriptionPlanService));
+        _stripeService = stripeService ?? throw new ArgumentNullException(nameof(stripeService));
+        _notificationService = notificationService ?? throw new ArgumentNullException(nameof(notificationService));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    #region Plan Versions
+
+    /// <summary>
+    /// Retrieves the versions of a subscription plan, newest first, with the number of subscribers on each
+    /// </summary>
+    public async Task<JsonModel> GetPlanVersionsAsync(string planId, TokenModel tokenModel)
+    {
+        try
+        {
+            // Admin only method - validate admin role
+            if (tokenModel.RoleID != 1 && tokenModel.RoleID != 3)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            if (!Guid.TryParse(planId, out var planGuid))
+            {
+                return new JsonModel { data = new object(), Message = "Invalid plan ID format", StatusCode = 400 };
+            }
+
+            var plan = await _subscriptionPlanRepository.GetByIdAsync(planGuid);
+            if (plan == null)
+            {
+                return new JsonModel { data = new object(), Message = "Subscription plan not found", StatusCode = 404 };
+            }
+
+            var versions = await GetVersionsAsync(planGuid);
+            var subscriptions = await GetBilledSubscriptionsAsync(planGuid);
+            var versionDtos = versions
+                .OrderByDescending(v => v.VersionNumber)
+                .Select(v => MapToDto(v, subscriptions.Count(s => ResolveVersionId(s, versions) == v.Id)))
+                .ToList();
+
+            return new JsonModel { data = versionDtos, Message = "Plan versions retrieved successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving versions of subscription plan {PlanId}", planId);
+            return new JsonModel { data = new object(), Message = "Failed to retrieve plan versions", StatusCode = 500 };
+        }
+    }
+
+    /// <summary>
+    /// Publishes a new version of a subscription plan, applying it now or scheduling it for its effective date
+    /// </summary>
+    public async Task<JsonModel> CreatePlanVersionAsync(string planId, CreatePlanVersionDto createDto, TokenModel tokenModel)
+    {
+        try
+        {
+            // Admin only method - validate admin role
+            if (tokenModel.RoleID != 1 && tokenModel.RoleID != 3)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            if (!Guid.TryParse(planId, out var planGuid))
+            {
+                return new JsonModel { data = new object(), Message = "Invalid plan ID format", StatusCode = 400 };
+            }
+
+            if (!SubscriptionPlanVersion.MigrationPolicies.ValidPolicies.Contains(createDto.MigrationPolicy))
+            {
+                return new JsonModel { data = new object(), Message = $"Invalid migration policy: {createDto.MigrationPolicy}", StatusCode = 400 };
+            }
+
+            if (createDto.Plan.Price <= 0)
+            {
+                return new JsonModel { data = new object(), Message = "Price must be greater than 0", StatusCode = 400 };
+            }
+
+            var plan = await _subscriptionPlanRepository.GetByIdAsync(planGuid);
+            if (plan == null)
+            {
+                return new JsonModel { data = new object(), Message = "Subscription plan not found", StatusCode = 404 };
+            }
+
+            var versions = await GetVersionsAsync(planGuid);
+            if (versions.Any(v => v.Status == SubscriptionPlanVersion.VersionStatuses.Scheduled))
+            {
+                return new JsonModel { data = new object(), Message = "This plan already has a scheduled version. Cancel it before publishing another.", StatusCode = 400 };
+            }
+
+            var now = DateTime.UtcNow;
+            var effectiveDate = createDto.EffectiveDate ?? now;
+
+            // Grandfathered subscribers keep their price, so only the other policies need notice
+            if (createDto.MigrationPolicy != SubscriptionPlanVersion.MigrationPolicies.Grandfather &&
+                effectiveDate.Date < now.Date.AddDays(createDto.NoticeDays))
+            {
+                return new JsonModel
+                {
+                    data = new object(),
+                    Message = $"Subscribers must be given {createDto.NoticeDays} days notice, so this version cannot take effect before {now.Date.AddDays(createDto.NoticeDays):MMM d, yyyy}",
+                    StatusCode = 400
+                };
+            }
+
+            // The plan as it was before its first version becomes version 1, so the history starts from it
+            if (versions.Count == 0)
+            {
+                versions.Add(await CreateInitialVersionAsync(plan, tokenModel));
+            }
+
+            var privileges = createDto.Privileges ?? await GetPlanPrivilegesAsync(planGuid);
+            var version = new SubscriptionPlanVersion
+            {
+                Id = Guid.NewGuid(),
+                SubscriptionPlanId = planGuid,
+                VersionNumber = versions.Max(v => v.VersionNumber) + 1,
+                Price = createDto.Plan.Price,
+                PlanSnapshot = JsonSerializer.Serialize(ToPlanSnapshot(createDto.Plan, plan)),
+                PrivilegesSnapshot = JsonSerializer.Serialize(privileges),
+                EffectiveDate = effectiveDate,
+                MigrationPolicy = createDto.MigrationPolicy,
+                NoticeDays = createDto.NoticeDays,
+                ChangeSummary = createDto.ChangeSummary,
+                Status = SubscriptionPlanVersion.VersionStatuses.Scheduled,
+                IsActive = true,
+                CreatedBy = tokenModel.UserID,
+                CreatedDate = now
+            };
+            await _planVersionRepository.AddAsync(version);
+
+            if (effectiveDate <= now)
+            {
+                var applyResult = await ApplyVersionAsync(version, tokenModel);
+                if (applyResult.StatusCode != 200)
+                {
+                    // Nothing of the version was applied, so it is not kept in the history
+                    await _planVersionRepository.DeleteAsync(version);
+                    return applyResult;
+                }
+            }
+
+            _logger.LogInformation("Version {VersionNumber} of subscription plan {PlanId} {Action} by user {UserId}",
+                version.VersionNumber, planId, version.Status == SubscriptionPlanVersion.VersionStatuses.Current ? "published" : "scheduled", tokenModel.UserID);
+
+            var subscriptions = await GetBilledSubscriptionsAsync(planGuid);
+            var message = version.Status == SubscriptionPlanVersion.VersionStatuses.Current
+                ? "Plan version published successfully"
+                : $"Plan version scheduled for {version.EffectiveDate:MMM d, yyyy}";
+            return new JsonModel { data = MapToDto(version, subscriptions.Count(s => s.SubscriptionPlanVersionId == version.Id)), Message = message, StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error publishing a version of subscription plan {PlanId}", planId);
+            return new JsonModel { data = new object(), Message = "Failed to publish plan version", StatusCode = 500 };
+        }
+    }
+
+    /// <summary>
+    /// Cancels a scheduled version before it takes effect
+    /// </summary>
+    public async Task<JsonModel> CancelPlanVersionAsync(string planId, string versionId, TokenModel tokenModel)
+    {
+        try
+        {
+            // Admin only method - validate admin role
+            if (tokenModel.RoleID != 1 && tokenModel.RoleID != 3)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            if (!Guid.TryParse(planId, out var planGuid) || !Guid.TryParse(versionId, out var versionGuid))
+            {
+                return new JsonModel { data = new object(), Message = "Invalid plan or version ID format", StatusCode = 400 };
+            }
+
+            var version = await _planVersionRepository.GetByIdAsync(versionGuid);
+            if (version == null || version.SubscriptionPlanId != planGuid || version.IsDeleted)
+            {
+                return new JsonModel { data = new object(), Message = "Plan version not found", StatusCode = 404 };
+            }
+
+            if (version.Status != SubscriptionPlanVersion.VersionStatuses.Scheduled)
+            {
+                return new JsonModel { data = new object(), Message = "Only scheduled versions can be cancelled", StatusCode = 400 };
+            }
+
+            version.Status = SubscriptionPlanVersion.VersionStatuses.Cancelled;
+            version.UpdatedBy = tokenModel.UserID;
+            version.UpdatedDate = DateTime.UtcNow;
+            await _planVersionRepository.UpdateAsync(version);
+
+            _logger.LogInformation("Scheduled version {VersionNumber} of subscription plan {PlanId} cancelled by user {UserId}",
+                version.VersionNumber, planId, tokenModel.UserID);
+            return new JsonModel { data = MapToDto(version, 0), Message = "Scheduled plan version cancelled", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error cancelling version {VersionId} of subscription plan {PlanId}", versionId, planId);
+            return new JsonModel { data = new object(), Message = "Failed to cancel plan version", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Scheduled Processing
+
+    /// <summary>
+    /// Sends notices for upcoming versions, applies the versions that are due and moves
+    /// subscribers whose renewal has arrived to the version they are waiting for
+    /// </summary>
+    public async Task<JsonModel> ProcessScheduledPlanVersionsAsync(TokenModel tokenModel)
+    {
+        try
+        {
+            var now = DateTime.UtcNow;
+            var scheduledVersions = (await _planVersionRepository.FindAsync(v =>
+                    v.Status == SubscriptionPlanVersion.VersionStatuses.Scheduled && !v.IsDeleted))
+                .OrderBy(v => v.EffectiveDate)
+                .ToList();
+
+            var noticesSent = 0;
+            foreach (var version in scheduledVersions.Where(v => v.NoticeSentDate == null &&
+                         v.MigrationPolicy != SubscriptionPlanVersion.MigrationPolicies.Grandfather &&
+                         now >= v.EffectiveDate.AddDays(-v.NoticeDays)))
+            {
+                noticesSent += await SendNoticesAsync(version, tokenModel);
+            }
+
+            var versionsApplied = 0;
+            foreach (var version in scheduledVersions.Where(v => v.EffectiveDate <= now))
+            {
+                var result = await ApplyVersionAsync(version, tokenModel);
+                if (result.StatusCode == 200)
+                {
+                    versionsApplied++;
+                }
+                else
+                {
+                    _logger.LogWarning("Version {VersionNumber} of subscription plan {PlanId} could not be applied: {Message}",
+                        version.VersionNumber, version.SubscriptionPlanId, result.Message);
+                }
+            }
+
+            var subscriptionsMoved = 0;
+            var versionedPlanIds = (await _planVersionRepository.FindAsync(v =>
+                    v.Status == SubscriptionPlanVersion.VersionStatuses.Current && !v.IsDeleted))
+                .Select(v => v.SubscriptionPlanId)
+                .Distinct();
+            foreach (var planId in versionedPlanIds)
+            {
+                var dueSubscriptions = (await GetBilledSubscriptionsAsync(planId))
+                    .Where(s => s.PendingPlanVersionId.HasValue && s.PendingPlanVersionDate <= now);
+                foreach (var subscription in dueSubscriptions)
+                {
+                    var pendingVersion = await _planVersionRepository.GetByIdAsync(subscription.PendingPlanVersionId!.Value);
+                    if (pendingVersion == null)
+                    {
+                        continue;
+                    }
+
+                    await MoveSubscriptionAsync(subscription, pendingVersion, tokenModel);
+                    subscriptionsMoved++;
+                }
+            }
+
+            if (noticesSent > 0 || versionsApplied > 0 || subscriptionsMoved > 0)
+            {
+                _logger.LogInformation("Plan versions processed: {NoticesSent} notices sent, {VersionsApplied} versions applied, {SubscriptionsMoved} subscriptions moved",
+                    noticesSent, versionsApplied, subscriptionsMoved);
+            }
+
+            return new JsonModel
+            {
+                data = new { NoticesSent = noticesSent, VersionsApplied = versionsApplied, SubscriptionsMoved = subscriptionsMoved },
+                Message = "Scheduled plan versions processed",
+                StatusCode = 200
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error processing scheduled plan versions");
+            return new JsonModel { data = new object(), Message = "Failed to process scheduled plan versions", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Private Helper Methods
+
+    /// <summary>
+    /// Applies a version to its plan and moves existing subscribers according to its migration policy
+    /// </summary>
+    private async Task<JsonModel> ApplyVersionAsync(SubscriptionPlanVersion version, TokenModel tokenModel)
+    {
+        var planSnapshot = JsonSerializer.Deserialize<UpdateSubscriptionPlanDto>(version.PlanSnapshot) ?? new UpdateSubscriptionPlanDto();
+        var updateResult = await _subscriptionPlanService.UpdatePlanAsync(version.SubscriptionPlanId.ToString(), planSnapshot, tokenModel);
+        if (updateResult.StatusCode != 200)
+        {
+            return updateResult;
+        }
+
+        var privileges = JsonSerializer.Deserialize<List<PlanPrivilegeDto>>(version.PrivilegesSnapshot) ?? new List<PlanPrivilegeDto>();
+        await ReplacePlanPrivilegesAsync(version.SubscriptionPlanId, privileges, tokenModel);
+
+        // Subscribers are told before their price changes, even when the version takes effect right away
+        if (version.NoticeSentDate == null && version.MigrationPolicy != SubscriptionPlanVersion.MigrationPolicies.Grandfather)
+        {
+            await SendNoticesAsync(version, tokenModel);
+        }
+
+        var now = DateTime.UtcNow;
+        var versions = await GetVersionsAsync(version.SubscriptionPlanId);
+        var subscriptions = await GetBilledSubscriptionsAsync(version.SubscriptionPlanId);
+        var previousVersionIds = subscriptions.ToDictionary(s => s.Id, s => ResolveVersionId(s, versions));
+
+        foreach (var previous in versions.Where(v => v.Status == SubscriptionPlanVersion.VersionStatuses.Current && v.Id != version.Id))
+        {
+            previous.Status = SubscriptionPlanVersion.VersionStatuses.Superseded;
+            previous.UpdatedBy = tokenModel.UserID;
+            previous.UpdatedDate = now;
+            await _planVersionRepository.UpdateAsync(previous);
+        }
+
+        version.Status = SubscriptionPlanVersion.VersionStatuses.Current;
+        version.AppliedDate = now;
+        version.UpdatedBy = tokenModel.UserID;
+        version.UpdatedDate = now;
+        await _planVersionRepository.UpdateAsync(version);
+
+        foreach (var subscription in subscriptions)
+        {
+            // Record the version each subscriber pays for, since signing up no longer tells it apart
+            subscription.SubscriptionPlanVersionId ??= previousVersionIds[subscription.Id];
+
+            switch (version.MigrationPolicy)
+            {
+                case SubscriptionPlanVersion.MigrationPolicies.Immediate:
+                    await MoveSubscriptionAsync(subscription, version, tokenModel);
+                    break;
+                case SubscriptionPlanVersion.MigrationPolicies.NextRenewal:
+                    subscription.PendingPlanVersionId = version.Id;
+                    subscription.PendingPlanVersionDate = subscription.NextBillingDate;
+                    subscription.UpdatedBy = tokenModel.UserID;
+                    subscription.UpdatedDate = now;
+                    await _subscriptionRepository.UpdateAsync(subscription);
+                    break;
+                default:
+                    await _subscriptionRepository.UpdateAsync(subscription);
+                    break;
+            }
+        }
+
+        _logger.LogInformation("Version {VersionNumber} of subscription plan {PlanId} applied to {SubscriptionCount} subscriptions with policy {MigrationPolicy}",
+            version.VersionNumber, version.SubscriptionPlanId, subscriptions.Count, version.MigrationPolicy);
+        return new JsonModel { data = new object(), Message = "Plan version applied", StatusCode = 200 };
+    }
+
+    /// <summary>
+    /// Moves a subscription to the price of a version, including its Stripe subscription when the plan is still on that version
+    /// </summary>
+    private async Task MoveSubscriptionAsync(Subscription subscription, SubscriptionPlanVersion version, TokenModel tokenModel)
+    {
+        // The version price is the plan's own billing cycle; subscribers on another cycle pay that cycle's price
+        var plan = await _subscriptionPlanRepository.GetByIdAsync(version.SubscriptionPlanId);
+        var cyclePrice = plan != null && version.Status == SubscriptionPlanVersion.VersionStatuses.Current
+            ? plan.CyclePrices.FirstOrDefault(cp => cp.BillingCycleId == subscription.BillingCycleId)
+            : null;
+
+        subscription.CurrentPrice = cyclePrice != null ? cyclePrice.DiscountedPrice ?? cyclePrice.Price : version.Price;
+        subscription.SubscriptionPlanVersionId = version.Id;
+        subscription.PendingPlanVersionId = null;
+        subscription.PendingPlanVersionDate = null;
+        subscription.UpdatedBy = tokenModel.UserID;
+        subscription.UpdatedDate = DateTime.UtcNow;
+
+        if (!string.IsNullOrEmpty(subscription.StripeSubscriptionId))
+        {
+            // The plan's Stripe prices belong to its current version; an older version has no live price to move to
+            var stripePriceId = plan != null && version.Status == SubscriptionPlanVersion.VersionStatuses.Current
+                ? await GetStripePriceIdAsync(plan, subscription.BillingCycleId)
+                : null;
+
+            if (string.IsNullOrEmpty(stripePriceId))
+            {
+                _logger.LogWarning("Subscription {SubscriptionId} moved to version {VersionNumber} without a Stripe price to move to",
+                    subscription.Id, version.VersionNumber);
+            }
+            else if (stripePriceId != subscription.StripePriceId)
+            {
+                try
+                {
+                    if (await _stripeService.UpdateSubscriptionAsync(subscription.StripeSubscriptionId, stripePriceId, tokenModel))
+                    {
+                        subscription.StripePriceId = stripePriceId;
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error moving Stripe subscription {StripeSubscriptionId} to price {StripePriceId}. Proceeding with local update only.",
+                        subscription.StripeSubscriptionId, stripePriceId);
+                }
+            }
+        }
+
+        await _subscriptionRepository.UpdateAsync(subscription);
+    }
+
+    /// <summary>
+    /// Notifies the subscribers whose price a version changes, and records that they were notified
+    /// </summary>
+    private async Task<int> SendNoticesAsync(SubscriptionPlanVersion version, TokenModel tokenModel)
+    {
+        var plan = await _subscriptionPlanRepository.GetByIdAsync(version.SubscriptionPlanId);
+        var versions = await GetVersionsAsync(version.SubscriptionPlanId);
+        var subscriptions = (await GetBilledSubscriptionsAsync(version.SubscriptionPlanId))
+            .Where(s => ResolveVersionId(s, versions) != version.Id)
+            .ToList();
+
+        var when = version.MigrationPolicy == SubscriptionPlanVersion.MigrationPolicies.Immediate
+            ? $"from {version.EffectiveDate:MMMM d, yyyy}"
+            : $"from your first renewal on or after {version.EffectiveDate:MMMM d, yyyy}";
+        var message = $"The price of your {plan?.Name ?? "subscription"} plan changes to {version.Price:C} {when}.";
+        if (!string.IsNullOrWhiteSpace(version.ChangeSummary))
+        {
+            message += $" {version.ChangeSummary}";
+        }
+
+        foreach (var subscription in subscriptions)
+        {
+            try
+            {
+                await _notificationService.SendNotificationAsync(subscription.UserId, "Your plan is changing", message, tokenModel);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error notifying user {UserId} of version {VersionNumber} of subscription plan {PlanId}",
+                    subscription.UserId, version.VersionNumber, version.SubscriptionPlanId);
+            }
+        }
+
+        version.NoticeSentDate = DateTime.UtcNow;
+        await _planVersionRepository.UpdateAsync(version);
+        return subscriptions.Count;
+    }
+
+    /// <summary>
+    /// Records the plan as it is now as version 1
+    /// </summary>
+    private async Task<SubscriptionPlanVersion> CreateInitialVersionAsync(SubscriptionPlan plan, TokenModel tokenModel)
+    {
+        var createdDate = plan.CreatedDate ?? DateTime.UtcNow;
+        var planSnapshot = ToPlanSnapshot(new UpdateSubscriptionPlanDto { Price = plan.Price, IsActive = plan.IsActive }, plan);
+        var version = new SubscriptionPlanVersion
+        {
+            Id = Guid.NewGuid(),
+            SubscriptionPlanId = plan.Id,
+            VersionNumber = 1,
+            Price = plan.Price,
+            PlanSnapshot = JsonSerializer.Serialize(planSnapshot),
+            PrivilegesSnapshot = JsonSerializer.Serialize(await GetPlanPrivilegesAsync(plan.Id)),
+            EffectiveDate = createdDate,
+            AppliedDate = createdDate,
+            MigrationPolicy = SubscriptionPlanVersion.MigrationPolicies.Grandfather,
+            NoticeDays = 0,
+            Status = SubscriptionPlanVersion.VersionStatuses.Current,
+            ChangeSummary = "The plan before its first published version",
+            IsActive = true,
+            CreatedBy = tokenModel.UserID,
+            CreatedDate = DateTime.UtcNow
+        };
+
+        return await _planVersionRepository.AddAsync(version);
+    }
+
+    /// <summary>
+    /// The plan fields a version saves. Fields the plan update keeps when they are empty, and the billing
+    /// cycle and currency it never changes, are recorded as they are on the plan. So are the prices in
+    /// other currencies and on other billing cycles when the version does not send them.
+    /// </summary>
+    private static UpdateSubscriptionPlanDto ToPlanSnapshot(UpdateSubscriptionPlanDto planDto, SubscriptionPlan plan)
+    {
+        return new UpdateSubscriptionPlanDto
+        {
+            Id = plan.Id.ToString(),
+            Name = string.IsNullOrEmpty(planDto.Name) ? plan.Name : planDto.Name,
+            Description = string.IsNullOrEmpty(planDto.Description) ? plan.Description : planDto.Description,
+            Price = planDto.Price,
+            BillingCycleId = plan.BillingCycleId,
+            CurrencyId = plan.CurrencyId,
+            CategoryId = planDto.CategoryId != Guid.Empty ? planDto.CategoryId : plan.CategoryId ?? Guid.Empty,
+            IsActive = planDto.IsActive,
+            IsFeatured = planDto.IsFeatured ?? plan.IsFeatured,
+            IsMostPopular = planDto.IsMostPopular ?? plan.IsMostPopular,
+            IsTrending = planDto.IsTrending ?? plan.IsTrending,
+            DisplayOrder = planDto.DisplayOrder ?? plan.DisplayOrder,
+            CurrencyPrices = planDto.CurrencyPrices ?? plan.CurrencyPrices.Select(cp => new PlanCurrencyPriceDto
+            {
+                CurrencyId = cp.CurrencyId,
+                CurrencyCode = cp.Currency?.Code,
+                Price = cp.Price,
+                DiscountedPrice = cp.DiscountedPrice,
+                StripePriceId = cp.StripePriceId
+            }).ToList(),
+            CyclePrices = planDto.CyclePrices ?? plan.CyclePrices.Select(cp => new PlanCyclePriceDto
+            {
+                BillingCycleId = cp.BillingCycleId,
+                BillingCycleName = cp.BillingCycle?.Name,
+                Price = cp.Price,
+                DiscountedPrice = cp.DiscountedPrice,
+                StripePriceId = cp.StripePriceId
+            }).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Makes the plan's privileges match a version's, matching them by privilege
+    /// </summary>
+    private async Task ReplacePlanPrivilegesAsync(Guid planId, List<PlanPrivilegeDto> privileges, TokenModel tokenModel)
+    {
+        var existing = (await _planPrivilegeRepository.GetByPlanIdAsync(planId)).ToList();
+
+        foreach (var planPrivilege in existing.Where(e => privileges.All(p => p.PrivilegeId != e.PrivilegeId)))
+        {
+            await _planPrivilegeRepository.DeleteAsync(planPrivilege.Id);
+        }
+
+        foreach (var privilege in privileges)
+        {
+            var planPrivilege = existing.FirstOrDefault(e => e.PrivilegeId == privilege.PrivilegeId);
+            var isNew = planPrivilege == null;
+            planPrivilege ??= new SubscriptionPlanPrivilege
+            {
+                Id = Guid.NewGuid(),
+                SubscriptionPlanId = planId,
+                PrivilegeId = privilege.PrivilegeId,
+                IsActive = true,
+                CreatedBy = tokenModel.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            planPrivilege.Value = privilege.Value;
+            planPrivilege.UsagePeriodId = privilege.UsagePeriodId;
+            planPrivilege.DurationMonths = privilege.DurationMonths;
+            planPrivilege.Description = privilege.Description;
+            planPrivilege.EffectiveDate = privilege.EffectiveDate;
+            planPrivilege.ExpirationDate = privilege.ExpirationDate;
+            planPrivilege.DailyLimit = privilege.DailyLimit;
+            planPrivilege.WeeklyLimit = privilege.WeeklyLimit;
+            planPrivilege.MonthlyLimit = privilege.MonthlyLimit;
+
+            if (isNew)
+            {
+                await _planPrivilegeRepository.AddAsync(planPrivilege);
+            }
+            else
+            {
+                planPrivilege.UpdatedBy = tokenModel.UserID;
+                planPrivilege.UpdatedDate = DateTime.UtcNow;
+                await _planPrivilegeRepository.UpdateAsync(planPrivilege);
+            }
+        }
+    }
+
+    private async Task<List<PlanPrivilegeDto>> GetPlanPrivilegesAsync(Guid planId)
+    {
+        var planPrivileges = await _planPrivilegeRepository.GetByPlanIdAsync(planId);
+        return planPrivileges.Select(p => new PlanPrivilegeDto
+        {
+            PrivilegeId = p.PrivilegeId,
+            Value = p.Value,
+            UsagePeriodId = p.UsagePeriodId,
+            DurationMonths = p.DurationMonths,
+            Description = p.Description,
+            EffectiveDate = p.EffectiveDate,
+            ExpirationDate = p.ExpirationDate,
+            DailyLimit = p.DailyLimit,
+            WeeklyLimit = p.WeeklyLimit,
+            MonthlyLimit = p.MonthlyLimit
+        }).ToList();
+    }
+
+    private async Task<List<SubscriptionPlanVersion>> GetVersionsAsync(Guid planId)
+    {
+        return (await _planVersionRepository.FindAsync(v => v.SubscriptionPlanId == planId && !v.IsDeleted)).ToList();
+    }
+
+    private async Task<List<Subscription>> GetBilledSubscriptionsAsync(Guid planId)
+    {
+        return (await _subscriptionRepository.GetByPlanIdAsync(planId))
+            .Where(s => !s.IsDeleted && !EndedStatuses.Contains(s.Status))
+            .ToList();
+    }
+
+    /// <summary>
+    /// The version a subscription pays for. Subscriptions that have not been moved by a version yet
+    /// pay for the version that was current when they started.
+    /// </summary>
+    private static Guid? ResolveVersionId(Subscription subscription, List<SubscriptionPlanVersion> versions)
+    {
+        if (subscription.SubscriptionPlanVersionId.HasValue)
+        {
+            return subscription.SubscriptionPlanVersionId;
+        }
+
+        var applied = versions.Where(v => v.AppliedDate.HasValue).OrderBy(v => v.VersionNumber).ToList();
+        return applied.LastOrDefault(v => v.AppliedDate <= subscription.StartDate)?.Id ?? applied.FirstOrDefault()?.Id;
+    }
+
+    private async Task<string?> GetStripePriceIdAsync(SubscriptionPlan plan, Guid billingCycleId)
+    {
+        var billingCycle = await _subscriptionRepository.GetBillingCycleByIdAsync(billingCycleId);
+        return billingCycle != null ? plan.GetStripePriceId(billingCycle) : plan.StripeMonthlyPriceId;
+    }
+
+    private static PlanVersionDto MapToDto(SubscriptionPlanVersion version, int subscriberCount)
+    {
+        return new PlanVersionDto
+        {
+            Id = version.Id.ToString(),
+            SubscriptionPlanId = version.SubscriptionPlanId.ToString(),
+            VersionNumber = version.VersionNumber,
+            Status = version.Status,
+            Price = version.Price,
+            EffectiveDate = version.EffectiveDate,
+            AppliedDate = version.AppliedDate,
+            MigrationPolicy = version.MigrationPolicy,
+            NoticeDays = version.NoticeDays,
+            NoticeSentDate = version.NoticeSentDate,
+            ChangeSummary = version.ChangeSummary,
+            SubscriberCount = subscriberCount,
+            Plan = JsonSerializer.Deserialize<UpdateSubscriptionPlanDto>(version.PlanSnapshot) ?? new UpdateSubscriptionPlanDto(),
+            Privileges = JsonSerializer.Deserialize<List<PlanPrivilegeDto>>(version.PrivilegesSnapshot) ?? new List<PlanPrivilegeDto>(),
+            CreatedBy = version.CreatedBy,
+            CreatedDate = version.CreatedDate
+        };
+    }
+
+    #endregion
+}
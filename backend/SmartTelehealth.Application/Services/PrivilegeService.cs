@@ -121,7 +121,9 @@ public class PrivilegeService : IPrivilegeService
             var usage = (await _usageRepo.GetBySubscriptionIdAsync(subscriptionId))
                 .FirstOrDefault(u => u.SubscriptionPlanPrivilegeId == planPrivilege.Id);
             var used = usage?.UsedValue ?? 0;
-            var remaining = Math.Max(0, planPrivilege.Value - used);
+            // The usage record's allowance includes any extra usage granted by an admin
+            var allowed = usage?.AllowedValue ?? planPrivilege.Value;
+            var remaining = Math.Max(0, allowed - used);
             
             _logger.LogInformation("Remaining privilege '{PrivilegeName}' for subscription {SubscriptionId} by user {UserId}: {Remaining}", 
                 privilegeName, subscriptionId, tokenModel.UserID, remaining);
@@ -946,5 +948,175 @@ public class PrivilegeService : IPrivilegeService
             };
         }
     }
+
+    /// <summary>
+    /// Grants one-off extra usage of a privilege for the current usage period
+    /// </summary>
+    /// <param name="grantDto">The subscription, privilege name, extra amount and reason for the grant</param>
+    /// <param name="token">Token containing user authentication information for audit purposes</param>
+    /// <returns>JsonModel containing the updated privilege usage</returns>
+    /// <remarks>
+    /// The extra amount is added to the usage record's allowance, which GetRemainingPrivilegeAsync
+    /// enforces, so it lapses when the usage period ends. Unlimited privileges cannot be granted.
+    /// </remarks>
+    public async Task<JsonModel> GrantPrivilegeUsageAsync(GrantPrivilegeUsageDto grantDto, TokenModel token)
+    {
+        try
+        {
+            if (token.RoleID != 1)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            var subscription = await _subscriptionRepo.GetByIdAsync(grantDto.SubscriptionId);
+            if (subscription == null)
+            {
+                return new JsonModel { data = new object(), Message = "Subscription not found", StatusCode = 404 };
+            }
+
+            var planPrivilege = (await _planPrivilegeRepo.GetByPlanIdAsync(subscription.SubscriptionPlanId))
+                .FirstOrDefault(pp => pp.Privilege.Name == grantDto.PrivilegeName);
+            if (planPrivilege == null)
+            {
+                return new JsonModel { data = new object(), Message = "Privilege is not part of the subscription plan", StatusCode = 404 };
+            }
+
+            if (planPrivilege.Value == -1)
+            {
+                return new JsonModel { data = new object(), Message = "Unlimited privileges cannot be granted extra usage", StatusCode = 400 };
+            }
+
+            var now = DateTime.UtcNow;
+            var usage = (await _usageRepo.GetBySubscriptionIdAsync(subscription.Id))
+                .FirstOrDefault(u => u.SubscriptionPlanPrivilegeId == planPrivilege.Id);
+            if (usage == null)
+            {
+                usage = new UserSubscriptionPrivilegeUsage
+                {
+                    SubscriptionId = subscription.Id,
+                    SubscriptionPlanPrivilegeId = planPrivilege.Id,
+                    UsedValue = 0,
+                    AllowedValue = planPrivilege.Value + grantDto.Amount,
+                    UsagePeriodStart = now,
+                    UsagePeriodEnd = now.AddMonths(1),
+                    Notes = $"Granted {grantDto.Amount} extra: {grantDto.Reason}",
+                    // Set audit properties for creation
+                    IsActive = true,
+                    CreatedBy = token.UserID,
+                    CreatedDate = now
+                };
+                await _usageRepo.AddAsync(usage);
+            }
+            else
+            {
+                usage.AllowedValue += grantDto.Amount;
+                usage.Notes = $"Granted {grantDto.Amount} extra: {grantDto.Reason}";
+                usage.UpdatedBy = token.UserID;
+                usage.UpdatedDate = now;
+                await _usageRepo.UpdateAsync(usage);
+            }
+
+            _logger.LogInformation("Granted {Amount} extra '{PrivilegeName}' to subscription {SubscriptionId} by user {UserId}: {Reason}",
+                grantDto.Amount, grantDto.PrivilegeName, subscription.Id, token.UserID, grantDto.Reason);
+
+            return new JsonModel
+            {
+                data = ToPrivilegeUsageDto(planPrivilege.Privilege.Name, usage),
+                Message = "Extra usage granted successfully",
+                StatusCode = 200
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error granting privilege usage for subscription {SubscriptionId} by user {UserId}", grantDto.SubscriptionId, token.UserID);
+            return new JsonModel
+            {
+                data = new object(),
+                Message = "Error granting privilege usage",
+                StatusCode = 500
+            };
+        }
+    }
+
+    /// <summary>
+    /// Resets the usage counter of a privilege for the current usage period
+    /// </summary>
+    /// <param name="resetDto">The subscription, privilege name and reason for the reset</param>
+    /// <param name="token">Token containing user authentication information for audit purposes</param>
+    /// <returns>JsonModel containing the updated privilege usage</returns>
+    /// <remarks>
+    /// Only the period counter is cleared; the usage history, and with it the daily, weekly
+    /// and monthly limit windows, is kept.
+    /// </remarks>
+    public async Task<JsonModel> ResetPrivilegeUsageAsync(ResetPrivilegeUsageDto resetDto, TokenModel token)
+    {
+        try
+        {
+            if (token.RoleID != 1)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            var subscription = await _subscriptionRepo.GetByIdAsync(resetDto.SubscriptionId);
+            if (subscription == null)
+            {
+                return new JsonModel { data = new object(), Message = "Subscription not found", StatusCode = 404 };
+            }
+
+            var planPrivilege = (await _planPrivilegeRepo.GetByPlanIdAsync(subscription.SubscriptionPlanId))
+                .FirstOrDefault(pp => pp.Privilege.Name == resetDto.PrivilegeName);
+            if (planPrivilege == null)
+            {
+                return new JsonModel { data = new object(), Message = "Privilege is not part of the subscription plan", StatusCode = 404 };
+            }
+
+            var usage = (await _usageRepo.GetBySubscriptionIdAsync(subscription.Id))
+                .FirstOrDefault(u => u.SubscriptionPlanPrivilegeId == planPrivilege.Id);
+            if (usage == null || usage.UsedValue == 0)
+            {
+                return new JsonModel { data = new object(), Message = "There is no usage to reset for this privilege", StatusCode = 400 };
+            }
+
+            var now = DateTime.UtcNow;
+            usage.UsedValue = 0;
+            usage.ResetAt = now;
+            usage.Notes = $"Reset: {resetDto.Reason}";
+            usage.UpdatedBy = token.UserID;
+            usage.UpdatedDate = now;
+            await _usageRepo.UpdateAsync(usage);
+
+            _logger.LogInformation("Reset '{PrivilegeName}' usage for subscription {SubscriptionId} by user {UserId}: {Reason}",
+                resetDto.PrivilegeName, subscription.Id, token.UserID, resetDto.Reason);
+
+            return new JsonModel
+            {
+                data = ToPrivilegeUsageDto(planPrivilege.Privilege.Name, usage),
+                Message = "Usage counter reset successfully",
+                StatusCode = 200
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resetting privilege usage for subscription {SubscriptionId} by user {UserId}", resetDto.SubscriptionId, token.UserID);
+            return new JsonModel
+            {
+                data = new object(),
+                Message = "Error resetting privilege usage",
+                StatusCode = 500
+            };
+        }
+    }
+
+    private static PrivilegeUsageDto ToPrivilegeUsageDto(string privilegeName, UserSubscriptionPrivilegeUsage usage)
+    {
+        return new PrivilegeUsageDto
+        {
+            PrivilegeName = privilegeName,
+            UsedValue = usage.UsedValue,
+            AllowedValue = usage.AllowedValue,
+            RemainingValue = usage.RemainingValue,
+            UsagePercentage = usage.UsagePercentage
+        };
+    }
     #endregion
 } 
\ No newline at end of file
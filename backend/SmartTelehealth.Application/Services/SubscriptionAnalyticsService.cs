@@ -33,6 +33,7 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
     private readonly ISubscriptionRepository _subscriptionRepository;
     private readonly IBillingRepository _billingRepository;
     private readonly IUserRepository _userRepository;
+    private readonly IGenericRepository<MasterCurrency> _currencyRepository;
       
     private readonly ILogger<SubscriptionAnalyticsService> _logger;
 
@@ -40,25 +41,27 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
         ISubscriptionRepository subscriptionRepository,
         IBillingRepository billingRepository,
         IUserRepository userRepository,
+        IGenericRepository<MasterCurrency> currencyRepository,
           
         ILogger<SubscriptionAnalyticsService> logger)
     {
         _subscriptionRepository = subscriptionRepository;
         _billingRepository = billingRepository;
         _userRepository = userRepository;
+        _currencyRepository = currencyRepository;
           
         _logger = logger;
     }
 
-    public async Task<JsonModel> GetSubscriptionAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel)
+    public async Task<JsonModel> GetSubscriptionAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel)
     {
         try
         {
             var start = startDate ?? DateTime.UtcNow.AddMonths(-12);
             var end = endDate ?? DateTime.UtcNow;
 
-            var subscriptions = await _subscriptionRepository.GetSubscriptionsByDateRangeAsync(start, end);
-            var billingRecords = await _billingRepository.GetBillingRecordsByDateRangeAsync(start, end);
+            var subscriptions = FilterByCurrency(await _subscriptionRepository.GetSubscriptionsByDateRangeAsync(start, end), currencyId);
+            var billingRecords = FilterByCurrency(await _billingRepository.GetBillingRecordsByDateRangeAsync(start, end), currencyId);
 
             var analytics = new
             {
@@ -68,6 +71,7 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
                 ChurnMetrics = await CalculateChurnMetricsAsync(subscriptions, start, end),
                 GrowthMetrics = await CalculateGrowthMetricsAsync(subscriptions, start, end),
                 PlanDistribution = await CalculatePlanDistributionAsync(subscriptions),
+                StatusByMonth = CalculateStatusByMonth(subscriptions, start, end),
                 GeographicDistribution = await CalculateGeographicDistributionAsync(subscriptions),
                 UserEngagement = await CalculateUserEngagementAsync(subscriptions, start, end)
             };
@@ -91,14 +95,15 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
         }
     }
 
-    public async Task<JsonModel> GetRevenueAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel)
+    public async Task<JsonModel> GetRevenueAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel)
     {
         try
         {
             var start = startDate ?? DateTime.UtcNow.AddMonths(-12);
             var end = endDate ?? DateTime.UtcNow;
 
-            var billingRecords = await _billingRepository.GetBillingRecordsByDateRangeAsync(start, end);
+            var billingRecords = FilterByCurrency(await _billingRepository.GetBillingRecordsByDateRangeAsync(start, end), currencyId);
+            var revenueByCurrency = await CalculateRevenueByCurrencyAsync(billingRecords);
 
             var revenueAnalytics = new
             {
@@ -110,7 +115,13 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
                 RevenueByMonth = await CalculateRevenueByMonthAsync(billingRecords, start, end),
                 PaymentSuccessRate = await CalculatePaymentSuccessRateAsync(billingRecords),
                 AverageRevenuePerUser = await CalculateAverageRevenuePerUserAsync(billingRecords),
-                RevenueGrowth = await CalculateRevenueGrowthAsync(billingRecords, start, end)
+                RevenueGrowth = await CalculateRevenueGrowthAsync(billingRecords, start, end),
+                // The totals above add amounts in different currencies; these convert them first
+                ReportingCurrency = MasterCurrency.ReportingCurrencyCode,
+                RevenueByCurrency = revenueByCurrency,
+                NormalizedTotalRevenue = revenueByCurrency.Sum(c => c.NormalizedRevenue ?? 0),
+                NormalizedMonthlyRecurringRevenue = revenueByCurrency.Sum(c => c.NormalizedMonthlyRecurringRevenue ?? 0),
+                CurrenciesWithoutRate = revenueByCurrency.Where(c => !c.ExchangeRate.HasValue).Select(c => c.Currency).ToList()
             };
 
             return new JsonModel
@@ -132,14 +143,14 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
         }
     }
 
-    public async Task<JsonModel> GetChurnAnalyticsAsync(DateTime? startDate, DateTime? endDate, TokenModel tokenModel)
+    public async Task<JsonModel> GetChurnAnalyticsAsync(DateTime? startDate, DateTime? endDate, Guid? currencyId, TokenModel tokenModel)
     {
         try
         {
             var start = startDate ?? DateTime.UtcNow.AddMonths(-12);
             var end = endDate ?? DateTime.UtcNow;
 
-            var subscriptions = await _subscriptionRepository.GetSubscriptionsByDateRangeAsync(start, end);
+            var subscriptions = FilterByCurrency(await _subscriptionRepository.GetSubscriptionsByDateRangeAsync(start, end), currencyId);
 
             var churnAnalytics = new
             {
@@ -149,6 +160,7 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
                 ChurnByMonth = await CalculateChurnByMonthAsync(subscriptions, start, end),
                 ChurnReasons = await AnalyzeChurnReasonsAsync(subscriptions, start, end),
                 RetentionByPlan = await CalculateRetentionByPlanAsync(subscriptions, start, end),
+                Cohorts = CalculateRetentionCohorts(subscriptions, end),
                 CustomerLifetimeValue = await CalculateCustomerLifetimeValueAsync(subscriptions, start, end)
             };
 
@@ -226,7 +238,7 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
             var start = startDate ?? DateTime.UtcNow.AddMonths(-12);
             var end = endDate ?? DateTime.UtcNow;
 
-            var analytics = await GetSubscriptionAnalyticsAsync(start, end, tokenModel);
+            var analytics = await GetSubscriptionAnalyticsAsync(start, end, null, tokenModel);
             if (analytics.StatusCode != 200)
             {
                 return analytics;
@@ -293,12 +305,14 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
         var activeSubscriptions = subscriptions.Count(s => s.Status == "Active");
         var trialSubscriptions = subscriptions.Count(s => s.Status == "TrialActive");
         var cancelledSubscriptions = subscriptions.Count(s => s.Status == "Cancelled");
+        var pausedSubscriptions = subscriptions.Count(s => s.Status == "Paused");
 
         return new
         {
             TotalSubscriptions = totalSubscriptions,
             ActiveSubscriptions = activeSubscriptions,
             TrialSubscriptions = trialSubscriptions,
+            PausedSubscriptions = pausedSubscriptions,
             CancelledSubscriptions = cancelledSubscriptions,
             ActivationRate = totalSubscriptions > 0 ? (double)activeSubscriptions / totalSubscriptions * 100 : 0,
             TrialConversionRate = trialSubscriptions > 0 ? (double)activeSubscriptions / trialSubscriptions * 100 : 0
@@ -349,8 +363,8 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
 
     private async Task<object> CalculatePlanDistributionAsync(IEnumerable<Subscription> subscriptions)
     {
-        var planGroups = subscriptions.GroupBy(s => s.SubscriptionPlan.Name)
-                                   .Select(g => new { Plan = g.Key, Count = g.Count() })
+        var planGroups = subscriptions.GroupBy(s => new { s.SubscriptionPlanId, s.SubscriptionPlan.Name })
+                                   .Select(g => new { PlanId = g.Key.SubscriptionPlanId, Plan = g.Key.Name, Count = g.Count() })
                                    .OrderByDescending(x => x.Count);
 
         return planGroups;
@@ -392,9 +406,50 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
 
     private async Task<object> CalculateRevenueByPlanAsync(IEnumerable<BillingRecord> billingRecords)
     {
-        // This would require joining with subscription data
-        // For now, return placeholder
-        return new { Message = "Revenue by plan requires subscription plan data" };
+        var planNames = (await _subscriptionRepository.GetAllSubscriptionPlansAsync()).ToDictionary(p => p.Id, p => p.Name);
+
+        var revenueByPlan = billingRecords.Where(b => b.Status == BillingRecord.BillingStatus.Paid && b.Subscription != null)
+                                        .GroupBy(b => b.Subscription!.SubscriptionPlanId)
+                                        .Select(g => new
+                                        {
+                                            PlanId = g.Key,
+                                            PlanName = planNames.TryGetValue(g.Key, out var name) ? name : "Unknown plan",
+                                            Revenue = g.Sum(b => b.TotalAmount),
+                                            SubscriptionCount = g.Select(b => b.SubscriptionId).Distinct().Count()
+                                        })
+                                        .OrderByDescending(x => x.Revenue);
+
+        return revenueByPlan;
+    }
+
+    // Currencies without an exchange rate are listed but left out of the normalized totals
+    private async Task<List<CurrencyRevenueData>> CalculateRevenueByCurrencyAsync(IEnumerable<BillingRecord> billingRecords)
+    {
+        var currencies = (await _currencyRepository.GetAllAsync()).ToDictionary(c => c.Id);
+        var revenueByCurrency = new List<CurrencyRevenueData>();
+
+        foreach (var group in billingRecords.GroupBy(b => b.CurrencyId))
+        {
+            currencies.TryGetValue(group.Key, out var currency);
+            var code = currency?.Code ?? "Unknown";
+            var rate = code == MasterCurrency.ReportingCurrencyCode ? 1 : currency?.ExchangeRate;
+            var totalRevenue = group.Where(b => b.Status == BillingRecord.BillingStatus.Paid).Sum(b => b.TotalAmount);
+            var monthlyRecurringRevenue = await CalculateMonthlyRecurringRevenueAsync(group);
+
+            revenueByCurrency.Add(new CurrencyRevenueData
+            {
+                CurrencyId = group.Key,
+                Currency = code,
+                TotalRevenue = totalRevenue,
+                MonthlyRecurringRevenue = monthlyRecurringRevenue,
+                SubscriptionCount = group.Where(b => b.SubscriptionId.HasValue).Select(b => b.SubscriptionId).Distinct().Count(),
+                ExchangeRate = rate,
+                NormalizedRevenue = totalRevenue * rate,
+                NormalizedMonthlyRecurringRevenue = monthlyRecurringRevenue * rate
+            });
+        }
+
+        return revenueByCurrency.OrderBy(c => c.Currency).ToList();
     }
 
     private async Task<object> CalculateRevenueByMonthAsync(IEnumerable<BillingRecord> billingRecords, DateTime start, DateTime end)
@@ -403,7 +458,8 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
                                          .GroupBy(b => new { b.BillingDate.Year, b.BillingDate.Month })
                                          .Select(g => new { 
                                              Month = $"{g.Key.Year}-{g.Key.Month:00}", 
-                                             Revenue = g.Sum(b => b.TotalAmount) 
+                                             Revenue = g.Sum(b => b.TotalAmount),
+                                             Subscriptions = g.Where(b => b.SubscriptionId.HasValue).Select(b => b.SubscriptionId).Distinct().Count()
                                          })
                                          .OrderBy(x => x.Month);
 
@@ -514,6 +570,76 @@ public class SubscriptionAnalyticsService : ISubscriptionAnalyticsService
         return uniqueCustomers > 0 ? totalValue / uniqueCustomers : 0;
     }
 
+    private static IEnumerable<Subscription> FilterByCurrency(IEnumerable<Subscription> subscriptions, Guid? currencyId)
+    {
+        return currencyId.HasValue ? subscriptions.Where(s => s.SubscriptionPlan?.CurrencyId == currencyId.Value).ToList() : subscriptions;
+    }
+
+    private static IEnumerable<BillingRecord> FilterByCurrency(IEnumerable<BillingRecord> billingRecords, Guid? currencyId)
+    {
+        return currencyId.HasValue ? billingRecords.Where(b => b.CurrencyId == currencyId.Value).ToList() : billingRecords;
+    }
+
+    private static IEnumerable<DateTime> MonthEnds(DateTime start, DateTime end)
+    {
+        var month = new DateTime(start.Year, start.Month, 1);
+        while (month <= end)
+        {
+            var monthEnd = month.AddMonths(1).AddTicks(-1);
+            yield return monthEnd < end ? monthEnd : end;
+            month = month.AddMonths(1);
+        }
+    }
+
+    private static string StatusAt(Subscription subscription, DateTime date)
+    {
+        if (subscription.CancelledDate.HasValue && subscription.CancelledDate.Value <= date)
+            return Subscription.SubscriptionStatuses.Cancelled;
+
+        var resumedSincePause = subscription.ResumedDate.HasValue && subscription.ResumedDate.Value <= date
+            && subscription.ResumedDate.Value > subscription.PausedDate;
+        if (subscription.PausedDate.HasValue && subscription.PausedDate.Value <= date && !resumedSincePause)
+            return Subscription.SubscriptionStatuses.Paused;
+
+        if (subscription.IsTrialSubscription && subscription.TrialEndDate.HasValue && subscription.TrialEndDate.Value > date)
+            return Subscription.SubscriptionStatuses.TrialActive;
+
+        return Subscription.SubscriptionStatuses.Active;
+    }
+
+    private object CalculateStatusByMonth(IEnumerable<Subscription> subscriptions, DateTime start, DateTime end)
+    {
+        // Status of every subscription started by the end of each month, as it stood on that day
+        return MonthEnds(start, end).Select(monthEnd =>
+        {
+            var statuses = subscriptions.Where(s => s.StartDate <= monthEnd).Select(s => StatusAt(s, monthEnd)).ToList();
+            return new
+            {
+                Month = $"{monthEnd.Year}-{monthEnd.Month:00}",
+                ActiveSubscriptions = statuses.Count(s => s == Subscription.SubscriptionStatuses.Active),
+                TrialSubscriptions = statuses.Count(s => s == Subscription.SubscriptionStatuses.TrialActive),
+                PausedSubscriptions = statuses.Count(s => s == Subscription.SubscriptionStatuses.Paused),
+                CancelledSubscriptions = statuses.Count(s => s == Subscription.SubscriptionStatuses.Cancelled)
+            };
+        }).ToList();
+    }
+
+    private object CalculateRetentionCohorts(IEnumerable<Subscription> subscriptions, DateTime end)
+    {
+        // One row per signup month; Retention[n] is the share still subscribed n months after signup
+        return subscriptions.GroupBy(s => new DateTime(s.StartDate.Year, s.StartDate.Month, 1))
+                            .OrderBy(g => g.Key)
+                            .Select(g => new
+                            {
+                                Cohort = $"{g.Key.Year}-{g.Key.Month:00}",
+                                StartingSubscriptions = g.Count(),
+                                Retention = MonthEnds(g.Key, end)
+                                    .Select(monthEnd => Math.Round((decimal)g.Count(s => !s.CancelledDate.HasValue || s.CancelledDate.Value > monthEnd) / g.Count() * 100, 1))
+                                    .ToList()
+                            })
+                            .ToList();
+    }
+
     private async Task<object> CalculateFeatureUsageAsync(Subscription subscription, DateTime start, DateTime end)
     {
         // This would require feature usage tracking data
@@ -285,6 +285,114 @@ public class SubscriptionAutomationService : ISubscriptionAutomationService
         }
     }
 
+    public async Task<JsonModel> ChangeBillingCycleAsync(string subscriptionId, ChangeBillingCycleRequest request, TokenModel tokenModel)
+    {
+        try
+        {
+            _logger.LogInformation("Changing billing cycle for subscription {SubscriptionId} by user {UserId}", subscriptionId, tokenModel?.UserID ?? 0);
+            
+            if (!Guid.TryParse(subscriptionId, out var subscriptionGuid) || !Guid.TryParse(request.BillingCycleId, out var billingCycleGuid))
+            {
+                return new JsonModel 
+                { 
+                    data = new object(), 
+                    Message = "Invalid subscription or billing cycle ID format", 
+                    StatusCode = 400 
+                };
+            }
+
+            var subscription = await _subscriptionRepository.GetByIdAsync(subscriptionGuid);
+            if (subscription == null)
+            {
+                return new JsonModel 
+                { 
+                    data = new object(), 
+                    Message = "Subscription not found", 
+                    StatusCode = 404 
+                };
+            }
+
+            if (subscription.BillingCycleId == billingCycleGuid)
+            {
+                return new JsonModel 
+                { 
+                    data = new object(), 
+                    Message = "Subscription is already on this billing cycle", 
+                    StatusCode = 400 
+                };
+            }
+
+            var plan = await _subscriptionRepository.GetSubscriptionPlanByIdAsync(subscription.SubscriptionPlanId);
+            var billingCycle = await _subscriptionRepository.GetBillingCycleByIdAsync(billingCycleGuid);
+            var cyclePrice = plan?.CyclePrices.FirstOrDefault(cp => cp.BillingCycleId == billingCycleGuid);
+            if (plan == null || billingCycle == null || (plan.BillingCycleId != billingCycleGuid && cyclePrice == null))
+            {
+                return new JsonModel 
+                { 
+                    data = new object(), 
+                    Message = "The subscription's plan is not offered on this billing cycle", 
+                    StatusCode = 400 
+                };
+            }
+
+            // The plan's own cycle is charged the plan price; other cycles their cycle price
+            var newPrice = cyclePrice != null ? cyclePrice.DiscountedPrice ?? cyclePrice.Price : plan.EffectivePrice;
+            var stripePriceId = plan.GetStripePriceId(billingCycle);
+
+            if (!string.IsNullOrEmpty(subscription.StripeSubscriptionId) && !string.IsNullOrEmpty(stripePriceId))
+            {
+                try
+                {
+                    if (await _stripeService.UpdateSubscriptionAsync(subscription.StripeSubscriptionId, stripePriceId, tokenModel))
+                    {
+                        subscription.StripePriceId = stripePriceId;
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error moving Stripe subscription {StripeSubscriptionId} to price {StripePriceId}. Proceeding with local update only.",
+                        subscription.StripeSubscriptionId, stripePriceId);
+                }
+            }
+
+            // The current period is already paid for, so the new cycle starts from the next billing date
+            var oldBillingCycleId = subscription.BillingCycleId;
+            subscription.BillingCycleId = billingCycle.Id;
+            subscription.CurrentPrice = newPrice;
+            subscription.UpdatedBy = tokenModel?.UserID ?? 0;
+            subscription.UpdatedDate = DateTime.UtcNow;
+            
+            await _subscriptionRepository.UpdateAsync(subscription);
+
+            var result = new 
+            { 
+                SubscriptionId = subscriptionId, 
+                OldBillingCycleId = oldBillingCycleId, 
+                NewBillingCycleId = billingCycle.Id,
+                NewPrice = newPrice,
+                EffectiveDate = subscription.NextBillingDate,
+                ChangedBy = tokenModel?.UserID ?? 0
+            };
+            
+            return new JsonModel 
+            { 
+                data = result, 
+                Message = "Billing cycle changed successfully", 
+                StatusCode = 200 
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error changing billing cycle for subscription {SubscriptionId} by user {UserId}", subscriptionId, tokenModel?.UserID ?? 0);
+            return new JsonModel 
+            { 
+                data = new object(), 
+                Message = "Failed to change billing cycle", 
+                StatusCode = 500 
+            };
+        }
+    }
+
     public async Task<JsonModel> ProcessAutomatedRenewalsAsync(TokenModel tokenModel)
     {
         try
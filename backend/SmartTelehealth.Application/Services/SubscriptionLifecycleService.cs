@@ -403,9 +403,10 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
     }
 
     /// <summary>
-    /// Pauses a subscription with proper validation and Stripe synchronization
+    /// Pauses a subscription with proper validation and Stripe synchronization.
+    /// A resume date schedules the automatic resume and is limited by the plan's MaxPauseDurationDays.
     /// </summary>
-    public async Task<JsonModel> PauseSubscriptionAsync(string subscriptionId, TokenModel tokenModel)
+    public async Task<JsonModel> PauseSubscriptionAsync(string subscriptionId, TokenModel tokenModel, string? reason = null, DateTime? resumeDate = null)
     {
         try
         {
@@ -433,6 +434,20 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
             if (validation != ValidationResult.Success)
                 return new JsonModel { data = new object(), Message = validation.ErrorMessage, StatusCode = 400 };
             
+            // Validate the scheduled resume date against the plan's pause limit
+            if (resumeDate.HasValue)
+            {
+                var resumeDay = resumeDate.Value.Date;
+                if (resumeDay <= DateTime.UtcNow.Date)
+                    return new JsonModel { data = new object(), Message = "Resume date must be after today", StatusCode = 400 };
+                
+                var maxPauseDays = entity.SubscriptionPlan?.MaxPauseDurationDays ?? 0;
+                if (maxPauseDays <= 0)
+                    return new JsonModel { data = new object(), Message = "This plan does not allow pausing", StatusCode = 400 };
+                if (resumeDay > DateTime.UtcNow.Date.AddDays(maxPauseDays))
+                    return new JsonModel { data = new object(), Message = $"Pauses are limited to {maxPauseDays} days on this plan", StatusCode = 400 };
+            }
+            
             var oldStatus = entity.Status;
             
             // NEW: Pause Stripe subscription first
@@ -471,6 +486,8 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
             // Update local subscription
             entity.Status = Subscription.SubscriptionStatuses.Paused;
             entity.PausedDate = DateTime.UtcNow;
+            entity.PauseReason = reason;
+            entity.ScheduledResumeDate = resumeDate?.Date;
             
             // BEGIN TRANSACTION - Ensure subscription update and status history are atomic
             await _unitOfWork.BeginTransactionAsync();
@@ -485,7 +502,9 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
                     SubscriptionId = updated.Id,
                     FromStatus = oldStatus,
                     ToStatus = updated.Status,
-                    ChangedAt = DateTime.UtcNow
+                    Reason = reason,
+                    ChangedAt = DateTime.UtcNow,
+                    Metadata = updated.ScheduledResumeDate.HasValue ? $"Scheduled resume: {updated.ScheduledResumeDate.Value:yyyy-MM-dd}" : null
                 });
                 
                 // COMMIT TRANSACTION
@@ -586,6 +605,7 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
             // Update local subscription
             entity.Status = Subscription.SubscriptionStatuses.Active;
             entity.ResumedDate = DateTime.UtcNow;
+            entity.ScheduledResumeDate = null;
             
             // Recalculate next billing date based on pause duration
             if (entity.PausedDate.HasValue)
@@ -1024,9 +1044,9 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
     }
 
     /// <summary>
-    /// Extends a user subscription by additional days
+    /// Extends a user subscription by additional days and records the reason in the status history
     /// </summary>
-    public async Task<JsonModel> ExtendUserSubscriptionAsync(string subscriptionId, int additionalDays, TokenModel tokenModel)
+    public async Task<JsonModel> ExtendUserSubscriptionAsync(string subscriptionId, int additionalDays, TokenModel tokenModel, string? reason = null, string? notes = null)
     {
         try
         {
@@ -1048,6 +1068,21 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
 
             var updated = await _subscriptionRepository.UpdateAsync(entity);
 
+            // The status does not change, but the extension and its reason belong in the audit trail
+            await _statusHistoryRepository.CreateAsync(new SubscriptionStatusHistory
+            {
+                SubscriptionId = entity.Id,
+                FromStatus = entity.Status,
+                ToStatus = entity.Status,
+                Reason = string.IsNullOrWhiteSpace(reason) ? $"Extended by {additionalDays} days" : $"Extended by {additionalDays} days: {reason}",
+                Metadata = notes,
+                ChangedAt = DateTime.UtcNow,
+                ChangedByUserId = tokenModel.UserID,
+                IsActive = true,
+                CreatedBy = tokenModel.UserID,
+                CreatedDate = DateTime.UtcNow
+            });
+
             return new JsonModel { data = _mapper.Map<SubscriptionDto>(updated), Message = $"Subscription extended by {additionalDays} days", StatusCode = 200 };
         }
         catch (Exception ex)
@@ -1380,6 +1415,7 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
 
             var oldStatus = subscription.Status;
             subscription.Status = SubscriptionStatus.Active;
+            subscription.ScheduledResumeDate = null;
             subscription.UpdatedBy = tokenModel?.UserID;
             subscription.UpdatedDate = DateTime.UtcNow;
 
@@ -1850,6 +1886,29 @@ public class SubscriptionLifecycleService : ISubscriptionLifecycleService
         }
     }
 
+    /// <summary>
+    /// Gets the status history of a subscription, newest first
+    /// </summary>
+    public async Task<JsonModel> GetSubscriptionStatusHistoryAsync(string subscriptionId, TokenModel tokenModel)
+    {
+        try
+        {
+            if (!Guid.TryParse(subscriptionId, out var id))
+                return new JsonModel { data = new object(), Message = "Invalid subscription ID", StatusCode = 400 };
+
+            if (tokenModel.RoleID != 1 && !await HasAccessToSubscription(tokenModel.UserID, subscriptionId))
+                return new JsonModel { data = new object(), Message = "Access denied", StatusCode = 403 };
+
+            var history = await _statusHistoryRepository.GetBySubscriptionIdAsync(id);
+            return new JsonModel { data = _mapper.Map<List<SubscriptionStatusHistoryDto>>(history), Message = "Subscription history retrieved successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving history for subscription {SubscriptionId}", subscriptionId);
+            return new JsonModel { data = new object(), Message = "Failed to retrieve subscription history", StatusCode = 500 };
+        }
+    }
+
     public async Task<bool> ValidateStatusTransitionAsync(string currentStatus, string newStatus, TokenModel tokenModel = null)
     {
         try
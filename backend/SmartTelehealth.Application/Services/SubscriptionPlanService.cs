@@ -26,6 +26,10 @@ public class SubscriptionPlanService : ISubscriptionPlanService
     private readonly INotificationService _notificationService;
     private readonly IUserService _userService;
     private readonly ISubscriptionRepository _subscriptionRepository;
+    private readonly IGenericRepository<SubscriptionPlanCurrencyPrice> _currencyPriceRepository;
+    private readonly IGenericRepository<MasterCurrency> _currencyRepository;
+    private readonly IGenericRepository<SubscriptionPlanCyclePrice> _cyclePriceRepository;
+    private readonly IGenericRepository<MasterBillingCycle> _billingCycleRepository;
 
     /// <summary>
     /// Initializes a new instance of the SubscriptionPlanService with required dependencies
@@ -40,6 +44,10 @@ public class SubscriptionPlanService : ISubscriptionPlanService
     /// <param name="notificationService">Service for sending notifications</param>
     /// <param name="userService">Service for user management operations</param>
     /// <param name="subscriptionRepository">Repository for subscription data access</param>
+    /// <param name="currencyPriceRepository">Repository for plan prices in other currencies</param>
+    /// <param name="currencyRepository">Repository for currency data access</param>
+    /// <param name="cyclePriceRepository">Repository for plan prices on other billing cycles</param>
+    /// <param name="billingCycleRepository">Repository for billing cycle data access</param>
     public SubscriptionPlanService(
         ISubscriptionPlanRepository subscriptionPlanRepository,
         ISubscriptionPlanPrivilegeRepository planPrivilegeRepository,
@@ -50,7 +58,11 @@ public class SubscriptionPlanService : ISubscriptionPlanService
         IPrivilegeRepository privilegeRepository,
         INotificationService notificationService,
         IUserService userService,
-        ISubscriptionRepository subscriptionRepository)
+        ISubscriptionRepository subscriptionRepository,
+        IGenericRepository<SubscriptionPlanCurrencyPrice> currencyPriceRepository,
+        IGenericRepository<MasterCurrency> currencyRepository,
+        IGenericRepository<SubscriptionPlanCyclePrice> cyclePriceRepository,
+        IGenericRepository<MasterBillingCycle> billingCycleRepository)
     {
         _subscriptionPlanRepository = subscriptionPlanRepository ?? throw new ArgumentNullException(nameof(subscriptionPlanRepository));
         _planPrivilegeRepository = planPrivilegeRepository ?? throw new ArgumentNullException(nameof(planPrivilegeRepository));
@@ -62,6 +74,10 @@ public class SubscriptionPlanService : ISubscriptionPlanService
         _notificationService = notificationService ?? throw new ArgumentNullException(nameof(notificationService));
         _userService = userService ?? throw new ArgumentNullException(nameof(userService));
         _subscriptionRepository = subscriptionRepository ?? throw new ArgumentNullException(nameof(subscriptionRepository));
+        _currencyPriceRepository = currencyPriceRepository ?? throw new ArgumentNullException(nameof(currencyPriceRepository));
+        _currencyRepository = currencyRepository ?? throw new ArgumentNullException(nameof(currencyRepository));
+        _cyclePriceRepository = cyclePriceRepository ?? throw new ArgumentNullException(nameof(cyclePriceRepository));
+        _billingCycleRepository = billingCycleRepository ?? throw new ArgumentNullException(nameof(billingCycleRepository));
     }
 
     #region Core Plan Management
@@ -180,6 +196,18 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                 return new JsonModel { data = new object(), Message = "A plan with this name already exists", StatusCode = 400 };
             }
 
+            var currencyPriceError = await ValidateCurrencyPricesAsync(createDto.CurrencyId, createDto.CurrencyPrices);
+            if (currencyPriceError != null)
+            {
+                return new JsonModel { data = new object(), Message = currencyPriceError, StatusCode = 400 };
+            }
+
+            var cyclePriceError = await ValidateCyclePricesAsync(createDto.BillingCycleId, createDto.CyclePrices);
+            if (cyclePriceError != null)
+            {
+                return new JsonModel { data = new object(), Message = cyclePriceError, StatusCode = 400 };
+            }
+
             // Create plan entity with all properties
             var plan = new SubscriptionPlan
             {
@@ -190,6 +218,9 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                 CurrencyId = createDto.CurrencyId,
                 CategoryId = createDto.CategoryId,
                 IsActive = createDto.IsActive,
+                IsFeatured = createDto.IsFeatured,
+                IsMostPopular = createDto.IsMostPopular,
+                IsTrending = createDto.IsTrending,
                 DisplayOrder = createDto.DisplayOrder,
                 // Trial configuration
                 IsTrialAllowed = createDto.IsTrialAllowed,
@@ -233,6 +264,12 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                 // Don't fail the entire operation, just log the error
             }
 
+            // Prices in other currencies, each with its own Stripe price
+            await SyncCurrencyPricesAsync(createdPlan, createDto.CurrencyPrices, tokenModel);
+
+            // Prices on other billing cycles, each with its own Stripe price
+            await SyncCyclePricesAsync(createdPlan, createDto.CyclePrices, tokenModel);
+
             // Process privileges if provided
             if (createDto.Privileges != null && createDto.Privileges.Any())
             {
@@ -320,8 +357,56 @@ public class SubscriptionPlanService : ISubscriptionPlanService
     }
 
     /// <summary>
-    /// Deactivates a subscription plan
+    /// Sets the display order of several plans without touching their other fields
     /// </summary>
+    public async Task<JsonModel> UpdatePlanDisplayOrderAsync(List<PlanDisplayOrderDto> displayOrders, TokenModel tokenModel)
+    {
+        try
+        {
+            // Admin only method - validate admin role
+            if (tokenModel.RoleID != 1 && tokenModel.RoleID != 3)
+            {
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+            }
+
+            if (displayOrders == null || displayOrders.Count == 0)
+                return new JsonModel { data = new object(), Message = "No plans to reorder", StatusCode = 400 };
+
+            if (displayOrders.Select(o => o.PlanId).Distinct().Count() != displayOrders.Count)
+                return new JsonModel { data = new object(), Message = "A plan can only appear once", StatusCode = 400 };
+
+            // Load every plan before changing any, so an unknown ID leaves the order untouched
+            var plans = new List<(SubscriptionPlan Plan, int DisplayOrder)>();
+            foreach (var order in displayOrders)
+            {
+                if (!Guid.TryParse(order.PlanId, out var planGuid))
+                    return new JsonModel { data = new object(), Message = $"Invalid plan ID format: {order.PlanId}", StatusCode = 400 };
+
+                var plan = await _subscriptionPlanRepository.GetByIdAsync(planGuid);
+                if (plan == null)
+                    return new JsonModel { data = new object(), Message = $"Subscription plan {order.PlanId} not found", StatusCode = 404 };
+
+                plans.Add((plan, order.DisplayOrder));
+            }
+
+            foreach (var (plan, displayOrder) in plans.Where(p => p.Plan.DisplayOrder != p.DisplayOrder))
+            {
+                plan.DisplayOrder = displayOrder;
+                plan.UpdatedBy = tokenModel.UserID;
+                plan.UpdatedDate = DateTime.UtcNow;
+                await _subscriptionPlanRepository.UpdateAsync(plan);
+            }
+
+            _logger.LogInformation("Display order of {Count} subscription plans updated by user {UserId}", plans.Count, tokenModel.UserID);
+            var orderDtos = plans.Select(p => new PlanDisplayOrderDto { PlanId = p.Plan.Id.ToString(), DisplayOrder = p.Plan.DisplayOrder }).ToList();
+            return new JsonModel { data = orderDtos, Message = "Plan order updated", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating subscription plan display order by user {UserId}", tokenModel?.UserID ?? 0);
+            return new JsonModel { data = new object(), Message = "Failed to update plan order", StatusCode = 500 };
+        }
+    }
 
     #endregion
 
@@ -650,6 +735,24 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                 return new JsonModel { data = new object(), Message = "Subscription plan not found", StatusCode = 404 };
             }
 
+            if (updateDto.CurrencyPrices != null)
+            {
+                var currencyPriceError = await ValidateCurrencyPricesAsync(existingPlan.CurrencyId, updateDto.CurrencyPrices);
+                if (currencyPriceError != null)
+                {
+                    return new JsonModel { data = new object(), Message = currencyPriceError, StatusCode = 400 };
+                }
+            }
+
+            if (updateDto.CyclePrices != null)
+            {
+                var cyclePriceError = await ValidateCyclePricesAsync(existingPlan.BillingCycleId, updateDto.CyclePrices);
+                if (cyclePriceError != null)
+                {
+                    return new JsonModel { data = new object(), Message = cyclePriceError, StatusCode = 400 };
+                }
+            }
+
             var originalPrice = existingPlan.Price;
             var originalName = existingPlan.Name;
             var originalDescription = existingPlan.Description;
@@ -665,6 +768,15 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                 existingPlan.CategoryId = updateDto.CategoryId;
             
             existingPlan.IsActive = updateDto.IsActive;
+
+            if (updateDto.IsFeatured.HasValue)
+                existingPlan.IsFeatured = updateDto.IsFeatured.Value;
+
+            if (updateDto.IsMostPopular.HasValue)
+                existingPlan.IsMostPopular = updateDto.IsMostPopular.Value;
+
+            if (updateDto.IsTrending.HasValue)
+                existingPlan.IsTrending = updateDto.IsTrending.Value;
             
             if (updateDto.DisplayOrder.HasValue)
                 existingPlan.DisplayOrder = updateDto.DisplayOrder.Value;
@@ -683,7 +795,7 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                             existingPlan.Name, originalPrice, updateDto.Price);
                         
                         // Update monthly price
-                        if (!string.IsNullOrEmpty(existingPlan.StripeMonthlyPriceId))
+                        if (!string.IsNullOrEmpty(existingPlan.StripeMonthlyPriceId) && !IsCyclePriceId(existingPlan, existingPlan.StripeMonthlyPriceId))
                         {
                             var newMonthlyPriceId = await _stripeService.UpdatePriceWithNewPriceAsync(
                                 existingPlan.StripeMonthlyPriceId, 
@@ -698,7 +810,7 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                         }
                         
                         // Update quarterly price (3x monthly)
-                        if (!string.IsNullOrEmpty(existingPlan.StripeQuarterlyPriceId))
+                        if (!string.IsNullOrEmpty(existingPlan.StripeQuarterlyPriceId) && !IsCyclePriceId(existingPlan, existingPlan.StripeQuarterlyPriceId))
                         {
                             var newQuarterlyPriceId = await _stripeService.UpdatePriceWithNewPriceAsync(
                                 existingPlan.StripeQuarterlyPriceId, 
@@ -713,7 +825,7 @@ public class SubscriptionPlanService : ISubscriptionPlanService
                         }
                         
                         // Update annual price (12x monthly)
-                        if (!string.IsNullOrEmpty(existingPlan.StripeAnnualPriceId))
+                        if (!string.IsNullOrEmpty(existingPlan.StripeAnnualPriceId) && !IsCyclePriceId(existingPlan, existingPlan.StripeAnnualPriceId))
                         {
                             var newAnnualPriceId = await _stripeService.UpdatePriceWithNewPriceAsync(
                                 existingPlan.StripeAnnualPriceId, 
@@ -773,6 +885,17 @@ public class SubscriptionPlanService : ISubscriptionPlanService
             existingPlan.UpdatedDate = DateTime.UtcNow;
 
             var updatedPlan = await _subscriptionPlanRepository.UpdateAsync(existingPlan);
+
+            if (updateDto.CurrencyPrices != null)
+            {
+                await SyncCurrencyPricesAsync(updatedPlan, updateDto.CurrencyPrices, tokenModel);
+            }
+
+            if (updateDto.CyclePrices != null)
+            {
+                await SyncCyclePricesAsync(updatedPlan, updateDto.CyclePrices, tokenModel);
+            }
+
             var planDto = _mapper.Map<SubscriptionPlanDto>(updatedPlan);
 
             _logger.LogInformation("Successfully updated subscription plan {PlanId} by user {UserId}", planId, tokenModel?.UserID ?? 0);
@@ -909,6 +1032,278 @@ public class SubscriptionPlanService : ISubscriptionPlanService
 
     #region Helper Methods
 
+    /// <summary>
+    /// Checks a plan's prices in other currencies. Returns the error message, or null when they are valid.
+    /// </summary>
+    private async Task<string?> ValidateCurrencyPricesAsync(Guid planCurrencyId, List<PlanCurrencyPriceDto> currencyPrices)
+    {
+        if (currencyPrices.Any(p => p.CurrencyId == planCurrencyId))
+        {
+            return "The plan's own currency is priced by the plan price, not by a currency price";
+        }
+
+        if (currencyPrices.GroupBy(p => p.CurrencyId).Any(g => g.Count() > 1))
+        {
+            return "A plan can only have one price per currency";
+        }
+
+        if (currencyPrices.Any(p => p.DiscountedPrice.HasValue && p.DiscountedPrice.Value >= p.Price))
+        {
+            return "A currency's discounted price must be less than its price";
+        }
+
+        foreach (var currencyPrice in currencyPrices)
+        {
+            var currency = await _currencyRepository.GetByIdAsync(currencyPrice.CurrencyId);
+            if (currency == null || currency.IsDeleted || !currency.IsActive)
+            {
+                return $"Currency {currencyPrice.CurrencyId} not found or inactive";
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Makes a plan's prices in other currencies match the given list, matching them by currency.
+    /// A price without a Stripe price ID, or whose amount changed, gets a new Stripe price on the plan's
+    /// Stripe product unless the admin supplied a different Stripe price ID.
+    /// </summary>
+    private async Task SyncCurrencyPricesAsync(SubscriptionPlan plan, List<PlanCurrencyPriceDto> currencyPrices, TokenModel tokenModel)
+    {
+        var existing = (await _currencyPriceRepository.FindAsync(cp => cp.SubscriptionPlanId == plan.Id)).ToList();
+
+        foreach (var currencyPrice in existing.Where(e => currencyPrices.All(p => p.CurrencyId != e.CurrencyId)))
+        {
+            await _currencyPriceRepository.DeleteAsync(currencyPrice);
+        }
+
+        foreach (var priceDto in currencyPrices)
+        {
+            var currencyPrice = existing.FirstOrDefault(e => e.CurrencyId == priceDto.CurrencyId);
+            var isNew = currencyPrice == null;
+            currencyPrice ??= new SubscriptionPlanCurrencyPrice
+            {
+                Id = Guid.NewGuid(),
+                SubscriptionPlanId = plan.Id,
+                CurrencyId = priceDto.CurrencyId,
+                IsActive = true,
+                CreatedBy = tokenModel.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            var amountChanged = currencyPrice.Price != priceDto.Price;
+            var suppliedPriceId = string.IsNullOrWhiteSpace(priceDto.StripePriceId) ? null : priceDto.StripePriceId.Trim();
+
+            currencyPrice.Price = priceDto.Price;
+            currencyPrice.DiscountedPrice = priceDto.DiscountedPrice;
+
+            if (suppliedPriceId != null && suppliedPriceId != currencyPrice.StripePriceId)
+            {
+                currencyPrice.StripePriceId = suppliedPriceId;
+            }
+            else if (amountChanged || string.IsNullOrEmpty(currencyPrice.StripePriceId))
+            {
+                currencyPrice.StripePriceId = await CreateCurrencyStripePriceAsync(plan, currencyPrice, tokenModel) ?? currencyPrice.StripePriceId;
+            }
+
+            if (isNew)
+            {
+                await _currencyPriceRepository.AddAsync(currencyPrice);
+            }
+            else
+            {
+                currencyPrice.UpdatedBy = tokenModel.UserID;
+                currencyPrice.UpdatedDate = DateTime.UtcNow;
+                await _currencyPriceRepository.UpdateAsync(currencyPrice);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Creates the monthly Stripe price for a plan's price in another currency, replacing the one it had.
+    /// Returns null when the plan has no Stripe product or Stripe fails, so the plan is saved without it.
+    /// </summary>
+    private async Task<string?> CreateCurrencyStripePriceAsync(SubscriptionPlan plan, SubscriptionPlanCurrencyPrice currencyPrice, TokenModel tokenModel)
+    {
+        if (string.IsNullOrEmpty(plan.StripeProductId))
+        {
+            _logger.LogWarning("Plan {PlanName} has no Stripe product ID. Cannot create a Stripe price for currency {CurrencyId}.", plan.Name, currencyPrice.CurrencyId);
+            return null;
+        }
+
+        try
+        {
+            var currency = await _currencyRepository.GetByIdAsync(currencyPrice.CurrencyId);
+            var currencyCode = (currency?.Code ?? string.Empty).ToLowerInvariant();
+
+            return string.IsNullOrEmpty(currencyPrice.StripePriceId)
+                ? await _stripeService.CreatePriceAsync(plan.StripeProductId, currencyPrice.Price, currencyCode, "month", 1, tokenModel)
+                : await _stripeService.UpdatePriceWithNewPriceAsync(currencyPrice.StripePriceId, plan.StripeProductId, currencyPrice.Price, currencyCode, "month", 1, tokenModel);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating Stripe price in currency {CurrencyId} for plan {PlanName}. Proceeding with local update only.", currencyPrice.CurrencyId, plan.Name);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Checks a plan's prices on other billing cycles. Returns the error message, or null when they are valid.
+    /// </summary>
+    private async Task<string?> ValidateCyclePricesAsync(Guid planBillingCycleId, List<PlanCyclePriceDto> cyclePrices)
+    {
+        if (cyclePrices.Any(p => p.BillingCycleId == planBillingCycleId))
+        {
+            return "The plan's own billing cycle is priced by the plan price, not by a cycle price";
+        }
+
+        if (cyclePrices.GroupBy(p => p.BillingCycleId).Any(g => g.Count() > 1))
+        {
+            return "A plan can only have one price per billing cycle";
+        }
+
+        if (cyclePrices.Any(p => p.DiscountedPrice.HasValue && p.DiscountedPrice.Value >= p.Price))
+        {
+            return "A billing cycle's discounted price must be less than its price";
+        }
+
+        foreach (var cyclePrice in cyclePrices)
+        {
+            var billingCycle = await _billingCycleRepository.GetByIdAsync(cyclePrice.BillingCycleId);
+            if (billingCycle == null || billingCycle.IsDeleted || !billingCycle.IsActive)
+            {
+                return $"Billing cycle {cyclePrice.BillingCycleId} not found or inactive";
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Makes a plan's prices on other billing cycles match the given list, matching them by billing cycle.
+    /// Stripe prices are kept, replaced or supplied the same way as for currency prices. Each cycle's Stripe
+    /// price is also written to the plan's Stripe price field named after the cycle, and cleared from it when
+    /// the cycle price is removed.
+    /// </summary>
+    private async Task SyncCyclePricesAsync(SubscriptionPlan plan, List<PlanCyclePriceDto> cyclePrices, TokenModel tokenModel)
+    {
+        var existing = (await _cyclePriceRepository.FindAsync(cp => cp.SubscriptionPlanId == plan.Id)).ToList();
+        var planChanged = false;
+
+        foreach (var cyclePrice in existing.Where(e => cyclePrices.All(p => p.BillingCycleId != e.BillingCycleId)))
+        {
+            plan.CyclePrices.Remove(cyclePrice);
+
+            var billingCycle = await _billingCycleRepository.GetByIdAsync(cyclePrice.BillingCycleId);
+            if (billingCycle != null && cyclePrice.StripePriceId != null &&
+                plan.GetStripePriceId(billingCycle) == cyclePrice.StripePriceId)
+            {
+                plan.SetStripePriceId(billingCycle.Name, null);
+                planChanged = true;
+            }
+
+            await _cyclePriceRepository.DeleteAsync(cyclePrice);
+        }
+
+        foreach (var priceDto in cyclePrices)
+        {
+            var billingCycle = await _billingCycleRepository.GetByIdAsync(priceDto.BillingCycleId);
+            if (billingCycle == null)
+            {
+                continue;
+            }
+
+            var cyclePrice = existing.FirstOrDefault(e => e.BillingCycleId == priceDto.BillingCycleId);
+            var isNew = cyclePrice == null;
+            cyclePrice ??= new SubscriptionPlanCyclePrice
+            {
+                Id = Guid.NewGuid(),
+                SubscriptionPlanId = plan.Id,
+                BillingCycleId = priceDto.BillingCycleId,
+                IsActive = true,
+                CreatedBy = tokenModel.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            var amountChanged = cyclePrice.Price != priceDto.Price;
+            var suppliedPriceId = string.IsNullOrWhiteSpace(priceDto.StripePriceId) ? null : priceDto.StripePriceId.Trim();
+
+            cyclePrice.Price = priceDto.Price;
+            cyclePrice.DiscountedPrice = priceDto.DiscountedPrice;
+
+            if (suppliedPriceId != null && suppliedPriceId != cyclePrice.StripePriceId)
+            {
+                cyclePrice.StripePriceId = suppliedPriceId;
+            }
+            else if (amountChanged || string.IsNullOrEmpty(cyclePrice.StripePriceId))
+            {
+                cyclePrice.StripePriceId = await CreateCycleStripePriceAsync(plan, cyclePrice, billingCycle, tokenModel) ?? cyclePrice.StripePriceId;
+            }
+
+            if (isNew)
+            {
+                await _cyclePriceRepository.AddAsync(cyclePrice);
+            }
+            else
+            {
+                cyclePrice.UpdatedBy = tokenModel.UserID;
+                cyclePrice.UpdatedDate = DateTime.UtcNow;
+                await _cyclePriceRepository.UpdateAsync(cyclePrice);
+            }
+
+            if (cyclePrice.StripePriceId != null)
+            {
+                plan.SetStripePriceId(billingCycle.Name, cyclePrice.StripePriceId);
+                planChanged = true;
+            }
+        }
+
+        if (planChanged)
+        {
+            await _subscriptionPlanRepository.UpdateAsync(plan);
+        }
+    }
+
+    /// <summary>
+    /// Creates the Stripe price for a plan's price on another billing cycle, replacing the one it had. The cycle
+    /// is billed every whole number of months closest to its length. Returns null when the plan has no Stripe
+    /// product or Stripe fails, so the plan is saved without it.
+    /// </summary>
+    private async Task<string?> CreateCycleStripePriceAsync(SubscriptionPlan plan, SubscriptionPlanCyclePrice cyclePrice, MasterBillingCycle billingCycle, TokenModel tokenModel)
+    {
+        if (string.IsNullOrEmpty(plan.StripeProductId))
+        {
+            _logger.LogWarning("Plan {PlanName} has no Stripe product ID. Cannot create a Stripe price for billing cycle {BillingCycleName}.", plan.Name, billingCycle.Name);
+            return null;
+        }
+
+        try
+        {
+            var currency = await _currencyRepository.GetByIdAsync(plan.CurrencyId);
+            var currencyCode = (currency?.Code ?? "usd").ToLowerInvariant();
+            var intervalCount = Math.Max(1, (int)Math.Round(billingCycle.DurationInDays / 30.0));
+
+            return string.IsNullOrEmpty(cyclePrice.StripePriceId)
+                ? await _stripeService.CreatePriceAsync(plan.StripeProductId, cyclePrice.Price, currencyCode, "month", intervalCount, tokenModel)
+                : await _stripeService.UpdatePriceWithNewPriceAsync(cyclePrice.StripePriceId, plan.StripeProductId, cyclePrice.Price, currencyCode, "month", intervalCount, tokenModel);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating Stripe price on billing cycle {BillingCycleName} for plan {PlanName}. Proceeding with local update only.", billingCycle.Name, plan.Name);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Whether a Stripe price ID belongs to one of the plan's cycle prices, which are repriced through their own
+    /// amounts rather than as multiples of the plan price. Requires CyclePrices to be loaded.
+    /// </summary>
+    private static bool IsCyclePriceId(SubscriptionPlan plan, string priceId)
+    {
+        return plan.CyclePrices.Any(cp => cp.StripePriceId == priceId);
+    }
+
     /// <summary>
     /// Generates CSV data for subscription plans export
     /// </summary>
@@ -355,13 +355,25 @@ public class SubscriptionService : ISubscriptionService
             var billingHistory = ((IEnumerable<BillingRecordDto>)billingRecords.data).Select(br => new BillingHistoryDto
             {
                 Id = br.Id.ToString(),
+                UserId = br.UserId,
+                SubscriptionId = br.SubscriptionId,
+                BillingType = br.Type,
                 Amount = br.Amount,
+                TaxAmount = br.TaxAmount,
+                RefundAmount = br.RefundAmount,
+                Currency = br.Currency,
                 Status = br.Status,
                 BillingDate = br.BillingDate,
+                DueDate = br.DueDate ?? br.BillingDate,
                 PaidDate = br.PaidAt,
+                PaidAt = br.PaidAt,
                 Description = br.Description,
                 InvoiceNumber = br.InvoiceNumber,
-                PaymentMethod = br.PaymentMethod
+                PaymentMethod = br.PaymentMethod,
+                FailureReason = br.FailureReason,
+                StripeInvoiceId = br.StripeInvoiceId,
+                StripePaymentIntentId = br.StripePaymentIntentId,
+                CreatedDate = br.CreatedDate
             });
 
             return new JsonModel { data = billingHistory, Message = "Billing history retrieved successfully", StatusCode = 200 };
@@ -667,13 +679,14 @@ public class SubscriptionService : ISubscriptionService
                 var planPrivilege = planPrivileges.FirstOrDefault(pp => pp.Id == usage.SubscriptionPlanPrivilegeId);
                 if (planPrivilege != null)
                 {
+                    // The usage record's allowance includes any extra usage granted by an admin
                     usageStats.PrivilegeUsage.Add(new PrivilegeUsageDto
                     {
                         PrivilegeName = planPrivilege.Privilege.Name,
                         UsedValue = usage.UsedValue,
-                        AllowedValue = planPrivilege.Value,
-                        RemainingValue = planPrivilege.Value == -1 ? int.MaxValue : Math.Max(0, planPrivilege.Value - usage.UsedValue),
-                        UsagePercentage = planPrivilege.Value == -1 ? 0 : (decimal)usage.UsedValue / planPrivilege.Value * 100
+                        AllowedValue = usage.AllowedValue,
+                        RemainingValue = usage.RemainingValue,
+                        UsagePercentage = usage.UsagePercentage
                     });
                 }
             }
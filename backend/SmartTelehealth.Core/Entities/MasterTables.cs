@@ -477,6 +477,30 @@ public class MasterCurrency : BaseEntity
     /// </summary>
     public int SortOrder { get; set; } = 0;
     
+    /// <summary>
+    /// ISO code of the currency that revenue in several currencies is converted to for totals.
+    /// The reporting currency has a fixed exchange rate of 1.
+    /// </summary>
+    public const string ReportingCurrencyCode = "USD";
+
+    /// <summary>
+    /// Admin-maintained exchange rate: how many units of the reporting currency one unit of this currency is worth.
+    /// Used to normalize revenue analytics to the reporting currency.
+    /// Null until an admin sets it; revenue in a currency without a rate is left out of normalized totals.
+    /// </summary>
+    [Column(TypeName = "decimal(18,6)")]
+    public decimal? ExchangeRate { get; set; }
+
+    /// <summary>
+    /// Date when the exchange rate was last set.
+    /// </summary>
+    public DateTime? ExchangeRateUpdatedDate { get; set; }
+
+    /// <summary>
+    /// ID of the admin who last set the exchange rate.
+    /// </summary>
+    public int? ExchangeRateUpdatedBy { get; set; }
+    
     // Navigation properties
     /// <summary>
     /// Collection of all subscription plans that use this currency.
@@ -206,6 +206,28 @@ public class Subscription : BaseEntity
     [Column(TypeName = "decimal(18,2)")]
     public decimal CurrentPrice { get; set; }
     
+    /// <summary>
+    /// Foreign key reference to the SubscriptionPlanVersion whose price this subscription is billed at.
+    /// Used for plan versioning to keep grandfathered subscribers on the version they signed up at.
+    /// Null until a version is applied after the subscription started; until then the subscription
+    /// is billed at the version that was current when it started.
+    /// </summary>
+    public Guid? SubscriptionPlanVersionId { get; set; }
+
+    /// <summary>
+    /// Foreign key reference to the SubscriptionPlanVersion this subscription moves to at its next renewal.
+    /// Used for plan versions published with the next renewal migration policy.
+    /// Cleared once the subscription has moved.
+    /// </summary>
+    public Guid? PendingPlanVersionId { get; set; }
+
+    /// <summary>
+    /// Renewal date at which the subscription moves to PendingPlanVersionId.
+    /// Used by the subscription background service to move subscribers at renewal.
+    /// Set together with PendingPlanVersionId.
+    /// </summary>
+    public DateTime? PendingPlanVersionDate { get; set; }
+    
     /// <summary>
     /// Indicates whether the subscription should automatically renew.
     /// Used for subscription renewal logic and billing management.
@@ -244,6 +266,13 @@ public class Subscription : BaseEntity
     /// </summary>
     public DateTime? ResumedDate { get; set; }
     
+    /// <summary>
+    /// Date when a paused subscription is resumed automatically.
+    /// Used by the subscription background service to end scheduled pauses.
+    /// Set when subscription is paused with a resume date and cleared on resume.
+    /// </summary>
+    public DateTime? ScheduledResumeDate { get; set; }
+    
     /// <summary>
     /// Date when the subscription was cancelled.
     /// Used for cancellation tracking and subscription history.
@@ -267,7 +267,21 @@ public class SubscriptionPlan : BaseEntity
     /// Used for privilege management and access control.
     /// </summary>
     public virtual ICollection<SubscriptionPlanPrivilege> PlanPrivileges { get; set; } = new List<SubscriptionPlanPrivilege>();
-    
+
+    /// <summary>
+    /// Collection of the prices of this subscription plan in currencies other than its own.
+    /// Represents the price points users billed in those currencies are charged.
+    /// Used for international pricing and Stripe price management.
+    /// </summary>
+    public virtual ICollection<SubscriptionPlanCurrencyPrice> CurrencyPrices { get; set; } = new List<SubscriptionPlanCurrencyPrice>();
+
+    /// <summary>
+    /// Collection of the prices of this subscription plan on billing cycles other than its own.
+    /// Represents the other billing frequencies users can subscribe to this plan on.
+    /// Used for billing cycle selection and Stripe price management.
+    /// </summary>
+    public virtual ICollection<SubscriptionPlanCyclePrice> CyclePrices { get; set; } = new List<SubscriptionPlanCyclePrice>();
+
     /// <summary>
     /// Collection of all subscriptions that use this subscription plan.
     /// Represents the user subscriptions based on this plan.
@@ -302,5 +316,46 @@ public class SubscriptionPlan : BaseEntity
     public bool IsCurrentlyAvailable => IsActive && 
         (!EffectiveDate.HasValue || EffectiveDate.Value <= DateTime.UtcNow) &&
         (!ExpirationDate.HasValue || ExpirationDate.Value >= DateTime.UtcNow);
+    
+    /// <summary>
+    /// Returns the Stripe price ID charged on a billing cycle of this plan: the cycle price's own Stripe price
+    /// when the plan is offered on the cycle besides its primary one, otherwise the Stripe price field named
+    /// after the cycle. Cycles other than quarterly and annual use the monthly field. Requires CyclePrices to be loaded.
+    /// </summary>
+    public string? GetStripePriceId(MasterBillingCycle billingCycle)
+    {
+        var cyclePrice = CyclePrices.FirstOrDefault(cp => cp.BillingCycleId == billingCycle.Id);
+        if (cyclePrice != null)
+        {
+            return cyclePrice.StripePriceId;
+        }
+
+        return billingCycle.Name.ToLower() switch
+        {
+            "quarterly" => StripeQuarterlyPriceId,
+            "annual" => StripeAnnualPriceId,
+            _ => StripeMonthlyPriceId
+        };
+    }
+    
+    /// <summary>
+    /// Sets the Stripe price field named after a billing cycle, so a monthly, quarterly or annual cycle price
+    /// is also found through the plan's Stripe price fields. Other cycles have no field and are left out.
+    /// </summary>
+    public void SetStripePriceId(string billingCycleName, string? stripePriceId)
+    {
+        switch (billingCycleName.ToLower())
+        {
+            case "monthly":
+                StripeMonthlyPriceId = stripePriceId;
+                break;
+            case "quarterly":
+                StripeQuarterlyPriceId = stripePriceId;
+                break;
+            case "annual":
+                StripeAnnualPriceId = stripePriceId;
+                break;
+        }
+    }
 }
 #endregion 
\ No newline at end of file
@@ -0,0 +1,65 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace SmartTelehealth.Core.Entities;
+
+/// <summary>
+/// Price of a subscription plan in a currency other than the plan's own CurrencyId.
+/// Each row is charged through its own Stripe price, created on the plan's Stripe product
+/// unless an admin supplies the Stripe price ID. The plan's own currency keeps using the
+/// Price and Stripe price fields on the plan.
+/// </summary>
+public class SubscriptionPlanCurrencyPrice : BaseEntity
+{
+    /// <summary>
+    /// Primary key identifier for the plan currency price.
+    /// Uses Guid for better scalability and security in distributed systems.
+    /// Unique identifier for each plan currency price record in the system.
+    /// </summary>
+    [Key]
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Foreign key reference to the SubscriptionPlan this price belongs to.
+    /// Required for plan-price relationship management.
+    /// </summary>
+    [Required]
+    public Guid SubscriptionPlanId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the SubscriptionPlan this price belongs to.
+    /// </summary>
+    public virtual SubscriptionPlan SubscriptionPlan { get; set; } = null!;
+
+    /// <summary>
+    /// Foreign key reference to the Currency this price is charged in.
+    /// A plan has at most one price per currency.
+    /// </summary>
+    [Required]
+    public Guid CurrencyId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the Currency this price is charged in.
+    /// </summary>
+    public virtual MasterCurrency Currency { get; set; } = null!;
+
+    /// <summary>
+    /// Price of the plan in this currency, for the same billing period as the plan's Price.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// Discounted price of the plan in this currency, if applicable.
+    /// Uses the plan's DiscountValidUntil date.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? DiscountedPrice { get; set; }
+
+    /// <summary>
+    /// Stripe price ID charged for this currency.
+    /// Links this price to the corresponding price on the plan's Stripe product.
+    /// </summary>
+    [MaxLength(100)]
+    public string? StripePriceId { get; set; }
+}
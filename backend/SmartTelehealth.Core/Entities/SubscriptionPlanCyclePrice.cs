@@ -0,0 +1,64 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace SmartTelehealth.Core.Entities;
+
+/// <summary>
+/// Price of a subscription plan on a billing cycle other than the plan's own BillingCycleId, in the plan's currency.
+/// Each row is charged through its own Stripe price, created on the plan's Stripe product unless an admin
+/// supplies the Stripe price ID. Monthly, quarterly and annual cycles also fill the plan's matching Stripe price field.
+/// </summary>
+public class SubscriptionPlanCyclePrice : BaseEntity
+{
+    /// <summary>
+    /// Primary key identifier for the plan cycle price.
+    /// Uses Guid for better scalability and security in distributed systems.
+    /// Unique identifier for each plan cycle price record in the system.
+    /// </summary>
+    [Key]
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Foreign key reference to the SubscriptionPlan this price belongs to.
+    /// Required for plan-price relationship management.
+    /// </summary>
+    [Required]
+    public Guid SubscriptionPlanId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the SubscriptionPlan this price belongs to.
+    /// </summary>
+    public virtual SubscriptionPlan SubscriptionPlan { get; set; } = null!;
+
+    /// <summary>
+    /// Foreign key reference to the BillingCycle this price is charged on.
+    /// A plan has at most one price per billing cycle.
+    /// </summary>
+    [Required]
+    public Guid BillingCycleId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the BillingCycle this price is charged on.
+    /// </summary>
+    public virtual MasterBillingCycle BillingCycle { get; set; } = null!;
+
+    /// <summary>
+    /// Price of the plan for one period of this billing cycle.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// Discounted price of the plan on this billing cycle, if applicable.
+    /// Uses the plan's DiscountValidUntil date.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? DiscountedPrice { get; set; }
+
+    /// <summary>
+    /// Stripe price ID charged on this billing cycle.
+    /// Links this price to the corresponding recurring price on the plan's Stripe product.
+    /// </summary>
+    [MaxLength(100)]
+    public string? StripePriceId { get; set; }
+}
@@ -0,0 +1,153 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace SmartTelehealth.Core.Entities;
+
+/// <summary>
+/// Subscription plan version entity that records each published edit of a subscription plan.
+/// A version holds the plan and its privileges as they were published, the date they take effect
+/// and how existing subscribers are treated when they do. Versions with a future effective date are
+/// applied to the plan by the subscription background service, after subscribers have been notified.
+/// </summary>
+public class SubscriptionPlanVersion : BaseEntity
+{
+    /// <summary>
+    /// Primary key identifier for the plan version.
+    /// Uses Guid for better scalability and security in distributed systems.
+    /// Unique identifier for each plan version record in the system.
+    /// </summary>
+    [Key]
+    public Guid Id { get; set; }
+
+    #region Constants
+    /// <summary>
+    /// Valid migration policies for existing subscribers when a version takes effect.
+    /// </summary>
+    public static class MigrationPolicies
+    {
+        /// <summary>
+        /// Existing subscribers keep the price of the version they are on.
+        /// </summary>
+        public const string Grandfather = "Grandfather";
+
+        /// <summary>
+        /// Existing subscribers move to the new price at their next renewal.
+        /// </summary>
+        public const string NextRenewal = "NextRenewal";
+
+        /// <summary>
+        /// Existing subscribers move to the new price as soon as the version takes effect.
+        /// </summary>
+        public const string Immediate = "Immediate";
+
+        /// <summary>
+        /// Array of all valid migration policies for validation.
+        /// </summary>
+        public static readonly string[] ValidPolicies = { Grandfather, NextRenewal, Immediate };
+    }
+
+    /// <summary>
+    /// Valid version statuses.
+    /// </summary>
+    public static class VersionStatuses
+    {
+        /// <summary>
+        /// The version takes effect on its effective date.
+        /// </summary>
+        public const string Scheduled = "Scheduled";
+
+        /// <summary>
+        /// The version is the plan as it is sold now.
+        /// </summary>
+        public const string Current = "Current";
+
+        /// <summary>
+        /// A later version has taken effect.
+        /// </summary>
+        public const string Superseded = "Superseded";
+
+        /// <summary>
+        /// The version was cancelled before it took effect.
+        /// </summary>
+        public const string Cancelled = "Cancelled";
+    }
+    #endregion
+
+    /// <summary>
+    /// Foreign key reference to the SubscriptionPlan this version belongs to.
+    /// Required for plan-version relationship management.
+    /// </summary>
+    [Required]
+    public Guid SubscriptionPlanId { get; set; }
+
+    /// <summary>
+    /// Navigation property to the SubscriptionPlan this version belongs to.
+    /// </summary>
+    public virtual SubscriptionPlan SubscriptionPlan { get; set; } = null!;
+
+    /// <summary>
+    /// Sequential number of the version within its plan, starting at 1.
+    /// </summary>
+    public int VersionNumber { get; set; }
+
+    /// <summary>
+    /// Price of the plan in this version.
+    /// Copied to subscriptions when they move to this version.
+    /// </summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Price { get; set; }
+
+    /// <summary>
+    /// The plan fields of this version, serialized as JSON.
+    /// </summary>
+    [Required]
+    public string PlanSnapshot { get; set; } = string.Empty;
+
+    /// <summary>
+    /// The plan privileges of this version, serialized as JSON.
+    /// </summary>
+    [Required]
+    public string PrivilegesSnapshot { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Date when this version takes effect.
+    /// </summary>
+    public DateTime EffectiveDate { get; set; }
+
+    /// <summary>
+    /// Date when this version was applied to the plan.
+    /// Null while the version is scheduled or when it was cancelled.
+    /// </summary>
+    public DateTime? AppliedDate { get; set; }
+
+    /// <summary>
+    /// How existing subscribers are treated when this version takes effect.
+    /// One of MigrationPolicies.
+    /// </summary>
+    [Required]
+    [MaxLength(50)]
+    public string MigrationPolicy { get; set; } = MigrationPolicies.Grandfather;
+
+    /// <summary>
+    /// Number of days before EffectiveDate that the subscribers who move are notified.
+    /// </summary>
+    public int NoticeDays { get; set; }
+
+    /// <summary>
+    /// Date when the subscribers who move were notified of this version.
+    /// </summary>
+    public DateTime? NoticeSentDate { get; set; }
+
+    /// <summary>
+    /// Status of the version. One of VersionStatuses.
+    /// </summary>
+    [Required]
+    [MaxLength(50)]
+    public string Status { get; set; } = VersionStatuses.Scheduled;
+
+    /// <summary>
+    /// Short description of the change, shown in the version history and in subscriber notices.
+    /// </summary>
+    [MaxLength(500)]
+    public string? ChangeSummary { get; set; }
+}
@@ -10,4 +10,5 @@ public interface IBillingAdjustmentRepository
     Task<BillingAdjustment> UpdateAsync(BillingAdjustment billingAdjustment);
     Task<bool> DeleteAsync(Guid id);
     Task<IEnumerable<BillingAdjustment>> GetAllAsync();
+    Task<IEnumerable<BillingAdjustment>> GetRefundsAsync(DateTime? startDate, DateTime? endDate);
 } 
\ No newline at end of file
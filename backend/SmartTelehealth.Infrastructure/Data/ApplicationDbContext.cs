@@ -79,6 +79,9 @@ public class ApplicationDbContext : IdentityDbContext<User, Role, int>
     public DbSet<SubscriptionPayment> SubscriptionPayments { get; set; }
     public DbSet<Privilege> Privileges { get; set; }
     public DbSet<SubscriptionPlanPrivilege> SubscriptionPlanPrivileges { get; set; }
+    public DbSet<SubscriptionPlanVersion> SubscriptionPlanVersions { get; set; }
+    public DbSet<SubscriptionPlanCurrencyPrice> SubscriptionPlanCurrencyPrices { get; set; }
+    public DbSet<SubscriptionPlanCyclePrice> SubscriptionPlanCyclePrices { get; set; }
     public DbSet<UserSubscriptionPrivilegeUsage> UserSubscriptionPrivilegeUsages { get; set; }
     public DbSet<PrivilegeUsageHistory> PrivilegeUsageHistories { get; set; }
     
@@ -115,6 +118,9 @@ public class ApplicationDbContext : IdentityDbContext<User, Role, int>
         ConfigureProvider(builder);
         ConfigureCategory(builder);
         ConfigureSubscriptionPlan(builder);
+        ConfigureSubscriptionPlanVersion(builder);
+        ConfigureSubscriptionPlanCurrencyPrice(builder);
+        ConfigureSubscriptionPlanCyclePrice(builder);
         ConfigureSubscription(builder);
         ConfigureHealthAssessment(builder);
         ConfigureConsultation(builder);
@@ -307,6 +313,7 @@ public class ApplicationDbContext : IdentityDbContext<User, Role, int>
             entity.Property(e => e.Code).IsRequired().HasMaxLength(10);
             entity.Property(e => e.Name).IsRequired().HasMaxLength(50);
             entity.Property(e => e.Symbol).HasMaxLength(10);
+            entity.Property(e => e.ExchangeRate).HasPrecision(18, 6);
             entity.Property(e => e.IsActive).HasDefaultValue(true);
             entity.Property(e => e.SortOrder).HasDefaultValue(0);
         });
@@ -404,6 +411,63 @@ public class ApplicationDbContext : IdentityDbContext<User, Role, int>
         });
     }
     
+    private void ConfigureSubscriptionPlanVersion(ModelBuilder builder)
+    {
+        builder.Entity<SubscriptionPlanVersion>(entity =>
+        {
+            entity.ToTable("SubscriptionPlanVersions");
+            entity.Property(e => e.Price).HasPrecision(18, 2);
+            entity.Property(e => e.MigrationPolicy).IsRequired().HasMaxLength(50);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(50);
+            entity.Property(e => e.ChangeSummary).HasMaxLength(500);
+            entity.HasIndex(e => new { e.SubscriptionPlanId, e.VersionNumber }).IsUnique();
+            entity.HasOne(e => e.SubscriptionPlan)
+                .WithMany()
+                .HasForeignKey(e => e.SubscriptionPlanId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+    }
+    
+    private void ConfigureSubscriptionPlanCurrencyPrice(ModelBuilder builder)
+    {
+        builder.Entity<SubscriptionPlanCurrencyPrice>(entity =>
+        {
+            entity.ToTable("SubscriptionPlanCurrencyPrices");
+            entity.Property(e => e.Price).HasPrecision(18, 2);
+            entity.Property(e => e.DiscountedPrice).HasPrecision(18, 2);
+            entity.Property(e => e.StripePriceId).HasMaxLength(100);
+            entity.HasIndex(e => new { e.SubscriptionPlanId, e.CurrencyId }).IsUnique();
+            entity.HasOne(e => e.SubscriptionPlan)
+                .WithMany(p => p.CurrencyPrices)
+                .HasForeignKey(e => e.SubscriptionPlanId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.Currency)
+                .WithMany()
+                .HasForeignKey(e => e.CurrencyId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
+    }
+    
+    private void ConfigureSubscriptionPlanCyclePrice(ModelBuilder builder)
+    {
+        builder.Entity<SubscriptionPlanCyclePrice>(entity =>
+        {
+            entity.ToTable("SubscriptionPlanCyclePrices");
+            entity.Property(e => e.Price).HasPrecision(18, 2);
+            entity.Property(e => e.DiscountedPrice).HasPrecision(18, 2);
+            entity.Property(e => e.StripePriceId).HasMaxLength(100);
+            entity.HasIndex(e => new { e.SubscriptionPlanId, e.BillingCycleId }).IsUnique();
+            entity.HasOne(e => e.SubscriptionPlan)
+                .WithMany(p => p.CyclePrices)
+                .HasForeignKey(e => e.SubscriptionPlanId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.BillingCycle)
+                .WithMany()
+                .HasForeignKey(e => e.BillingCycleId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
+    }
+    
     private void ConfigureSubscription(ModelBuilder builder)
     {
         builder.Entity<Subscription>(entity =>
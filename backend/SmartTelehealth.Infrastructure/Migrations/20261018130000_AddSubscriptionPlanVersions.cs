@@ -0,0 +1,95 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace SmartTelehealth.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSubscriptionPlanVersions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "PendingPlanVersionDate",
+                table: "Subscriptions",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "PendingPlanVersionId",
+                table: "Subscriptions",
+                type: "uniqueidentifier",
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "SubscriptionPlanVersionId",
+                table: "Subscriptions",
+                type: "uniqueidentifier",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "SubscriptionPlanVersions",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    SubscriptionPlanId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    VersionNumber = table.Column<int>(type: "int", nullable: false),
+                    Price = table.Column<decimal>(type: "decimal(18,2)", precision: 18, scale: 2, nullable: false),
+                    PlanSnapshot = table.Column<string>(type: "nvarchar(max)", nullable: false),
+                    PrivilegesSnapshot = table.Column<string>(type: "nvarchar(max)", nullable: false),
+                    EffectiveDate = table.Column<DateTime>(type: "datetime2", nullable: false),
+                    AppliedDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    MigrationPolicy = table.Column<string>(type: "nvarchar(50)", maxLength: 50, nullable: false),
+                    NoticeDays = table.Column<int>(type: "int", nullable: false),
+                    NoticeSentDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    Status = table.Column<string>(type: "nvarchar(50)", maxLength: 50, nullable: false),
+                    ChangeSummary = table.Column<string>(type: "nvarchar(500)", maxLength: 500, nullable: true),
+                    IsActive = table.Column<bool>(type: "bit", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "bit", nullable: false),
+                    CreatedBy = table.Column<int>(type: "int", nullable: true),
+                    CreatedDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    UpdatedBy = table.Column<int>(type: "int", nullable: true),
+                    UpdatedDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    DeletedBy = table.Column<int>(type: "int", nullable: true),
+                    DeletedDate = table.Column<DateTime>(type: "datetime2", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SubscriptionPlanVersions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SubscriptionPlanVersions_SubscriptionPlans_SubscriptionPlanId",
+                        column: x => x.SubscriptionPlanId,
+                        principalTable: "SubscriptionPlans",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubscriptionPlanVersions_SubscriptionPlanId_VersionNumber",
+                table: "SubscriptionPlanVersions",
+                columns: new[] { "SubscriptionPlanId", "VersionNumber" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SubscriptionPlanVersions");
+
+            migrationBuilder.DropColumn(
+                name: "PendingPlanVersionDate",
+                table: "Subscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "PendingPlanVersionId",
+                table: "Subscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "SubscriptionPlanVersionId",
+                table: "Subscriptions");
+        }
+    }
+}
@@ -0,0 +1,101 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace SmartTelehealth.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddPlanCurrencyPricesAndExchangeRates : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "ExchangeRate",
+                table: "MasterCurrencies",
+                type: "decimal(18,6)",
+                precision: 18,
+                scale: 6,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ExchangeRateUpdatedBy",
+                table: "MasterCurrencies",
+                type: "int",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ExchangeRateUpdatedDate",
+                table: "MasterCurrencies",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "SubscriptionPlanCurrencyPrices",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    SubscriptionPlanId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    CurrencyId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    Price = table.Column<decimal>(type: "decimal(18,2)", precision: 18, scale: 2, nullable: false),
+                    DiscountedPrice = table.Column<decimal>(type: "decimal(18,2)", precision: 18, scale: 2, nullable: true),
+                    StripePriceId = table.Column<string>(type: "nvarchar(100)", maxLength: 100, nullable: true),
+                    IsActive = table.Column<bool>(type: "bit", nullable: false),
+                    IsDeleted = table.Column<bool>(type: "bit", nullable: false),
+                    CreatedBy = table.Column<int>(type: "int", nullable: true),
+                    CreatedDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    UpdatedBy = table.Column<int>(type: "int", nullable: true),
+                    UpdatedDate = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    DeletedBy = table.Column<int>(type: "int", nullable: true),
+                    DeletedDate = table.Column<DateTime>(type: "datetime2", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SubscriptionPlanCurrencyPrices", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SubscriptionPlanCurrencyPrices_MasterCurrencies_CurrencyId",
+                        column: x => x.CurrencyId,
+                        principalTable: "MasterCurrencies",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                    table.ForeignKey(
+                        name: "FK_SubscriptionPlanCurrencyPrices_SubscriptionPlans_SubscriptionPlanId",
+                        column: x => x.SubscriptionPlanId,
+                        principalTable: "SubscriptionPlans",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubscriptionPlanCurrencyPrices_CurrencyId",
+                table: "SubscriptionPlanCurrencyPrices",
+                column: "CurrencyId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubscriptionPlanCurrencyPrices_SubscriptionPlanId_CurrencyId",
+                table: "SubscriptionPlanCurrencyPrices",
+                columns: new[] { "SubscriptionPlanId", "CurrencyId" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SubscriptionPlanCurrencyPrices");
+
+            migrationBuilder.DropColumn(
+                name: "ExchangeRate",
+                table: "MasterCurrencies");
+
+            migrationBuilder.DropColumn(
+                name: "ExchangeRateUpdatedBy",
+                table: "MasterCurrencies");
+
+            migrationBuilder.DropColumn(
+                name: "ExchangeRateUpdatedDate",
+                table: "MasterCurrencies");
+        }
+    }
+}
@@ -60,4 +60,23 @@ public class BillingAdjustmentRepository : IBillingAdjustmentRepository
             .Include(ba => ba.BillingRecord)
             .ToListAsync();
     }
+
+    public async Task<IEnumerable<BillingAdjustment>> GetRefundsAsync(DateTime? startDate, DateTime? endDate)
+    {
+        var query = _context.BillingAdjustments
+            .Include(ba => ba.BillingRecord).ThenInclude(br => br.User)
+            .Include(ba => ba.BillingRecord).ThenInclude(br => br.Currency)
+            .Include(ba => ba.BillingRecord).ThenInclude(br => br.Subscription).ThenInclude(s => s!.SubscriptionPlan)
+            .Include(ba => ba.AppliedByUser)
+            .Where(ba => ba.Type == BillingAdjustment.AdjustmentType.Refund);
+
+        if (startDate.HasValue)
+            query = query.Where(ba => ba.AppliedAt >= startDate.Value);
+        if (endDate.HasValue)
+            query = query.Where(ba => ba.AppliedAt <= endDate.Value);
+
+        return await query
+            .OrderByDescending(ba => ba.AppliedAt)
+            .ToListAsync();
+    }
 } 
\ No newline at end of file
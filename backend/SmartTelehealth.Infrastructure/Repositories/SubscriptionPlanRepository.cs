@@ -44,6 +44,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Include(sp => sp.PlanPrivileges)
                 .ThenInclude(spp => spp.Privilege)
@@ -59,6 +63,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Include(sp => sp.PlanPrivileges)
                 .ThenInclude(spp => spp.Privilege)
@@ -152,6 +160,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.IsActive)
             .OrderBy(sp => sp.DisplayOrder)
@@ -167,6 +179,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.CategoryId == categoryId)
             .OrderBy(sp => sp.DisplayOrder)
@@ -186,6 +202,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.Name.ToLower().Contains(term) || 
                         (sp.Description != null && sp.Description.ToLower().Contains(term)))
@@ -209,6 +229,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         var query = _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Include(sp => sp.PlanPrivileges)
                 .ThenInclude(spp => spp.Privilege)
@@ -324,6 +348,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.CreatedDate >= startDate && sp.CreatedDate <= endDate)
             .OrderBy(sp => sp.CreatedDate)
@@ -338,6 +366,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.BillingCycleId == billingCycleId)
             .OrderBy(sp => sp.DisplayOrder)
@@ -353,6 +385,10 @@ public class SubscriptionPlanRepository : RepositoryBase<SubscriptionPlan>, ISub
         return await _context.SubscriptionPlans
             .Include(sp => sp.Category)
             .Include(sp => sp.Currency)
+            .Include(sp => sp.CurrencyPrices)
+                .ThenInclude(cp => cp.Currency)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .Include(sp => sp.BillingCycle)
             .Where(sp => sp.CurrencyId == currencyId)
             .OrderBy(sp => sp.DisplayOrder)
@@ -132,6 +132,8 @@ public class SubscriptionRepository : RepositoryBase<Subscription>, ISubscriptio
         return await _context.SubscriptionPlans
             .Include(sp => sp.BillingCycle)
             .Include(sp => sp.PlanPrivileges)
+            .Include(sp => sp.CyclePrices)
+                .ThenInclude(cp => cp.BillingCycle)
             .FirstOrDefaultAsync(sp => sp.Id == id);
     }
 
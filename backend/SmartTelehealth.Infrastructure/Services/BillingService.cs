@@ -1214,6 +1214,16 @@ public class BillingService : IBillingService
             StatusCode = 200
         };
     }
+    public async Task<JsonModel> GetRefundsAsync(DateTime? startDate, DateTime? endDate, string? planId, int? refundedBy, int page, int pageSize, TokenModel tokenModel)
+    {
+        // The refunds ledger is served by the Application layer
+        return await Task.FromResult(new JsonModel
+        {
+            data = new object(),
+            Message = "Not implemented in infrastructure layer",
+            StatusCode = 501
+        });
+    }
     public async Task<JsonModel> UpdatePaymentMethodAsync(Guid billingRecordId, string paymentMethodId, TokenModel tokenModel)
     {
         // Not implemented in infrastructure layer
@@ -13,27 +13,30 @@ public class MasterDataService : IMasterDataService
     private readonly ApplicationDbContext _context;
     private readonly ILogger<MasterDataService> _logger;
 
+    // Subscriptions in these statuses are no longer billed, so they do not keep a billing cycle in use
+    private static readonly string[] EndedStatuses =
+    {
+        Subscription.SubscriptionStatuses.Cancelled,
+        Subscription.SubscriptionStatuses.Expired,
+        Subscription.SubscriptionStatuses.TrialExpired
+    };
+
     public MasterDataService(ApplicationDbContext context, ILogger<MasterDataService> logger)
     {
         _context = context;
         _logger = logger;
     }
 
-    public async Task<JsonModel> GetBillingCyclesAsync(TokenModel token)
+    #region Billing Cycles
+
+    public async Task<JsonModel> GetBillingCyclesAsync(bool includeInactive, bool includeDeleted, TokenModel token)
     {
         try
         {
             var billingCycles = await _context.MasterBillingCycles
-                .Where(x => x.IsActive)
+                .Where(x => (includeInactive || x.IsActive) && (includeDeleted || !x.IsDeleted))
                 .OrderBy(x => x.SortOrder)
-                .Select(x => new
-                {
-                    x.Id,
-                    x.Name,
-                    x.Description,
-                    x.IsActive,
-                    x.SortOrder
-                })
+                .Select(x => ToDto(x))
                 .ToListAsync();
 
             return new JsonModel
@@ -55,22 +58,150 @@ public class MasterDataService : IMasterDataService
         }
     }
 
-    public async Task<JsonModel> GetCurrenciesAsync(TokenModel token)
+    public async Task<JsonModel> CreateBillingCycleAsync(SaveMasterBillingCycleDto createDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var billingCycle = new MasterBillingCycle
+            {
+                Id = Guid.NewGuid(),
+                Name = createDto.Name.Trim(),
+                Description = createDto.Description?.Trim(),
+                DurationInDays = createDto.DurationInDays,
+                SortOrder = createDto.SortOrder,
+                IsActive = createDto.IsActive,
+                CreatedBy = token.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            _context.MasterBillingCycles.Add(billingCycle);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Billing cycle {BillingCycleId} created by user {UserId}", billingCycle.Id, token.UserID);
+            return new JsonModel { data = ToDto(billingCycle), Message = "Billing cycle created successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating billing cycle by user {UserId}", token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while creating the billing cycle", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> UpdateBillingCycleAsync(Guid id, SaveMasterBillingCycleDto updateDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var billingCycle = await _context.MasterBillingCycles.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (billingCycle == null)
+                return new JsonModel { data = new object(), Message = "Billing cycle not found", StatusCode = 404 };
+
+            if (billingCycle.IsActive && !updateDto.IsActive)
+            {
+                var activePlans = await GetPlanNamesAsync(p => (p.BillingCycleId == id || p.CyclePrices.Any(cp => cp.BillingCycleId == id)) && p.IsActive);
+                if (activePlans.Any())
+                    return InUse("deactivate", "billing cycle", $"active plans: {string.Join(", ", activePlans)}");
+            }
+
+            billingCycle.Name = updateDto.Name.Trim();
+            billingCycle.Description = updateDto.Description?.Trim();
+            billingCycle.DurationInDays = updateDto.DurationInDays;
+            billingCycle.SortOrder = updateDto.SortOrder;
+            billingCycle.IsActive = updateDto.IsActive;
+            billingCycle.UpdatedBy = token.UserID;
+            billingCycle.UpdatedDate = DateTime.UtcNow;
+            await SaveAsync(token);
+
+            _logger.LogInformation("Billing cycle {BillingCycleId} updated by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(billingCycle), Message = "Billing cycle updated successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating billing cycle {BillingCycleId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while updating the billing cycle", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> DeleteBillingCycleAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var billingCycle = await _context.MasterBillingCycles.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (billingCycle == null)
+                return new JsonModel { data = new object(), Message = "Billing cycle not found", StatusCode = 404 };
+
+            // Inactive plans, live subscriptions and plan privilege usage periods still point at the cycle
+            var plans = await GetPlanNamesAsync(p => p.BillingCycleId == id || p.CyclePrices.Any(cp => cp.BillingCycleId == id));
+            if (plans.Any())
+                return InUse("delete", "billing cycle", $"plans: {string.Join(", ", plans)}");
+
+            var subscriptionCount = await _context.Subscriptions
+                .CountAsync(s => s.BillingCycleId == id && !s.IsDeleted && !EndedStatuses.Contains(s.Status));
+            if (subscriptionCount > 0)
+                return InUse("delete", "billing cycle", $"{subscriptionCount} subscription(s)");
+
+            var privilegeCount = await _context.SubscriptionPlanPrivileges
+                .CountAsync(p => p.UsagePeriodId == id && !p.IsDeleted);
+            if (privilegeCount > 0)
+                return InUse("delete", "billing cycle", $"{privilegeCount} plan privilege(s) as their usage period");
+
+            MarkDeleted(billingCycle, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Billing cycle {BillingCycleId} deleted by user {UserId}", id, token.UserID);
+            return new JsonModel { data = true, Message = "Billing cycle deleted successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting billing cycle {BillingCycleId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while deleting the billing cycle", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> RestoreBillingCycleAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var billingCycle = await _context.MasterBillingCycles.FirstOrDefaultAsync(x => x.Id == id && x.IsDeleted);
+            if (billingCycle == null)
+                return new JsonModel { data = new object(), Message = "Deleted billing cycle not found", StatusCode = 404 };
+
+            MarkRestored(billingCycle, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Billing cycle {BillingCycleId} restored by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(billingCycle), Message = "Billing cycle restored successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring billing cycle {BillingCycleId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while restoring the billing cycle", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Currencies
+
+    public async Task<JsonModel> GetCurrenciesAsync(bool includeInactive, bool includeDeleted, TokenModel token)
     {
         try
         {
             var currencies = await _context.MasterCurrencies
-                .Where(x => x.IsActive)
+                .Where(x => (includeInactive || x.IsActive) && (includeDeleted || !x.IsDeleted))
                 .OrderBy(x => x.SortOrder)
-                .Select(x => new
-                {
-                    x.Id,
-                    x.Code,
-                    x.Name,
-                    x.Symbol,
-                    x.IsActive,
-                    x.SortOrder
-                })
+                .Select(x => ToDto(x))
                 .ToListAsync();
 
             return new JsonModel
@@ -92,21 +223,210 @@ public class MasterDataService : IMasterDataService
         }
     }
 
-    public async Task<JsonModel> GetPrivilegeTypesAsync(TokenModel token)
+    public async Task<JsonModel> CreateCurrencyAsync(SaveMasterCurrencyDto createDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var code = createDto.Code.Trim().ToUpperInvariant();
+            if (await IsCurrencyCodeTakenAsync(code, null))
+                return new JsonModel { data = new object(), Message = $"A currency with code {code} already exists", StatusCode = 400 };
+
+            var currency = new MasterCurrency
+            {
+                Id = Guid.NewGuid(),
+                Code = code,
+                Name = createDto.Name.Trim(),
+                Symbol = createDto.Symbol?.Trim(),
+                SortOrder = createDto.SortOrder,
+                IsActive = createDto.IsActive,
+                CreatedBy = token.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            _context.MasterCurrencies.Add(currency);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Currency {CurrencyId} created by user {UserId}", currency.Id, token.UserID);
+            return new JsonModel { data = ToDto(currency), Message = "Currency created successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating currency by user {UserId}", token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while creating the currency", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> UpdateCurrencyAsync(Guid id, SaveMasterCurrencyDto updateDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var currency = await _context.MasterCurrencies.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (currency == null)
+                return new JsonModel { data = new object(), Message = "Currency not found", StatusCode = 404 };
+
+            var code = updateDto.Code.Trim().ToUpperInvariant();
+            if (await IsCurrencyCodeTakenAsync(code, id))
+                return new JsonModel { data = new object(), Message = $"A currency with code {code} already exists", StatusCode = 400 };
+
+            if (currency.IsActive && !updateDto.IsActive)
+            {
+                var activePlans = await GetPlanNamesAsync(p => (p.CurrencyId == id || p.CurrencyPrices.Any(cp => cp.CurrencyId == id)) && p.IsActive);
+                if (activePlans.Any())
+                    return InUse("deactivate", "currency", $"active plans: {string.Join(", ", activePlans)}");
+            }
+
+            currency.Code = code;
+            currency.Name = updateDto.Name.Trim();
+            currency.Symbol = updateDto.Symbol?.Trim();
+            currency.SortOrder = updateDto.SortOrder;
+            currency.IsActive = updateDto.IsActive;
+            currency.UpdatedBy = token.UserID;
+            currency.UpdatedDate = DateTime.UtcNow;
+            await SaveAsync(token);
+
+            _logger.LogInformation("Currency {CurrencyId} updated by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(currency), Message = "Currency updated successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating currency {CurrencyId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while updating the currency", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> DeleteCurrencyAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var currency = await _context.MasterCurrencies.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (currency == null)
+                return new JsonModel { data = new object(), Message = "Currency not found", StatusCode = 404 };
+
+            var plans = await GetPlanNamesAsync(p => p.CurrencyId == id || p.CurrencyPrices.Any(cp => cp.CurrencyId == id));
+            if (plans.Any())
+                return InUse("delete", "currency", $"plans: {string.Join(", ", plans)}");
+
+            // Billing records keep pointing at a deleted currency, so their amounts still show with its code
+            MarkDeleted(currency, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Currency {CurrencyId} deleted by user {UserId}", id, token.UserID);
+            return new JsonModel { data = true, Message = "Currency deleted successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting currency {CurrencyId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while deleting the currency", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> RestoreCurrencyAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var currency = await _context.MasterCurrencies.FirstOrDefaultAsync(x => x.Id == id && x.IsDeleted);
+            if (currency == null)
+                return new JsonModel { data = new object(), Message = "Deleted currency not found", StatusCode = 404 };
+
+            if (await IsCurrencyCodeTakenAsync(currency.Code, id))
+                return new JsonModel { data = new object(), Message = $"A currency with code {currency.Code} already exists", StatusCode = 400 };
+
+            MarkRestored(currency, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Currency {CurrencyId} restored by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(currency), Message = "Currency restored successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring currency {CurrencyId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while restoring the currency", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Exchange Rates
+
+    public async Task<JsonModel> GetExchangeRatesAsync(TokenModel token)
+    {
+        try
+        {
+            var currencies = await _context.MasterCurrencies
+                .Where(x => !x.IsDeleted)
+                .OrderBy(x => x.SortOrder)
+                .ToListAsync();
+
+            return new JsonModel
+            {
+                data = currencies.Select(ToExchangeRateDto).ToList(),
+                Message = "Exchange rates retrieved successfully",
+                StatusCode = 200
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving exchange rates");
+            return new JsonModel { data = new object(), Message = "Error retrieving exchange rates", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> SaveExchangeRateAsync(Guid currencyId, SaveExchangeRateDto saveDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var currency = await _context.MasterCurrencies.FirstOrDefaultAsync(x => x.Id == currencyId && !x.IsDeleted);
+            if (currency == null)
+                return new JsonModel { data = new object(), Message = "Currency not found", StatusCode = 404 };
+
+            if (currency.Code == MasterCurrency.ReportingCurrencyCode)
+                return new JsonModel { data = new object(), Message = $"{MasterCurrency.ReportingCurrencyCode} is the reporting currency, so its rate is always 1", StatusCode = 400 };
+
+            if (saveDto.Rate <= 0)
+                return new JsonModel { data = new object(), Message = "Rate must be greater than 0", StatusCode = 400 };
+
+            currency.ExchangeRate = saveDto.Rate;
+            currency.ExchangeRateUpdatedBy = token.UserID;
+            currency.ExchangeRateUpdatedDate = DateTime.UtcNow;
+            await SaveAsync(token);
+
+            _logger.LogInformation("Exchange rate of currency {CurrencyId} set to {Rate} by user {UserId}", currencyId, saveDto.Rate, token.UserID);
+            return new JsonModel { data = ToExchangeRateDto(currency), Message = "Exchange rate saved successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving exchange rate of currency {CurrencyId} by user {UserId}", currencyId, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while saving the exchange rate", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Privilege Types
+
+    public async Task<JsonModel> GetPrivilegeTypesAsync(bool includeInactive, bool includeDeleted, TokenModel token)
     {
         try
         {
             var privilegeTypes = await _context.MasterPrivilegeTypes
-                .Where(x => x.IsActive)
+                .Where(x => (includeInactive || x.IsActive) && (includeDeleted || !x.IsDeleted))
                 .OrderBy(x => x.SortOrder)
-                .Select(x => new
-                {
-                    x.Id,
-                    x.Name,
-                    x.Description,
-                    x.IsActive,
-                    x.SortOrder
-                })
+                .Select(x => ToDto(x))
                 .ToListAsync();
 
             return new JsonModel
@@ -127,4 +447,250 @@ public class MasterDataService : IMasterDataService
             };
         }
     }
+
+    public async Task<JsonModel> CreatePrivilegeTypeAsync(SaveMasterPrivilegeTypeDto createDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var privilegeType = new MasterPrivilegeType
+            {
+                Id = Guid.NewGuid(),
+                Name = createDto.Name.Trim(),
+                Description = createDto.Description?.Trim(),
+                SortOrder = createDto.SortOrder,
+                IsActive = createDto.IsActive,
+                CreatedBy = token.UserID,
+                CreatedDate = DateTime.UtcNow
+            };
+
+            _context.MasterPrivilegeTypes.Add(privilegeType);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Privilege type {PrivilegeTypeId} created by user {UserId}", privilegeType.Id, token.UserID);
+            return new JsonModel { data = ToDto(privilegeType), Message = "Privilege type created successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating privilege type by user {UserId}", token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while creating the privilege type", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> UpdatePrivilegeTypeAsync(Guid id, SaveMasterPrivilegeTypeDto updateDto, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var privilegeType = await _context.MasterPrivilegeTypes.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (privilegeType == null)
+                return new JsonModel { data = new object(), Message = "Privilege type not found", StatusCode = 404 };
+
+            if (privilegeType.IsActive && !updateDto.IsActive)
+            {
+                var activePrivileges = await GetPrivilegeNamesAsync(p => p.PrivilegeTypeId == id && p.IsActive);
+                if (activePrivileges.Any())
+                    return InUse("deactivate", "privilege type", $"active privileges: {string.Join(", ", activePrivileges)}");
+            }
+
+            privilegeType.Name = updateDto.Name.Trim();
+            privilegeType.Description = updateDto.Description?.Trim();
+            privilegeType.SortOrder = updateDto.SortOrder;
+            privilegeType.IsActive = updateDto.IsActive;
+            privilegeType.UpdatedBy = token.UserID;
+            privilegeType.UpdatedDate = DateTime.UtcNow;
+            await SaveAsync(token);
+
+            _logger.LogInformation("Privilege type {PrivilegeTypeId} updated by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(privilegeType), Message = "Privilege type updated successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating privilege type {PrivilegeTypeId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while updating the privilege type", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> DeletePrivilegeTypeAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var privilegeType = await _context.MasterPrivilegeTypes.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (privilegeType == null)
+                return new JsonModel { data = new object(), Message = "Privilege type not found", StatusCode = 404 };
+
+            var privileges = await GetPrivilegeNamesAsync(p => p.PrivilegeTypeId == id);
+            if (privileges.Any())
+                return InUse("delete", "privilege type", $"privileges: {string.Join(", ", privileges)}");
+
+            MarkDeleted(privilegeType, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Privilege type {PrivilegeTypeId} deleted by user {UserId}", id, token.UserID);
+            return new JsonModel { data = true, Message = "Privilege type deleted successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting privilege type {PrivilegeTypeId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while deleting the privilege type", StatusCode = 500 };
+        }
+    }
+
+    public async Task<JsonModel> RestorePrivilegeTypeAsync(Guid id, TokenModel token)
+    {
+        try
+        {
+            if (!IsAdmin(token))
+                return new JsonModel { data = new object(), Message = "Access denied - Admin only", StatusCode = 403 };
+
+            var privilegeType = await _context.MasterPrivilegeTypes.FirstOrDefaultAsync(x => x.Id == id && x.IsDeleted);
+            if (privilegeType == null)
+                return new JsonModel { data = new object(), Message = "Deleted privilege type not found", StatusCode = 404 };
+
+            MarkRestored(privilegeType, token);
+            await SaveAsync(token);
+
+            _logger.LogInformation("Privilege type {PrivilegeTypeId} restored by user {UserId}", id, token.UserID);
+            return new JsonModel { data = ToDto(privilegeType), Message = "Privilege type restored successfully", StatusCode = 200 };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring privilege type {PrivilegeTypeId} by user {UserId}", id, token.UserID);
+            return new JsonModel { data = new object(), Message = "An error occurred while restoring the privilege type", StatusCode = 500 };
+        }
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private static bool IsAdmin(TokenModel token) => token.RoleID == 1 || token.RoleID == 3;
+
+    private static JsonModel InUse(string action, string label, string usedBy) =>
+        new JsonModel { data = new object(), Message = $"Cannot {action} {label} as it is used by {usedBy}", StatusCode = 400 };
+
+    private async Task<List<string>> GetPlanNamesAsync(System.Linq.Expressions.Expression<Func<SubscriptionPlan, bool>> predicate)
+    {
+        return await _context.SubscriptionPlans
+            .Where(p => !p.IsDeleted)
+            .Where(predicate)
+            .OrderBy(p => p.Name)
+            .Select(p => p.Name)
+            .ToListAsync();
+    }
+
+    private async Task<List<string>> GetPrivilegeNamesAsync(System.Linq.Expressions.Expression<Func<Privilege, bool>> predicate)
+    {
+        return await _context.Privileges
+            .Where(p => !p.IsDeleted)
+            .Where(predicate)
+            .OrderBy(p => p.Name)
+            .Select(p => p.Name)
+            .ToListAsync();
+    }
+
+    private async Task<bool> IsCurrencyCodeTakenAsync(string code, Guid? exceptId)
+    {
+        return await _context.MasterCurrencies
+            .AnyAsync(x => x.Code == code && !x.IsDeleted && x.Id != exceptId);
+    }
+
+    private static void MarkDeleted(BaseEntity entity, TokenModel token)
+    {
+        entity.IsDeleted = true;
+        entity.DeletedBy = token.UserID;
+        entity.DeletedDate = DateTime.UtcNow;
+        entity.UpdatedBy = token.UserID;
+        entity.UpdatedDate = DateTime.UtcNow;
+    }
+
+    private static void MarkRestored(BaseEntity entity, TokenModel token)
+    {
+        entity.IsDeleted = false;
+        entity.DeletedBy = null;
+        entity.DeletedDate = null;
+        entity.UpdatedBy = token.UserID;
+        entity.UpdatedDate = DateTime.UtcNow;
+    }
+
+    // The audit log records changes under the user the context is saving for
+    private async Task SaveAsync(TokenModel token)
+    {
+        _context.CurrentUserId = token.UserID;
+        await _context.SaveChangesAsync();
+    }
+
+    private static MasterBillingCycleDto ToDto(MasterBillingCycle x) => new MasterBillingCycleDto
+    {
+        Id = x.Id,
+        Name = x.Name,
+        Description = x.Description,
+        DurationInDays = x.DurationInDays,
+        SortOrder = x.SortOrder,
+        IsActive = x.IsActive,
+        IsDeleted = x.IsDeleted,
+        CreatedBy = x.CreatedBy,
+        CreatedDate = x.CreatedDate,
+        UpdatedBy = x.UpdatedBy,
+        UpdatedDate = x.UpdatedDate,
+        DeletedBy = x.DeletedBy,
+        DeletedDate = x.DeletedDate
+    };
+
+    private static MasterCurrencyDto ToDto(MasterCurrency x) => new MasterCurrencyDto
+    {
+        Id = x.Id,
+        Code = x.Code,
+        Name = x.Name,
+        Symbol = x.Symbol,
+        SortOrder = x.SortOrder,
+        IsActive = x.IsActive,
+        IsDeleted = x.IsDeleted,
+        CreatedBy = x.CreatedBy,
+        CreatedDate = x.CreatedDate,
+        UpdatedBy = x.UpdatedBy,
+        UpdatedDate = x.UpdatedDate,
+        DeletedBy = x.DeletedBy,
+        DeletedDate = x.DeletedDate
+    };
+
+    private static ExchangeRateDto ToExchangeRateDto(MasterCurrency x)
+    {
+        var isReportingCurrency = x.Code == MasterCurrency.ReportingCurrencyCode;
+        return new ExchangeRateDto
+        {
+            CurrencyId = x.Id,
+            CurrencyCode = x.Code,
+            CurrencyName = x.Name,
+            Rate = isReportingCurrency ? 1 : x.ExchangeRate,
+            IsReportingCurrency = isReportingCurrency,
+            UpdatedBy = x.ExchangeRateUpdatedBy,
+            UpdatedDate = x.ExchangeRateUpdatedDate
+        };
+    }
+
+    private static MasterPrivilegeTypeDto ToDto(MasterPrivilegeType x) => new MasterPrivilegeTypeDto
+    {
+        Id = x.Id,
+        Name = x.Name,
+        Description = x.Description,
+        SortOrder = x.SortOrder,
+        IsActive = x.IsActive,
+        IsDeleted = x.IsDeleted,
+        CreatedBy = x.CreatedBy,
+        CreatedDate = x.CreatedDate,
+        UpdatedBy = x.UpdatedBy,
+        UpdatedDate = x.UpdatedDate,
+        DeletedBy = x.DeletedBy,
+        DeletedDate = x.DeletedDate
+    };
+
+    #endregion
 }
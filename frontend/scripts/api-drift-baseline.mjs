@@ -0,0 +1,6 @@
+/**
+ * Endpoints the admin portal already calls but the backend does not expose yet.
+ * `generate-api.mjs --check` accepts these and fails on anything new, so remove entries as the
+ * backend catches up (the check reports entries that are no longer needed).
+ */
+export const KNOWN_MISSING_ENDPOINTS = [];
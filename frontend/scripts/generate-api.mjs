@@ -0,0 +1,349 @@
+#!/usr/bin/env node
+/**
+ * Generates TypeScript types for the admin API from the backend's OpenAPI (Swagger) document.
+ * Each operation gets its path, query, body and response types; the response is the JsonModel `data`
+ * payload for actions marked with [ResponseData] on the backend and `unknown` for the rest.
+ *
+ *   node scripts/generate-api.mjs                      regenerate src/app/api/admin-api.generated.ts
+ *   node scripts/generate-api.mjs --check              fail when the frontend has drifted from the backend
+ *   node scripts/generate-api.mjs --input swagger.json read the document from a file instead of the running API
+ *
+ * The check fails when:
+ *   - the backend contract changed and the generated file was not regenerated, or
+ *   - a service calls an endpoint the backend does not expose (except those listed in api-drift-baseline.mjs).
+ *
+ * No dependencies beyond Node 18+.
+ */
+import { readFile, writeFile, readdir } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { KNOWN_MISSING_ENDPOINTS } from './api-drift-baseline.mjs';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = join(ROOT, 'src/app/api/admin-api.generated.ts');
+const SOURCES = join(ROOT, 'src/app');
+const DEFAULT_INPUT = 'http://localhost:61376/swagger/v1/swagger.json';
+
+// Backend areas the admin portal works with; everything else in the document is ignored
+const INCLUDED_PATH_PREFIXES = [
+  '/api/Auth',
+  '/api/Analytics',
+  '/api/Subscriptions',
+  '/api/SubscriptionPlans',
+  '/api/SubscriptionPlanPrivileges',
+  '/api/SubscriptionAnalytics',
+  '/api/Privileges',
+  '/api/MasterData',
+  '/api/stripe',
+  '/api/admin/AdminSubscription',
+  '/api/admin/AdminStripeSync',
+  '/api/Users',
+  '/api/Categories',
+  '/api/Audit',
+  '/api/Billing',
+  '/webadmin/subscription-management'
+];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+const CLIENT_METHODS = { getWithAuth: 'GET', postWithAuth: 'POST', putWithAuth: 'PUT', deleteWithAuth: 'DELETE', downloadWithAuth: 'GET' };
+
+async function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const inputIndex = args.indexOf('--input');
+  const input = inputIndex >= 0 ? args[inputIndex + 1] : DEFAULT_INPUT;
+
+  const document = await loadDocument(input);
+  const generated = generate(document);
+
+  if (!check) {
+    await writeFile(OUTPUT, generated);
+    console.log(`Wrote ${relative(ROOT, OUTPUT)}`);
+    return;
+  }
+
+  const problems = [
+    ...(await checkGeneratedFile(generated)),
+    ...(await checkServiceEndpoints(document))
+  ];
+  if (problems.length > 0) {
+    console.error(`API drift detected:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    process.exit(1);
+  }
+  console.log('No API drift detected.');
+}
+
+async function loadDocument(input) {
+  if (/^https?:\/\//.test(input)) {
+    const response = await fetch(input);
+    if (!response.ok) throw new Error(`Could not load ${input}: ${response.status} ${response.statusText}`);
+    return response.json();
+  }
+  return JSON.parse(await readFile(input, 'utf8'));
+}
+
+// --- Generation -------------------------------------------------------------------------------
+
+function generate(document) {
+  const schemas = document.components?.schemas ?? {};
+  const names = buildSchemaNames(Object.keys(schemas));
+  const operations = collectOperations(document);
+
+  // Only emit schemas reachable from the included operations
+  const used = new Set();
+  const visit = schema => {
+    for (const ref of findRefs(schema)) {
+      if (used.has(ref)) continue;
+      used.add(ref);
+      visit(schemas[ref]);
+    }
+  };
+  operations.forEach(op => visit(op.raw));
+
+  const ctx = { names };
+  const lines = [
+    '/* eslint-disable */',
+    '// Generated by scripts/generate-api.mjs from the backend OpenAPI document. Do not edit by hand.',
+    `// Source: ${document.info?.title ?? 'API'} ${document.info?.version ?? ''}`.trimEnd(),
+    ''
+  ];
+
+  for (const ref of [...used].sort((a, b) => names[a].localeCompare(names[b]))) {
+    lines.push(renderSchema(names[ref], schemas[ref], ctx), '');
+  }
+
+  lines.push('export interface ApiOperations {');
+  for (const op of operations) {
+    lines.push(`  '${op.key}': {`);
+    lines.push(`    path: ${renderParameters(op.parameters, 'path', ctx)};`);
+    lines.push(`    query: ${renderParameters(op.parameters, 'query', ctx)};`);
+    lines.push(`    body: ${op.body ? renderType(op.body, ctx, 4) : 'never'};`);
+    lines.push(`    response: ${renderType(op.response, ctx, 4)};`);
+    lines.push('  };');
+  }
+  lines.push('}', '', 'export type ApiOperationKey = keyof ApiOperations;', '');
+  return lines.join('\n');
+}
+
+function collectOperations(document) {
+  const operations = [];
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    if (!INCLUDED_PATH_PREFIXES.some(prefix => path.toLowerCase().startsWith(prefix.toLowerCase()))) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      const parameters = [...(item.parameters ?? []), ...(operation.parameters ?? [])];
+      const content = operation.requestBody?.content ?? {};
+      const body = (content['application/json'] ?? content['multipart/form-data'] ?? Object.values(content)[0])?.schema;
+      const response = responseData(operation);
+      operations.push({ key: `${method.toUpperCase()} ${path}`, parameters, body, response, raw: { parameters, body, response } });
+    }
+  }
+  return operations.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// The API wraps every result in JsonModel; operations that declare their payload describe it as
+// allOf: [JsonModel, { properties: { data } }]. Anything else is typed as unknown.
+function responseData(operation) {
+  const schema = operation.responses?.['200']?.content?.['application/json']?.schema;
+  return schema?.allOf?.find(part => part.properties?.data)?.properties.data;
+}
+
+// Use the short class name unless two schemas share it, then keep enough of the namespace to tell them apart
+function buildSchemaNames(refs) {
+  const byShortName = new Map();
+  for (const ref of refs) {
+    const short = toIdentifier(ref.split('.').pop());
+    byShortName.set(short, [...(byShortName.get(short) ?? []), ref]);
+  }
+  const names = {};
+  for (const [short, group] of byShortName) {
+    for (const ref of group) {
+      names[ref] = group.length === 1 ? short : toIdentifier(ref.split('.').slice(-2).join(''));
+    }
+  }
+  return names;
+}
+
+function renderSchema(name, schema, ctx) {
+  const description = schema.description ? `/** ${schema.description} */\n` : '';
+  if (schema.enum || schema.type !== 'object' || !schema.properties) {
+    return `${description}export type ${name} = ${renderType(schema, ctx, 0)};`;
+  }
+  return `${description}export interface ${name} ${renderObject(schema, ctx, 0)}`;
+}
+
+function renderObject(schema, ctx, indent) {
+  const required = new Set(schema.required ?? []);
+  const pad = ' '.repeat(indent + 2);
+  const members = Object.entries(schema.properties ?? {}).map(([prop, propSchema]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(prop) ? prop : `'${prop}'`;
+    return `${pad}${key}${required.has(prop) ? '' : '?'}: ${renderType(propSchema, ctx, indent + 2)};`;
+  });
+  return members.length ? `{\n${members.join('\n')}\n${' '.repeat(indent)}}` : '{}';
+}
+
+function renderType(schema, ctx, indent) {
+  if (!schema) return 'unknown';
+  const type = renderBaseType(schema, ctx, indent);
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function renderBaseType(schema, ctx, indent) {
+  if (schema.$ref) return ctx.names[refName(schema.$ref)] ?? 'unknown';
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  if (schema.allOf) return schema.allOf.map(s => renderType(s, ctx, indent)).join(' & ');
+  if (schema.oneOf || schema.anyOf) return (schema.oneOf ?? schema.anyOf).map(s => renderType(s, ctx, indent)).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = renderType(schema.items, ctx, indent);
+      return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.properties) return renderObject(schema, ctx, indent);
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `Record<string, ${renderType(schema.additionalProperties, ctx, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function renderParameters(parameters, location, ctx) {
+  const matching = parameters.filter(p => p.in === location);
+  if (matching.length === 0) return 'never';
+  const members = matching.map(p => `${p.name}${p.required ? '' : '?'}: ${renderType(p.schema, ctx, 4)}`);
+  return `{ ${members.join('; ')} }`;
+}
+
+function findRefs(value, found = new Set()) {
+  if (Array.isArray(value)) {
+    value.forEach(v => findRefs(v, found));
+  } else if (value && typeof value === 'object') {
+    if (typeof value.$ref === 'string') found.add(refName(value.$ref));
+    Object.values(value).forEach(v => findRefs(v, found));
+  }
+  return found;
+}
+
+function refName(ref) {
+  return ref.replace('#/components/schemas/', '');
+}
+
+function toIdentifier(value) {
+  return value.replace(/[^A-Za-z0-9_]/g, '');
+}
+
+// --- Drift checks -----------------------------------------------------------------------------
+
+async function checkGeneratedFile(generated) {
+  let committed = '';
+  try {
+    committed = await readFile(OUTPUT, 'utf8');
+  } catch {
+    return [`${relative(ROOT, OUTPUT)} is missing; run node scripts/generate-api.mjs`];
+  }
+  if (committed === generated) return [];
+
+  const committedBlocks = splitBlocks(committed);
+  const generatedBlocks = splitBlocks(generated);
+  const problems = [];
+  for (const [name, text] of generatedBlocks) {
+    if (!committedBlocks.has(name)) problems.push(`backend added ${name}`);
+    else if (committedBlocks.get(name) !== text) problems.push(`backend changed ${name}`);
+  }
+  for (const name of committedBlocks.keys()) {
+    if (!generatedBlocks.has(name)) problems.push(`backend removed ${name}`);
+  }
+  if (problems.length === 0) problems.push('generated file is out of date');
+  return [...problems, `regenerate ${relative(ROOT, OUTPUT)} with node scripts/generate-api.mjs`];
+}
+
+// Top-level types and individual operations, keyed by name, so the report says what changed
+function splitBlocks(source) {
+  const blocks = new Map();
+  let current = null;
+  for (const line of source.split('\n')) {
+    const declaration = line.match(/^export (?:interface|type) (\w+)/);
+    const operation = line.match(/^  '([A-Z]+ [^']+)': \{/);
+    if (declaration && declaration[1] !== 'ApiOperations') current = declaration[1];
+    else if (operation) current = operation[1];
+    else if (declaration) current = null;
+    if (current) blocks.set(current, `${blocks.get(current) ?? ''}${line}\n`);
+  }
+  return blocks;
+}
+
+async function checkServiceEndpoints(document) {
+  const known = new Set();
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      if (item[method]) known.add(normalizeEndpoint(method.toUpperCase(), path));
+    }
+  }
+
+  const called = await findServiceEndpoints();
+  const baseline = new Set(KNOWN_MISSING_ENDPOINTS);
+  const problems = [];
+  for (const [endpoint, file] of called) {
+    if (known.has(endpoint) || baseline.has(endpoint)) continue;
+    problems.push(`${relative(ROOT, file)} calls ${endpoint}, which the backend does not expose`);
+  }
+  for (const endpoint of baseline) {
+    if (known.has(endpoint)) problems.push(`backend now exposes ${endpoint}; remove it from api-drift-baseline.mjs`);
+    else if (!called.has(endpoint)) problems.push(`${endpoint} is no longer called; remove it from api-drift-baseline.mjs`);
+  }
+  return problems;
+}
+
+async function findServiceEndpoints() {
+  const endpoints = new Map();
+  for (const file of await findFiles(SOURCES, name => name.endsWith('.service.ts'))) {
+    const source = await readFile(file, 'utf8');
+    // Services keep their common prefix in a field such as `baseEndpoint = '/api/Analytics'`
+    const bases = Object.fromEntries(
+      [...source.matchAll(/(\w+)\s*=\s*'(\/[^']*)'/g)].map(([, name, value]) => [name, value])
+    );
+    const calls = source.matchAll(/\.(getWithAuth|postWithAuth|putWithAuth|deleteWithAuth|downloadWithAuth)(?:<[^(]*>)?\(\s*(?:(['`])([^'`]+)\2|this\.(\w+))/g);
+    for (const [, clientMethod, , literal, field] of calls) {
+      const raw = literal ?? `\${this.${field}}`;
+      const path = raw.replace(/\$\{this\.(\w+)\}/g, (match, name) => bases[name] ?? match);
+      endpoints.set(normalizeEndpoint(CLIENT_METHODS[clientMethod], path), file);
+    }
+  }
+  return endpoints;
+}
+
+// "GET /api/Plans/${planId}?x=1" and "GET /api/plans/{id}" both become "GET /api/plans/{}"
+function normalizeEndpoint(method, path) {
+  const normalized = path
+    .split('?')[0]
+    .replace(/\$\{[^}]+\}|\{[^}]+\}/g, '{}')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+  return `${method} ${normalized}`;
+}
+
+async function findFiles(dir, predicate) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findFiles(path, predicate);
+    return predicate(entry.name) ? [path] : [];
+  }));
+  return files.flat().sort();
+}
+
+main().catch(error => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterModule } from '@angular/router';
 import { MatToolbarModule } from '@angular/material/toolbar';
@@ -10,6 +10,8 @@ import { MatMenuModule } from '@angular/material/menu';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatBadgeModule } from '@angular/material/badge';
 import { AuthService } from './auth/auth.service';
+import { IdleTimeoutService } from './auth/idle-timeout.service';
+import { HasPermissionDirective } from './auth/has-permission.directive';
 
 @Component({
   selector: 'app-admin-layout',
@@ -24,7 +26,8 @@ import { AuthService } from './auth/auth.service';
     MatButtonModule,
     MatMenuModule,
     MatDividerModule,
-    MatBadgeModule
+    MatBadgeModule,
+    HasPermissionDirective
   ],
   template: `
     <div class="admin-layout">
@@ -80,7 +83,7 @@ import { AuthService } from './auth/auth.service';
             <mat-icon>person</mat-icon>
             <span>Profile</span>
           </button>
-          <button mat-menu-item (click)="navigateToSettings()">
+          <button mat-menu-item *appHasPermission="'settings.manage'" (click)="navigateToSettings()">
             <mat-icon>settings</mat-icon>
             <span>Settings</span>
           </button>
@@ -106,39 +109,49 @@ import { AuthService } from './auth/auth.service';
               <span matListItemTitle>Dashboard</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/subscriptions" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'subscriptions.view'" routerLink="/admin/subscriptions" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>subscriptions</mat-icon>
               <span matListItemTitle>Subscriptions</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/plans" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'plans.view'" routerLink="/admin/plans" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>card_membership</mat-icon>
               <span matListItemTitle>Subscription Plans</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/users" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'plans.view'" routerLink="/admin/privileges" routerLinkActive="active-link" class="nav-item">
+              <mat-icon matListItemIcon>verified_user</mat-icon>
+              <span matListItemTitle>Privileges</span>
+            </a>
+            
+            <a mat-list-item *appHasPermission="'users.manage'" routerLink="/admin/users" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>people</mat-icon>
               <span matListItemTitle>User Management</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/analytics" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'analytics.view'" routerLink="/admin/analytics" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>analytics</mat-icon>
               <span matListItemTitle>Analytics</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/manual-actions" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="['subscriptions.manage', 'subscriptions.cancel']" routerLink="/admin/manual-actions" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>settings</mat-icon>
               <span matListItemTitle>Manual Actions</span>
             </a>
             
+            <a mat-list-item *appHasPermission="'refunds.view'" routerLink="/admin/refunds" routerLinkActive="active-link" class="nav-item">
+              <mat-icon matListItemIcon>undo</mat-icon>
+              <span matListItemTitle>Refunds</span>
+            </a>
+            
             <mat-divider></mat-divider>
             
-            <a mat-list-item routerLink="/admin/reports" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'reports.view'" routerLink="/admin/reports" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>assessment</mat-icon>
               <span matListItemTitle>Reports</span>
             </a>
             
-            <a mat-list-item routerLink="/admin/settings" routerLinkActive="active-link" class="nav-item">
+            <a mat-list-item *appHasPermission="'settings.manage'" routerLink="/admin/settings" routerLinkActive="active-link" class="nav-item">
               <mat-icon matListItemIcon>admin_panel_settings</mat-icon>
               <span matListItemTitle>System Settings</span>
             </a>
@@ -359,9 +372,10 @@ import { AuthService } from './auth/auth.service';
     }
   `]
 })
-export class AdminLayoutComponent implements OnInit {
+export class AdminLayoutComponent implements OnInit, OnDestroy {
   private router = inject(Router);
   private authService = inject(AuthService);
+  private idleTimeout = inject(IdleTimeoutService);
 
   notificationCount = 3;
   notifications = [
@@ -383,7 +397,12 @@ export class AdminLayoutComponent implements OnInit {
   ];
 
   ngOnInit() {
-    // Initialize component
+    // The layout only renders for signed-in admins, so it owns the idle watch
+    this.idleTimeout.start();
+  }
+
+  ngOnDestroy() {
+    this.idleTimeout.stop();
   }
 
   toggleSidenav() {
@@ -399,7 +418,6 @@ export class AdminLayoutComponent implements OnInit {
   }
 
   logout() {
-    localStorage.removeItem('adminToken');
-    this.router.navigate(['/admin/login']);
+    this.authService.logout();
   }
 }
@@ -1,60 +1,353 @@
-import { Component, OnInit } from '@angular/core';
-import { MatButtonModule } from '@angular/material/button';
+import { Component, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { AnalyticsDashboardService } from './analytics-dashboard.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { ExportFormat, ExportService, ExportTable } from '../../services/export.service';
+import { LineChartComponent } from './charts/line-chart.component';
+import { BarChartComponent } from './charts/bar-chart.component';
+import { CohortChartComponent } from './charts/cohort-chart.component';
+import { CHART_COLORS, ChartSelection, ChartSeries } from './charts/chart.models';
+import { formatMoney } from '../../pipes/money.pipe';
+import { REPORTING_CURRENCY_CODE } from '../../models/master-data.models';
+import {
+  AnalyticsFilter,
+  ChurnAnalyticsDto,
+  MasterCurrency,
+  MonthlyRevenueData,
+  MonthlyStatusData,
+  RevenueAnalyticsDto,
+  SubscriptionAnalyticsDto
+} from '../../models/subscription.models';
+
+type PlanMetric = 'revenue' | 'subscriptions';
+
+const STATUS_SERIES: Array<{ status: string; name: string; field: Exclude<keyof MonthlyStatusData, 'month'>; color: string }> = [
+  { status: 'active', name: 'Active', field: 'activeSubscriptions', color: '#4caf50' },
+  { status: 'trial', name: 'Trial', field: 'trialSubscriptions', color: '#667eea' },
+  { status: 'paused', name: 'Paused', field: 'pausedSubscriptions', color: '#ff9800' },
+  { status: 'cancelled', name: 'Cancelled', field: 'cancelledSubscriptions', color: '#f44336' }
+];
 
 @Component({
   selector: 'app-analytics-dashboard',
   standalone: true,
   imports: [
     CommonModule,
-    MatButtonModule
+    FormsModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatMenuModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatSnackBarModule,
+    LineChartComponent,
+    BarChartComponent,
+    CohortChartComponent
   ],
   templateUrl: './analytics-dashboard.component.html',
   styleUrls: ['./analytics-dashboard.component.scss']
 })
 export class AnalyticsDashboardComponent implements OnInit {
-  loading = false;
-  error: string | null = null;
-  summary: any = null;
-  revenue: any = null;
-  churn: any = null;
-  planPerformance: any = null;
+  private analyticsService = inject(AnalyticsDashboardService);
+  private masterData = inject(MasterDataStoreService);
+  private exportService = inject(ExportService);
+  private snackBar = inject(MatSnackBar);
+  private router = inject(Router);
+
+  // Filters
+  startDate = '';
+  endDate = '';
+  currencyId = '';
+  currencies: MasterCurrency[] = [];
+  planMetric: PlanMetric = 'revenue';
 
-  constructor(private analyticsService: AnalyticsDashboardService) {}
+  // Raw data
+  summary: SubscriptionAnalyticsDto | null = null;
+  revenue: RevenueAnalyticsDto | null = null;
+  churn: ChurnAnalyticsDto | null = null;
+
+  // Revenue per currency is converted on the server with the exchange rates admins maintain in settings
+  get reportingCurrency(): string {
+    return this.revenue?.reportingCurrency || REPORTING_CURRENCY_CODE;
+  }
+
+  get missingRates(): string[] {
+    return this.revenue?.currenciesWithoutRate ?? [];
+  }
+
+  // Chart data
+  mrrSeries: ChartSeries[] = [];
+  statusSeries: ChartSeries[] = [];
+  planSeries: ChartSeries[] = [];
+
+  // Per-panel state so one failing endpoint does not blank the whole page
+  loadingSummary = false;
+  loadingRevenue = false;
+  loadingChurn = false;
+  summaryError: string | null = null;
+  revenueError: string | null = null;
+  churnError: string | null = null;
+
+  // Export state
+  exporting = false;
+  exportFormat: ExportFormat = 'csv';
+  exportPercent: number | null = null;
+
+  readonly currencyFormatter = (value: number) => this.formatCurrency(value);
 
   ngOnInit() {
+    const end = new Date();
+    const start = new Date(end.getFullYear() - 1, end.getMonth(), 1);
+    this.startDate = this.toDateInput(start);
+    this.endDate = this.toDateInput(end);
+
+    this.loadCurrencies();
     this.loadDashboard();
   }
 
+  get loading(): boolean {
+    return this.loadingSummary || this.loadingRevenue || this.loadingChurn;
+  }
+
   loadDashboard() {
-    this.loading = true;
-    this.error = null;
-    this.analyticsService.getSummary().subscribe({
-      next: (res: any) => {
-        this.summary = res?.data;
-        this.loading = false;
+    const filter = this.buildFilter();
+    this.loadSummary(filter);
+    this.loadRevenue(filter);
+    this.loadChurn(filter);
+  }
+
+  onFiltersChange() {
+    if (this.startDate && this.endDate) {
+      this.loadDashboard();
+    }
+  }
+
+  onPlanMetricChange() {
+    this.buildPlanSeries();
+  }
+
+  exportReport(format: ExportFormat) {
+    this.exporting = true;
+    this.exportFormat = format;
+    this.exportPercent = null;
+
+    const request = this.analyticsService.exportReport(format, this.buildFilter());
+    this.exportService.downloadFile(request, 'subscription-analytics', format).subscribe({
+      next: (progress) => {
+        this.exportPercent = progress.percent;
+        if (progress.state === 'done') {
+          this.exporting = false;
+          this.snackBar.open(`Report saved as ${progress.fileName}`, 'Close', { duration: 3000 });
+        }
+      },
+      error: (error) => {
+        console.error('Error exporting report:', error);
+        this.exporting = false;
+        this.exportFromClient(format);
+      }
+    });
+  }
+
+  // Drill-down handlers
+  onRevenuePointSelected(selection: ChartSelection) {
+    // Revenue points are months, so show the subscriptions created in that month
+    const [year, month] = selection.label.split('-').map(Number);
+    this.navigateToSubscriptions({
+      startDate: this.toDateInput(new Date(year, month - 1, 1)),
+      endDate: this.toDateInput(new Date(year, month, 0))
+    });
+  }
+
+  onStatusSelected(selection: ChartSelection) {
+    const [year, month] = selection.label.split('-').map(Number);
+    this.navigateToSubscriptions({ status: selection.key, endDate: this.toDateInput(new Date(year, month, 0)) });
+  }
+
+  onPlanSelected(selection: ChartSelection) {
+    this.navigateToSubscriptions({ planId: selection.key });
+  }
+
+  formatCurrency(value: number, currency = this.selectedCurrencyCode() || 'USD'): string {
+    return formatMoney(value, currency, this.masterData.snapshot('currencies'), '1.0-0');
+  }
+
+  private loadCurrencies() {
+    this.masterData.load('currencies').subscribe({
+      next: (currencies) => {
+        this.currencies = currencies.filter(c => c.isActive);
       },
-      error: (err: any) => {
-        this.error = err?.error?.Message || 'Failed to load summary';
-        this.loading = false;
+      error: (error) => {
+        console.error('Error loading currencies:', error);
       }
     });
-    this.analyticsService.getRevenue().subscribe({
-      next: (res: any) => this.revenue = res?.data,
-      error: () => {}
+  }
+
+  private loadSummary(filter: AnalyticsFilter) {
+    this.loadingSummary = true;
+    this.summaryError = null;
+    this.analyticsService.getSummary(filter).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.summary = response.data;
+          this.buildStatusSeries();
+          this.buildPlanSeries();
+        } else {
+          this.summaryError = response.message || 'Failed to load subscription counts';
+        }
+        this.loadingSummary = false;
+      },
+      error: (error) => {
+        console.error('Error loading analytics summary:', error);
+        this.summaryError = this.getErrorMessage(error, 'Failed to load subscription counts');
+        this.loadingSummary = false;
+      }
     });
-    this.analyticsService.getChurn().subscribe({
-      next: (res: any) => this.churn = res?.data,
-      error: () => {}
+  }
+
+  private loadRevenue(filter: AnalyticsFilter) {
+    this.loadingRevenue = true;
+    this.revenueError = null;
+    this.analyticsService.getRevenue(filter).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.revenue = response.data;
+          this.buildRevenueSeries();
+          this.buildPlanSeries();
+        } else {
+          this.revenueError = response.message || 'Failed to load revenue';
+        }
+        this.loadingRevenue = false;
+      },
+      error: (error) => {
+        console.error('Error loading revenue analytics:', error);
+        this.revenueError = this.getErrorMessage(error, 'Failed to load revenue');
+        this.loadingRevenue = false;
+      }
     });
-    this.analyticsService.getPlanPerformance().subscribe({
-      next: (res: any) => this.planPerformance = res?.data,
-      error: () => {}
+  }
+
+  private loadChurn(filter: AnalyticsFilter) {
+    this.loadingChurn = true;
+    this.churnError = null;
+    this.analyticsService.getChurn(filter).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.churn = response.data;
+        } else {
+          this.churnError = response.message || 'Failed to load churn analysis';
+        }
+        this.loadingChurn = false;
+      },
+      error: (error) => {
+        console.error('Error loading churn analytics:', error);
+        this.churnError = this.getErrorMessage(error, 'Failed to load churn analysis');
+        this.loadingChurn = false;
+      }
     });
   }
 
-  exportReport(format: string) {
-    this.analyticsService.exportReport(format).subscribe();
+  // Fall back to the monthly breakdown already on screen when the server cannot produce the file
+  private exportFromClient(format: ExportFormat) {
+    const months = this.revenue?.revenueByMonth ?? [];
+    if (months.length === 0) {
+      this.snackBar.open('Export failed and there is no data loaded to export', 'Close', { duration: 5000 });
+      return;
+    }
+
+    const table: ExportTable<MonthlyRevenueData> = {
+      title: `Subscription analytics ${this.startDate} to ${this.endDate}${this.currencyId ? ' (' + this.selectedCurrencyCode() + ')' : ''}`,
+      rows: months,
+      columns: [
+        { header: 'Month', value: m => m.month },
+        { header: 'Revenue', value: m => m.revenue },
+        { header: 'Subscriptions', value: m => m.subscriptions }
+      ]
+    };
+
+    const fileName = this.exportService.exportTable(table, format, 'subscription-analytics');
+    this.snackBar.open(`Server export unavailable, saved on-screen data as ${fileName}`, 'Close', { duration: 5000 });
+  }
+
+  private buildRevenueSeries() {
+    const months = this.revenue?.revenueByMonth ?? [];
+
+    this.mrrSeries = [{
+      name: 'Revenue',
+      color: CHART_COLORS[0],
+      points: months.map(m => ({ label: m.month, value: m.revenue }))
+    }];
+  }
+
+  private buildStatusSeries() {
+    const months = this.summary?.statusByMonth ?? [];
+    this.statusSeries = STATUS_SERIES.map(s => ({
+      name: s.name,
+      color: s.color,
+      points: months.map(m => ({ label: m.month, value: m[s.field] ?? 0, key: s.status }))
+    }));
+  }
+
+  private buildPlanSeries() {
+    if (this.planMetric === 'revenue') {
+      this.planSeries = [{
+        name: 'Revenue',
+        color: CHART_COLORS[0],
+        points: (this.revenue?.revenueByPlan ?? []).map(p => ({ label: p.planName, value: p.revenue, key: p.planId }))
+      }];
+    } else {
+      this.planSeries = [{
+        name: 'Subscriptions',
+        color: CHART_COLORS[1],
+        points: (this.summary?.planDistribution ?? []).map(p => ({ label: p.plan, value: p.count, key: p.planId }))
+      }];
+    }
+  }
+
+  private buildFilter(): AnalyticsFilter {
+    const filter: AnalyticsFilter = {};
+    if (this.startDate) filter.startDate = new Date(this.startDate);
+    if (this.endDate) {
+      const end = new Date(this.endDate);
+      end.setHours(23, 59, 59, 999);
+      filter.endDate = end;
+    }
+    if (this.currencyId) filter.currencyId = this.currencyId;
+    return filter;
+  }
+
+  private selectedCurrencyCode(): string {
+    return this.currencies.find(c => c.id === this.currencyId)?.code ?? '';
+  }
+
+  private navigateToSubscriptions(queryParams: { status?: string; planId?: string; startDate?: string; endDate?: string }) {
+    this.router.navigate(['/admin/subscriptions'], { queryParams });
+  }
+
+  private toDateInput(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private getErrorMessage(error: any, fallback: string): string {
+    return error?.error?.message || error?.error?.Message || error?.message || fallback;
   }
 }
@@ -1,30 +1,46 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpEvent } from '@angular/common/http';
 import { Observable } from 'rxjs';
+import { ApiResponse, CommonService } from '../../services/common.service';
+import { ExportFormat } from '../../services/export.service';
+import { ApiQuery } from '../../api/api-contract';
+import {
+  AnalyticsFilter,
+  ChurnAnalyticsDto,
+  RevenueAnalyticsDto,
+  SubscriptionAnalyticsDto
+} from '../../models/subscription.models';
 
 @Injectable({ providedIn: 'root' })
 export class AnalyticsDashboardService {
   private baseUrl = '/api/admin/AdminSubscription';
 
-  constructor(private http: HttpClient) {}
+  constructor(private commonService: CommonService) {}
 
-  getSummary(): Observable<any> {
-    return this.http.get(`${this.baseUrl}/summary`);
+  getSummary(filter: AnalyticsFilter = {}): Observable<ApiResponse<SubscriptionAnalyticsDto>> {
+    return this.commonService.getWithAuth<SubscriptionAnalyticsDto>(`${this.baseUrl}/analytics`, this.buildParams(filter));
   }
 
-  getRevenue(): Observable<any> {
-    return this.http.get(`${this.baseUrl}/revenue-metrics`);
+  getRevenue(filter: AnalyticsFilter = {}): Observable<ApiResponse<RevenueAnalyticsDto>> {
+    return this.commonService.getWithAuth<RevenueAnalyticsDto>(`${this.baseUrl}/analytics/revenue`, this.buildParams(filter));
   }
 
-  getChurn(): Observable<any> {
-    return this.http.get(`${this.baseUrl}/churn-analysis`);
+  getChurn(filter: AnalyticsFilter = {}): Observable<ApiResponse<ChurnAnalyticsDto>> {
+    return this.commonService.getWithAuth<ChurnAnalyticsDto>(`${this.baseUrl}/analytics/churn`, this.buildParams(filter));
   }
 
-  getPlanPerformance(): Observable<any> {
-    return this.http.get(`${this.baseUrl}/plan-performance`);
+  /**
+   * Download the analytics report as a file. Emits progress events so the caller can show a progress bar.
+   */
+  exportReport(format: ExportFormat, filter: AnalyticsFilter = {}): Observable<HttpEvent<Blob>> {
+    return this.commonService.downloadWithAuth(`${this.baseUrl}/analytics/export`, { ...this.buildParams(filter), format });
   }
 
-  exportReport(format: string): Observable<any> {
-    return this.http.get(`${this.baseUrl}/export`, { params: { format } });
+  private buildParams(filter: AnalyticsFilter): ApiQuery<'GET /api/admin/AdminSubscription/analytics'> {
+    const params: ApiQuery<'GET /api/admin/AdminSubscription/analytics'> = {};
+    if (filter.startDate) params.startDate = filter.startDate.toISOString();
+    if (filter.endDate) params.endDate = filter.endDate.toISOString();
+    if (filter.currencyId) params.currencyId = filter.currencyId;
+    return params;
   }
 }
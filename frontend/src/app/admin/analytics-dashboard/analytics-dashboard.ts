@@ -1,10 +1,45 @@
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
 import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 import { MatGridListModule } from '@angular/material/grid-list';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
 import { Router } from '@angular/router';
+import { Subscription, forkJoin, interval } from 'rxjs';
+import { AnalyticsDashboardService } from './analytics-dashboard.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { SubscriptionAnalyticsDto } from '../../models/subscription.models';
+import { REPORTING_CURRENCY_CODE } from '../../models/master-data.models';
+import { formatMoney } from '../../pipes/money.pipe';
+
+export interface DashboardStat {
+  label: string;
+  value: (analytics: SubscriptionAnalyticsDto) => number;
+  icon: string;
+  format: 'number' | 'currency' | 'percent';
+  // For metrics such as churn a decrease is the good direction
+  lowerIsBetter?: boolean;
+}
+
+export interface StatDelta {
+  change: number;
+  isImprovement: boolean;
+}
+
+export interface DashboardPeriod {
+  start: Date;
+  end: Date;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const AUTO_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
 
 @Component({
   selector: 'app-analytics-dashboard',
@@ -14,7 +49,14 @@ import { Router } from '@angular/router';
     MatCardModule,
     MatIconModule,
     MatButtonModule,
-    MatGridListModule
+    MatGridListModule,
+    FormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule
   ],
   template: `
     <div class="dashboard-container">
@@ -30,54 +72,82 @@ import { Router } from '@angular/router';
         </mat-card-header>
       </mat-card>
 
-      <div class="stats-grid">
-        <mat-card class="stat-card">
-          <mat-card-content>
-            <div class="stat-content">
-              <mat-icon class="stat-icon">subscriptions</mat-icon>
-              <div class="stat-details">
-                <h3>Total Subscriptions</h3>
-                <p class="stat-number">1,247</p>
-                <p class="stat-change positive">+12% from last month</p>
-              </div>
-            </div>
-          </mat-card-content>
-        </mat-card>
+      <mat-card class="filters-card">
+        <mat-card-content>
+          <div class="filters-row">
+            <mat-form-field appearance="outline">
+              <mat-label>Date Range</mat-label>
+              <mat-select [(ngModel)]="selectedRange" (selectionChange)="onRangeChange()">
+                <mat-option *ngFor="let option of rangeOptions" [value]="option.value">
+                  {{ option.label }}
+                </mat-option>
+              </mat-select>
+            </mat-form-field>
+
+            <ng-container *ngIf="selectedRange === 'custom'">
+              <mat-form-field appearance="outline">
+                <mat-label>Start Date</mat-label>
+                <input matInput type="date" [(ngModel)]="customStartDate" (change)="onCustomRangeChange()">
+              </mat-form-field>
+
+              <mat-form-field appearance="outline">
+                <mat-label>End Date</mat-label>
+                <input matInput type="date" [(ngModel)]="customEndDate" (change)="onCustomRangeChange()">
+              </mat-form-field>
+            </ng-container>
+
+            <span class="filters-spacer"></span>
+
+            <mat-slide-toggle [(ngModel)]="autoRefresh" (change)="onAutoRefreshChange()">
+              Auto refresh
+            </mat-slide-toggle>
+
+            <button mat-icon-button (click)="loadAnalytics()" [disabled]="loading" matTooltip="Refresh now">
+              <mat-icon>refresh</mat-icon>
+            </button>
+          </div>
+          <p class="period-caption" *ngIf="currentPeriod">
+            {{ currentPeriod.start | date:'mediumDate' }} – {{ currentPeriod.end | date:'mediumDate' }}
+            <span *ngIf="previousPeriod">
+              compared with {{ previousPeriod.start | date:'mediumDate' }} – {{ previousPeriod.end | date:'mediumDate' }}
+            </span>
+            <span *ngIf="lastUpdated" class="last-updated">· Updated {{ lastUpdated | date:'shortTime' }}</span>
+          </p>
+        </mat-card-content>
+      </mat-card>
 
-        <mat-card class="stat-card">
-          <mat-card-content>
-            <div class="stat-content">
-              <mat-icon class="stat-icon">people</mat-icon>
-              <div class="stat-details">
-                <h3>Active Users</h3>
-                <p class="stat-number">892</p>
-                <p class="stat-change positive">+8% from last month</p>
-              </div>
-            </div>
-          </mat-card-content>
-        </mat-card>
+      <div *ngIf="loading && !analytics" class="loading-container">
+        <mat-spinner diameter="40"></mat-spinner>
+        <p>Loading analytics...</p>
+      </div>
 
-        <mat-card class="stat-card">
-          <mat-card-content>
-            <div class="stat-content">
-              <mat-icon class="stat-icon">attach_money</mat-icon>
-              <div class="stat-details">
-                <h3>Monthly Revenue</h3>
-                <p class="stat-number">$45,230</p>
-                <p class="stat-change positive">+15% from last month</p>
-              </div>
-            </div>
-          </mat-card-content>
-        </mat-card>
+      <div *ngIf="error && !loading" class="error-state">
+        <mat-icon>error_outline</mat-icon>
+        <div>
+          <h3>Unable to load analytics</h3>
+          <p>{{ error }}</p>
+        </div>
+        <button mat-raised-button color="primary" (click)="loadAnalytics()">
+          <mat-icon>refresh</mat-icon>
+          Retry
+        </button>
+      </div>
 
-        <mat-card class="stat-card">
+      <div class="stats-grid" *ngIf="analytics" [class.refreshing]="loading">
+        <mat-card class="stat-card" *ngFor="let stat of stats">
           <mat-card-content>
             <div class="stat-content">
-              <mat-icon class="stat-icon">trending_up</mat-icon>
+              <mat-icon class="stat-icon">{{ stat.icon }}</mat-icon>
               <div class="stat-details">
-                <h3>Growth Rate</h3>
-                <p class="stat-number">23.5%</p>
-                <p class="stat-change positive">+2.1% from last month</p>
+                <h3>{{ stat.label }}</h3>
+                <p class="stat-number">{{ formatValue(stat, stat.value(analytics)) }}</p>
+                <p class="stat-change"
+                   *ngIf="getDelta(stat) as delta"
+                   [class.positive]="delta.isImprovement"
+                   [class.negative]="!delta.isImprovement && delta.change !== 0">
+                  {{ formatDelta(stat, delta.change) }} from previous period
+                </p>
+                <p class="stat-change" *ngIf="!getDelta(stat)">No previous period data</p>
               </div>
             </div>
           </mat-card-content>
@@ -148,6 +218,67 @@ import { Router } from '@angular/router';
       font-size: 16px;
     }
 
+    .filters-card {
+      margin-bottom: 24px;
+    }
+
+    .filters-row {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      flex-wrap: wrap;
+    }
+
+    .filters-spacer {
+      flex: 1 1 auto;
+    }
+
+    .period-caption {
+      margin: 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .last-updated {
+      color: #999;
+    }
+
+    .loading-container {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: 48px;
+      gap: 16px;
+    }
+
+    .error-state {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 16px 24px;
+      margin-bottom: 24px;
+      border-radius: 8px;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .error-state h3 {
+      margin: 0 0 4px 0;
+    }
+
+    .error-state p {
+      margin: 0;
+    }
+
+    .error-state button {
+      margin-left: auto;
+    }
+
+    .stats-grid.refreshing {
+      opacity: 0.6;
+    }
+
     .stats-grid {
       display: grid;
       grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
@@ -259,6 +390,11 @@ import { Router } from '@angular/router';
       .stats-grid {
         grid-template-columns: 1fr;
       }
+
+      .filters-row {
+        align-items: stretch;
+        flex-direction: column;
+      }
       
       .actions-grid {
         grid-template-columns: 1fr;
@@ -266,14 +402,191 @@ import { Router } from '@angular/router';
     }
   `]
 })
-export class AnalyticsDashboardComponent implements OnInit {
+export class AnalyticsDashboardComponent implements OnInit, OnDestroy {
   private router = inject(Router);
+  private analyticsService = inject(AnalyticsDashboardService);
+  private masterData = inject(MasterDataStoreService);
+
+  readonly stats: DashboardStat[] = [
+    { label: 'Total Subscriptions', value: a => a.subscriptionMetrics.totalSubscriptions, icon: 'subscriptions', format: 'number' },
+    { label: 'Active Subscriptions', value: a => a.subscriptionMetrics.activeSubscriptions, icon: 'people', format: 'number' },
+    { label: 'New Subscriptions', value: a => a.growthMetrics.newSubscriptions, icon: 'person_add', format: 'number' },
+    { label: 'Cancelled Subscriptions', value: a => a.churnMetrics.cancelledSubscriptions, icon: 'cancel', format: 'number', lowerIsBetter: true },
+    { label: 'Trial Subscriptions', value: a => a.subscriptionMetrics.trialSubscriptions, icon: 'hourglass_top', format: 'number' },
+    { label: 'Revenue', value: a => a.revenueMetrics.totalRevenue, icon: 'attach_money', format: 'currency' },
+    { label: 'Avg. Order Value', value: a => a.revenueMetrics.averageOrderValue, icon: 'person_outline', format: 'currency' },
+    { label: 'Churn Rate', value: a => a.churnMetrics.churnRate, icon: 'trending_down', format: 'percent', lowerIsBetter: true },
+    { label: 'Trial Conversion Rate', value: a => a.subscriptionMetrics.trialConversionRate, icon: 'trending_up', format: 'percent' }
+  ];
+
+  readonly rangeOptions = [
+    { value: '7', label: 'Last 7 days' },
+    { value: '30', label: 'Last 30 days' },
+    { value: '90', label: 'Last 90 days' },
+    { value: '365', label: 'Last 12 months' },
+    { value: 'custom', label: 'Custom range' }
+  ];
+
+  selectedRange = '30';
+  customStartDate = '';
+  customEndDate = '';
+  autoRefresh = true;
+
+  analytics: SubscriptionAnalyticsDto | null = null;
+  previousAnalytics: SubscriptionAnalyticsDto | null = null;
+  currentPeriod: DashboardPeriod | null = null;
+  previousPeriod: DashboardPeriod | null = null;
+  lastUpdated: Date | null = null;
+  loading = false;
+  error: string | null = null;
+
+  private loadSubscription?: Subscription;
+  private refreshSubscription?: Subscription;
 
   ngOnInit() {
-    // Initialize dashboard data
+    this.loadAnalytics();
+    this.startAutoRefresh();
+  }
+
+  ngOnDestroy() {
+    this.loadSubscription?.unsubscribe();
+    this.stopAutoRefresh();
+  }
+
+  loadAnalytics() {
+    const period = this.resolvePeriod();
+    if (!period) {
+      this.error = 'Please choose a valid start and end date.';
+      return;
+    }
+
+    const length = period.end.getTime() - period.start.getTime();
+    const previous: DashboardPeriod = {
+      start: new Date(period.start.getTime() - length),
+      end: new Date(period.start.getTime())
+    };
+
+    this.loading = true;
+    this.error = null;
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = forkJoin({
+      current: this.analyticsService.getSummary({ startDate: period.start, endDate: period.end }),
+      previous: this.analyticsService.getSummary({ startDate: previous.start, endDate: previous.end })
+    }).subscribe({
+      next: ({ current, previous: previousResponse }) => {
+        if (current.statusCode === 200 && current.data) {
+          this.analytics = current.data;
+          this.previousAnalytics = previousResponse.statusCode === 200 ? previousResponse.data : null;
+          this.currentPeriod = period;
+          this.previousPeriod = previous;
+          this.lastUpdated = new Date();
+        } else {
+          this.error = current.message || 'Failed to load analytics';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading analytics:', error);
+        this.error = error.message || 'Failed to load analytics';
+        this.loading = false;
+      }
+    });
+  }
+
+  onRangeChange() {
+    if (this.selectedRange !== 'custom') {
+      this.loadAnalytics();
+    }
+  }
+
+  onCustomRangeChange() {
+    if (this.customStartDate && this.customEndDate) {
+      this.loadAnalytics();
+    }
+  }
+
+  onAutoRefreshChange() {
+    if (this.autoRefresh) {
+      this.startAutoRefresh();
+    } else {
+      this.stopAutoRefresh();
+    }
+  }
+
+  getDelta(stat: DashboardStat): StatDelta | null {
+    if (!this.analytics || !this.previousAnalytics) return null;
+
+    const current = stat.value(this.analytics) ?? 0;
+    const previous = stat.value(this.previousAnalytics) ?? 0;
+
+    let change: number;
+    if (stat.format === 'percent') {
+      // Rates are compared in percentage points rather than relative change
+      change = current - previous;
+    } else if (previous === 0) {
+      if (current === 0) return { change: 0, isImprovement: true };
+      return null;
+    } else {
+      change = ((current - previous) / previous) * 100;
+    }
+
+    return {
+      change,
+      isImprovement: stat.lowerIsBetter ? change <= 0 : change >= 0
+    };
+  }
+
+  formatValue(stat: DashboardStat, value: number | null | undefined): string {
+    const amount = value ?? 0;
+    switch (stat.format) {
+      case 'currency':
+        return formatMoney(amount, REPORTING_CURRENCY_CODE, this.masterData.snapshot('currencies'), '1.0-0');
+      case 'percent':
+        return `${amount.toFixed(1)}%`;
+      default:
+        return amount.toLocaleString('en-US');
+    }
+  }
+
+  formatDelta(stat: DashboardStat, change: number): string {
+    const sign = change > 0 ? '+' : '';
+    const unit = stat.format === 'percent' ? ' pts' : '%';
+    return `${sign}${change.toFixed(1)}${unit}`;
   }
 
   navigateTo(route: string) {
     this.router.navigate([`/admin/${route}`]);
   }
+
+  private resolvePeriod(): DashboardPeriod | null {
+    if (this.selectedRange === 'custom') {
+      if (!this.customStartDate || !this.customEndDate) return null;
+      const start = new Date(this.customStartDate);
+      const end = new Date(this.customEndDate);
+      // Include the whole end day
+      end.setHours(23, 59, 59, 999);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) return null;
+      return { start, end };
+    }
+
+    const end = new Date();
+    const start = new Date(end.getTime() - Number(this.selectedRange) * DAY_IN_MS);
+    return { start, end };
+  }
+
+  private startAutoRefresh() {
+    this.stopAutoRefresh();
+    if (!this.autoRefresh) return;
+
+    this.refreshSubscription = interval(AUTO_REFRESH_INTERVAL_MS).subscribe(() => {
+      if (!this.loading) {
+        this.loadAnalytics();
+      }
+    });
+  }
+
+  private stopAutoRefresh() {
+    this.refreshSubscription?.unsubscribe();
+    this.refreshSubscription = undefined;
+  }
 }
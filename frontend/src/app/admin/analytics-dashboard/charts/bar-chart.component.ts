@@ -0,0 +1,209 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartSelection, ChartSeries, buildTicks, formatCompact, niceMax } from './chart.models';
+
+interface PlottedBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  series: string;
+  label: string;
+  value: number;
+  key?: string;
+}
+
+@Component({
+  selector: 'app-bar-chart',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="chart-wrapper">
+      <div *ngIf="!hasData" class="chart-empty">No data for the selected period</div>
+
+      <svg *ngIf="hasData" [attr.viewBox]="'0 0 ' + width + ' ' + height" class="chart-svg" preserveAspectRatio="none">
+        <g class="grid">
+          <g *ngFor="let tick of ticks">
+            <line [attr.x1]="padding.left" [attr.x2]="width - padding.right"
+                  [attr.y1]="scaleY(tick)" [attr.y2]="scaleY(tick)"></line>
+            <text [attr.x]="padding.left - 8" [attr.y]="scaleY(tick) + 4" text-anchor="end">
+              {{ formatTick(tick) }}
+            </text>
+          </g>
+        </g>
+
+        <g class="x-axis">
+          <text *ngFor="let label of labels; let i = index"
+                [attr.x]="bandCenter(i)" [attr.y]="height - 8" text-anchor="middle">
+            {{ truncate(label) }}
+          </text>
+        </g>
+
+        <rect *ngFor="let bar of bars"
+              [attr.x]="bar.x" [attr.y]="bar.y"
+              [attr.width]="bar.width" [attr.height]="bar.height"
+              [attr.fill]="bar.color"
+              class="bar"
+              (click)="onSelect(bar)">
+          <title>{{ bar.series }} · {{ bar.label }}: {{ formatTick(bar.value) }}</title>
+        </rect>
+      </svg>
+
+      <div class="chart-legend" *ngIf="hasData && series.length > 1">
+        <span *ngFor="let item of series" class="legend-item">
+          <span class="legend-swatch" [style.background]="item.color"></span>
+          {{ item.name }}
+        </span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .chart-wrapper {
+      width: 100%;
+    }
+
+    .chart-svg {
+      width: 100%;
+      height: 280px;
+    }
+
+    .grid line {
+      stroke: #eee;
+      stroke-width: 1;
+    }
+
+    text {
+      font-size: 11px;
+      fill: #888;
+    }
+
+    .bar {
+      cursor: pointer;
+      transition: opacity 0.2s ease;
+    }
+
+    .bar:hover {
+      opacity: 0.8;
+    }
+
+    .chart-empty {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      height: 200px;
+      color: #999;
+    }
+
+    .chart-legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+      justify-content: center;
+      font-size: 13px;
+      color: #555;
+    }
+
+    .legend-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .legend-swatch {
+      width: 12px;
+      height: 12px;
+      border-radius: 2px;
+    }
+  `]
+})
+export class BarChartComponent implements OnChanges {
+  @Input() series: ChartSeries[] = [];
+  @Input() stacked = false;
+  @Input() valueFormatter?: (value: number) => string;
+  @Output() barSelected = new EventEmitter<ChartSelection>();
+
+  readonly width = 640;
+  readonly height = 280;
+  readonly padding = { top: 16, right: 16, bottom: 28, left: 56 };
+
+  bars: PlottedBar[] = [];
+  ticks: number[] = [];
+  labels: string[] = [];
+  hasData = false;
+
+  private maxValue = 1;
+
+  ngOnChanges() {
+    this.labels = this.series[0]?.points.map(p => p.label) ?? [];
+    this.hasData = this.labels.length > 0;
+
+    const totals = this.labels.map((_, i) => this.stacked
+      ? this.series.reduce((sum, s) => sum + (s.points[i]?.value ?? 0), 0)
+      : Math.max(0, ...this.series.map(s => s.points[i]?.value ?? 0)));
+    this.maxValue = niceMax(Math.max(0, ...totals));
+    this.ticks = buildTicks(this.maxValue);
+
+    this.bars = [];
+    const band = this.bandWidth();
+    const barArea = band * 0.7;
+
+    this.labels.forEach((label, i) => {
+      const bandStart = this.padding.left + i * band + (band - barArea) / 2;
+      let stackTop = 0;
+
+      this.series.forEach((s, seriesIndex) => {
+        const point = s.points[i];
+        if (!point) return;
+
+        if (this.stacked) {
+          const y = this.scaleY(stackTop + point.value);
+          const height = this.scaleY(stackTop) - y;
+          stackTop += point.value;
+          this.bars.push({ x: bandStart, y, width: barArea, height, color: s.color, series: s.name, label, value: point.value, key: point.key });
+        } else {
+          const barWidth = barArea / this.series.length;
+          const y = this.scaleY(point.value);
+          this.bars.push({
+            x: bandStart + seriesIndex * barWidth,
+            y,
+            width: Math.max(barWidth - 2, 1),
+            height: this.scaleY(0) - y,
+            color: s.color,
+            series: s.name,
+            label,
+            value: point.value,
+            key: point.key
+          });
+        }
+      });
+    });
+  }
+
+  scaleY(value: number): number {
+    const plotHeight = this.height - this.padding.top - this.padding.bottom;
+    return this.padding.top + plotHeight - (value / this.maxValue) * plotHeight;
+  }
+
+  bandCenter(index: number): number {
+    return this.padding.left + index * this.bandWidth() + this.bandWidth() / 2;
+  }
+
+  formatTick(value: number): string {
+    return this.valueFormatter ? this.valueFormatter(value) : formatCompact(value);
+  }
+
+  truncate(label: string): string {
+    const maxLength = Math.max(6, Math.floor(this.bandWidth() / 7));
+    return label.length > maxLength ? `${label.substring(0, maxLength - 1)}…` : label;
+  }
+
+  onSelect(bar: PlottedBar) {
+    this.barSelected.emit({ series: bar.series, label: bar.label, key: bar.key, value: bar.value });
+  }
+
+  private bandWidth(): number {
+    const plotWidth = this.width - this.padding.left - this.padding.right;
+    return this.labels.length ? plotWidth / this.labels.length : plotWidth;
+  }
+}
@@ -0,0 +1,50 @@
+export interface ChartPoint {
+  label: string;
+  value: number;
+  // Optional payload handed back on drill-down (plan id, status, period...)
+  key?: string;
+}
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  points: ChartPoint[];
+}
+
+export interface ChartSelection {
+  series?: string;
+  label: string;
+  key?: string;
+  value: number;
+}
+
+export const CHART_COLORS = ['#667eea', '#4caf50', '#ff9800', '#f44336', '#26a69a', '#ab47bc', '#8d6e63', '#78909c'];
+
+/**
+ * Round an axis maximum up to a "nice" value (1, 2, 2.5, 5 or 10 times a power of ten)
+ */
+export function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const exponent = Math.pow(10, Math.floor(Math.log10(value)));
+  const fraction = value / exponent;
+  const niceFraction = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 2.5 ? 2.5 : fraction <= 5 ? 5 : 10;
+  return niceFraction * exponent;
+}
+
+/**
+ * Evenly spaced tick values from zero to max (inclusive)
+ */
+export function buildTicks(max: number, count: number = 4): number[] {
+  const step = max / count;
+  return Array.from({ length: count + 1 }, (_, i) => i * step);
+}
+
+/**
+ * Compact axis labels: 1200 -> 1.2k, 3500000 -> 3.5M
+ */
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (abs >= 1_000) return `${(value / 1_000).toFixed(1).replace(/\.0$/, '')}k`;
+  return `${Math.round(value * 100) / 100}`;
+}
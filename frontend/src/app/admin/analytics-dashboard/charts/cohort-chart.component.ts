@@ -0,0 +1,95 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChurnCohortDto } from '../../../models/subscription.models';
+
+@Component({
+  selector: 'app-cohort-chart',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="chart-wrapper">
+      <div *ngIf="cohorts.length === 0" class="chart-empty">No cohort data for the selected period</div>
+
+      <table *ngIf="cohorts.length > 0" class="cohort-table">
+        <thead>
+          <tr>
+            <th>Cohort</th>
+            <th>Subscribers</th>
+            <th *ngFor="let offset of offsets">Month {{ offset }}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr *ngFor="let cohort of cohorts">
+            <td class="cohort-label">{{ cohort.cohort }}</td>
+            <td>{{ cohort.startingSubscriptions | number }}</td>
+            <td *ngFor="let offset of offsets"
+                [style.background]="cellColor(cohort.retention[offset])"
+                [style.color]="textColor(cohort.retention[offset])">
+              {{ cohort.retention[offset] !== undefined ? (cohort.retention[offset] | number:'1.0-0') + '%' : '' }}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  `,
+  styles: [`
+    .chart-wrapper {
+      width: 100%;
+      overflow-x: auto;
+    }
+
+    .cohort-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+    }
+
+    .cohort-table th,
+    .cohort-table td {
+      padding: 8px;
+      text-align: center;
+      border: 1px solid #f0f0f0;
+      white-space: nowrap;
+    }
+
+    .cohort-table th {
+      background: #f5f5f5;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .cohort-label {
+      color: #667eea;
+      font-weight: 500;
+    }
+
+    .chart-empty {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      height: 200px;
+      color: #999;
+    }
+  `]
+})
+export class CohortChartComponent implements OnChanges {
+  @Input() cohorts: ChurnCohortDto[] = [];
+
+  offsets: number[] = [];
+
+  ngOnChanges() {
+    const longest = Math.max(0, ...this.cohorts.map(c => c.retention.length));
+    this.offsets = Array.from({ length: longest }, (_, i) => i);
+  }
+
+  cellColor(retention: number | undefined): string {
+    if (retention === undefined) return 'transparent';
+    // Shade from light to the brand colour as retention increases
+    const alpha = Math.max(0.08, Math.min(retention, 100) / 100);
+    return `rgba(102, 126, 234, ${alpha.toFixed(2)})`;
+  }
+
+  textColor(retention: number | undefined): string {
+    return retention !== undefined && retention > 60 ? 'white' : '#333';
+  }
+}
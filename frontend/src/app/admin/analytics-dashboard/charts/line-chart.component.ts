@@ -0,0 +1,191 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartSelection, ChartSeries, buildTicks, formatCompact, niceMax } from './chart.models';
+
+interface PlottedPoint {
+  x: number;
+  y: number;
+  label: string;
+  value: number;
+  key?: string;
+}
+
+interface PlottedSeries {
+  name: string;
+  color: string;
+  path: string;
+  area: string;
+  points: PlottedPoint[];
+}
+
+@Component({
+  selector: 'app-line-chart',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="chart-wrapper">
+      <div *ngIf="!hasData" class="chart-empty">No data for the selected period</div>
+
+      <svg *ngIf="hasData" [attr.viewBox]="'0 0 ' + width + ' ' + height" class="chart-svg" preserveAspectRatio="none">
+        <g class="grid">
+          <g *ngFor="let tick of ticks">
+            <line [attr.x1]="padding.left" [attr.x2]="width - padding.right"
+                  [attr.y1]="scaleY(tick)" [attr.y2]="scaleY(tick)"></line>
+            <text [attr.x]="padding.left - 8" [attr.y]="scaleY(tick) + 4" text-anchor="end">
+              {{ formatTick(tick) }}
+            </text>
+          </g>
+        </g>
+
+        <g class="x-axis">
+          <text *ngFor="let label of xLabels; let i = index"
+                [attr.x]="scaleX(i)" [attr.y]="height - 8" text-anchor="middle">
+            {{ label }}
+          </text>
+        </g>
+
+        <g *ngFor="let series of plotted">
+          <path *ngIf="showArea" [attr.d]="series.area" [attr.fill]="series.color" class="area"></path>
+          <path [attr.d]="series.path" [attr.stroke]="series.color" class="line"></path>
+          <circle *ngFor="let point of series.points"
+                  [attr.cx]="point.x" [attr.cy]="point.y" r="4"
+                  [attr.fill]="series.color"
+                  class="point"
+                  (click)="onSelect(series.name, point)">
+            <title>{{ series.name }} · {{ point.label }}: {{ formatTick(point.value) }}</title>
+          </circle>
+        </g>
+      </svg>
+
+      <div class="chart-legend" *ngIf="hasData && series.length > 1">
+        <span *ngFor="let item of series" class="legend-item">
+          <span class="legend-swatch" [style.background]="item.color"></span>
+          {{ item.name }}
+        </span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .chart-wrapper {
+      width: 100%;
+    }
+
+    .chart-svg {
+      width: 100%;
+      height: 280px;
+    }
+
+    .grid line {
+      stroke: #eee;
+      stroke-width: 1;
+    }
+
+    text {
+      font-size: 11px;
+      fill: #888;
+    }
+
+    .line {
+      fill: none;
+      stroke-width: 2.5;
+    }
+
+    .area {
+      opacity: 0.12;
+    }
+
+    .point {
+      cursor: pointer;
+      stroke: white;
+      stroke-width: 2;
+    }
+
+    .point:hover {
+      r: 6;
+    }
+
+    .chart-empty {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      height: 200px;
+      color: #999;
+    }
+
+    .chart-legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+      justify-content: center;
+      font-size: 13px;
+      color: #555;
+    }
+
+    .legend-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .legend-swatch {
+      width: 12px;
+      height: 12px;
+      border-radius: 2px;
+    }
+  `]
+})
+export class LineChartComponent implements OnChanges {
+  @Input() series: ChartSeries[] = [];
+  @Input() showArea = true;
+  @Input() valueFormatter?: (value: number) => string;
+  @Output() pointSelected = new EventEmitter<ChartSelection>();
+
+  readonly width = 640;
+  readonly height = 280;
+  readonly padding = { top: 16, right: 16, bottom: 28, left: 56 };
+
+  plotted: PlottedSeries[] = [];
+  ticks: number[] = [];
+  xLabels: string[] = [];
+  hasData = false;
+
+  private maxValue = 1;
+  private pointCount = 0;
+
+  ngOnChanges() {
+    this.pointCount = Math.max(0, ...this.series.map(s => s.points.length));
+    this.hasData = this.pointCount > 0;
+    this.xLabels = this.series[0]?.points.map(p => p.label) ?? [];
+    this.maxValue = niceMax(Math.max(0, ...this.series.flatMap(s => s.points.map(p => p.value))));
+    this.ticks = buildTicks(this.maxValue);
+
+    const baseline = this.scaleY(0);
+    this.plotted = this.series.map(s => {
+      const points = s.points.map((p, i) => ({ x: this.scaleX(i), y: this.scaleY(p.value), label: p.label, value: p.value, key: p.key }));
+      const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+      const area = points.length
+        ? `${path} L${points[points.length - 1].x},${baseline} L${points[0].x},${baseline} Z`
+        : '';
+      return { name: s.name, color: s.color, path, area, points };
+    });
+  }
+
+  scaleX(index: number): number {
+    const plotWidth = this.width - this.padding.left - this.padding.right;
+    if (this.pointCount <= 1) return this.padding.left + plotWidth / 2;
+    return this.padding.left + (index / (this.pointCount - 1)) * plotWidth;
+  }
+
+  scaleY(value: number): number {
+    const plotHeight = this.height - this.padding.top - this.padding.bottom;
+    return this.padding.top + plotHeight - (value / this.maxValue) * plotHeight;
+  }
+
+  formatTick(value: number): string {
+    return this.valueFormatter ? this.valueFormatter(value) : formatCompact(value);
+  }
+
+  onSelect(seriesName: string, point: PlottedPoint) {
+    this.pointSelected.emit({ series: seriesName, label: point.label, key: point.key, value: point.value });
+  }
+}
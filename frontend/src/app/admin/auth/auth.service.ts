@@ -1,8 +1,10 @@
-import { Injectable, inject } from '@angular/core';
+import { Injectable, NgZone, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { BehaviorSubject, Observable, of } from 'rxjs';
 import { Router } from '@angular/router';
-import { tap, catchError, map } from 'rxjs/operators';
+import { tap, catchError, map, finalize, shareReplay } from 'rxjs/operators';
+import { Permission, ROLE_PERMISSIONS } from './permissions';
+import { AppConfigService } from '../../services/app-config.service';
 
 export interface AdminUser {
   id: string;
@@ -34,12 +36,25 @@ export interface ValidateTokenResponse {
   valid: boolean;
 }
 
+const TOKEN_KEY = 'adminToken';
+const USER_KEY = 'adminUser';
+
+// Auth endpoints called without a session; every other auth call is made with the current token
+const ANONYMOUS_AUTH_PATHS = ['/login', '/register', '/forgot-password'];
+
+// Refresh this long before the token expires so in-flight requests never carry a stale token
+const REFRESH_BEFORE_EXPIRY_MS = 60 * 1000;
+
 @Injectable({ providedIn: 'root' })
 export class AuthService {
   private http = inject(HttpClient);
   private router = inject(Router);
+  private zone = inject(NgZone);
+  private config = inject(AppConfigService);
   
-  private baseUrl = 'http://localhost:61376/api/auth';
+  private get baseUrl(): string {
+    return this.config.apiUrl('/api/auth');
+  }
   
   // BehaviorSubject to track authentication state
   private isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
@@ -49,9 +64,14 @@ export class AuthService {
   public isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
   public currentUser$ = this.currentUserSubject.asObservable();
 
+  // Shared by every caller while a refresh request is in flight, so concurrent 401s refresh once
+  private refreshInFlight$: Observable<string | null> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor() {
     // Check if user is already authenticated on service initialization
     this.checkAuthStatus();
+    this.listenForOtherTabs();
   }
 
   /**
@@ -63,9 +83,10 @@ export class AuthService {
     
     console.log('Checking auth status:', { hasToken: !!token, hasUser: !!user });
     
-    if (token && user) {
+    if (token && user && !this.isTokenExpired(token)) {
       this.isAuthenticatedSubject.next(true);
       this.currentUserSubject.next(user);
+      this.scheduleRefresh(token);
       console.log('User is authenticated:', user);
     } else {
       this.clearAuth();
@@ -112,27 +133,44 @@ export class AuthService {
     this.router.navigate(['/admin/login']);
   }
 
+  /**
+   * End a session that can no longer be refreshed and send the user back to sign in
+   */
+  expireSession(): void {
+    if (!this.isAuthenticatedSubject.value) return;
+    this.clearAuth();
+    this.router.navigate(['/admin/login'], { queryParams: { reason: 'expired' } });
+  }
+
   /**
    * Check if user has specific permission
    */
-  hasPermission(permission: string): boolean {
-    const user = this.getCurrentUser();
-    return user?.permissions?.includes(permission) || false;
+  hasPermission(permission: Permission): boolean {
+    return this.getPermissions(this.getCurrentUser()).includes(permission);
   }
 
   /**
    * Check if user has any of the specified permissions
    */
-  hasAnyPermission(permissions: string[]): boolean {
-    const user = this.getCurrentUser();
-    return user?.permissions?.some(permission => permissions.includes(permission)) || false;
+  hasAnyPermission(permissions: Permission[]): boolean {
+    const granted = this.getPermissions(this.getCurrentUser());
+    return permissions.some(permission => granted.includes(permission));
+  }
+
+  /**
+   * Permissions for a user: the explicit list from the token, or the defaults for their role
+   */
+  getPermissions(user: AdminUser | null): string[] {
+    if (!user) return [];
+    if (user.permissions?.length) return user.permissions;
+    return ROLE_PERMISSIONS[user.role?.toLowerCase()] ?? [];
   }
 
   /**
    * Get current authentication token
    */
   getToken(): string | null {
-    const token = localStorage.getItem('adminToken');
+    const token = localStorage.getItem(TOKEN_KEY);
     console.log('Getting token:', token ? token.substring(0, 20) + '...' : 'No token');
     return token;
   }
@@ -141,7 +179,7 @@ export class AuthService {
    * Get current user
    */
   getCurrentUser(): AdminUser | null {
-    const userStr = localStorage.getItem('adminUser');
+    const userStr = localStorage.getItem(USER_KEY);
     const user = userStr ? JSON.parse(userStr) : null;
     console.log('Getting current user:', user);
     return user;
@@ -156,15 +194,54 @@ export class AuthService {
     return authenticated;
   }
 
+  /**
+   * Expiry time from the token's `exp` claim, or null when the token carries none
+   */
+  getTokenExpiry(token: string | null = this.getToken()): Date | null {
+    if (!token) return null;
+    try {
+      const payload = token.split('.')[1];
+      const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+      const exp = JSON.parse(json).exp;
+      return typeof exp === 'number' ? new Date(exp * 1000) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Tokens without an `exp` claim are treated as valid until the API rejects them
+   */
+  isTokenExpired(token: string | null = this.getToken()): boolean {
+    const expiry = this.getTokenExpiry(token);
+    return expiry !== null && expiry.getTime() <= Date.now();
+  }
+
+  /**
+   * Check if a request goes to an auth endpoint that is called without a token (login, register, forgot password)
+   */
+  isAnonymousAuthRequest(url: string): boolean {
+    return ANONYMOUS_AUTH_PATHS.some(path => url.startsWith(`${this.baseUrl}${path}`));
+  }
+
+  /**
+   * Check if a request is the token refresh call
+   */
+  isRefreshRequest(url: string): boolean {
+    return url.startsWith(`${this.baseUrl}/refresh-token`);
+  }
+
   /**
    * Set authentication data
    */
   private setAuth(token: string, user: AdminUser): void {
     console.log('Setting auth data:', { token: token.substring(0, 20) + '...', user });
-    localStorage.setItem('adminToken', token);
-    localStorage.setItem('adminUser', JSON.stringify(user));
+    // User first: other tabs react to the token key and expect the user to be there already
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    localStorage.setItem(TOKEN_KEY, token);
     this.isAuthenticatedSubject.next(true);
     this.currentUserSubject.next(user);
+    this.scheduleRefresh(token);
   }
 
   /**
@@ -172,32 +249,93 @@ export class AuthService {
    */
   private clearAuth(): void {
     console.log('Clearing auth data');
-    localStorage.removeItem('adminToken');
-    localStorage.removeItem('adminUser');
+    this.cancelScheduledRefresh();
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
     this.isAuthenticatedSubject.next(false);
     this.currentUserSubject.next(null);
   }
 
   /**
-   * Refresh token (if needed)
+   * Exchange the current token for a new one. Emits the new token, or null when the refresh failed.
    */
-  refreshToken(): Observable<any> {
+  refreshToken(): Observable<string | null> {
     const token = this.getToken();
     if (!token) {
       return of(null);
     }
-    
-    return this.http.post<RefreshTokenResponse>(`${this.baseUrl}/refresh-token`, { token }).pipe(
-      tap(response => {
-        if (response?.data?.token) {
-          localStorage.setItem('adminToken', response.data.token);
+
+    if (!this.refreshInFlight$) {
+      // The API reads the user from the bearer token's claims
+      const headers = { Authorization: `Bearer ${token}` };
+      this.refreshInFlight$ = this.http.post<RefreshTokenResponse>(`${this.baseUrl}/refresh-token`, {}, { headers }).pipe(
+        map(response => response?.data?.token || null),
+        tap(newToken => {
+          if (newToken) {
+            localStorage.setItem(TOKEN_KEY, newToken);
+            this.scheduleRefresh(newToken);
+          }
+        }),
+        catchError(error => {
+          console.error('Token refresh failed:', error);
+          return of(null);
+        }),
+        finalize(() => this.refreshInFlight$ = null),
+        shareReplay(1)
+      );
+    }
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Refresh shortly before the token expires
+   */
+  private scheduleRefresh(token: string): void {
+    this.cancelScheduledRefresh();
+    const expiry = this.getTokenExpiry(token);
+    if (!expiry) return;
+
+    const delay = Math.max(expiry.getTime() - Date.now() - REFRESH_BEFORE_EXPIRY_MS, 0);
+    // Outside the zone so a pending timer does not keep the app from becoming stable
+    this.zone.runOutsideAngular(() => {
+      this.refreshTimer = setTimeout(() => this.zone.run(() => this.refreshToken().subscribe()), delay);
+    });
+  }
+
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Keep tabs in step: signing out in one tab signs out all of them, and a token refreshed
+   * in another tab is picked up here instead of being refreshed again
+   */
+  private listenForOtherTabs(): void {
+    window.addEventListener('storage', (event: StorageEvent) => {
+      if (event.key !== TOKEN_KEY && event.key !== null) return;
+
+      this.zone.run(() => {
+        const token = this.getToken();
+        if (!token) {
+          if (this.isAuthenticatedSubject.value) {
+            this.clearAuth();
+            this.router.navigate(['/admin/login']);
+          }
+          return;
         }
-      }),
-      catchError(() => {
-        this.clearAuth();
-        return of(null);
-      })
-    );
+
+        const user = this.getCurrentUser();
+        if (!user) return;
+        if (!this.isAuthenticatedSubject.value) {
+          this.isAuthenticatedSubject.next(true);
+          this.currentUserSubject.next(user);
+        }
+        this.scheduleRefresh(token);
+      });
+    });
   }
 
   /**
@@ -0,0 +1,61 @@
+import { Directive, Input, OnDestroy, OnInit, Renderer2, TemplateRef, ViewContainerRef, inject } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from './auth.service';
+import { Permission } from './permissions';
+
+/**
+ * Renders the element only when the current user has at least one of the given permissions.
+ *
+ *   <button *appHasPermission="'plans.delete'">Delete</button>
+ *   <button *appHasPermission="['refunds.issue', 'billing.manage']; mode: 'disable'">Refund</button>
+ *
+ * In 'disable' mode the element stays visible but cannot be used, so the action is discoverable.
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private templateRef = inject<TemplateRef<unknown>>(TemplateRef);
+  private viewContainer = inject(ViewContainerRef);
+  private renderer = inject(Renderer2);
+  private authService = inject(AuthService);
+  private userSubscription?: Subscription;
+
+  private permissions: Permission[] = [];
+
+  @Input() set appHasPermission(value: Permission | Permission[]) {
+    this.permissions = Array.isArray(value) ? value : [value];
+    this.render();
+  }
+
+  @Input() appHasPermissionMode: 'hide' | 'disable' = 'hide';
+
+  ngOnInit() {
+    // Re-evaluate when the signed-in user changes
+    this.userSubscription = this.authService.currentUser$.subscribe(() => this.render());
+  }
+
+  ngOnDestroy() {
+    this.userSubscription?.unsubscribe();
+  }
+
+  private render() {
+    this.viewContainer.clear();
+    const allowed = this.authService.hasAnyPermission(this.permissions);
+
+    if (allowed) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+    } else if (this.appHasPermissionMode === 'disable') {
+      const view = this.viewContainer.createEmbeddedView(this.templateRef);
+      for (const node of view.rootNodes) {
+        if (!(node instanceof HTMLElement)) continue;
+        // The class blocks pointer events, so it holds even if the host re-binds [disabled]
+        this.renderer.addClass(node, 'permission-denied');
+        this.renderer.setAttribute(node, 'disabled', 'true');
+        this.renderer.setAttribute(node, 'tabindex', '-1');
+        this.renderer.setAttribute(node, 'title', 'You do not have permission to do this');
+      }
+    }
+  }
+}
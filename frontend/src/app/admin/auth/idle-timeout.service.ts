@@ -0,0 +1,107 @@
+import { Injectable, NgZone, inject } from '@angular/core';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { AuthService } from './auth.service';
+import {
+  IdleWarningDialogComponent,
+  IdleWarningDialogData,
+  IdleWarningDialogResult
+} from './idle-warning-dialog.component';
+
+// Inactivity before the warning is shown
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+// Time the warning stays up before the session is ended
+const WARNING_COUNTDOWN_SECONDS = 60;
+const CHECK_INTERVAL_MS = 10 * 1000;
+// Shared across tabs so working in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = 'adminLastActivity';
+const ACTIVITY_WRITE_THROTTLE_MS = 5 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+@Injectable({ providedIn: 'root' })
+export class IdleTimeoutService {
+  private authService = inject(AuthService);
+  private dialog = inject(MatDialog);
+  private zone = inject(NgZone);
+
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private warningRef: MatDialogRef<IdleWarningDialogComponent, IdleWarningDialogResult> | null = null;
+  private lastWrite = 0;
+
+  private readonly onActivity = () => {
+    // Activity behind the open warning should not silently dismiss it
+    if (this.warningRef) return;
+    const now = Date.now();
+    if (now - this.lastWrite < ACTIVITY_WRITE_THROTTLE_MS) return;
+    this.lastWrite = now;
+    localStorage.setItem(LAST_ACTIVITY_KEY, `${now}`);
+  };
+
+  /**
+   * Start watching for inactivity. Safe to call more than once.
+   */
+  start(): void {
+    if (this.checkTimer) return;
+    this.recordActivity();
+
+    // Activity events fire constantly; keep them from triggering change detection
+    this.zone.runOutsideAngular(() => {
+      ACTIVITY_EVENTS.forEach(type => document.addEventListener(type, this.onActivity, { passive: true }));
+      this.checkTimer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    });
+  }
+
+  stop(): void {
+    ACTIVITY_EVENTS.forEach(type => document.removeEventListener(type, this.onActivity));
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.warningRef?.close();
+    this.warningRef = null;
+  }
+
+  private check(): void {
+    if (this.warningRef || !this.authService.isAuthenticated()) return;
+    if (Date.now() - this.getLastActivity() >= IDLE_TIMEOUT_MS) {
+      this.zone.run(() => this.showWarning());
+    }
+  }
+
+  private showWarning(): void {
+    const warnedAt = Date.now();
+    const data: IdleWarningDialogData = { countdownSeconds: WARNING_COUNTDOWN_SECONDS };
+    this.warningRef = this.dialog.open(IdleWarningDialogComponent, {
+      width: '480px',
+      disableClose: true,
+      data
+    });
+
+    this.warningRef.afterClosed().subscribe(result => {
+      this.warningRef = null;
+      switch (result) {
+        case 'stay':
+          this.recordActivity();
+          // Make sure the token outlives the next idle period
+          this.authService.refreshToken().subscribe();
+          break;
+        case 'logout':
+          this.authService.logout();
+          break;
+        case 'timeout':
+          // Someone kept working in another tab while this warning was up
+          if (this.getLastActivity() > warnedAt) break;
+          this.authService.expireSession();
+          break;
+      }
+    });
+  }
+
+  private recordActivity(): void {
+    this.lastWrite = Date.now();
+    localStorage.setItem(LAST_ACTIVITY_KEY, `${this.lastWrite}`);
+  }
+
+  private getLastActivity(): number {
+    return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+  }
+}
@@ -0,0 +1,131 @@
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+
+export interface IdleWarningDialogData {
+  // Seconds until the session is ended automatically
+  countdownSeconds: number;
+}
+
+export type IdleWarningDialogResult = 'stay' | 'logout' | 'timeout';
+
+@Component({
+  selector: 'app-idle-warning-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule
+  ],
+  template: `
+    <div class="idle-warning-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>hourglass_bottom</mat-icon>
+        <h2>Are you still there?</h2>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <p>
+          You have been inactive for a while. For security you will be signed out in
+          <strong>{{ remainingSeconds }} {{ remainingSeconds === 1 ? 'second' : 'seconds' }}</strong>.
+        </p>
+        <mat-progress-bar mode="determinate" [value]="remainingSeconds / data.countdownSeconds * 100"></mat-progress-bar>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onLogout()">Sign Out</button>
+        <button mat-raised-button color="primary" (click)="onStay()" cdkFocusInitial>Stay Signed In</button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .idle-warning-dialog {
+      min-width: 400px;
+      max-width: 480px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #ff9800;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .dialog-content p {
+      margin: 0 0 16px 0;
+      line-height: 1.5;
+      color: #333;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .idle-warning-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class IdleWarningDialogComponent implements OnInit, OnDestroy {
+  remainingSeconds: number;
+  private countdown: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<IdleWarningDialogComponent, IdleWarningDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: IdleWarningDialogData
+  ) {
+    this.remainingSeconds = data.countdownSeconds;
+  }
+
+  ngOnInit() {
+    this.countdown = setInterval(() => {
+      this.remainingSeconds--;
+      if (this.remainingSeconds <= 0) {
+        this.dialogRef.close('timeout');
+      }
+    }, 1000);
+  }
+
+  ngOnDestroy() {
+    if (this.countdown) {
+      clearInterval(this.countdown);
+    }
+  }
+
+  onStay(): void {
+    this.dialogRef.close('stay');
+  }
+
+  onLogout(): void {
+    this.dialogRef.close('logout');
+  }
+}
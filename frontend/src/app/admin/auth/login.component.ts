@@ -8,7 +8,7 @@ import { MatCardModule } from '@angular/material/card';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar } from '@angular/material/snack-bar';
-import { Router, RouterModule } from '@angular/router';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { AuthService } from './auth.service';
 
 @Component({
@@ -222,6 +222,7 @@ export class AdminLoginComponent implements OnInit {
   private fb = inject(FormBuilder);
   private authService = inject(AuthService);
   private router = inject(Router);
+  private route = inject(ActivatedRoute);
   private snackBar = inject(MatSnackBar);
 
   loginForm: FormGroup;
@@ -239,6 +240,11 @@ export class AdminLoginComponent implements OnInit {
     // Check if user is already authenticated
     if (this.authService.isAuthenticated()) {
       this.router.navigate(['/admin/dashboard']);
+      return;
+    }
+
+    if (this.route.snapshot.queryParamMap.get('reason') === 'expired') {
+      this.snackBar.open('Your session has expired. Please sign in again.', 'Close', { duration: 5000 });
     }
   }
 
@@ -0,0 +1,27 @@
+import { Injectable, inject } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, CanActivateChild, Router, UrlTree } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { AuthService } from './auth.service';
+import { PermissionRouteData } from './permissions';
+
+@Injectable({ providedIn: 'root' })
+export class PermissionGuard implements CanActivate, CanActivateChild {
+  private authService = inject(AuthService);
+  private router = inject(Router);
+  private snackBar = inject(MatSnackBar);
+
+  canActivate(route: ActivatedRouteSnapshot): boolean | UrlTree {
+    const { permissions } = route.data as PermissionRouteData;
+    // Routes without permission data are open to every signed-in admin
+    if (!permissions?.length || this.authService.hasAnyPermission(permissions)) {
+      return true;
+    }
+
+    this.snackBar.open('You do not have permission to view that page', 'Close', { duration: 3000 });
+    return this.router.createUrlTree(['/admin/dashboard']);
+  }
+
+  canActivateChild(childRoute: ActivatedRouteSnapshot): boolean | UrlTree {
+    return this.canActivate(childRoute);
+  }
+}
@@ -0,0 +1,46 @@
+// Permission names as issued by the backend in AdminUser.permissions
+export const PERMISSIONS = {
+  subscriptionsView: 'subscriptions.view',
+  subscriptionsManage: 'subscriptions.manage',
+  subscriptionsCancel: 'subscriptions.cancel',
+  plansView: 'plans.view',
+  plansWrite: 'plans.write',
+  plansDelete: 'plans.delete',
+  billingManage: 'billing.manage',
+  privilegesAdjust: 'privileges.adjust',
+  refundsView: 'refunds.view',
+  refundsIssue: 'refunds.issue',
+  usersManage: 'users.manage',
+  analyticsView: 'analytics.view',
+  reportsView: 'reports.view',
+  settingsManage: 'settings.manage'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+/**
+ * Permissions granted by role when the token does not carry an explicit list.
+ * Support agents handle day-to-day subscription changes but cannot delete plans or move money out.
+ */
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  superadmin: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  support: [
+    PERMISSIONS.subscriptionsView,
+    PERMISSIONS.subscriptionsManage,
+    PERMISSIONS.plansView,
+    PERMISSIONS.billingManage,
+    PERMISSIONS.privilegesAdjust,
+    PERMISSIONS.refundsView,
+    PERMISSIONS.analyticsView,
+    PERMISSIONS.reportsView
+  ]
+};
+
+// Route data shape read by PermissionGuard
+export interface PermissionRouteData {
+  // The user needs at least one of these
+  permissions?: Permission[];
+}
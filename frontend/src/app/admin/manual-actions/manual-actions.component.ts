@@ -5,7 +5,15 @@ import { MatInputModule } from '@angular/material/input';
 import { MatButtonModule } from '@angular/material/button';
 import { MatSelectModule } from '@angular/material/select';
 import { CommonModule } from '@angular/common';
+import { Observable, forkJoin } from 'rxjs';
 import { ManualActionsService } from './manual-actions.service';
+import { ApiResponse } from '../../services/common.service';
+import { SubscriptionService } from '../../services/subscription.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { ProrationService } from '../../services/proration.service';
+import { ProrationPreviewComponent } from '../subscription-management/proration-preview.component';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { ProrationResult } from '../../models/subscription.models';
 
 @Component({
   selector: 'app-manual-actions',
@@ -16,7 +24,9 @@ import { ManualActionsService } from './manual-actions.service';
     MatFormFieldModule,
     MatInputModule,
     MatButtonModule,
-    MatSelectModule
+    MatSelectModule,
+    ProrationPreviewComponent,
+    HasPermissionDirective
   ],
   templateUrl: './manual-actions.component.html',
   styleUrls: ['./manual-actions.component.scss']
@@ -27,13 +37,66 @@ export class ManualActionsComponent {
   error: string | null = null;
   success: string | null = null;
 
-  constructor(private fb: FormBuilder, private manualActionsService: ManualActionsService) {
+  // Upgrade preview
+  proration: ProrationResult | null = null;
+  previewCurrency = 'USD';
+  previewLoading = false;
+  previewError: string | null = null;
+
+  constructor(
+    private fb: FormBuilder,
+    private manualActionsService: ManualActionsService,
+    private subscriptionService: SubscriptionService,
+    private masterData: MasterDataStoreService,
+    private prorationService: ProrationService
+  ) {
     this.actionForm = this.fb.group({
       subscriptionId: ['', Validators.required],
       actionType: ['', Validators.required],
       reason: [''],
-      newPlanId: [''],
-      refundAmount: ['']
+      newPlanId: ['']
+    });
+
+    // A preview is only valid for the subscription and plan it was calculated for
+    this.actionForm.valueChanges.subscribe(() => {
+      this.proration = null;
+      this.previewError = null;
+    });
+  }
+
+  previewUpgrade() {
+    const { subscriptionId, newPlanId } = this.actionForm.value;
+    if (!subscriptionId || !newPlanId) return;
+
+    this.previewLoading = true;
+    this.previewError = null;
+    forkJoin({
+      subscription: this.subscriptionService.getSubscriptionById(subscriptionId),
+      plan: this.subscriptionService.getPlanById(newPlanId),
+      billingCycles: this.masterData.load('billingCycles'),
+      currencies: this.masterData.load('currencies')
+    }).subscribe({
+      next: ({ subscription, plan, billingCycles, currencies }) => {
+        const cycle = billingCycles.find(c => c.id === plan.data?.billingCycleId);
+        if (!subscription.data || !plan.data || !cycle) {
+          this.previewError = 'Could not load the subscription, plan or billing cycle for the preview';
+        } else {
+          // The subscriber keeps paying in their own currency, so the new plan needs a price in it
+          const currencyId = subscription.data.currencyId || plan.data.currencyId;
+          const pricedPlan = this.subscriptionService.priceInCurrency(plan.data, currencyId);
+          this.previewCurrency = currencies.find(c => c.id === currencyId)?.code || 'USD';
+          if (pricedPlan) {
+            this.proration = this.prorationService.calculate(subscription.data, pricedPlan, cycle);
+          } else {
+            this.previewError = `${plan.data.name} has no price in ${this.previewCurrency}`;
+          }
+        }
+        this.previewLoading = false;
+      },
+      error: (err: any) => {
+        this.previewError = err?.error?.Message || err?.message || 'Preview failed';
+        this.previewLoading = false;
+      }
     });
   }
 
@@ -42,11 +105,11 @@ export class ManualActionsComponent {
     this.loading = true;
     this.error = null;
     this.success = null;
-    const { subscriptionId, actionType, reason, newPlanId, refundAmount } = this.actionForm.value;
-    let action$;
+    const { subscriptionId, actionType, reason, newPlanId } = this.actionForm.value;
+    let action$: Observable<ApiResponse<unknown>>;
     switch (actionType) {
       case 'pause':
-        action$ = this.manualActionsService.pause(subscriptionId);
+        action$ = this.manualActionsService.pause(subscriptionId, reason);
         break;
       case 'resume':
         action$ = this.manualActionsService.resume(subscriptionId);
@@ -55,10 +118,7 @@ export class ManualActionsComponent {
         action$ = this.manualActionsService.cancel(subscriptionId, reason);
         break;
       case 'upgrade':
-        action$ = this.manualActionsService.upgrade(subscriptionId, newPlanId);
-        break;
-      case 'refund':
-        action$ = this.manualActionsService.refund(subscriptionId, refundAmount, reason);
+        action$ = this.subscriptionService.changeSubscriptionPlan(subscriptionId, newPlanId);
         break;
       default:
         this.error = 'Invalid action type';
@@ -66,12 +126,16 @@ export class ManualActionsComponent {
         return;
     }
     action$.subscribe({
-      next: () => {
-        this.success = 'Action completed successfully';
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.success = 'Action completed successfully';
+        } else {
+          this.error = response.message || 'Action failed';
+        }
         this.loading = false;
       },
       error: (err: any) => {
-        this.error = err?.error?.Message || 'Action failed';
+        this.error = err?.message || 'Action failed';
         this.loading = false;
       }
     });
@@ -1,30 +1,24 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
+import { ApiResponse, CommonService } from '../../services/common.service';
+import { SubscriptionDto } from '../../models/subscription.models';
+import { ApiRequestBody } from '../../api/api-contract';
 
 @Injectable({ providedIn: 'root' })
 export class ManualActionsService {
   private baseUrl = '/webadmin/subscription-management/subscriptions';
 
-  constructor(private http: HttpClient) {}
+  constructor(private commonService: CommonService) {}
 
-  pause(id: string): Observable<any> {
-    return this.http.post(`${this.baseUrl}/${id}/pause`, {});
+  pause(id: string, reason?: ApiRequestBody<'POST /webadmin/subscription-management/subscriptions/{id}/pause'>): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`${this.baseUrl}/${id}/pause`, reason ?? null);
   }
 
-  resume(id: string): Observable<any> {
-    return this.http.post(`${this.baseUrl}/${id}/resume`, {});
+  resume(id: string): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`${this.baseUrl}/${id}/resume`, {});
   }
 
-  cancel(id: string, reason?: string): Observable<any> {
-    return this.http.post(`${this.baseUrl}/${id}/cancel`, { reason });
-  }
-
-  upgrade(id: string, newPlanId: string): Observable<any> {
-    return this.http.post(`${this.baseUrl}/${id}/upgrade`, { newPlanId });
-  }
-
-  refund(id: string, amount: number, reason?: string): Observable<any> {
-    return this.http.post(`${this.baseUrl}/${id}/refund`, { amount, reason });
+  cancel(id: string, reason?: ApiRequestBody<'POST /webadmin/subscription-management/subscriptions/{id}/cancel'>): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`${this.baseUrl}/${id}/cancel`, reason ?? null);
   }
 }
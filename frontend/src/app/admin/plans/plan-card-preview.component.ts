@@ -0,0 +1,237 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { SubscriptionPlanDto } from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+// The plan fields the patient-facing plan card shows
+export type PlanCardPreview = Pick<SubscriptionPlanDto,
+  | 'name'
+  | 'shortDescription'
+  | 'description'
+  | 'price'
+  | 'discountedPrice'
+  | 'discountValidUntil'
+  | 'billingCycleName'
+  | 'currencyId'
+  | 'features'
+  | 'isFeatured'
+  | 'isMostPopular'
+  | 'isTrending'
+  | 'isTrialAllowed'
+  | 'trialDurationInDays'
+  | 'isActive'
+>;
+
+/**
+ * Renders a plan the way patients see it on the plans page, so admins can check copy and badges before publishing
+ */
+@Component({
+  selector: 'app-plan-card-preview',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MoneyPipe],
+  template: `
+    <div class="plan-card" [class.featured]="plan.isFeatured" [class.inactive]="!plan.isActive">
+      <div class="ribbon" *ngIf="plan.isMostPopular">Most Popular</div>
+
+      <div class="badges">
+        <span class="badge featured" *ngIf="plan.isFeatured">
+          <mat-icon>star</mat-icon>
+          Featured
+        </span>
+        <span class="badge trending" *ngIf="plan.isTrending">
+          <mat-icon>trending_up</mat-icon>
+          Trending
+        </span>
+      </div>
+
+      <h3 class="plan-name">{{ plan.name || 'Plan name' }}</h3>
+      <p class="plan-tagline">{{ plan.shortDescription || plan.description }}</p>
+
+      <div class="plan-price">
+        <span class="original-price" *ngIf="hasDiscount">{{ plan.price | money:plan.currencyId }}</span>
+        <span class="amount">{{ (hasDiscount ? plan.discountedPrice : plan.price) | money:plan.currencyId }}</span>
+        <span class="cycle" *ngIf="plan.billingCycleName">/ {{ plan.billingCycleName | lowercase }}</span>
+      </div>
+      <p class="discount-note" *ngIf="hasDiscount && plan.discountValidUntil">
+        Offer ends {{ plan.discountValidUntil | date:'mediumDate' }}
+      </p>
+
+      <ul class="feature-list" *ngIf="featureList.length > 0">
+        <li *ngFor="let feature of featureList">
+          <mat-icon>check</mat-icon>
+          <span>{{ feature }}</span>
+        </li>
+      </ul>
+
+      <button mat-raised-button color="primary" class="cta" tabindex="-1">
+        {{ plan.isTrialAllowed && plan.trialDurationInDays > 0 ? 'Start ' + plan.trialDurationInDays + '-day free trial' : 'Subscribe' }}
+      </button>
+
+      <p class="unavailable" *ngIf="!plan.isActive">Inactive plans are hidden from patients</p>
+    </div>
+  `,
+  styles: [`
+    .plan-card {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      max-width: 320px;
+      padding: 24px;
+      border: 1px solid #e0e0e0;
+      border-radius: 12px;
+      background: #fff;
+      overflow: hidden;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.06);
+    }
+
+    .plan-card.featured {
+      border: 2px solid #1976d2;
+    }
+
+    .plan-card.inactive {
+      opacity: 0.6;
+    }
+
+    .ribbon {
+      position: absolute;
+      top: 16px;
+      right: -36px;
+      width: 140px;
+      padding: 4px 0;
+      transform: rotate(45deg);
+      background: #ff9800;
+      color: #fff;
+      font-size: 11px;
+      font-weight: 600;
+      text-align: center;
+      text-transform: uppercase;
+    }
+
+    .badges {
+      display: flex;
+      gap: 8px;
+      min-height: 24px;
+      margin-bottom: 8px;
+    }
+
+    .badge {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 2px 8px;
+      border-radius: 12px;
+      font-size: 12px;
+      font-weight: 500;
+    }
+
+    .badge mat-icon {
+      font-size: 14px;
+      width: 14px;
+      height: 14px;
+    }
+
+    .badge.featured {
+      background: #e3f2fd;
+      color: #1976d2;
+    }
+
+    .badge.trending {
+      background: #e8f5e9;
+      color: #388e3c;
+    }
+
+    .plan-name {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .plan-tagline {
+      margin: 4px 0 16px 0;
+      min-height: 20px;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .plan-price {
+      display: flex;
+      align-items: baseline;
+      gap: 6px;
+    }
+
+    .original-price {
+      color: #999;
+      text-decoration: line-through;
+    }
+
+    .amount {
+      font-size: 32px;
+      font-weight: 700;
+      color: #333;
+    }
+
+    .cycle {
+      color: #666;
+    }
+
+    .discount-note {
+      margin: 4px 0 0 0;
+      font-size: 12px;
+      color: #d32f2f;
+    }
+
+    .feature-list {
+      list-style: none;
+      margin: 16px 0 0 0;
+      padding: 0;
+    }
+
+    .feature-list li {
+      display: flex;
+      align-items: flex-start;
+      gap: 8px;
+      padding: 4px 0;
+      font-size: 14px;
+      color: #333;
+    }
+
+    .feature-list mat-icon {
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
+      color: #388e3c;
+    }
+
+    .cta {
+      margin-top: 24px;
+      pointer-events: none;
+    }
+
+    .unavailable {
+      margin: 12px 0 0 0;
+      font-size: 12px;
+      color: #999;
+      text-align: center;
+    }
+  `]
+})
+export class PlanCardPreviewComponent {
+  @Input({ required: true }) plan!: PlanCardPreview;
+
+  get hasDiscount(): boolean {
+    const { price, discountedPrice, discountValidUntil } = this.plan;
+    if (discountedPrice == null || discountedPrice >= price) return false;
+    return !discountValidUntil || new Date(discountValidUntil) > new Date();
+  }
+
+  // Features are entered one per line
+  get featureList(): string[] {
+    return (this.plan.features || '')
+      .split('\n')
+      .map(feature => feature.trim())
+      .filter(feature => feature.length > 0);
+  }
+}
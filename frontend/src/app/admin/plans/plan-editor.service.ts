@@ -0,0 +1,179 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { MatDialog } from '@angular/material/dialog';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { SubscriptionService } from '../../services/subscription.service';
+import { PlanTemplateService } from '../../services/plan-template.service';
+import { PlanVersionService } from '../../services/plan-version.service';
+import { PlanStepperComponent, PlanStepperDialogData } from '../subscription-management/plan-stepper.component';
+import { PublishPlanVersionDialogComponent, PublishPlanVersionDialogData } from './publish-plan-version-dialog.component';
+import { PlanVersionHistoryDialogComponent, PlanVersionHistoryDialogData } from './plan-version-history-dialog.component';
+import { PlanFormValues, SubscriptionPlanDto } from '../../models/subscription.models';
+
+/**
+ * The create, duplicate, edit and version history flows for plans, shared by the plans catalog and subscription management.
+ * Each returns an observable that emits once the plan is saved, so the caller can reload its list.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PlanEditorService {
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+  private subscriptionService = inject(SubscriptionService);
+  private planTemplateService = inject(PlanTemplateService);
+  private planVersionService = inject(PlanVersionService);
+
+  /**
+   * Create a plan in the plan stepper. When the caller's plans are passed, a plan without
+   * a display order goes to the end of its category.
+   */
+  openCreatePlanDialog(startFrom?: PlanStepperDialogData['startFrom'], existingPlans: SubscriptionPlanDto[] = []): Observable<void> {
+    const saved = new Subject<void>();
+    const dialogData: PlanStepperDialogData = { editingPlan: null, startFrom };
+    const dialogRef = this.dialog.open(PlanStepperComponent, {
+      width: '90vw',
+      maxWidth: '1200px',
+      height: '90vh',
+      data: dialogData
+    });
+
+    dialogRef.componentInstance.planCreated.subscribe((planData: PlanFormValues) => {
+      const categoryPlans = existingPlans.filter(p => p.categoryId === planData.categoryId);
+      const lastOrder = Math.max(0, ...categoryPlans.map(p => p.displayOrder));
+      const plan = this.subscriptionService.toCreatePlanDto({ ...planData, displayOrder: planData.displayOrder || lastOrder + 1 });
+      this.subscriptionService.createPlan(plan).subscribe({
+        next: (response) => {
+          if (response.statusCode === 200) {
+            this.snackBar.open('Plan created successfully', 'Close', { duration: 3000 });
+            saved.next();
+            dialogRef.close();
+          } else {
+            this.snackBar.open(response.message || 'Failed to create plan', 'Close', { duration: 5000 });
+          }
+        },
+        error: (err: any) => {
+          this.snackBar.open(err.message || 'Failed to create plan', 'Close', { duration: 5000 });
+        }
+      });
+    });
+
+    dialogRef.componentInstance.cancelled.subscribe(() => {
+      dialogRef.close();
+    });
+    dialogRef.afterClosed().subscribe(() => saved.complete());
+
+    return saved.asObservable();
+  }
+
+  /**
+   * Open the plan stepper on a copy of the plan, privileges included
+   */
+  duplicatePlan(plan: SubscriptionPlanDto, existingPlans: SubscriptionPlanDto[] = []): Observable<void> {
+    const saved = new Subject<void>();
+    // The plan list does not always carry privileges, and the copy must not silently drop them
+    this.subscriptionService.getPlanPrivileges(plan.id).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.openCreatePlanDialog({
+            name: `${plan.name} (Copy)`,
+            values: this.planTemplateService.toTemplateValues({ ...plan, privileges: response.data || [] })
+          }, existingPlans).subscribe(saved);
+        } else {
+          this.snackBar.open(response.message || 'Failed to load plan privileges', 'Close', { duration: 5000 });
+          saved.complete();
+        }
+      },
+      error: (error) => {
+        console.error('Error loading plan privileges:', error);
+        this.snackBar.open('Error loading plan privileges', 'Close', { duration: 3000 });
+        saved.complete();
+      }
+    });
+
+    return saved.asObservable();
+  }
+
+  editPlan(plan: SubscriptionPlanDto): Observable<void> {
+    const saved = new Subject<void>();
+    const dialogRef = this.dialog.open(PlanStepperComponent, {
+      width: '90vw',
+      maxWidth: '1200px',
+      height: '90vh',
+      data: { editingPlan: plan }
+    });
+
+    // Edits are published as a new version of the plan
+    dialogRef.componentInstance.planUpdated.subscribe((planData: PlanFormValues) => {
+      // Compare with the privileges the stepper loaded, since the plan list does not always include them
+      const savedPlan = { ...plan, privileges: dialogRef.componentInstance.originalPrivileges };
+      this.publishVersion(savedPlan, planData).subscribe(() => {
+        saved.next();
+        dialogRef.close();
+      });
+    });
+
+    dialogRef.componentInstance.cancelled.subscribe(() => {
+      dialogRef.close();
+    });
+    dialogRef.afterClosed().subscribe(() => saved.complete());
+
+    return saved.asObservable();
+  }
+
+  changePrice(plan: SubscriptionPlanDto): Observable<void> {
+    return this.publishVersion(plan);
+  }
+
+  /**
+   * Show the plan's versions. Emits when a scheduled version was cancelled.
+   */
+  showVersionHistory(plan: SubscriptionPlanDto): Observable<void> {
+    const changed = new Subject<void>();
+    const dialogData: PlanVersionHistoryDialogData = { plan };
+    this.dialog.open(PlanVersionHistoryDialogComponent, { width: '960px', maxWidth: '95vw', data: dialogData })
+      .afterClosed()
+      .subscribe(cancelled => {
+        if (cancelled) changed.next();
+        changed.complete();
+      });
+
+    return changed.asObservable();
+  }
+
+  /**
+   * Show what changes and ask when it takes effect and how existing subscribers are treated,
+   * then publish it as a new version. Without changes the dialog schedules a price change on the current plan.
+   */
+  private publishVersion(plan: SubscriptionPlanDto, changes?: PlanFormValues): Observable<void> {
+    const saved = new Subject<void>();
+    const dialogData: PublishPlanVersionDialogData = { plan, changes };
+    this.dialog.open(PublishPlanVersionDialogComponent, { width: '640px', data: dialogData })
+      .afterClosed()
+      .subscribe(version => {
+        if (!version) {
+          saved.complete();
+          return;
+        }
+
+        this.planVersionService.createVersion(plan.id, version).subscribe({
+          next: (response) => {
+            if (response.statusCode === 200) {
+              this.snackBar.open(response.message || `${plan.name} updated`, 'Close', { duration: 3000 });
+              saved.next();
+            } else {
+              this.snackBar.open(response.message || 'Failed to publish plan version', 'Close', { duration: 5000 });
+            }
+            saved.complete();
+          },
+          error: (error) => {
+            console.error('Error publishing plan version:', error);
+            this.snackBar.open('Error publishing plan version', 'Close', { duration: 3000 });
+            saved.complete();
+          }
+        });
+      });
+
+    return saved.asObservable();
+  }
+}
@@ -0,0 +1,339 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatDialog, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from '../subscription-management/confirmation-dialog.component';
+import { PlanTemplateService } from '../../services/plan-template.service';
+import { PlanTemplateDto, STRIPE_SLOT_LABELS } from '../../models/plan-template.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+@Component({
+  selector: 'app-plan-template-library-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    MatSnackBarModule,
+    HasPermissionDirective,
+    MoneyPipe
+  ],
+  template: `
+    <div class="template-library-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>library_books</mat-icon>
+        <div>
+          <h2>Plan Templates</h2>
+          <p>Start a new plan from a configuration saved in this browser</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <mat-form-field appearance="outline" class="full-width" *ngIf="templates.length > 0">
+          <mat-label>Search templates</mat-label>
+          <input matInput [(ngModel)]="searchTerm">
+          <mat-icon matSuffix>search</mat-icon>
+        </mat-form-field>
+
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="32"></mat-spinner>
+        </div>
+
+        <div *ngIf="!loading && error" class="panel-error">
+          <mat-icon>error_outline</mat-icon>
+          <span>{{ error }}</span>
+          <button mat-button color="primary" (click)="loadTemplates()">Retry</button>
+        </div>
+
+        <div *ngIf="!loading && !error && templates.length === 0" class="empty-state">
+          <mat-icon>bookmark_border</mat-icon>
+          <p>No templates yet. Use "Save as Template" on the last step of the plan editor to add one.</p>
+        </div>
+
+        <div *ngIf="!loading && !error" class="template-list">
+          <div *ngFor="let template of filteredTemplates"
+               class="template-item"
+               [class.selected]="template.id === selectedId"
+               (click)="selectedId = template.id"
+               (dblclick)="onUse(template)">
+            <div class="template-heading">
+              <strong>{{ template.name }}</strong>
+              <span class="spacer"></span>
+              <button mat-icon-button
+                      *appHasPermission="'plans.write'"
+                      [disabled]="deletingId === template.id"
+                      (click)="deleteTemplate(template); $event.stopPropagation()"
+                      matTooltip="Delete template">
+                <mat-icon>delete</mat-icon>
+              </button>
+            </div>
+            <div class="template-description" *ngIf="template.description">{{ template.description }}</div>
+            <div class="template-meta">
+              {{ template.values.price | money:template.values.currencyId }}
+              · {{ template.values.privileges?.length || 0 }} privilege(s)
+              <ng-container *ngIf="template.values.isTrialAllowed"> · {{ template.values.trialDurationInDays }}-day trial</ng-container>
+            </div>
+            <div class="template-meta" *ngIf="template.values.stripePlaceholders.length > 0">
+              Needs {{ getStripeSummary(template) }}
+            </div>
+            <div class="cell-hint">
+              Saved {{ (template.updatedDate || template.createdDate) | date:'mediumDate' }}{{ template.createdByName ? ' by ' + template.createdByName : '' }}
+            </div>
+          </div>
+          <p *ngIf="templates.length > 0 && filteredTemplates.length === 0" class="cell-hint">No templates match your search</p>
+        </div>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onUse(selectedTemplate)" [disabled]="!selectedTemplate">
+          Use Template
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .template-library-dialog {
+      min-width: 520px;
+      max-width: 720px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .loading-container,
+    .empty-state {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      padding: 24px;
+      color: #999;
+      text-align: center;
+    }
+
+    .panel-error {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 16px;
+      border-radius: 8px;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .template-list {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      max-height: 50vh;
+      overflow-y: auto;
+    }
+
+    .template-item {
+      padding: 12px;
+      border: 2px solid #eee;
+      border-radius: 8px;
+      cursor: pointer;
+      transition: border-color 0.2s;
+    }
+
+    .template-item:hover {
+      border-color: #bbdefb;
+    }
+
+    .template-item.selected {
+      border-color: #1976d2;
+      background: #e3f2fd;
+    }
+
+    .template-heading {
+      display: flex;
+      align-items: center;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    .template-description {
+      margin-top: 4px;
+      font-size: 14px;
+      color: #555;
+    }
+
+    .template-meta {
+      margin-top: 4px;
+      font-size: 13px;
+      color: #555;
+    }
+
+    .cell-hint {
+      margin-top: 4px;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 600px) {
+      .template-library-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class PlanTemplateLibraryDialogComponent implements OnInit {
+  templates: PlanTemplateDto[] = [];
+  loading = false;
+  error: string | null = null;
+  searchTerm = '';
+  selectedId: string | null = null;
+  deletingId: string | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<PlanTemplateLibraryDialogComponent, PlanTemplateDto>,
+    private planTemplateService: PlanTemplateService,
+    private dialog: MatDialog,
+    private snackBar: MatSnackBar
+  ) {}
+
+  ngOnInit() {
+    this.loadTemplates();
+  }
+
+  get filteredTemplates(): PlanTemplateDto[] {
+    const search = this.searchTerm.trim().toLowerCase();
+    if (!search) return this.templates;
+    return this.templates.filter(template =>
+      template.name.toLowerCase().includes(search)
+      || (template.description || '').toLowerCase().includes(search));
+  }
+
+  get selectedTemplate(): PlanTemplateDto | undefined {
+    return this.templates.find(template => template.id === this.selectedId);
+  }
+
+  loadTemplates() {
+    this.loading = true;
+    this.error = null;
+    this.planTemplateService.getTemplates().subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.templates = (response.data || []).sort((a, b) => a.name.localeCompare(b.name));
+        } else {
+          this.templates = [];
+          this.error = response.message || 'Failed to load plan templates';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading plan templates:', error);
+        this.templates = [];
+        this.error = error.message || 'Failed to load plan templates';
+        this.loading = false;
+      }
+    });
+  }
+
+  getStripeSummary(template: PlanTemplateDto): string {
+    return template.values.stripePlaceholders.map(slot => STRIPE_SLOT_LABELS[slot]).join(', ');
+  }
+
+  deleteTemplate(template: PlanTemplateDto) {
+    const dialogData: ConfirmationDialogData = {
+      title: 'Delete Template',
+      message: `Delete the template "${template.name}"? Plans already created from it are not affected.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      type: 'danger'
+    };
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData })
+      .afterClosed()
+      .subscribe(result => {
+        if (!result) return;
+
+        this.deletingId = template.id;
+        this.planTemplateService.deleteTemplate(template.id).subscribe({
+          next: (response) => {
+            this.deletingId = null;
+            if (response.statusCode === 200) {
+              this.templates = this.templates.filter(t => t.id !== template.id);
+              if (this.selectedId === template.id) {
+                this.selectedId = null;
+              }
+              this.snackBar.open(`Template "${template.name}" deleted`, 'Close', { duration: 3000 });
+            } else {
+              this.snackBar.open(response.message || 'Failed to delete template', 'Close', { duration: 5000 });
+            }
+          },
+          error: (error) => {
+            console.error('Error deleting plan template:', error);
+            this.deletingId = null;
+            this.snackBar.open('Error deleting template', 'Close', { duration: 3000 });
+          }
+        });
+      });
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onUse(template: PlanTemplateDto | undefined): void {
+    if (!template) return;
+    this.dialogRef.close(template);
+  }
+}
@@ -0,0 +1,444 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from '../subscription-management/confirmation-dialog.component';
+import { PlanVersionService } from '../../services/plan-version.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { SubscriptionPlanDto } from '../../models/subscription.models';
+import {
+  MIGRATION_POLICY_LABELS,
+  PlanVersionChange,
+  PlanVersionDto,
+  PlanVersionSnapshot,
+  PlanVersionStatus,
+  SubscriberMigrationPolicy
+} from '../../models/plan-version.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface PlanVersionHistoryDialogData {
+  plan: SubscriptionPlanDto;
+}
+
+@Component({
+  selector: 'app-plan-version-history-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    HasPermissionDirective,
+    MoneyPipe
+  ],
+  template: `
+    <div class="version-history-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>history</mat-icon>
+        <div>
+          <h2>Version History</h2>
+          <p>{{ data.plan.name }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="32"></mat-spinner>
+        </div>
+
+        <div *ngIf="!loading && error" class="panel-error">
+          <mat-icon>error_outline</mat-icon>
+          <span>{{ error }}</span>
+          <button mat-button color="primary" (click)="loadVersions()">Retry</button>
+        </div>
+
+        <div *ngIf="!loading && !error && versions.length === 0" class="empty-state">
+          <mat-icon>history_toggle_off</mat-icon>
+          <p>No version of this plan has been published yet</p>
+        </div>
+
+        <div *ngIf="!loading && !error && versions.length > 0" class="history-layout">
+          <div class="version-list">
+            <div *ngFor="let version of versions" class="version-item" [class.scheduled]="version.status === 'Scheduled'">
+              <div class="version-heading">
+                <strong>v{{ version.versionNumber }}</strong>
+                <mat-chip [color]="getStatusColor(version.status)">{{ version.status }}</mat-chip>
+                <span class="spacer"></span>
+                <ng-container *ngIf="version.status === 'Scheduled'">
+                  <button mat-icon-button
+                          *appHasPermission="'plans.write'"
+                          [disabled]="cancellingId === version.id"
+                          (click)="cancelVersion(version)"
+                          aria-label="Cancel scheduled version">
+                    <mat-icon>event_busy</mat-icon>
+                  </button>
+                </ng-container>
+              </div>
+              <div class="version-meta">
+                {{ version.status === 'Scheduled' ? 'Takes effect' : 'Effective' }} {{ version.effectiveDate | date:'mediumDate' }}
+                · {{ version.price | money:data.plan.currencyId }}
+              </div>
+              <div class="version-meta">
+                {{ getPolicyLabel(version) }}{{ version.noticeDays ? ' · ' + version.noticeDays + ' days notice' : '' }}
+              </div>
+              <div class="version-meta" *ngIf="version.subscriberCount > 0">
+                {{ version.subscriberCount }} subscriber(s) on this version
+              </div>
+              <div class="version-summary" *ngIf="version.changeSummary">{{ version.changeSummary }}</div>
+              <div class="cell-hint">
+                Created {{ version.createdDate | date:'medium' }}{{ version.noticeSentDate ? ' · subscribers notified ' + (version.noticeSentDate | date:'mediumDate') : '' }}
+              </div>
+            </div>
+          </div>
+
+          <div class="version-diff">
+            <div class="compare-row">
+              <mat-form-field appearance="outline">
+                <mat-label>From</mat-label>
+                <mat-select [(ngModel)]="fromVersionId" (selectionChange)="updateDiff()">
+                  <mat-option *ngFor="let version of versions" [value]="version.id">v{{ version.versionNumber }}</mat-option>
+                </mat-select>
+              </mat-form-field>
+              <mat-icon>arrow_forward</mat-icon>
+              <mat-form-field appearance="outline">
+                <mat-label>To</mat-label>
+                <mat-select [(ngModel)]="toVersionId" (selectionChange)="updateDiff()">
+                  <mat-option *ngFor="let version of versions" [value]="version.id">v{{ version.versionNumber }}</mat-option>
+                </mat-select>
+              </mat-form-field>
+            </div>
+
+            <p *ngIf="changes.length === 0" class="cell-hint">No differences between these versions</p>
+            <table *ngIf="changes.length > 0" class="diff-table">
+              <tr>
+                <th>Field</th>
+                <th>v{{ getVersion(fromVersionId)?.versionNumber }}</th>
+                <th>v{{ getVersion(toVersionId)?.versionNumber }}</th>
+              </tr>
+              <tr *ngFor="let change of changes">
+                <td class="change-field">{{ change.field }}</td>
+                <td class="change-from">{{ change.from }}</td>
+                <td class="change-to">{{ change.to }}</td>
+              </tr>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onClose()">Close</button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .version-history-dialog {
+      min-width: 720px;
+      max-width: 960px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .loading-container,
+    .empty-state {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      padding: 24px;
+      color: #999;
+    }
+
+    .panel-error {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 16px;
+      border-radius: 8px;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .history-layout {
+      display: grid;
+      grid-template-columns: 280px minmax(0, 1fr);
+      gap: 24px;
+    }
+
+    .version-list {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      max-height: 60vh;
+      overflow-y: auto;
+    }
+
+    .version-item {
+      padding: 12px;
+      border-left: 3px solid #1976d2;
+      border-radius: 4px;
+      background: #f5f7fa;
+    }
+
+    .version-item.scheduled {
+      border-left-color: #ff9800;
+      background: #fff8e1;
+    }
+
+    .version-heading {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    .version-meta {
+      margin-top: 4px;
+      font-size: 13px;
+      color: #555;
+    }
+
+    .version-summary {
+      margin-top: 8px;
+      font-size: 13px;
+      font-style: italic;
+    }
+
+    .cell-hint {
+      margin-top: 4px;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .compare-row {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .compare-row mat-icon {
+      margin-bottom: 20px;
+      color: #999;
+    }
+
+    .diff-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+
+    .diff-table th,
+    .diff-table td {
+      padding: 8px;
+      border-bottom: 1px solid #eee;
+      text-align: left;
+      vertical-align: top;
+    }
+
+    .change-field {
+      font-weight: 500;
+    }
+
+    .change-from {
+      color: #999;
+    }
+
+    .change-to {
+      color: #2e7d32;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 800px) {
+      .version-history-dialog {
+        min-width: 280px;
+      }
+
+      .history-layout {
+        grid-template-columns: 1fr;
+      }
+    }
+  `]
+})
+export class PlanVersionHistoryDialogComponent implements OnInit {
+  versions: PlanVersionDto[] = [];
+  loading = false;
+  error: string | null = null;
+
+  fromVersionId: string | null = null;
+  toVersionId: string | null = null;
+  changes: PlanVersionChange[] = [];
+  cancellingId: string | null = null;
+  // Tells the opener to reload the plan when a scheduled version was cancelled
+  private changed = false;
+
+  constructor(
+    public dialogRef: MatDialogRef<PlanVersionHistoryDialogComponent, boolean>,
+    @Inject(MAT_DIALOG_DATA) public data: PlanVersionHistoryDialogData,
+    private planVersionService: PlanVersionService,
+    private masterData: MasterDataStoreService,
+    private dialog: MatDialog,
+    private snackBar: MatSnackBar
+  ) {}
+
+  ngOnInit() {
+    this.loadVersions();
+  }
+
+  loadVersions() {
+    this.loading = true;
+    this.error = null;
+    // The names of categories, privileges and usage periods are looked up for the comparison
+    forkJoin([
+      this.planVersionService.getVersions(this.data.plan.id),
+      this.masterData.load('categories'),
+      this.masterData.load('privileges'),
+      this.masterData.load('billingCycles')
+    ]).subscribe({
+      next: ([response]) => {
+        if (response.statusCode === 200) {
+          this.versions = (response.data || []).sort((a, b) => b.versionNumber - a.versionNumber);
+          // Compare the version in effect with the one before it, or with the scheduled one if there is one
+          this.toVersionId = this.versions[0]?.id ?? null;
+          this.fromVersionId = this.versions[1]?.id ?? this.toVersionId;
+          this.updateDiff();
+        } else {
+          this.versions = [];
+          this.error = response.message || 'Failed to load version history';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading plan versions:', error);
+        this.versions = [];
+        this.error = error.message || 'Failed to load version history';
+        this.loading = false;
+      }
+    });
+  }
+
+  updateDiff() {
+    const from = this.getVersion(this.fromVersionId);
+    const to = this.getVersion(this.toVersionId);
+    this.changes = from && to ? this.planVersionService.diffVersions(this.toSnapshot(from), this.toSnapshot(to)) : [];
+  }
+
+  getVersion(versionId: string | null): PlanVersionDto | undefined {
+    return this.versions.find(version => version.id === versionId);
+  }
+
+  getStatusColor(status: string): string {
+    switch (status as PlanVersionStatus) {
+      case 'Scheduled': return 'accent';
+      case 'Current': return 'primary';
+      case 'Cancelled': return 'warn';
+      default: return '';
+    }
+  }
+
+  getPolicyLabel(version: PlanVersionDto): string {
+    return MIGRATION_POLICY_LABELS[version.migrationPolicy as SubscriberMigrationPolicy] ?? version.migrationPolicy;
+  }
+
+  cancelVersion(version: PlanVersionDto) {
+    const dialogData: ConfirmationDialogData = {
+      title: 'Cancel Scheduled Version',
+      message: `Version ${version.versionNumber} will not take effect on ${new Date(version.effectiveDate).toLocaleDateString()}. Subscribers who were notified are not told automatically.`,
+      confirmText: 'Cancel Version',
+      cancelText: 'Keep',
+      type: 'warning'
+    };
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData })
+      .afterClosed()
+      .subscribe(result => {
+        if (!result) return;
+
+        this.cancellingId = version.id;
+        this.planVersionService.cancelScheduledVersion(this.data.plan.id, version.id).subscribe({
+          next: (response) => {
+            this.cancellingId = null;
+            if (response.statusCode === 200) {
+              this.changed = true;
+              this.snackBar.open(`Version ${version.versionNumber} cancelled`, 'Close', { duration: 3000 });
+              this.loadVersions();
+            } else {
+              this.snackBar.open(response.message || 'Failed to cancel version', 'Close', { duration: 5000 });
+            }
+          },
+          error: (error) => {
+            console.error('Error cancelling plan version:', error);
+            this.cancellingId = null;
+            this.snackBar.open('Error cancelling version', 'Close', { duration: 3000 });
+          }
+        });
+      });
+  }
+
+  private toSnapshot(version: PlanVersionDto): PlanVersionSnapshot {
+    return {
+      ...version.plan,
+      categoryName: this.masterData.getCategoryName(version.plan.categoryId),
+      privileges: version.privileges.map(privilege => ({
+        ...privilege,
+        privilegeName: this.masterData.getPrivilegeName(privilege.privilegeId),
+        usagePeriodName: this.masterData.getBillingCycleName(privilege.usagePeriodId)
+      }))
+    };
+  }
+
+  onClose(): void {
+    this.dialogRef.close(this.changed);
+  }
+}
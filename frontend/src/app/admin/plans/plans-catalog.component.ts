@@ -0,0 +1,342 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { CdkDragDrop, DragDropModule, moveItemInArray } from '@angular/cdk/drag-drop';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatCardModule } from '@angular/material/card';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleChange, MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { SubscriptionService } from '../../services/subscription.service';
+import { AuthService } from '../auth/auth.service';
+import { PERMISSIONS } from '../auth/permissions';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { PlanStepperDialogData } from '../subscription-management/plan-stepper.component';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from '../subscription-management/confirmation-dialog.component';
+import { PlanCardPreviewComponent } from './plan-card-preview.component';
+import { PlanEditorService } from './plan-editor.service';
+import { PlanTemplateLibraryDialogComponent } from './plan-template-library-dialog.component';
+import { SubscriptionPlanDto } from '../../models/subscription.models';
+import { PlanTemplateDto } from '../../models/plan-template.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+// Marketing flags that can be switched straight from the catalog
+type PlanFlag = 'isFeatured' | 'isMostPopular' | 'isTrending';
+
+const PLAN_FLAG_LABELS: Record<PlanFlag, string> = {
+  isFeatured: 'Featured',
+  isMostPopular: 'Most Popular',
+  isTrending: 'Trending'
+};
+
+interface PlanGroup {
+  category: string;
+  plans: SubscriptionPlanDto[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+// The catalog shows every plan at once so the whole order can be edited
+const CATALOG_PAGE_SIZE = 500;
+
+@Component({
+  selector: 'app-plans-catalog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule,
+    DragDropModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatCardModule,
+    MatChipsModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatMenuModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatSnackBarModule,
+    MatTableModule,
+    MatTooltipModule,
+    HasPermissionDirective,
+    PlanCardPreviewComponent,
+    MoneyPipe
+  ],
+  templateUrl: './plans-catalog.component.html',
+  styleUrls: ['./plans-catalog.component.scss']
+})
+export class PlansCatalogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+  private planEditor = inject(PlanEditorService);
+  private authService = inject(AuthService);
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+
+  plans: SubscriptionPlanDto[] = [];
+  groups: PlanGroup[] = [];
+  loading = false;
+  error: string | null = null;
+
+  view: 'cards' | 'table' = 'cards';
+  searchTerm = '';
+  statusFilter: '' | 'active' | 'inactive' = '';
+
+  selectedPlan: SubscriptionPlanDto | null = null;
+  planColumns = ['drag', 'name', 'price', 'status', 'subscribers', 'flags', 'actions'];
+
+  readonly planFlags = Object.keys(PLAN_FLAG_LABELS) as PlanFlag[];
+  savingOrder = false;
+  // Plans with a toggle or activation request in flight
+  private savingPlanIds = new Set<string>();
+
+  ngOnInit() {
+    this.loadPlans();
+  }
+
+  get canEdit(): boolean {
+    return this.authService.hasPermission(PERMISSIONS.plansWrite);
+  }
+
+  /**
+   * Reordering a filtered list would leave hidden plans out of the new order
+   */
+  get canReorder(): boolean {
+    return this.canEdit && !this.isFiltered && !this.savingOrder;
+  }
+
+  get isFiltered(): boolean {
+    return !!this.searchTerm.trim() || !!this.statusFilter;
+  }
+
+  loadPlans() {
+    this.loading = true;
+    this.error = null;
+    this.subscriptionService.getAllPlans(1, CATALOG_PAGE_SIZE).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.plans = (response.data || []).sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+          this.selectedPlan = this.plans.find(p => p.id === this.selectedPlan?.id) ?? this.plans[0] ?? null;
+          this.buildGroups();
+        } else {
+          this.plans = [];
+          this.groups = [];
+          this.error = response.message || 'Failed to load plans';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading plans:', error);
+        this.plans = [];
+        this.groups = [];
+        this.error = error.message || 'Failed to load plans';
+        this.loading = false;
+      }
+    });
+  }
+
+  applyFilters() {
+    this.buildGroups();
+  }
+
+  clearFilters() {
+    this.searchTerm = '';
+    this.statusFilter = '';
+    this.buildGroups();
+  }
+
+  selectPlan(plan: SubscriptionPlanDto) {
+    this.selectedPlan = plan;
+  }
+
+  onDrop(group: PlanGroup, event: CdkDragDrop<SubscriptionPlanDto[]>) {
+    if (event.previousIndex === event.currentIndex) return;
+
+    moveItemInArray(group.plans, event.previousIndex, event.currentIndex);
+    // New array so the table view re-renders
+    group.plans = [...group.plans];
+    this.saveOrder(group);
+  }
+
+  toggleFlag(plan: SubscriptionPlanDto, flag: PlanFlag) {
+    if (this.isSaving(plan)) return;
+
+    const value = !plan[flag];
+    plan[flag] = value;
+    this.savingPlanIds.add(plan.id);
+    this.subscriptionService.patchPlan(plan, { [flag]: value }).subscribe({
+      next: (response) => {
+        this.savingPlanIds.delete(plan.id);
+        if (response.statusCode === 200) {
+          this.snackBar.open(`${plan.name} ${value ? 'marked' : 'no longer marked'} as ${PLAN_FLAG_LABELS[flag]}`, 'Close', { duration: 3000 });
+          this.loadPlans();
+        } else {
+          plan[flag] = !value;
+          this.snackBar.open(response.message || 'Failed to update plan', 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error('Error updating plan:', error);
+        this.savingPlanIds.delete(plan.id);
+        plan[flag] = !value;
+        this.snackBar.open('Error updating plan', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  toggleActive(plan: SubscriptionPlanDto, change: MatSlideToggleChange) {
+    // The toggle follows plan.isActive, which only changes once the backend confirms
+    change.source.checked = plan.isActive;
+    if (this.isSaving(plan)) return;
+
+    if (!plan.isActive || !plan.totalActiveSubscriptions) {
+      this.setActive(plan, !plan.isActive);
+      return;
+    }
+
+    const dialogData: ConfirmationDialogData = {
+      title: 'Deactivate Plan',
+      message: `${plan.name} has ${plan.totalActiveSubscriptions} active subscription(s). They keep the plan, but new patients will no longer be able to subscribe to it.`,
+      confirmText: 'Deactivate',
+      cancelText: 'Cancel',
+      type: 'warning'
+    };
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData })
+      .afterClosed()
+      .subscribe(result => {
+        if (result) {
+          this.setActive(plan, false);
+        }
+      });
+  }
+
+  isSaving(plan: SubscriptionPlanDto): boolean {
+    return this.savingPlanIds.has(plan.id);
+  }
+
+  getFlagLabel(flag: PlanFlag): string {
+    return PLAN_FLAG_LABELS[flag];
+  }
+
+  getFlagIcon(flag: PlanFlag): string {
+    switch (flag) {
+      case 'isFeatured': return 'star';
+      case 'isMostPopular': return 'local_fire_department';
+      case 'isTrending': return 'trending_up';
+    }
+  }
+
+  openCreatePlanDialog(startFrom?: PlanStepperDialogData['startFrom']) {
+    this.planEditor.openCreatePlanDialog(startFrom, this.plans).subscribe(() => this.loadPlans());
+  }
+
+  duplicatePlan(plan: SubscriptionPlanDto) {
+    this.planEditor.duplicatePlan(plan, this.plans).subscribe(() => this.loadPlans());
+  }
+
+  openTemplateLibrary() {
+    this.dialog.open(PlanTemplateLibraryDialogComponent, { width: '720px', maxWidth: '95vw' })
+      .afterClosed()
+      .subscribe((template?: PlanTemplateDto) => {
+        if (template) {
+          this.openCreatePlanDialog({ name: '', values: template.values });
+        }
+      });
+  }
+
+  editPlan(plan: SubscriptionPlanDto) {
+    this.planEditor.editPlan(plan).subscribe(() => this.loadPlans());
+  }
+
+  changePrice(plan: SubscriptionPlanDto) {
+    this.planEditor.changePrice(plan).subscribe(() => this.loadPlans());
+  }
+
+  showVersionHistory(plan: SubscriptionPlanDto) {
+    this.planEditor.showVersionHistory(plan).subscribe(() => this.loadPlans());
+  }
+
+  private setActive(plan: SubscriptionPlanDto, active: boolean) {
+    this.savingPlanIds.add(plan.id);
+    const request = active
+      ? this.subscriptionService.activatePlan(plan.id)
+      : this.subscriptionService.deactivatePlan(plan.id);
+
+    request.subscribe({
+      next: (response) => {
+        this.savingPlanIds.delete(plan.id);
+        if (response.statusCode === 200) {
+          plan.isActive = active;
+          this.buildGroups();
+          this.snackBar.open(`${plan.name} ${active ? 'activated' : 'deactivated'}`, 'Close', { duration: 3000 });
+        } else {
+          this.snackBar.open(response.message || `Failed to ${active ? 'activate' : 'deactivate'} plan`, 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error(`Error ${active ? 'activating' : 'deactivating'} plan:`, error);
+        this.savingPlanIds.delete(plan.id);
+        this.snackBar.open(`Error ${active ? 'activating' : 'deactivating'} plan`, 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  /**
+   * Number the group's plans 1..n and save the whole order in one request
+   */
+  private saveOrder(group: PlanGroup) {
+    const orders = group.plans.map((plan, index) => ({ planId: plan.id, displayOrder: index + 1 }));
+
+    this.savingOrder = true;
+    this.subscriptionService.updatePlanDisplayOrder(orders).subscribe({
+      next: (response) => {
+        this.savingOrder = false;
+        if (response.statusCode === 200) {
+          this.snackBar.open(`${group.category} order saved`, 'Close', { duration: 3000 });
+        } else {
+          this.snackBar.open(response.message || 'Failed to save plan order', 'Close', { duration: 5000 });
+        }
+        this.loadPlans();
+      },
+      error: (error) => {
+        console.error('Error saving plan order:', error);
+        this.savingOrder = false;
+        this.snackBar.open('Error saving plan order', 'Close', { duration: 3000 });
+        this.loadPlans();
+      }
+    });
+  }
+
+  private buildGroups() {
+    const search = this.searchTerm.trim().toLowerCase();
+    const visible = this.plans.filter(plan => {
+      if (this.statusFilter && plan.isActive !== (this.statusFilter === 'active')) return false;
+      return !search
+        || plan.name.toLowerCase().includes(search)
+        || (plan.shortDescription || '').toLowerCase().includes(search);
+    });
+
+    const byCategory = new Map<string, SubscriptionPlanDto[]>();
+    for (const plan of visible) {
+      const category = plan.categoryName || UNCATEGORIZED;
+      byCategory.set(category, [...(byCategory.get(category) ?? []), plan]);
+    }
+
+    this.groups = [...byCategory.entries()]
+      .map(([category, plans]) => ({ category, plans }))
+      .sort((a, b) => a.category === UNCATEGORIZED ? 1 : b.category === UNCATEGORIZED ? -1 : a.category.localeCompare(b.category));
+  }
+}
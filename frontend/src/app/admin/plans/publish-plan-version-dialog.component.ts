@@ -0,0 +1,497 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { AbstractControl, ReactiveFormsModule, FormBuilder, FormGroup, ValidationErrors, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { SubscriptionService } from '../../services/subscription.service';
+import { PlanVersionService } from '../../services/plan-version.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { PlanFormValues, SubscriptionPlanDto } from '../../models/subscription.models';
+import {
+  CreatePlanVersionDto,
+  MIGRATION_POLICY_LABELS,
+  PlanVersionChange,
+  SubscriberMigrationPolicy
+} from '../../models/plan-version.models';
+import { MoneyPipe, currencySymbol } from '../../pipes/money.pipe';
+
+export interface PublishPlanVersionDialogData {
+  plan: SubscriptionPlanDto;
+  // The edited plan from the stepper. Without it the dialog schedules a price change on the current plan.
+  changes?: PlanFormValues;
+}
+
+const DEFAULT_PRICE_NOTICE_DAYS = 30;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Subscribers whose price changes must get noticeDays of warning before the version takes effect
+ */
+function noticePeriodValidator(group: AbstractControl): ValidationErrors | null {
+  const { publishNow, effectiveDate, migrationPolicy, noticeDays } = group.getRawValue();
+  if (migrationPolicy === 'Grandfather' || !noticeDays) return null;
+
+  const effective = startOfDay(publishNow ? new Date() : effectiveDate);
+  const earliest = addDays(startOfDay(new Date()), noticeDays);
+  return effective < earliest ? { noticeTooShort: true } : null;
+}
+
+@Component({
+  selector: 'app-publish-plan-version-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatRadioModule,
+    MatCheckboxModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    MoneyPipe
+  ],
+  template: `
+    <div class="publish-version-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>{{ isPriceChange ? 'price_change' : 'new_releases' }}</mat-icon>
+        <div>
+          <h2>{{ isPriceChange ? 'Schedule Price Change' : 'Publish New Version' }}</h2>
+          <p>{{ data.plan.name }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <form [formGroup]="versionForm">
+          <div class="price-row" *ngIf="isPriceChange">
+            <div class="current-price">
+              <span>Current Price</span>
+              <strong>{{ data.plan.price | money:data.plan.currencyId }}</strong>
+            </div>
+            <mat-form-field appearance="outline" class="price-field">
+              <mat-label>New Price</mat-label>
+              <input matInput type="number" formControlName="price" min="0.01" step="0.01">
+              <span matTextPrefix>{{ currencySymbol }}&nbsp;</span>
+              <mat-error *ngIf="versionForm.get('price')?.hasError('required')">Enter the new price</mat-error>
+              <mat-error *ngIf="versionForm.get('price')?.hasError('min')">The price must be greater than 0</mat-error>
+            </mat-form-field>
+          </div>
+
+          <div class="changes-summary">
+            <h3>Changes</h3>
+            <p *ngIf="changes.length === 0" class="no-changes">Nothing differs from the current version</p>
+            <table *ngIf="changes.length > 0">
+              <tr *ngFor="let change of changes">
+                <td class="change-field">{{ change.field }}</td>
+                <td class="change-from">{{ change.from }}</td>
+                <td><mat-icon>arrow_forward</mat-icon></td>
+                <td class="change-to">{{ change.to }}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div class="subscriber-impact" [class.warning]="isPriceIncrease && movesSubscribers && affectedSubscribers > 0">
+            <mat-icon>{{ affectedSubscribers > 0 ? 'groups' : 'info' }}</mat-icon>
+            <span>{{ subscriberImpact }}</span>
+          </div>
+
+          <div class="privilege-note" *ngIf="privilegeChangeCount > 0">
+            <mat-icon>info</mat-icon>
+            <span>
+              Privileges are shared by everyone on the plan, so the {{ privilegeChangeCount }} privilege change(s)
+              apply to all subscribers from the effective date, including those who keep their price.
+            </span>
+          </div>
+
+          <ng-container *ngIf="isPriceChanged">
+            <h3>Existing Subscribers</h3>
+            <mat-radio-group formControlName="migrationPolicy" class="policy-options">
+              <mat-radio-button *ngFor="let policy of policies" [value]="policy">
+                {{ getPolicyLabel(policy) }}
+              </mat-radio-button>
+            </mat-radio-group>
+          </ng-container>
+
+          <h3>Effective Date</h3>
+          <mat-checkbox formControlName="publishNow">Take effect immediately</mat-checkbox>
+
+          <div class="date-row">
+            <mat-form-field appearance="outline" *ngIf="!versionForm.get('publishNow')?.value">
+              <mat-label>Effective Date</mat-label>
+              <input matInput [matDatepicker]="picker" formControlName="effectiveDate" [min]="minEffectiveDate">
+              <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+              <mat-datepicker #picker></mat-datepicker>
+              <mat-error *ngIf="versionForm.get('effectiveDate')?.hasError('required')">Choose an effective date</mat-error>
+              <mat-error *ngIf="versionForm.get('effectiveDate')?.hasError('matDatepickerMin')">The date cannot be in the past</mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" *ngIf="movesSubscribers">
+              <mat-label>Subscriber Notice (days)</mat-label>
+              <input matInput type="number" formControlName="noticeDays" min="0" max="365">
+              <mat-hint>Subscribers whose price changes are notified this many days ahead</mat-hint>
+              <mat-error *ngIf="versionForm.get('noticeDays')?.hasError('min')">Cannot be negative</mat-error>
+              <mat-error *ngIf="versionForm.get('noticeDays')?.hasError('max')">At most 365 days</mat-error>
+            </mat-form-field>
+          </div>
+
+          <div class="notice-error" *ngIf="versionForm.hasError('noticeTooShort')">
+            <mat-icon>error_outline</mat-icon>
+            <span>
+              With {{ versionForm.get('noticeDays')?.value }} days notice the earliest effective date is
+              {{ earliestNoticeDate | date:'mediumDate' }}.
+            </span>
+          </div>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Change Summary</mat-label>
+            <textarea matInput formControlName="changeSummary" rows="2" maxlength="500"
+                      placeholder="Shown in the version history and the subscriber notice"></textarea>
+          </mat-form-field>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="versionForm.invalid || changes.length === 0">
+          {{ versionForm.get('publishNow')?.value ? 'Publish' : 'Schedule' }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .publish-version-dialog {
+      min-width: 480px;
+      max-width: 640px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    h3 {
+      margin: 16px 0 8px 0;
+      font-size: 15px;
+      font-weight: 600;
+    }
+
+    .price-row {
+      display: flex;
+      align-items: flex-start;
+      gap: 24px;
+    }
+
+    .current-price {
+      display: flex;
+      flex-direction: column;
+      padding-top: 8px;
+      font-size: 14px;
+      color: #666;
+    }
+
+    .current-price strong {
+      font-size: 18px;
+      color: #333;
+    }
+
+    .price-field {
+      flex: 1;
+    }
+
+    .changes-summary table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+
+    .changes-summary td {
+      padding: 4px 8px 4px 0;
+      vertical-align: top;
+    }
+
+    .changes-summary mat-icon {
+      font-size: 16px;
+      width: 16px;
+      height: 16px;
+      color: #999;
+    }
+
+    .change-field {
+      font-weight: 500;
+    }
+
+    .change-from {
+      color: #999;
+      text-decoration: line-through;
+    }
+
+    .change-to {
+      color: #2e7d32;
+    }
+
+    .no-changes {
+      margin: 0;
+      color: #999;
+      font-size: 14px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .subscriber-impact,
+    .notice-error {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 12px 16px;
+      margin: 16px 0 0 0;
+      border-radius: 8px;
+      background: #e3f2fd;
+      font-size: 14px;
+    }
+
+    .subscriber-impact.warning {
+      background: #fff3e0;
+      color: #e65100;
+    }
+
+    .notice-error {
+      margin: 0 0 16px 0;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .privilege-note {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 8px 0 0 0;
+      color: #555;
+      font-size: 14px;
+    }
+
+    .policy-options {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    mat-checkbox {
+      display: block;
+      margin-bottom: 12px;
+    }
+
+    .date-row {
+      display: flex;
+      gap: 16px;
+    }
+
+    .date-row mat-form-field {
+      flex: 1;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .publish-version-dialog {
+        min-width: 280px;
+      }
+
+      .date-row {
+        flex-direction: column;
+        gap: 0;
+      }
+    }
+  `]
+})
+export class PublishPlanVersionDialogComponent {
+  versionForm: FormGroup;
+  changes: PlanVersionChange[] = [];
+
+  readonly policies = Object.keys(MIGRATION_POLICY_LABELS) as SubscriberMigrationPolicy[];
+  readonly minEffectiveDate = new Date();
+  readonly privilegeChangeCount: number;
+
+  constructor(
+    public dialogRef: MatDialogRef<PublishPlanVersionDialogComponent, CreatePlanVersionDto>,
+    @Inject(MAT_DIALOG_DATA) public data: PublishPlanVersionDialogData,
+    private fb: FormBuilder,
+    private subscriptionService: SubscriptionService,
+    private planVersionService: PlanVersionService,
+    private masterData: MasterDataStoreService
+  ) {
+    const privilegeChanges = this.subscriptionService.diffPlanPrivileges(
+      data.plan.privileges ?? [],
+      data.changes?.privileges ?? data.plan.privileges ?? []
+    );
+    this.privilegeChangeCount = privilegeChanges.added.length + privilegeChanges.updated.length + privilegeChanges.removed.length;
+
+    this.versionForm = this.fb.group({
+      price: [data.plan.price, [Validators.required, Validators.min(0.01)]],
+      publishNow: [!this.isPriceChange],
+      effectiveDate: [addDays(new Date(), this.isPriceChange ? DEFAULT_PRICE_NOTICE_DAYS : 0), Validators.required],
+      migrationPolicy: ['NextRenewal' as SubscriberMigrationPolicy],
+      noticeDays: [this.isPriceChange ? DEFAULT_PRICE_NOTICE_DAYS : 0, [Validators.min(0), Validators.max(365)]],
+      changeSummary: ['']
+    }, { validators: noticePeriodValidator });
+
+    // Only a price change edits the price here; the stepper has already set everything else
+    if (!this.isPriceChange) {
+      this.versionForm.get('price')?.disable();
+    }
+
+    // The effective date only takes part in validation when the version is scheduled
+    this.toggleEffectiveDate(this.versionForm.get('publishNow')?.value);
+    this.versionForm.get('publishNow')?.valueChanges.subscribe(publishNow => this.toggleEffectiveDate(publishNow));
+
+    this.updateChanges();
+    this.versionForm.get('price')?.valueChanges.subscribe(() => this.updateChanges());
+  }
+
+  get isPriceChange(): boolean {
+    return !this.data.changes;
+  }
+
+  get isPriceChanged(): boolean {
+    return Number(this.newPlan.price) !== this.data.plan.price;
+  }
+
+  get isPriceIncrease(): boolean {
+    return Number(this.newPlan.price) > this.data.plan.price;
+  }
+
+  // The policy only matters when the price changes; otherwise nobody's price moves
+  get migrationPolicy(): SubscriberMigrationPolicy {
+    return this.isPriceChanged ? this.versionForm.get('migrationPolicy')?.value : 'Grandfather';
+  }
+
+  get movesSubscribers(): boolean {
+    return this.migrationPolicy !== 'Grandfather';
+  }
+
+  get currencySymbol(): string {
+    return currencySymbol(this.data.plan.currencyId, this.masterData.snapshot('currencies'));
+  }
+
+  get affectedSubscribers(): number {
+    return this.data.plan.totalActiveSubscriptions ?? 0;
+  }
+
+  get subscriberImpact(): string {
+    if (this.affectedSubscribers === 0) return 'Nobody is subscribed to this plan yet.';
+
+    const subscribers = `${this.affectedSubscribers} active subscriber(s) are on this plan`;
+    switch (this.migrationPolicy) {
+      case 'Grandfather':
+        return this.isPriceChanged
+          ? `${subscribers}. They keep the price they pay now; new subscribers pay the new price.`
+          : `${subscribers}. Their price does not change.`;
+      case 'NextRenewal':
+        return `${subscribers}. Each moves to the new price at their first renewal on or after the effective date.`;
+      case 'Immediate':
+        return `${subscribers}. All of them move to the new price on the effective date.`;
+    }
+  }
+
+  get earliestNoticeDate(): Date {
+    return addDays(new Date(), this.versionForm.get('noticeDays')?.value || 0);
+  }
+
+  getPolicyLabel(policy: SubscriberMigrationPolicy): string {
+    return MIGRATION_POLICY_LABELS[policy];
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.versionForm.invalid || this.changes.length === 0) return;
+
+    const { publishNow, effectiveDate, noticeDays, changeSummary } = this.versionForm.getRawValue();
+    const migrationPolicy = this.migrationPolicy;
+
+    this.dialogRef.close({
+      plan: this.subscriptionService.toUpdatePlanDto(this.data.plan.id, this.newPlan),
+      // A price change keeps the plan's privileges, which the backend reads when none are sent
+      privileges: this.data.changes?.privileges,
+      // The backend compares dates, so the local day is sent without a time zone
+      effectiveDate: publishNow ? undefined : formatDate(effectiveDate, 'yyyy-MM-dd', 'en-US'),
+      migrationPolicy,
+      noticeDays: migrationPolicy === 'Grandfather' ? 0 : noticeDays,
+      changeSummary: changeSummary?.trim() || undefined
+    });
+  }
+
+  private get newPlan(): PlanFormValues {
+    if (this.data.changes) return this.data.changes;
+    return { ...this.data.plan, price: Number(this.versionForm.get('price')?.value) };
+  }
+
+  private updateChanges() {
+    this.changes = this.planVersionService.diffVersions(this.data.plan, this.newPlan);
+  }
+
+  private toggleEffectiveDate(publishNow: boolean) {
+    const effectiveDate = this.versionForm.get('effectiveDate');
+    if (publishNow) {
+      effectiveDate?.disable({ emitEvent: false });
+    } else {
+      effectiveDate?.enable({ emitEvent: false });
+    }
+    this.versionForm.updateValueAndValidity({ emitEvent: false });
+  }
+}
@@ -0,0 +1,149 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+export interface SavePlanTemplateDialogData {
+  // Suggested template name, usually the plan name
+  name: string;
+}
+
+export interface SavePlanTemplateDialogResult {
+  name: string;
+  description?: string;
+}
+
+@Component({
+  selector: 'app-save-plan-template-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  template: `
+    <div class="save-template-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>bookmark_add</mat-icon>
+        <div>
+          <h2>Save as Template</h2>
+          <p>Pricing, limits, privileges and terms are saved in this browser. Stripe IDs are kept as placeholders.</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <form [formGroup]="templateForm">
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Template Name</mat-label>
+            <input matInput formControlName="name" maxlength="100">
+            <mat-error *ngIf="templateForm.get('name')?.hasError('required')">Enter a template name</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Description</mat-label>
+            <textarea matInput formControlName="description" rows="3" maxlength="500"
+                      placeholder="When to use this template"></textarea>
+          </mat-form-field>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="templateForm.invalid">
+          Save Template
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .save-template-dialog {
+      min-width: 400px;
+      max-width: 500px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .save-template-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class SavePlanTemplateDialogComponent {
+  templateForm: FormGroup;
+
+  constructor(
+    public dialogRef: MatDialogRef<SavePlanTemplateDialogComponent, SavePlanTemplateDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: SavePlanTemplateDialogData,
+    private fb: FormBuilder
+  ) {
+    this.templateForm = this.fb.group({
+      name: [data.name, [Validators.required, Validators.maxLength(100)]],
+      description: ['', Validators.maxLength(500)]
+    });
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.templateForm.invalid) return;
+
+    const { name, description } = this.templateForm.value;
+    this.dialogRef.close({
+      name: name.trim(),
+      description: description?.trim() || undefined
+    });
+  }
+}
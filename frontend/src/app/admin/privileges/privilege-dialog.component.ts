@@ -0,0 +1,174 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { ApiRequestBody } from '../../api/api-contract';
+import { MasterPrivilegeType, Privilege } from '../../models/subscription.models';
+
+export interface PrivilegeDialogData {
+  // Null when creating a privilege
+  privilege: Privilege | null;
+  privilegeTypes: MasterPrivilegeType[];
+}
+
+export type PrivilegeDialogResult = ApiRequestBody<'POST /api/Privileges'>;
+
+@Component({
+  selector: 'app-privilege-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule
+  ],
+  template: `
+    <div class="privilege-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>{{ data.privilege ? 'edit' : 'add_moderator' }}</mat-icon>
+        <div>
+          <h2>{{ data.privilege ? 'Edit Privilege' : 'New Privilege' }}</h2>
+          <p>{{ data.privilege ? data.privilege.name : 'Something plans can grant their subscribers' }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <form [formGroup]="privilegeForm">
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Name</mat-label>
+            <input matInput formControlName="name" maxlength="100" placeholder="e.g. Video Consultation">
+            <mat-error *ngIf="privilegeForm.get('name')?.hasError('required')">Enter a name</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Type</mat-label>
+            <mat-select formControlName="privilegeTypeId">
+              <mat-option *ngFor="let type of data.privilegeTypes" [value]="type.id">{{ type.name }}</mat-option>
+            </mat-select>
+            <mat-hint *ngIf="data.privilegeTypes.length === 0">No privilege types are configured</mat-hint>
+            <mat-error *ngIf="privilegeForm.get('privilegeTypeId')?.hasError('required')">Choose a type</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Description</mat-label>
+            <textarea matInput formControlName="description" rows="3" maxlength="500"></textarea>
+          </mat-form-field>
+
+          <mat-slide-toggle formControlName="isActive" color="primary">Active</mat-slide-toggle>
+          <p class="field-hint">Inactive privileges stay on the plans that grant them but cannot be added to more plans.</p>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="privilegeForm.invalid">
+          {{ data.privilege ? 'Save' : 'Create Privilege' }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .privilege-dialog {
+      min-width: 420px;
+      max-width: 560px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .field-hint {
+      margin: 8px 0 0 0;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .privilege-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class PrivilegeDialogComponent {
+  privilegeForm: FormGroup;
+
+  constructor(
+    public dialogRef: MatDialogRef<PrivilegeDialogComponent, PrivilegeDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: PrivilegeDialogData,
+    private fb: FormBuilder
+  ) {
+    this.privilegeForm = this.fb.group({
+      name: [data.privilege?.name ?? '', [Validators.required, Validators.maxLength(100)]],
+      privilegeTypeId: [data.privilege?.privilegeTypeId ?? '', Validators.required],
+      description: [data.privilege?.description ?? '', Validators.maxLength(500)],
+      isActive: [data.privilege?.isActive ?? true]
+    });
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.privilegeForm.invalid) return;
+
+    const { name, privilegeTypeId, description, isActive } = this.privilegeForm.value;
+    this.dialogRef.close({
+      name: name.trim(),
+      privilegeTypeId,
+      description: description?.trim() || null,
+      isActive
+    });
+  }
+}
@@ -0,0 +1,317 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { PrivilegeService } from '../../services/privilege.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from '../subscription-management/confirmation-dialog.component';
+import { PrivilegeDialogComponent, PrivilegeDialogData, PrivilegeDialogResult } from './privilege-dialog.component';
+import { MasterPrivilegeType, Privilege } from '../../models/subscription.models';
+import { PrivilegePlanUsageDto, PrivilegeSearchFilter } from '../../models/privilege.models';
+
+@Component({
+  selector: 'app-privileges',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterModule,
+    MatButtonModule,
+    MatCardModule,
+    MatChipsModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatPaginatorModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatSnackBarModule,
+    MatTableModule,
+    MatTooltipModule,
+    HasPermissionDirective
+  ],
+  templateUrl: './privileges.component.html',
+  styleUrls: ['./privileges.component.scss']
+})
+export class PrivilegesComponent implements OnInit {
+  private privilegeService = inject(PrivilegeService);
+  private masterData = inject(MasterDataStoreService);
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+  private fb = inject(FormBuilder);
+
+  searchForm: FormGroup;
+
+  privileges: Privilege[] = [];
+  privilegeColumns = ['name', 'type', 'description', 'status', 'actions'];
+  loading = false;
+  error: string | null = null;
+
+  currentPage = 0;
+  pageSize = 20;
+  totalCount = 0;
+
+  privilegeTypes: MasterPrivilegeType[] = [];
+  typeColumns = ['sortOrder', 'name', 'description', 'status'];
+  typesLoading = false;
+  typesError: string | null = null;
+
+  selectedPrivilege: Privilege | null = null;
+  planUsage: PrivilegePlanUsageDto[] = [];
+  usageLoading = false;
+  usageError: string | null = null;
+  // The privilege being checked for plans or deleted
+  deletingId: string | null = null;
+
+  constructor() {
+    this.searchForm = this.fb.group({
+      search: [''],
+      status: ['']
+    });
+  }
+
+  ngOnInit() {
+    this.loadPrivilegeTypes();
+    this.loadPrivileges();
+  }
+
+  search() {
+    this.currentPage = 0;
+    this.loadPrivileges();
+  }
+
+  clearSearch() {
+    this.searchForm.patchValue({ search: '', status: '' });
+    this.search();
+  }
+
+  onPageChange(event: PageEvent) {
+    this.currentPage = event.pageIndex;
+    this.pageSize = event.pageSize;
+    this.loadPrivileges();
+  }
+
+  loadPrivileges() {
+    this.loading = true;
+    this.error = null;
+    this.privilegeService.getPrivileges(this.getFilter(), this.currentPage + 1, this.pageSize).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.privileges = response.data || [];
+          this.totalCount = response.meta?.totalRecords || this.privileges.length;
+          if (this.selectedPrivilege && !this.privileges.some(p => p.id === this.selectedPrivilege?.id)) {
+            this.selectedPrivilege = null;
+          }
+        } else {
+          this.privileges = [];
+          this.totalCount = 0;
+          this.error = response.message || 'Failed to load privileges';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading privileges:', error);
+        this.privileges = [];
+        this.totalCount = 0;
+        this.error = error.message || 'Failed to load privileges';
+        this.loading = false;
+      }
+    });
+  }
+
+  loadPrivilegeTypes() {
+    this.typesLoading = true;
+    this.typesError = null;
+    this.masterData.load('privilegeTypes').subscribe({
+      next: (privilegeTypes) => {
+        this.privilegeTypes = [...privilegeTypes].sort((a, b) => a.sortOrder - b.sortOrder);
+        this.typesLoading = false;
+      },
+      error: (error) => {
+        console.error('Error loading privilege types:', error);
+        this.privilegeTypes = [];
+        this.typesError = error.message || 'Failed to load privilege types';
+        this.typesLoading = false;
+      }
+    });
+  }
+
+  selectPrivilege(privilege: Privilege) {
+    this.selectedPrivilege = privilege;
+    this.loadPlanUsage(privilege);
+  }
+
+  getTypeName(privilege: Privilege): string {
+    return privilege.privilegeTypeName
+      || this.privilegeTypes.find(type => type.id === privilege.privilegeTypeId)?.name
+      || '—';
+  }
+
+  getLimitLabel(usage: PrivilegePlanUsageDto): string {
+    if (usage.value === -1) return 'Unlimited';
+    if (usage.value === 0) return 'Disabled';
+    return `${usage.value}${usage.usagePeriodName ? ' per ' + usage.usagePeriodName.toLowerCase() : ''}`;
+  }
+
+  openCreateDialog() {
+    this.openPrivilegeDialog(null);
+  }
+
+  editPrivilege(privilege: Privilege) {
+    this.openPrivilegeDialog(privilege);
+  }
+
+  /**
+   * Privileges granted by a plan cannot be deleted; the plans using it are shown instead
+   */
+  deletePrivilege(privilege: Privilege) {
+    this.deletingId = privilege.id;
+    this.privilegeService.getPrivilegePlans(privilege.id).subscribe({
+      next: (response) => {
+        if (response.statusCode !== 200) {
+          this.deletingId = null;
+          this.snackBar.open(response.message || 'Failed to check which plans use this privilege', 'Close', { duration: 5000 });
+          return;
+        }
+
+        const plans = response.data || [];
+        if (plans.length > 0) {
+          this.deletingId = null;
+          this.selectedPrivilege = privilege;
+          this.planUsage = plans;
+          this.usageError = null;
+          this.snackBar.open(
+            `${privilege.name} is granted by ${plans.length} plan(s). Remove it from those plans or deactivate it instead.`,
+            'Close',
+            { duration: 5000 }
+          );
+          return;
+        }
+
+        this.confirmDelete(privilege);
+      },
+      error: (error) => {
+        console.error('Error loading privilege plans:', error);
+        this.deletingId = null;
+        this.snackBar.open('Error checking which plans use this privilege', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  private confirmDelete(privilege: Privilege) {
+    const dialogData: ConfirmationDialogData = {
+      title: 'Delete Privilege',
+      message: `Delete ${privilege.name}? No plan grants it, so no subscriber is affected.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      type: 'danger'
+    };
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData })
+      .afterClosed()
+      .subscribe(result => {
+        if (!result) {
+          this.deletingId = null;
+          return;
+        }
+
+        this.privilegeService.deletePrivilege(privilege.id).subscribe({
+          next: (response) => {
+            this.deletingId = null;
+            if (response.statusCode === 200) {
+              if (this.selectedPrivilege?.id === privilege.id) {
+                this.selectedPrivilege = null;
+              }
+              this.snackBar.open(`${privilege.name} deleted`, 'Close', { duration: 3000 });
+              this.masterData.invalidate('privileges');
+              this.loadPrivileges();
+            } else {
+              this.snackBar.open(response.message || 'Failed to delete privilege', 'Close', { duration: 5000 });
+            }
+          },
+          error: (error) => {
+            console.error('Error deleting privilege:', error);
+            this.deletingId = null;
+            this.snackBar.open('Error deleting privilege', 'Close', { duration: 3000 });
+          }
+        });
+      });
+  }
+
+  private openPrivilegeDialog(privilege: Privilege | null) {
+    const dialogData: PrivilegeDialogData = {
+      privilege,
+      privilegeTypes: this.privilegeTypes.filter(type => type.isActive || type.id === privilege?.privilegeTypeId)
+    };
+    this.dialog.open(PrivilegeDialogComponent, { width: '560px', data: dialogData })
+      .afterClosed()
+      .subscribe((result?: PrivilegeDialogResult) => {
+        if (!result) return;
+
+        const request = privilege
+          ? this.privilegeService.updatePrivilege(privilege.id, result)
+          : this.privilegeService.createPrivilege(result);
+        request.subscribe({
+          next: (response) => {
+            if (response.statusCode === 200) {
+              this.snackBar.open(`${result.name} ${privilege ? 'updated' : 'created'}`, 'Close', { duration: 3000 });
+              this.masterData.invalidate('privileges');
+              this.loadPrivileges();
+            } else {
+              this.snackBar.open(response.message || `Failed to ${privilege ? 'update' : 'create'} privilege`, 'Close', { duration: 5000 });
+            }
+          },
+          error: (error) => {
+            console.error(`Error ${privilege ? 'updating' : 'creating'} privilege:`, error);
+            this.snackBar.open(`Error ${privilege ? 'updating' : 'creating'} privilege`, 'Close', { duration: 3000 });
+          }
+        });
+      });
+  }
+
+  private loadPlanUsage(privilege: Privilege) {
+    this.usageLoading = true;
+    this.usageError = null;
+    this.planUsage = [];
+    this.privilegeService.getPrivilegePlans(privilege.id).subscribe({
+      next: (response) => {
+        // Ignore answers for a privilege that is no longer selected
+        if (this.selectedPrivilege?.id !== privilege.id) return;
+        if (response.statusCode === 200) {
+          this.planUsage = response.data || [];
+        } else {
+          this.usageError = response.message || 'Failed to load plans';
+        }
+        this.usageLoading = false;
+      },
+      error: (error) => {
+        console.error('Error loading privilege plans:', error);
+        if (this.selectedPrivilege?.id !== privilege.id) return;
+        this.usageError = error.message || 'Failed to load plans';
+        this.usageLoading = false;
+      }
+    });
+  }
+
+  private getFilter(): PrivilegeSearchFilter {
+    const value = this.searchForm.value;
+    const filter: PrivilegeSearchFilter = {};
+    if (value.search?.trim()) filter.search = value.search.trim();
+    if (value.status) filter.isActive = value.status === 'active';
+    return filter;
+  }
+}
@@ -0,0 +1,197 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { RefundService } from '../../services/refund.service';
+import { SubscriptionService } from '../../services/subscription.service';
+import { UserService } from '../../services/user.service';
+import { ExportFormat, ExportService, ExportTable, toExportDate } from '../../services/export.service';
+import { MoneyPipe } from '../../pipes/money.pipe';
+import { SubscriptionPlanDto } from '../../models/subscription.models';
+import { UserDto } from '../../models/user.models';
+import { RefundLedgerEntryDto, RefundLedgerFilter } from '../../models/refund.models';
+
+@Component({
+  selector: 'app-refunds-ledger',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatMenuModule,
+    MatPaginatorModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatSnackBarModule,
+    MatTableModule,
+    MoneyPipe
+  ],
+  templateUrl: './refunds-ledger.component.html',
+  styleUrls: ['./refunds-ledger.component.scss']
+})
+export class RefundsLedgerComponent implements OnInit {
+  private refundService = inject(RefundService);
+  private subscriptionService = inject(SubscriptionService);
+  private userService = inject(UserService);
+  private exportService = inject(ExportService);
+  private snackBar = inject(MatSnackBar);
+  private fb = inject(FormBuilder);
+
+  filterForm: FormGroup;
+
+  // Filter options
+  plans: SubscriptionPlanDto[] = [];
+  admins: UserDto[] = [];
+
+  refunds: RefundLedgerEntryDto[] = [];
+  refundColumns = ['refundedAt', 'patient', 'plan', 'invoice', 'amount', 'reason', 'refundedBy'];
+  loading = false;
+  error: string | null = null;
+  exporting = false;
+
+  currentPage = 0;
+  pageSize = 20;
+  totalCount = 0;
+
+  constructor() {
+    const end = new Date();
+    const start = new Date(end.getFullYear(), end.getMonth() - 2, 1);
+    this.filterForm = this.fb.group({
+      startDate: [this.toDateInput(start)],
+      endDate: [this.toDateInput(end)],
+      planId: [''],
+      refundedBy: [null]
+    });
+  }
+
+  ngOnInit() {
+    this.loadFilterOptions();
+    this.loadRefunds();
+  }
+
+  applyFilters() {
+    const { startDate, endDate } = this.filterForm.value;
+    if (startDate && endDate && startDate > endDate) {
+      this.snackBar.open('Start date must be before end date', 'Close', { duration: 3000 });
+      return;
+    }
+    this.currentPage = 0;
+    this.loadRefunds();
+  }
+
+  clearFilters() {
+    this.filterForm.patchValue({ planId: '', refundedBy: null });
+    this.applyFilters();
+  }
+
+  onPageChange(event: PageEvent) {
+    this.currentPage = event.pageIndex;
+    this.pageSize = event.pageSize;
+    this.loadRefunds();
+  }
+
+  loadRefunds() {
+    this.loading = true;
+    this.error = null;
+    this.refundService.getRefunds(this.getFilter(), this.currentPage + 1, this.pageSize).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.refunds = response.data || [];
+          this.totalCount = response.meta?.totalRecords || this.refunds.length;
+        } else {
+          this.refunds = [];
+          this.totalCount = 0;
+          this.error = response.message || 'Failed to load refunds';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading refunds:', error);
+        this.refunds = [];
+        this.totalCount = 0;
+        this.error = error.message || 'Failed to load refunds';
+        this.loading = false;
+      }
+    });
+  }
+
+  exportRefunds(format: ExportFormat) {
+    this.exporting = true;
+    // Export every matching refund, not just the current page
+    this.refundService.getRefunds(this.getFilter(), 1, Math.max(this.totalCount, 1)).subscribe({
+      next: (response) => {
+        this.exporting = false;
+        if (response.statusCode !== 200) {
+          this.snackBar.open(response.message || 'Failed to export refunds', 'Close', { duration: 5000 });
+          return;
+        }
+
+        const table: ExportTable<RefundLedgerEntryDto> = {
+          title: 'Refunds Ledger',
+          rows: response.data || [],
+          columns: [
+            { header: 'Refunded', value: r => toExportDate(r.refundedAt) },
+            { header: 'Patient', value: r => r.userName },
+            { header: 'Plan', value: r => r.planName },
+            { header: 'Invoice', value: r => r.invoiceNumber },
+            { header: 'Amount', value: r => r.amount },
+            { header: 'Payment Amount', value: r => r.paymentAmount },
+            { header: 'Currency', value: r => r.currency },
+            { header: 'Reason', value: r => r.reason },
+            { header: 'Refunded By', value: r => r.refundedByName },
+            { header: 'Payment Intent', value: r => r.stripePaymentIntentId }
+          ]
+        };
+        const fileName = this.exportService.exportTable(table, format, 'refunds');
+        this.snackBar.open(`Refunds saved as ${fileName}`, 'Close', { duration: 3000 });
+      },
+      error: (error) => {
+        console.error('Error exporting refunds:', error);
+        this.exporting = false;
+        this.snackBar.open('Error exporting refunds', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  private loadFilterOptions() {
+    this.subscriptionService.getAllPlans(1, 100).subscribe({
+      next: (response) => this.plans = response.data || [],
+      error: (error) => console.error('Error loading plans:', error)
+    });
+    this.userService.searchUsers({ userType: 'Admin', isActive: true }, 1, 100).subscribe({
+      next: (response) => this.admins = response.data || [],
+      error: (error) => console.error('Error loading admins:', error)
+    });
+  }
+
+  private getFilter(): RefundLedgerFilter {
+    const value = this.filterForm.value;
+    const filter: RefundLedgerFilter = {};
+    if (value.startDate) filter.startDate = new Date(`${value.startDate}T00:00:00`);
+    // Include refunds issued during the whole end day
+    if (value.endDate) filter.endDate = new Date(`${value.endDate}T23:59:59`);
+    if (value.planId) filter.planId = value.planId;
+    if (value.refundedBy) filter.refundedBy = value.refundedBy;
+    return filter;
+  }
+
+  private toDateInput(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
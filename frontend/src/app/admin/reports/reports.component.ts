@@ -0,0 +1,132 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { ReportService } from '../../services/report.service';
+import { ExportFormat, ExportService, ExportTable } from '../../services/export.service';
+import { REPORT_CATALOG, ReportDefinition, ReportParameters, ReportResult, ReportRow } from '../../models/report.models';
+
+@Component({
+  selector: 'app-reports',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatMenuModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTableModule
+  ],
+  templateUrl: './reports.component.html',
+  styleUrls: ['./reports.component.scss']
+})
+export class ReportsComponent {
+  private reportService = inject(ReportService);
+  private exportService = inject(ExportService);
+  private snackBar = inject(MatSnackBar);
+  private fb = inject(FormBuilder);
+
+  readonly catalog = REPORT_CATALOG;
+  selectedReport: ReportDefinition = REPORT_CATALOG[0];
+  parametersForm: FormGroup;
+
+  // Report output
+  result: ReportResult | null = null;
+  resultColumns: string[] = [];
+  running = false;
+  runError: string | null = null;
+
+  constructor() {
+    const end = new Date();
+    const start = new Date(end.getFullYear(), end.getMonth() - 11, 1);
+    this.parametersForm = this.fb.group({
+      startDate: [this.toDateInput(start)],
+      endDate: [this.toDateInput(end)]
+    });
+  }
+
+  selectReport(report: ReportDefinition) {
+    if (report.type === this.selectedReport.type) return;
+    this.selectedReport = report;
+    this.result = null;
+    this.resultColumns = [];
+    this.runError = null;
+  }
+
+  runReport() {
+    const parameters = this.getParameters();
+    if (parameters.startDate && parameters.endDate && parameters.startDate > parameters.endDate) {
+      this.snackBar.open('Start date must be before end date', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.running = true;
+    this.runError = null;
+    this.reportService.runReport(this.selectedReport.type, parameters).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.result = response.data;
+          this.resultColumns = response.data.columns.map(c => c.key);
+        } else {
+          this.result = null;
+          this.runError = response.message || 'Failed to run report';
+        }
+        this.running = false;
+      },
+      error: (error) => {
+        console.error('Error running report:', error);
+        this.result = null;
+        this.runError = error.message || 'Failed to run report';
+        this.running = false;
+      }
+    });
+  }
+
+  exportResult(format: ExportFormat) {
+    if (!this.result) return;
+
+    const table: ExportTable<ReportRow> = {
+      title: `${this.selectedReport.name} (${this.describeParameters(this.getParameters())})`,
+      rows: this.result.rows,
+      columns: this.result.columns.map(column => ({
+        header: column.header,
+        value: (row: ReportRow) => row[column.key]
+      }))
+    };
+
+    const fileName = this.exportService.exportTable(table, format, this.selectedReport.type);
+    this.snackBar.open(`Report saved as ${fileName}`, 'Close', { duration: 3000 });
+  }
+
+  describeParameters(parameters: ReportParameters): string {
+    if (!parameters.startDate && !parameters.endDate) return 'All data';
+    return `${parameters.startDate || '...'} to ${parameters.endDate || '...'}`;
+  }
+
+  private getParameters(): ReportParameters {
+    const value = this.parametersForm.value;
+    const parameters: ReportParameters = {};
+    if (value.startDate) parameters.startDate = value.startDate;
+    if (value.endDate) parameters.endDate = value.endDate;
+    return parameters;
+  }
+
+  private toDateInput(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
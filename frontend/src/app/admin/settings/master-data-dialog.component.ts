@@ -0,0 +1,257 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { CategoryDto } from '../../models/subscription.models';
+import { MASTER_DATA_LABELS, MasterDataKind, MasterDataRecord, SaveMasterDataDto } from '../../models/master-data.models';
+
+export interface MasterDataDialogData {
+  kind: MasterDataKind;
+  // Null when creating a record
+  record: MasterDataRecord | null;
+  // Position a new record is added at
+  sortOrder: number;
+}
+
+@Component({
+  selector: 'app-master-data-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSlideToggleModule
+  ],
+  template: `
+    <div class="master-data-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>{{ data.record ? 'edit' : 'add_circle_outline' }}</mat-icon>
+        <div>
+          <h2>{{ data.record ? 'Edit' : 'New' }} {{ label }}</h2>
+          <p>{{ data.record ? data.record.name : 'Added at the end of the list' }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <form [formGroup]="recordForm">
+          <div class="field-row" *ngIf="data.kind === 'currencies'">
+            <mat-form-field appearance="outline">
+              <mat-label>Code</mat-label>
+              <input matInput formControlName="code" maxlength="3" placeholder="USD">
+              <mat-error *ngIf="recordForm.get('code')?.hasError('required')">Enter the ISO code</mat-error>
+              <mat-error *ngIf="recordForm.get('code')?.hasError('pattern')">Use three letters, e.g. USD</mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline">
+              <mat-label>Symbol</mat-label>
+              <input matInput formControlName="symbol" maxlength="10" placeholder="$">
+            </mat-form-field>
+          </div>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Name</mat-label>
+            <input matInput formControlName="name" [maxlength]="limits.name">
+            <mat-error *ngIf="recordForm.get('name')?.hasError('required')">Enter a name</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width" *ngIf="data.kind === 'billingCycles'">
+            <mat-label>Duration (days)</mat-label>
+            <input matInput type="number" formControlName="durationInDays" min="1">
+            <mat-hint>How long each billing period lasts, e.g. 30 for monthly</mat-hint>
+            <mat-error *ngIf="recordForm.get('durationInDays')?.invalid">Enter a whole number of days</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width" *ngIf="data.kind !== 'currencies'">
+            <mat-label>Description</mat-label>
+            <textarea matInput formControlName="description" rows="3" [maxlength]="limits.description"></textarea>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width" *ngIf="data.kind !== 'categories'">
+            <mat-label>Sort order</mat-label>
+            <input matInput type="number" formControlName="sortOrder">
+            <mat-hint>Lower numbers are listed first</mat-hint>
+          </mat-form-field>
+
+          <mat-slide-toggle formControlName="isActive" color="primary">Active</mat-slide-toggle>
+          <p class="field-hint">Inactive {{ pluralLabel }} stay on existing records but cannot be chosen for new ones.</p>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="recordForm.invalid">
+          {{ data.record ? 'Save' : 'Create' }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .master-data-dialog {
+      min-width: 420px;
+      max-width: 560px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+      text-transform: capitalize;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .field-row {
+      display: flex;
+      gap: 16px;
+    }
+
+    .field-row mat-form-field {
+      flex: 1;
+    }
+
+    .field-hint {
+      margin: 8px 0 0 0;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .master-data-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class MasterDataDialogComponent {
+  recordForm: FormGroup;
+  // Column lengths; categories allow longer text than the master tables
+  readonly limits: { name: number; description: number };
+
+  constructor(
+    public dialogRef: MatDialogRef<MasterDataDialogComponent, SaveMasterDataDto>,
+    @Inject(MAT_DIALOG_DATA) public data: MasterDataDialogData,
+    private fb: FormBuilder
+  ) {
+    const record = data.record as (MasterDataRecord & Record<string, any>) | null;
+    this.limits = data.kind === 'categories' ? { name: 100, description: 500 } : { name: 50, description: 200 };
+    this.recordForm = this.fb.group({
+      name: [record?.name ?? '', [Validators.required, Validators.maxLength(this.limits.name)]],
+      description: [record?.['description'] ?? '', Validators.maxLength(this.limits.description)],
+      code: [record?.['code'] ?? ''],
+      symbol: [record?.['symbol'] ?? '', Validators.maxLength(10)],
+      durationInDays: [record?.['durationInDays'] ?? null],
+      sortOrder: [record?.sortOrder ?? data.sortOrder, [Validators.required, Validators.pattern(/^-?\d+$/)]],
+      isActive: [record?.isActive ?? true]
+    });
+
+    if (data.kind === 'currencies') {
+      this.recordForm.get('code')?.setValidators([Validators.required, Validators.pattern(/^[A-Za-z]{3}$/)]);
+    }
+    if (data.kind === 'billingCycles') {
+      this.recordForm.get('durationInDays')?.setValidators([Validators.required, Validators.min(1), Validators.pattern(/^\d+$/)]);
+    }
+  }
+
+  get label(): string {
+    return MASTER_DATA_LABELS[this.data.kind].singular;
+  }
+
+  get pluralLabel(): string {
+    return MASTER_DATA_LABELS[this.data.kind].plural.toLowerCase();
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.recordForm.invalid) return;
+
+    const { name, description, code, symbol, durationInDays, isActive } = this.recordForm.value;
+    const sortOrder = Number(this.recordForm.value.sortOrder);
+    switch (this.data.kind) {
+      case 'billingCycles':
+        this.dialogRef.close({
+          name: name.trim(),
+          description: description?.trim() || undefined,
+          durationInDays: Number(durationInDays),
+          sortOrder,
+          isActive
+        });
+        break;
+      case 'currencies':
+        this.dialogRef.close({
+          code: code.trim().toUpperCase(),
+          name: name.trim(),
+          symbol: symbol?.trim() || undefined,
+          sortOrder,
+          isActive
+        });
+        break;
+      case 'privilegeTypes':
+        this.dialogRef.close({
+          name: name.trim(),
+          description: description?.trim() || undefined,
+          sortOrder,
+          isActive
+        });
+        break;
+      case 'categories': {
+        const category = this.data.record as CategoryDto | null;
+        // The flags are not edited here, but the API resets them when they are left out
+        this.dialogRef.close({
+          name: name.trim(),
+          description: description?.trim() || undefined,
+          sortOrder: category?.sortOrder ?? this.data.sortOrder,
+          isActive,
+          isMostPopular: category?.isMostPopular,
+          isTrending: category?.isTrending
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,542 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Observable, forkJoin, of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { MatTabsModule } from '@angular/material/tabs';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { ApiResponse } from '../../services/common.service';
+import { MasterDataService } from '../../services/master-data.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { SubscriptionService } from '../../services/subscription.service';
+import { UserService } from '../../services/user.service';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from '../subscription-management/confirmation-dialog.component';
+import { MasterDataDialogComponent, MasterDataDialogData } from './master-data-dialog.component';
+import { CategoryDto, MasterBillingCycle, MasterCurrency, MasterPrivilegeType, Privilege, SubscriptionPlanDto } from '../../models/subscription.models';
+import {
+  AuditFieldChange,
+  AuditLogDto,
+  ExchangeRateDto,
+  MASTER_DATA_AUDIT_TABLES,
+  MASTER_DATA_LABELS,
+  MasterDataKind,
+  MasterDataRecord,
+  REPORTING_CURRENCY_CODE,
+  SaveBillingCycleDto,
+  SaveCategoryDto,
+  SaveCurrencyDto,
+  SaveMasterDataDto,
+  SavePrivilegeTypeDto
+} from '../../models/master-data.models';
+
+interface AuditEntryView {
+  log: AuditLogDto;
+  recordId: string | null;
+  changes: AuditFieldChange[];
+}
+
+// A currency's saved rate and the rate being typed in for it
+interface ExchangeRateView {
+  exchangeRate: ExchangeRateDto;
+  draft: number | null;
+}
+
+// Columns the audit trail leaves out, since every change touches them
+const AUDIT_HIDDEN_COLUMNS = ['CreatedBy', 'CreatedDate', 'UpdatedBy', 'UpdatedDate'];
+
+@Component({
+  selector: 'app-master-data',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatButtonModule,
+    MatCardModule,
+    MatChipsModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatSnackBarModule,
+    MatTableModule,
+    MatTabsModule,
+    MatTooltipModule
+  ],
+  templateUrl: './master-data.component.html',
+  styleUrls: ['./master-data.component.scss']
+})
+export class MasterDataComponent implements OnInit {
+  private masterDataService = inject(MasterDataService);
+  private masterDataStore = inject(MasterDataStoreService);
+  private subscriptionService = inject(SubscriptionService);
+  private userService = inject(UserService);
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+
+  readonly kinds: MasterDataKind[] = ['billingCycles', 'currencies', 'privilegeTypes', 'categories'];
+  readonly labels = MASTER_DATA_LABELS;
+  readonly recordColumns = ['name', 'details', 'status', 'actions'];
+  readonly exchangeRateColumns = ['currency', 'rate', 'updated', 'actions'];
+  readonly reportingCurrencyCode = REPORTING_CURRENCY_CODE;
+
+  selectedTab = 0;
+
+  records: Record<MasterDataKind, MasterDataRecord[]> = { billingCycles: [], currencies: [], privilegeTypes: [], categories: [] };
+  loading: Record<MasterDataKind, boolean> = { billingCycles: false, currencies: false, privilegeTypes: false, categories: false };
+  errors: Record<MasterDataKind, string | null> = { billingCycles: null, currencies: null, privilegeTypes: null, categories: null };
+  // The record a change is being saved for
+  busyId: string | null = null;
+
+  // Active plans and privileges, to show which records are in use and cannot be deactivated
+  activePlans: SubscriptionPlanDto[] = [];
+  activePrivileges: Privilege[] = [];
+  usageLoaded = false;
+
+  auditKind: MasterDataKind = 'billingCycles';
+  auditRecordId: string | null = null;
+  auditEntries: AuditEntryView[] = [];
+  auditLoading = false;
+  auditError: string | null = null;
+
+  // Every currency but the reporting one, which the rates are expressed in
+  exchangeRates: ExchangeRateView[] = [];
+  exchangeRatesLoading = false;
+  exchangeRatesError: string | null = null;
+  private userNames = new Map<number, string>();
+
+  ngOnInit() {
+    this.kinds.forEach(kind => this.loadRecords(kind));
+    this.loadUsage();
+    this.loadExchangeRates();
+  }
+
+  get auditTabIndex(): number {
+    return this.kinds.length;
+  }
+
+  get filteredAuditEntries(): AuditEntryView[] {
+    if (!this.auditRecordId) return this.auditEntries;
+    return this.auditEntries.filter(entry => entry.recordId === this.auditRecordId);
+  }
+
+  onTabChange(index: number) {
+    this.selectedTab = index;
+    if (index === this.auditTabIndex && this.auditEntries.length === 0 && !this.auditLoading) {
+      this.loadAuditTrail();
+    }
+  }
+
+  /**
+   * Deleted categories are gone for good; the other lists keep deleted records so they can be restored
+   */
+  canRestore(kind: MasterDataKind): boolean {
+    return kind !== 'categories';
+  }
+
+  isDeleted(record: MasterDataRecord): boolean {
+    return 'isDeleted' in record && record.isDeleted;
+  }
+
+  getDetails(kind: MasterDataKind, record: MasterDataRecord): string {
+    const value = record as MasterDataRecord & Record<string, any>;
+    switch (kind) {
+      case 'billingCycles':
+        return `${value['durationInDays']} day(s)`;
+      case 'currencies':
+        return [value['code'], value['symbol']].filter(Boolean).join(' · ');
+      default:
+        return value['description'] || '—';
+    }
+  }
+
+  /**
+   * Names of the active plans, or for privilege types the active privileges, that use a record.
+   * The API refuses to deactivate a billing cycle, currency or privilege type while this is not empty.
+   */
+  getUsage(kind: MasterDataKind, record: MasterDataRecord): string[] {
+    switch (kind) {
+      case 'billingCycles':
+        return this.activePlans.filter(plan => plan.billingCycleId === record.id).map(plan => plan.name);
+      case 'currencies':
+        return this.activePlans
+          .filter(plan => plan.currencyId === record.id || plan.currencyPrices?.some(price => price.currencyId === record.id))
+          .map(plan => plan.name);
+      case 'privilegeTypes':
+        return this.activePrivileges.filter(privilege => privilege.privilegeTypeId === record.id).map(privilege => privilege.name);
+      case 'categories':
+        return this.activePlans.filter(plan => plan.categoryId === record.id).map(plan => plan.name);
+    }
+  }
+
+  getUsageLabel(kind: MasterDataKind): string {
+    return kind === 'privilegeTypes' ? 'active privilege(s)' : 'active plan(s)';
+  }
+
+  /**
+   * Categories may be deactivated while plans use them; the other lists may not
+   */
+  canDeactivate(kind: MasterDataKind, record: MasterDataRecord): boolean {
+    return kind === 'categories' || this.getUsage(kind, record).length === 0;
+  }
+
+  getToggleTooltip(kind: MasterDataKind, record: MasterDataRecord): string {
+    if (!record.isActive) return 'Activate';
+    if (this.canDeactivate(kind, record)) return 'Deactivate';
+    return `Used by ${this.getUsage(kind, record).join(', ')}`;
+  }
+
+  loadRecords(kind: MasterDataKind) {
+    this.loading[kind] = true;
+    this.errors[kind] = null;
+    this.getAllRequest(kind).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.records[kind] = (response.data || []).sort((a, b) => a.sortOrder - b.sortOrder);
+        } else {
+          this.records[kind] = [];
+          this.errors[kind] = response.message || `Failed to load ${this.labels[kind].plural.toLowerCase()}`;
+        }
+        this.loading[kind] = false;
+      },
+      error: (error) => {
+        console.error(`Error loading ${this.labels[kind].plural.toLowerCase()}:`, error);
+        this.records[kind] = [];
+        this.errors[kind] = error.message || `Failed to load ${this.labels[kind].plural.toLowerCase()}`;
+        this.loading[kind] = false;
+      }
+    });
+  }
+
+  openCreateDialog(kind: MasterDataKind) {
+    const dialogData: MasterDataDialogData = {
+      kind,
+      record: null,
+      sortOrder: this.records[kind].reduce((max, record) => Math.max(max, record.sortOrder), 0) + 1
+    };
+    this.dialog.open(MasterDataDialogComponent, { width: '560px', data: dialogData })
+      .afterClosed()
+      .subscribe((result?: SaveMasterDataDto) => {
+        if (!result) return;
+        this.runChange(kind, null, this.createRequest(kind, result), `${result.name} created`, 'create');
+      });
+  }
+
+  editRecord(kind: MasterDataKind, record: MasterDataRecord) {
+    const dialogData: MasterDataDialogData = { kind, record, sortOrder: record.sortOrder };
+    this.dialog.open(MasterDataDialogComponent, { width: '560px', data: dialogData })
+      .afterClosed()
+      .subscribe((result?: SaveMasterDataDto) => {
+        if (!result) return;
+        this.runChange(kind, record, this.updateRequest(kind, record.id, result), `${result.name} updated`, 'update');
+      });
+  }
+
+  toggleActive(kind: MasterDataKind, record: MasterDataRecord) {
+    const isActive = !record.isActive;
+    const message = `${record.name} ${isActive ? 'activated' : 'deactivated'}`;
+    this.runChange(kind, record, this.updateRequest(kind, record.id, this.toSaveDto(kind, record, isActive)), message, 'update');
+  }
+
+  deleteRecord(kind: MasterDataKind, record: MasterDataRecord) {
+    const label = this.labels[kind].singular;
+    const dialogData: ConfirmationDialogData = {
+      title: `Delete ${label}`,
+      message: this.canRestore(kind)
+        ? `Delete ${record.name}? It stays on records that already use it and can be restored from this list.`
+        : `Delete ${record.name}? It is removed from the list and cannot be restored from here.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      type: 'danger'
+    };
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData })
+      .afterClosed()
+      .subscribe(confirmed => {
+        if (!confirmed) return;
+        this.runChange(kind, record, this.deleteRequest(kind, record.id), `${record.name} deleted`, 'delete');
+      });
+  }
+
+  restoreRecord(kind: MasterDataKind, record: MasterDataRecord) {
+    if (kind === 'categories') return;
+    this.runChange(kind, record, this.restoreRequest(kind, record.id), `${record.name} restored`, 'restore');
+  }
+
+  viewHistory(kind: MasterDataKind, record: MasterDataRecord) {
+    const reload = this.auditKind !== kind || this.auditEntries.length === 0;
+    this.auditKind = kind;
+    this.auditRecordId = record.id;
+    this.selectedTab = this.auditTabIndex;
+    if (reload) {
+      this.loadAuditTrail();
+    }
+  }
+
+  onAuditKindChange() {
+    this.auditRecordId = null;
+    this.loadAuditTrail();
+  }
+
+  loadAuditTrail() {
+    const kind = this.auditKind;
+    this.auditLoading = true;
+    this.auditError = null;
+    // Filtered here rather than by entityId, because the log keys records by their JSON primary key
+    this.masterDataService.getAuditLogs(MASTER_DATA_AUDIT_TABLES[kind]).subscribe({
+      next: (response) => {
+        if (this.auditKind !== kind) return;
+        if (response.statusCode === 200) {
+          this.auditEntries = (response.data || [])
+            .sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime())
+            .map(log => ({
+              log,
+              recordId: this.masterDataService.getAuditRecordId(log),
+              changes: this.masterDataService.getAuditChanges(log)
+                .filter(change => !AUDIT_HIDDEN_COLUMNS.includes(change.column))
+            }));
+          this.loadUserNames(this.auditEntries.map(entry => entry.log.userId));
+        } else {
+          this.auditEntries = [];
+          this.auditError = response.message || 'Failed to load the audit trail';
+        }
+        this.auditLoading = false;
+      },
+      error: (error) => {
+        console.error('Error loading audit trail:', error);
+        if (this.auditKind !== kind) return;
+        this.auditEntries = [];
+        this.auditError = error.message || 'Failed to load the audit trail';
+        this.auditLoading = false;
+      }
+    });
+  }
+
+  loadExchangeRates() {
+    this.exchangeRatesLoading = true;
+    this.exchangeRatesError = null;
+    this.masterDataService.getExchangeRates().subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.exchangeRates = (response.data || [])
+            .filter(exchangeRate => !exchangeRate.isReportingCurrency)
+            .map(exchangeRate => ({ exchangeRate, draft: exchangeRate.rate ?? null }));
+          this.loadUserNames(this.exchangeRates.map(view => view.exchangeRate.updatedBy));
+        } else {
+          this.exchangeRates = [];
+          this.exchangeRatesError = response.message || 'Failed to load exchange rates';
+        }
+        this.exchangeRatesLoading = false;
+      },
+      error: (error) => {
+        console.error('Error loading exchange rates:', error);
+        this.exchangeRates = [];
+        this.exchangeRatesError = error.message || 'Failed to load exchange rates';
+        this.exchangeRatesLoading = false;
+      }
+    });
+  }
+
+  isRateChanged(view: ExchangeRateView): boolean {
+    return !!view.draft && view.draft > 0 && view.draft !== view.exchangeRate.rate;
+  }
+
+  saveExchangeRate(view: ExchangeRateView) {
+    const { currencyId, currencyCode } = view.exchangeRate;
+    if (!currencyId || !view.draft || view.draft <= 0) return;
+
+    this.busyId = currencyId;
+    this.masterDataService.saveExchangeRate(currencyId, { rate: view.draft }).subscribe({
+      next: (response) => {
+        this.busyId = null;
+        if (response.statusCode === 200) {
+          this.snackBar.open(`Exchange rate for ${currencyCode} saved`, 'Close', { duration: 3000 });
+          this.loadExchangeRates();
+        } else {
+          this.snackBar.open(response.message || 'Failed to save exchange rate', 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error('Error saving exchange rate:', error);
+        this.busyId = null;
+        this.snackBar.open('Error saving exchange rate', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  getRecordName(kind: MasterDataKind, recordId: string | null): string {
+    if (!recordId) return '—';
+    return this.records[kind].find(record => record.id === recordId)?.name ?? recordId;
+  }
+
+  getUserName(userId?: number | null): string {
+    if (!userId) return 'System';
+    return this.userNames.get(userId) ?? `User #${userId}`;
+  }
+
+  getActionColor(type: string): string {
+    if (type === 'Create') return 'primary';
+    if (type === 'Delete') return 'warn';
+    return '';
+  }
+
+  formatAuditValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  }
+
+  private loadUsage() {
+    forkJoin({
+      plans: this.subscriptionService.getAllPlans(1, 500, undefined, undefined, true),
+      privileges: this.masterDataStore.load('privileges', true)
+    }).subscribe({
+      next: ({ plans, privileges }) => {
+        if (plans.statusCode === 200) {
+          this.activePlans = (plans.data || []).filter(plan => plan.isActive);
+          this.activePrivileges = privileges.filter(privilege => privilege.isActive && !privilege.isDeleted);
+          this.usageLoaded = true;
+        }
+      },
+      error: (error) => {
+        console.error('Error loading master data usage:', error);
+      }
+    });
+  }
+
+  private runChange(
+    kind: MasterDataKind,
+    record: MasterDataRecord | null,
+    request: Observable<ApiResponse<unknown>>,
+    successMessage: string,
+    verb: string
+  ) {
+    const label = this.labels[kind].singular;
+    this.busyId = record?.id ?? null;
+    request.subscribe({
+      next: (response) => {
+        this.busyId = null;
+        if (response.statusCode === 200) {
+          this.snackBar.open(successMessage, 'Close', { duration: 3000 });
+          this.masterDataStore.invalidate(kind);
+          this.loadRecords(kind);
+          if (this.auditKind === kind && this.auditEntries.length > 0) {
+            this.loadAuditTrail();
+          }
+        } else {
+          this.snackBar.open(response.message || `Failed to ${verb} ${label}`, 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error(`Error trying to ${verb} ${label}:`, error);
+        this.busyId = null;
+        this.snackBar.open(`Error trying to ${verb} ${label}`, 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  /**
+   * The saved values of a record with only its active flag changed
+   */
+  private toSaveDto(kind: MasterDataKind, record: MasterDataRecord, isActive: boolean): SaveMasterDataDto {
+    switch (kind) {
+      case 'billingCycles': {
+        const billingCycle = record as MasterBillingCycle;
+        return {
+          name: billingCycle.name,
+          description: billingCycle.description,
+          durationInDays: billingCycle.durationInDays,
+          sortOrder: billingCycle.sortOrder,
+          isActive
+        };
+      }
+      case 'currencies': {
+        const currency = record as MasterCurrency;
+        return { code: currency.code, name: currency.name, symbol: currency.symbol, sortOrder: currency.sortOrder, isActive };
+      }
+      case 'privilegeTypes': {
+        const privilegeType = record as MasterPrivilegeType;
+        return { name: privilegeType.name, description: privilegeType.description, sortOrder: privilegeType.sortOrder, isActive };
+      }
+      case 'categories': {
+        const category = record as CategoryDto;
+        return {
+          name: category.name,
+          description: category.description,
+          sortOrder: category.sortOrder,
+          isActive,
+          isMostPopular: category.isMostPopular,
+          isTrending: category.isTrending
+        };
+      }
+    }
+  }
+
+  private createRequest(kind: MasterDataKind, dto: SaveMasterDataDto): Observable<ApiResponse<unknown>> {
+    switch (kind) {
+      case 'billingCycles': return this.masterDataService.createBillingCycle(dto as SaveBillingCycleDto);
+      case 'currencies': return this.masterDataService.createCurrency(dto as SaveCurrencyDto);
+      case 'privilegeTypes': return this.masterDataService.createPrivilegeType(dto as SavePrivilegeTypeDto);
+      case 'categories': return this.masterDataService.createCategory(dto as SaveCategoryDto);
+    }
+  }
+
+  private updateRequest(kind: MasterDataKind, id: string, dto: SaveMasterDataDto): Observable<ApiResponse<unknown>> {
+    switch (kind) {
+      case 'billingCycles': return this.masterDataService.updateBillingCycle(id, dto as SaveBillingCycleDto);
+      case 'currencies': return this.masterDataService.updateCurrency(id, dto as SaveCurrencyDto);
+      case 'privilegeTypes': return this.masterDataService.updatePrivilegeType(id, dto as SavePrivilegeTypeDto);
+      case 'categories': return this.masterDataService.updateCategory(id, dto as SaveCategoryDto);
+    }
+  }
+
+  private deleteRequest(kind: MasterDataKind, id: string): Observable<ApiResponse<unknown>> {
+    switch (kind) {
+      case 'billingCycles': return this.masterDataService.deleteBillingCycle(id);
+      case 'currencies': return this.masterDataService.deleteCurrency(id);
+      case 'privilegeTypes': return this.masterDataService.deletePrivilegeType(id);
+      case 'categories': return this.masterDataService.deleteCategory(id);
+    }
+  }
+
+  private restoreRequest(kind: Exclude<MasterDataKind, 'categories'>, id: string): Observable<ApiResponse<unknown>> {
+    switch (kind) {
+      case 'billingCycles': return this.masterDataService.restoreBillingCycle(id);
+      case 'currencies': return this.masterDataService.restoreCurrency(id);
+      case 'privilegeTypes': return this.masterDataService.restorePrivilegeType(id);
+    }
+  }
+
+  private loadUserNames(userIds: (number | null | undefined)[]) {
+    const missing = [...new Set(userIds)].filter((id): id is number => !!id && !this.userNames.has(id));
+    if (missing.length === 0) return;
+
+    forkJoin(missing.map(id => this.userService.getUser(id).pipe(catchError(() => of(null))))).subscribe(responses => {
+      responses.forEach((response, index) => {
+        if (response?.statusCode === 200 && response.data) {
+          this.userNames.set(missing[index], response.data.fullName || response.data.email);
+        }
+      });
+    });
+  }
+
+  private getAllRequest(kind: MasterDataKind): Observable<ApiResponse<MasterDataRecord[]>> {
+    switch (kind) {
+      case 'billingCycles': return this.masterDataService.getAllBillingCycles();
+      case 'currencies': return this.masterDataService.getAllCurrencies();
+      case 'privilegeTypes': return this.masterDataService.getAllPrivilegeTypes();
+      case 'categories': return this.masterDataService.getAllCategories();
+    }
+  }
+}
@@ -0,0 +1,333 @@
+import { Component, Inject, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { SubscriptionService } from '../../services/subscription.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import {
+  MasterCurrency,
+  PlanCycleOption,
+  SubscriptionDto,
+  SubscriptionPlanDto
+} from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface BillingCycleChangeDialogData {
+  subscription: SubscriptionDto;
+}
+
+export interface BillingCycleChangeDialogResult {
+  billingCycleId: string;
+  billingCycleName: string;
+}
+
+@Component({
+  selector: 'app-billing-cycle-change-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatChipsModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MoneyPipe
+  ],
+  template: `
+    <div class="billing-cycle-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>event_repeat</mat-icon>
+        <div>
+          <h2>Change Billing Cycle</h2>
+          <p>{{ data.subscription.userName }} · {{ data.subscription.planName }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="40"></mat-spinner>
+          <p>Loading billing cycles...</p>
+        </div>
+
+        <div *ngIf="!loading && error" class="panel-error">
+          <mat-icon>error_outline</mat-icon>
+          {{ error }}
+        </div>
+
+        <ng-container *ngIf="!loading && !error">
+          <div *ngIf="options.length < 2" class="empty-state">
+            <mat-icon>event_busy</mat-icon>
+            <p>{{ unavailableReason }}</p>
+          </div>
+
+          <div *ngIf="options.length >= 2" class="cycle-list">
+            <h3>Select a billing cycle</h3>
+            <div *ngFor="let option of options"
+                 class="cycle-option"
+                 [class.selected]="option.billingCycleId === selectedOption?.billingCycleId"
+                 [class.current]="option.billingCycleId === currentCycleId"
+                 (click)="selectOption(option)">
+              <div>
+                <strong>{{ option.billingCycleName }}</strong>
+                <span class="cycle-hint" *ngIf="option.billingCycleId === currentCycleId">Current cycle</span>
+                <span class="cycle-hint" *ngIf="option.billingCycleId !== currentCycleId">
+                  {{ option.monthlyEquivalent | money:currencyCode }} / month
+                </span>
+              </div>
+              <div class="cycle-price">
+                <mat-chip *ngIf="option.savingsPercent && option.savingsPercent > 0" highlighted color="primary">
+                  Save {{ option.savingsPercent | number:'1.0-0' }}%
+                </mat-chip>
+                {{ option.effectivePrice | money:currencyCode }}
+              </div>
+            </div>
+          </div>
+
+          <div *ngIf="selectedOption" class="change-note">
+            <mat-icon>info</mat-icon>
+            <span>
+              The current period is already paid for. From {{ data.subscription.nextBillingDate | date:'mediumDate' }}
+              the subscriber is billed {{ selectedOption.effectivePrice | money:currencyCode }}
+              {{ selectedOption.billingCycleName | lowercase }}.
+            </span>
+          </div>
+        </ng-container>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="!selectedOption">
+          Change Billing Cycle
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .billing-cycle-dialog {
+      min-width: 520px;
+      max-width: 720px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    h3 {
+      margin: 16px 0 8px 0;
+      font-size: 15px;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .cycle-list {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .cycle-option {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 16px;
+      padding: 12px 16px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      cursor: pointer;
+      transition: border-color 0.2s ease;
+    }
+
+    .cycle-option:hover {
+      border-color: #90caf9;
+    }
+
+    .cycle-option.selected {
+      border-color: #1976d2;
+      background: #e3f2fd;
+    }
+
+    .cycle-option.current {
+      cursor: default;
+      background: #fafafa;
+      border-style: dashed;
+    }
+
+    .cycle-hint {
+      display: block;
+      font-size: 13px;
+      color: #666;
+    }
+
+    .cycle-price {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      font-weight: 600;
+      white-space: nowrap;
+    }
+
+    .change-note {
+      display: flex;
+      align-items: flex-start;
+      gap: 8px;
+      margin-top: 16px;
+      padding: 12px 16px;
+      border-radius: 8px;
+      background: #e3f2fd;
+      color: #0d47a1;
+      font-size: 14px;
+    }
+
+    .loading-container,
+    .empty-state {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      padding: 32px;
+      color: #999;
+      text-align: center;
+    }
+
+    .panel-error {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 16px;
+      border-radius: 8px;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 600px) {
+      .billing-cycle-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class BillingCycleChangeDialogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+  private masterData = inject(MasterDataStoreService);
+
+  plan: SubscriptionPlanDto | null = null;
+  options: PlanCycleOption[] = [];
+  selectedOption: PlanCycleOption | null = null;
+  currencies: MasterCurrency[] = [];
+  unavailableReason = '';
+
+  loading = false;
+  error: string | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<BillingCycleChangeDialogComponent, BillingCycleChangeDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: BillingCycleChangeDialogData
+  ) {}
+
+  ngOnInit() {
+    this.loadOptions();
+  }
+
+  get currentCycleId(): string | undefined {
+    return this.data.subscription.billingCycleId || this.plan?.billingCycleId;
+  }
+
+  get currencyCode(): string {
+    const currencyId = this.data.subscription.currencyId || this.plan?.currencyId;
+    return this.currencies.find(c => c.id === currencyId)?.code || 'USD';
+  }
+
+  selectOption(option: PlanCycleOption) {
+    if (option.billingCycleId === this.currentCycleId) return;
+    this.selectedOption = option;
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (!this.selectedOption) return;
+    this.dialogRef.close({
+      billingCycleId: this.selectedOption.billingCycleId,
+      billingCycleName: this.selectedOption.billingCycleName
+    });
+  }
+
+  private loadOptions() {
+    this.loading = true;
+    this.error = null;
+
+    forkJoin({
+      plan: this.subscriptionService.getPlanById(this.data.subscription.planId),
+      billingCycles: this.masterData.load('billingCycles'),
+      currencies: this.masterData.load('currencies')
+    }).subscribe({
+      next: ({ plan, billingCycles, currencies }) => {
+        this.currencies = currencies;
+
+        if (plan.statusCode !== 200 || !plan.data) {
+          this.error = plan.message || 'Failed to load the plan';
+          this.loading = false;
+          return;
+        }
+
+        this.plan = plan.data;
+        const currencyId = this.data.subscription.currencyId;
+        if (currencyId && currencyId !== plan.data.currencyId) {
+          // Other billing cycles are only priced in the plan's own currency
+          this.options = [];
+          this.unavailableReason = `${plan.data.name} only offers other billing cycles in ${plan.data.currencyName || 'its own currency'}.`;
+        } else {
+          this.options = this.subscriptionService.getCycleOptions(plan.data, billingCycles);
+          this.unavailableReason = `${plan.data.name} is only offered on one billing cycle.`;
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading billing cycles:', error);
+        this.error = error.message || 'Failed to load billing cycles';
+        this.loading = false;
+      }
+    });
+  }
+}
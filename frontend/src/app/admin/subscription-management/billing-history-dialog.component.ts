@@ -0,0 +1,583 @@
+import { Component, Inject, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialog, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Observable } from 'rxjs';
+import { SubscriptionService } from '../../services/subscription.service';
+import { ApiResponse } from '../../services/common.service';
+import { ConfirmationDialogComponent, ConfirmationDialogData } from './confirmation-dialog.component';
+import { RefundDialogComponent, RefundDialogData } from './refund-dialog.component';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import {
+  BillingAdjustmentDto,
+  BillingRecordDto,
+  RefundBillingRecordDto,
+  SubscriptionDto
+} from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface BillingHistoryDialogData {
+  subscription: SubscriptionDto;
+}
+
+const STRIPE_DASHBOARD_URL = 'https://dashboard.stripe.com';
+
+@Component({
+  selector: 'app-billing-history-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatExpansionModule,
+    MatMenuModule,
+    MatDividerModule,
+    MatProgressSpinnerModule,
+    HasPermissionDirective,
+    MoneyPipe
+  ],
+  template: `
+    <div class="billing-history-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <div class="header-info">
+          <mat-icon>receipt_long</mat-icon>
+          <div>
+            <h2>Billing History</h2>
+            <p>{{ data.subscription.userName }} · {{ data.subscription.planName }}</p>
+          </div>
+        </div>
+        <button mat-icon-button (click)="onClose()">
+          <mat-icon>close</mat-icon>
+        </button>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="40"></mat-spinner>
+          <p>Loading billing history...</p>
+        </div>
+
+        <div *ngIf="!loading && records.length === 0" class="empty-state">
+          <mat-icon>receipt_long</mat-icon>
+          <h3>No Billing Records</h3>
+          <p>No invoices have been issued for this subscription yet.</p>
+        </div>
+
+        <mat-accordion *ngIf="!loading && records.length > 0" multi>
+          <mat-expansion-panel *ngFor="let record of records" (opened)="loadAdjustments(record)">
+            <mat-expansion-panel-header>
+              <mat-panel-title>
+                <span class="invoice-date">{{ record.billingDate | date:'mediumDate' }}</span>
+                <span class="invoice-amount">{{ record.amount | money:record.currency }}</span>
+              </mat-panel-title>
+              <mat-panel-description>
+                <mat-chip [color]="getBillingStatusColor(record.status)">{{ record.status }}</mat-chip>
+                <span class="refunded" *ngIf="record.refundAmount">
+                  {{ record.refundAmount | money:record.currency }} refunded
+                </span>
+                <span class="spacer"></span>
+                <span *ngIf="actionInProgress === record.id" class="action-spinner">
+                  <mat-spinner diameter="20"></mat-spinner>
+                </span>
+                <button mat-icon-button [matMenuTriggerFor]="recordMenu" (click)="$event.stopPropagation()"
+                        [disabled]="actionInProgress === record.id">
+                  <mat-icon>more_vert</mat-icon>
+                </button>
+                <mat-menu #recordMenu="matMenu">
+                  <button mat-menu-item *appHasPermission="'billing.manage'" (click)="retryPayment(record)" [disabled]="!canRetry(record)">
+                    <mat-icon>replay</mat-icon>
+                    Retry Payment
+                  </button>
+                  <button mat-menu-item *appHasPermission="'billing.manage'" (click)="markAsPaid(record)" [disabled]="!canMarkPaid(record)">
+                    <mat-icon>price_check</mat-icon>
+                    Mark as Paid Offline
+                  </button>
+                  <button mat-menu-item *appHasPermission="'refunds.issue'; mode: 'disable'" (click)="issueRefund(record)" [disabled]="!canRefund(record)">
+                    <mat-icon>undo</mat-icon>
+                    Issue Refund
+                  </button>
+                  <ng-container *ngIf="record.stripeInvoiceId">
+                    <mat-divider></mat-divider>
+                    <a mat-menu-item [href]="getStripeInvoiceUrl(record)" target="_blank" rel="noopener">
+                      <mat-icon>open_in_new</mat-icon>
+                      View in Stripe
+                    </a>
+                  </ng-container>
+                </mat-menu>
+              </mat-panel-description>
+            </mat-expansion-panel-header>
+
+            <div class="invoice-detail">
+              <div class="invoice-meta">
+                <div><span class="label">Due</span> {{ record.dueDate | date:'mediumDate' }}</div>
+                <div><span class="label">Paid</span> {{ record.paidDate ? (record.paidDate | date:'mediumDate') : 'Unpaid' }}</div>
+                <div *ngIf="record.stripeInvoiceId">
+                  <span class="label">Stripe invoice</span>
+                  <a [href]="getStripeInvoiceUrl(record)" target="_blank" rel="noopener">{{ record.stripeInvoiceId }}</a>
+                </div>
+              </div>
+
+              <h4>Invoice</h4>
+              <table class="detail-table">
+                <tbody>
+                  <tr *ngFor="let item of record.lineItems">
+                    <td>
+                      {{ item.description }}
+                      <span class="muted" *ngIf="item.quantity > 1">× {{ item.quantity }}</span>
+                      <span class="period" *ngIf="item.periodStart && item.periodEnd">
+                        {{ item.periodStart | date:'mediumDate' }} – {{ item.periodEnd | date:'mediumDate' }}
+                      </span>
+                    </td>
+                    <td class="amount">{{ item.amount | money:record.currency }}</td>
+                  </tr>
+                  <tr *ngIf="!record.lineItems?.length">
+                    <td [class.muted]="!record.description">{{ record.description || 'No line item detail available' }}</td>
+                    <td></td>
+                  </tr>
+                  <tr class="subtotal">
+                    <td>Subtotal</td>
+                    <td class="amount">{{ getSubtotal(record) | money:record.currency }}</td>
+                  </tr>
+                  <tr *ngIf="record.discountAmount" class="negative">
+                    <td>Discounts</td>
+                    <td class="amount">{{ -record.discountAmount | money:record.currency }}</td>
+                  </tr>
+                  <tr *ngIf="adjustmentsLoading.has(record.id)">
+                    <td class="muted">Loading adjustments...</td>
+                    <td></td>
+                  </tr>
+                  <tr *ngFor="let adjustment of adjustments.get(record.id)" [class.negative]="adjustment.amount < 0">
+                    <td>
+                      {{ adjustment.reason }}
+                      <span class="period">
+                        {{ adjustment.adjustmentType | titlecase }} · {{ adjustment.appliedAt | date:'mediumDate' }}
+                        <ng-container *ngIf="adjustment.appliedBy"> · {{ adjustment.appliedBy }}</ng-container>
+                      </span>
+                    </td>
+                    <td class="amount">
+                      {{ adjustment.isPercentage ? (adjustment.amount + '%') : (adjustment.amount | money:record.currency) }}
+                    </td>
+                  </tr>
+                  <tr *ngIf="record.taxAmount">
+                    <td>Tax</td>
+                    <td class="amount">{{ record.taxAmount | money:record.currency }}</td>
+                  </tr>
+                </tbody>
+                <tfoot>
+                  <tr class="total">
+                    <td>Total</td>
+                    <td class="amount">{{ record.amount | money:record.currency }}</td>
+                  </tr>
+                </tfoot>
+              </table>
+
+              <h4>Payment Attempts</h4>
+              <div *ngIf="!record.payments?.length" class="muted">No payment attempts recorded</div>
+              <div class="failure" *ngIf="!record.payments?.length && record.failureReason">{{ record.failureReason }}</div>
+              <div *ngFor="let payment of record.payments" class="payment-attempt" [class.failed]="isFailed(payment.status)">
+                <mat-icon>{{ isFailed(payment.status) ? 'error_outline' : 'check_circle' }}</mat-icon>
+                <div class="payment-info">
+                  <div>
+                    <strong>{{ payment.amount | money:payment.currency }}</strong>
+                    via {{ payment.paymentMethod }}
+                    <span class="muted">· {{ payment.paymentDate | date:'medium' }}</span>
+                    <span class="muted" *ngIf="payment.attemptNumber">· attempt {{ payment.attemptNumber }}</span>
+                  </div>
+                  <div class="failure" *ngIf="payment.failureReason">{{ payment.failureReason }}</div>
+                  <div class="muted" *ngIf="payment.transactionId">Transaction {{ payment.transactionId }}</div>
+                </div>
+                <mat-chip [color]="getBillingStatusColor(payment.status)">{{ payment.status }}</mat-chip>
+                <a *ngIf="payment.stripePaymentIntentId" mat-icon-button [href]="getStripePaymentUrl(payment.stripePaymentIntentId)"
+                   target="_blank" rel="noopener" title="View payment in Stripe">
+                  <mat-icon>open_in_new</mat-icon>
+                </a>
+              </div>
+
+            </div>
+          </mat-expansion-panel>
+        </mat-accordion>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .billing-history-dialog {
+      min-width: 640px;
+    }
+
+    .dialog-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 16px 24px;
+      margin: 0;
+      border-bottom: 1px solid #e0e0e0;
+    }
+
+    .header-info {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+    }
+
+    .header-info mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .header-info h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .header-info p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 16px 24px 24px 24px;
+      max-height: 75vh;
+    }
+
+    .loading-container {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      height: 200px;
+      gap: 16px;
+    }
+
+    .empty-state {
+      text-align: center;
+      padding: 48px 24px;
+      color: #666;
+    }
+
+    .empty-state mat-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+      color: #ccc;
+    }
+
+    mat-panel-title {
+      display: flex;
+      gap: 16px;
+      flex: 0 0 240px;
+    }
+
+    .invoice-amount {
+      font-weight: 600;
+    }
+
+    mat-panel-description {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-right: 0;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    .refunded {
+      font-size: 12px;
+      color: #d32f2f;
+    }
+
+    .action-spinner {
+      display: flex;
+    }
+
+    .invoice-meta {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 24px;
+      font-size: 14px;
+      margin-bottom: 8px;
+    }
+
+    .label {
+      color: #666;
+      margin-right: 4px;
+    }
+
+    h4 {
+      margin: 16px 0 8px 0;
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    .detail-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+
+    .detail-table td {
+      padding: 6px 0;
+      vertical-align: top;
+    }
+
+    .detail-table .amount {
+      text-align: right;
+      white-space: nowrap;
+      padding-left: 16px;
+    }
+
+    .detail-table tr.negative .amount {
+      color: #2e7d32;
+    }
+
+    .detail-table tr.subtotal td {
+      border-top: 1px solid #f0f0f0;
+    }
+
+    .detail-table tr.total td {
+      border-top: 1px solid #e0e0e0;
+      padding-top: 8px;
+      font-weight: 600;
+    }
+
+    .period {
+      display: block;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .muted {
+      color: #999;
+      font-size: 13px;
+    }
+
+    .payment-attempt {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 8px 0;
+      border-bottom: 1px solid #f0f0f0;
+      font-size: 14px;
+    }
+
+    .payment-attempt > mat-icon {
+      color: #388e3c;
+    }
+
+    .payment-attempt.failed > mat-icon {
+      color: #d32f2f;
+    }
+
+    .payment-info {
+      flex: 1;
+    }
+
+    .failure {
+      color: #d32f2f;
+      font-size: 13px;
+    }
+
+    @media (max-width: 768px) {
+      .billing-history-dialog {
+        min-width: auto;
+      }
+
+      mat-panel-title {
+        flex-basis: auto;
+      }
+    }
+  `]
+})
+export class BillingHistoryDialogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+
+  records: BillingRecordDto[] = [];
+  loading = false;
+
+  // Adjustments come from a separate endpoint, loaded when an invoice is expanded
+  adjustments = new Map<string, BillingAdjustmentDto[]>();
+  adjustmentsLoading = new Set<string>();
+  actionInProgress: string | null = null;
+
+  // Lets the caller reload subscriptions once billing state has changed
+  private changed = false;
+
+  constructor(
+    public dialogRef: MatDialogRef<BillingHistoryDialogComponent, 'refresh' | undefined>,
+    @Inject(MAT_DIALOG_DATA) public data: BillingHistoryDialogData
+  ) {}
+
+  ngOnInit() {
+    this.loadBillingHistory();
+  }
+
+  getSubtotal(record: BillingRecordDto): number {
+    if (record.subtotal !== undefined && record.subtotal !== null) return record.subtotal;
+    if (record.lineItems?.length) return record.lineItems.reduce((total, item) => total + item.amount, 0);
+    return record.amount;
+  }
+
+  getRefundable(record: BillingRecordDto): number {
+    return Math.max(0, record.amount - (record.refundAmount ?? 0));
+  }
+
+  canRetry(record: BillingRecordDto): boolean {
+    return ['failed', 'overdue'].includes(record.status?.toLowerCase());
+  }
+
+  canMarkPaid(record: BillingRecordDto): boolean {
+    return ['pending', 'failed', 'overdue'].includes(record.status?.toLowerCase());
+  }
+
+  canRefund(record: BillingRecordDto): boolean {
+    return ['paid', 'partially_refunded'].includes(record.status?.toLowerCase()) && this.getRefundable(record) > 0;
+  }
+
+  isFailed(status: string): boolean {
+    return ['failed', 'declined'].includes(status?.toLowerCase());
+  }
+
+  getStripeInvoiceUrl(record: BillingRecordDto): string {
+    return `${STRIPE_DASHBOARD_URL}/invoices/${record.stripeInvoiceId}`;
+  }
+
+  getStripePaymentUrl(paymentIntentId: string): string {
+    return `${STRIPE_DASHBOARD_URL}/payments/${paymentIntentId}`;
+  }
+
+  getBillingStatusColor(status: string): 'primary' | 'accent' | 'warn' | undefined {
+    switch (status?.toLowerCase()) {
+      case 'paid':
+      case 'succeeded': return 'primary';
+      case 'pending':
+      case 'partially_refunded': return 'accent';
+      case 'failed':
+      case 'declined':
+      case 'overdue': return 'warn';
+      default: return undefined;
+    }
+  }
+
+  retryPayment(record: BillingRecordDto) {
+    const dialogData: ConfirmationDialogData = {
+      title: 'Retry Payment',
+      message: `Charge ${this.data.subscription.userName}'s saved payment method again for this invoice?`,
+      confirmText: 'Retry Payment',
+      type: 'warning'
+    };
+
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData }).afterClosed().subscribe(confirmed => {
+      if (!confirmed) return;
+      this.runAction(record, this.subscriptionService.retryBillingPayment(record.id), 'Payment retried', 'Error retrying payment');
+    });
+  }
+
+  markAsPaid(record: BillingRecordDto) {
+    const dialogData: ConfirmationDialogData = {
+      title: 'Mark as Paid',
+      message: 'Mark this invoice as paid? Use this when the payment was collected outside Stripe.',
+      confirmText: 'Mark as Paid',
+      type: 'warning'
+    };
+
+    this.dialog.open(ConfirmationDialogComponent, { width: '500px', data: dialogData }).afterClosed().subscribe(confirmed => {
+      if (!confirmed) return;
+      this.runAction(record, this.subscriptionService.markBillingRecordPaid(record.id), 'Invoice marked as paid', 'Error marking invoice as paid');
+    });
+  }
+
+  loadAdjustments(record: BillingRecordDto) {
+    if (this.adjustments.has(record.id) || this.adjustmentsLoading.has(record.id)) return;
+
+    this.adjustmentsLoading.add(record.id);
+    this.subscriptionService.getBillingAdjustments(record.id).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.adjustments.set(record.id, response.data || []);
+        } else {
+          this.snackBar.open(response.message || 'Failed to load billing adjustments', 'Close', { duration: 5000 });
+        }
+        this.adjustmentsLoading.delete(record.id);
+      },
+      error: (error) => {
+        console.error('Error loading billing adjustments:', error);
+        this.snackBar.open('Error loading billing adjustments', 'Close', { duration: 3000 });
+        this.adjustmentsLoading.delete(record.id);
+      }
+    });
+  }
+
+  issueRefund(record: BillingRecordDto) {
+    const data: RefundDialogData = { record };
+    this.dialog.open(RefundDialogComponent, { width: '500px', data }).afterClosed().subscribe((refund?: RefundBillingRecordDto) => {
+      if (!refund) return;
+      this.runAction(record, this.subscriptionService.refundBillingRecord(record.id, refund), 'Refund issued', 'Error issuing refund');
+    });
+  }
+
+  onClose(): void {
+    this.dialogRef.close(this.changed ? 'refresh' : undefined);
+  }
+
+  private runAction(
+    record: BillingRecordDto,
+    request: Observable<ApiResponse<BillingRecordDto>>,
+    successMessage: string,
+    errorMessage: string
+  ) {
+    this.actionInProgress = record.id;
+    request.subscribe({
+      next: (response) => {
+        this.actionInProgress = null;
+        if (response.statusCode === 200) {
+          this.changed = true;
+          this.snackBar.open(successMessage, 'Close', { duration: 3000 });
+          this.loadBillingHistory();
+        } else {
+          this.snackBar.open(response.message || errorMessage, 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error(`${errorMessage}:`, error);
+        this.actionInProgress = null;
+        this.snackBar.open(errorMessage, 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  private loadBillingHistory() {
+    this.loading = true;
+    this.subscriptionService.getBillingHistory(this.data.subscription.id).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.records = response.data || [];
+          this.adjustments.clear();
+        } else {
+          this.snackBar.open(response.message || 'Failed to load billing history', 'Close', { duration: 5000 });
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading billing history:', error);
+        this.snackBar.open('Error loading billing history', 'Close', { duration: 3000 });
+        this.loading = false;
+      }
+    });
+  }
+}
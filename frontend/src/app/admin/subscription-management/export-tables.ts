@@ -0,0 +1,66 @@
+import { ExportTable, toExportDate } from '../../services/export.service';
+import { BillingRecordDto, MasterCurrency, SubscriptionDto, SubscriptionPlanDto } from '../../models/subscription.models';
+import { currencyCode } from '../../pipes/money.pipe';
+
+// Column layouts for the client-side exports of the subscription management tables
+
+export function buildSubscriptionsTable(rows: SubscriptionDto[], title = 'User Subscriptions', currencies: MasterCurrency[] = []): ExportTable<SubscriptionDto> {
+  return {
+    title,
+    rows,
+    columns: [
+      { header: 'Subscription ID', value: s => s.id },
+      { header: 'User ID', value: s => s.userId },
+      { header: 'User', value: s => s.userName },
+      { header: 'Plan', value: s => s.planName },
+      { header: 'Status', value: s => s.status },
+      { header: 'Price', value: s => s.currentPrice, currency: s => s.currencyId ? currencyCode(s.currencyId, currencies) : null },
+      { header: 'Auto Renew', value: s => s.autoRenew },
+      { header: 'Start Date', value: s => toExportDate(s.startDate) },
+      { header: 'Next Billing', value: s => toExportDate(s.nextBillingDate) },
+      { header: 'End Date', value: s => toExportDate(s.endDate) },
+      { header: 'Cancelled Date', value: s => toExportDate(s.cancelledDate) },
+      { header: 'Stripe Subscription', value: s => s.stripeSubscriptionId }
+    ]
+  };
+}
+
+export function buildPlansTable(rows: SubscriptionPlanDto[], title = 'Subscription Plans', currencies: MasterCurrency[] = []): ExportTable<SubscriptionPlanDto> {
+  return {
+    title,
+    rows,
+    columns: [
+      { header: 'Plan ID', value: p => p.id },
+      { header: 'Name', value: p => p.name },
+      { header: 'Category', value: p => p.categoryName },
+      { header: 'Price', value: p => p.price, currency: p => currencyCode(p.currencyId, currencies) },
+      { header: 'Discounted Price', value: p => p.discountedPrice, currency: p => currencyCode(p.currencyId, currencies) },
+      { header: 'Currency', value: p => p.currencyName },
+      { header: 'Billing Cycle', value: p => p.billingCycleName },
+      { header: 'Active', value: p => p.isActive },
+      { header: 'Trial Days', value: p => p.isTrialAllowed ? p.trialDurationInDays : 0 },
+      { header: 'Active Subscriptions', value: p => p.totalActiveSubscriptions },
+      { header: 'Display Order', value: p => p.displayOrder },
+      { header: 'Created', value: p => toExportDate(p.createdDate) }
+    ]
+  };
+}
+
+export function buildBillingTable(rows: BillingRecordDto[], title = 'Billing History'): ExportTable<BillingRecordDto> {
+  return {
+    title,
+    rows,
+    columns: [
+      { header: 'Record ID', value: b => b.id },
+      { header: 'Subscription ID', value: b => b.subscriptionId },
+      { header: 'Billing Date', value: b => toExportDate(b.billingDate) },
+      { header: 'Due Date', value: b => toExportDate(b.dueDate) },
+      { header: 'Paid Date', value: b => toExportDate(b.paidDate) },
+      { header: 'Amount', value: b => b.amount, currency: b => b.currency },
+      { header: 'Currency', value: b => b.currency },
+      { header: 'Status', value: b => b.status },
+      { header: 'Stripe Invoice', value: b => b.stripeInvoiceId },
+      { header: 'Description', value: b => b.description }
+    ]
+  };
+}
@@ -0,0 +1,295 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatSelectModule } from '@angular/material/select';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { EXTENSION_REASON_LABELS, ExtensionReasonCategory, SubscriptionDto } from '../../models/subscription.models';
+import { ApiRequestBody } from '../../api/api-contract';
+
+export interface ExtendSubscriptionDialogData {
+  subscription: SubscriptionDto;
+}
+
+export type ExtendSubscriptionDialogResult = ApiRequestBody<'POST /api/Subscriptions/admin/{id}/extend'>;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const MAX_EXTENSION_DAYS = 365;
+
+@Component({
+  selector: 'app-extend-subscription-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatRadioModule,
+    MatSelectModule,
+    MatDatepickerModule,
+    MatNativeDateModule
+  ],
+  template: `
+    <div class="extend-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>event_repeat</mat-icon>
+        <div>
+          <h2>Extend Subscription</h2>
+          <p>{{ data.subscription.userName }} · {{ data.subscription.planName }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <form [formGroup]="extendForm">
+          <mat-radio-group formControlName="mode" class="mode-options">
+            <mat-radio-button value="days">Extend by a number of days</mat-radio-button>
+            <mat-radio-button value="date">Choose a new end date</mat-radio-button>
+          </mat-radio-group>
+
+          <mat-form-field appearance="outline" class="full-width" *ngIf="extendForm.get('mode')?.value === 'days'">
+            <mat-label>Additional Days</mat-label>
+            <input matInput type="number" formControlName="additionalDays" min="1" [max]="maxDays">
+            <mat-error *ngIf="extendForm.get('additionalDays')?.hasError('required')">Number of days is required</mat-error>
+            <mat-error *ngIf="extendForm.get('additionalDays')?.hasError('min')">Extend by at least 1 day</mat-error>
+            <mat-error *ngIf="extendForm.get('additionalDays')?.hasError('max')">Extensions are limited to {{ maxDays }} days</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width" *ngIf="extendForm.get('mode')?.value === 'date'">
+            <mat-label>New End Date</mat-label>
+            <input matInput [matDatepicker]="picker" formControlName="newEndDate" [min]="minEndDate" [max]="maxEndDate">
+            <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+            <mat-datepicker #picker></mat-datepicker>
+            <mat-error *ngIf="extendForm.get('newEndDate')?.hasError('required')">Choose a new end date</mat-error>
+            <mat-error *ngIf="extendForm.get('newEndDate')?.hasError('matDatepickerMin')">The new end date must be after the current one</mat-error>
+            <mat-error *ngIf="extendForm.get('newEndDate')?.hasError('matDatepickerMax')">Extensions are limited to {{ maxDays }} days</mat-error>
+          </mat-form-field>
+
+          <div class="preview" *ngIf="extensionDays > 0">
+            <div class="preview-row">
+              <span>Current period end</span>
+              <span>{{ currentPeriodEnd | date:'mediumDate' }}</span>
+              <mat-icon>arrow_forward</mat-icon>
+              <strong>{{ newPeriodEnd | date:'mediumDate' }}</strong>
+            </div>
+            <div class="preview-row">
+              <span>Next billing date</span>
+              <span>{{ currentNextBilling | date:'mediumDate' }}</span>
+              <mat-icon>arrow_forward</mat-icon>
+              <strong>{{ newNextBilling | date:'mediumDate' }}</strong>
+            </div>
+            <p class="hint">{{ extensionDays }} free day{{ extensionDays === 1 ? '' : 's' }}; the patient is not charged for the extension.</p>
+          </div>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Reason</mat-label>
+            <mat-select formControlName="reasonCategory">
+              <mat-option *ngFor="let reason of reasonOptions" [value]="reason.value">{{ reason.label }}</mat-option>
+            </mat-select>
+            <mat-error *ngIf="extendForm.get('reasonCategory')?.hasError('required')">Reason is required</mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Notes</mat-label>
+            <textarea matInput formControlName="notes" rows="3" maxlength="1000"
+                      placeholder="What happened and who approved the extension"></textarea>
+            <mat-error *ngIf="extendForm.get('notes')?.hasError('required')">Notes are required</mat-error>
+            <mat-error *ngIf="extendForm.get('notes')?.hasError('minlength')">
+              Please provide more detail (at least 10 characters)
+            </mat-error>
+          </mat-form-field>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="extendForm.invalid || extensionDays < 1">
+          Extend by {{ extensionDays > 0 ? extensionDays : 0 }} day{{ extensionDays === 1 ? '' : 's' }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .extend-dialog {
+      min-width: 440px;
+      max-width: 600px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .mode-options {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .preview {
+      padding: 12px 16px;
+      margin-bottom: 16px;
+      background: #e3f2fd;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .preview-row {
+      display: grid;
+      grid-template-columns: 140px 1fr 24px 1fr;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 0;
+    }
+
+    .preview-row mat-icon {
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
+      color: #1976d2;
+    }
+
+    .hint {
+      margin: 8px 0 0 0;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .extend-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class ExtendSubscriptionDialogComponent {
+  extendForm: FormGroup;
+
+  readonly maxDays = MAX_EXTENSION_DAYS;
+  readonly reasonOptions = (Object.keys(EXTENSION_REASON_LABELS) as ExtensionReasonCategory[])
+    .map(value => ({ value, label: EXTENSION_REASON_LABELS[value] }));
+
+  readonly currentPeriodEnd: Date;
+  readonly currentNextBilling: Date;
+  readonly minEndDate: Date;
+  readonly maxEndDate: Date;
+
+  constructor(
+    public dialogRef: MatDialogRef<ExtendSubscriptionDialogComponent, ExtendSubscriptionDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: ExtendSubscriptionDialogData,
+    private fb: FormBuilder
+  ) {
+    const subscription = data.subscription;
+    this.currentPeriodEnd = new Date(subscription.currentPeriodEnd ?? subscription.nextBillingDate);
+    this.currentNextBilling = new Date(subscription.nextBillingDate ?? this.currentPeriodEnd);
+    this.minEndDate = this.addDays(this.currentPeriodEnd, 1);
+    this.maxEndDate = this.addDays(this.currentPeriodEnd, MAX_EXTENSION_DAYS);
+
+    this.extendForm = this.fb.group({
+      mode: ['days'],
+      additionalDays: [7, [Validators.required, Validators.min(1), Validators.max(MAX_EXTENSION_DAYS)]],
+      newEndDate: [this.addDays(this.currentPeriodEnd, 7), Validators.required],
+      reasonCategory: ['', Validators.required],
+      notes: ['', [Validators.required, Validators.minLength(10), Validators.maxLength(1000)]]
+    });
+
+    // Only the input for the selected mode takes part in validation
+    this.extendForm.get('newEndDate')?.disable();
+    this.extendForm.get('mode')?.valueChanges.subscribe(mode => {
+      const [active, inactive] = mode === 'date' ? ['newEndDate', 'additionalDays'] : ['additionalDays', 'newEndDate'];
+      this.extendForm.get(active)?.enable({ emitEvent: false });
+      this.extendForm.get(inactive)?.disable({ emitEvent: false });
+    });
+  }
+
+  get extensionDays(): number {
+    const { mode, additionalDays, newEndDate } = this.extendForm.value;
+    if (mode === 'date') {
+      return newEndDate ? this.daysBetween(this.currentPeriodEnd, new Date(newEndDate)) : 0;
+    }
+    return Math.floor(Number(additionalDays) || 0);
+  }
+
+  get newPeriodEnd(): Date {
+    return this.addDays(this.currentPeriodEnd, this.extensionDays);
+  }
+
+  get newNextBilling(): Date {
+    return this.addDays(this.currentNextBilling, this.extensionDays);
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.extendForm.invalid || this.extensionDays < 1) return;
+
+    const reasonCategory: ExtensionReasonCategory = this.extendForm.value.reasonCategory;
+    const notes: string = this.extendForm.value.notes;
+    this.dialogRef.close({
+      additionalDays: this.extensionDays,
+      reasonCategory: EXTENSION_REASON_LABELS[reasonCategory],
+      notes: notes.trim()
+    });
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private daysBetween(from: Date, to: Date): number {
+    const fromDay = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const toDay = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((toDay - fromDay) / DAY_IN_MS);
+  }
+}
@@ -0,0 +1,310 @@
+import { Component, Inject, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { SubscriptionService } from '../../services/subscription.service';
+import { SubscriptionDto, SubscriptionPlanDto } from '../../models/subscription.models';
+import { ApiRequestBody } from '../../api/api-contract';
+
+export interface PauseSubscriptionDialogData {
+  subscription: SubscriptionDto;
+}
+
+export type PauseSubscriptionDialogResult = ApiRequestBody<'POST /api/Subscriptions/admin/{id}/pause'>;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+@Component({
+  selector: 'app-pause-subscription-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    MatProgressSpinnerModule
+  ],
+  template: `
+    <div class="pause-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>pause_circle</mat-icon>
+        <div>
+          <h2>Pause Subscription</h2>
+          <p>{{ data.subscription.userName }} · {{ data.subscription.planName }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="32"></mat-spinner>
+          <p>Loading plan limits...</p>
+        </div>
+
+        <div *ngIf="!loading && error" class="message error">
+          <mat-icon>error_outline</mat-icon>
+          <span>{{ error }}</span>
+        </div>
+
+        <div *ngIf="!loading && !error && maxPauseDays < 1" class="message warning">
+          <mat-icon>block</mat-icon>
+          <span>The {{ plan?.name }} plan does not allow pausing.</span>
+        </div>
+
+        <form *ngIf="!loading && !error && maxPauseDays > 0" [formGroup]="pauseForm">
+          <div class="allowance">
+            <div class="allowance-row">
+              <span>Longest pause allowed by the {{ plan?.name }} plan</span>
+              <strong>{{ maxPauseDays }} days</strong>
+            </div>
+          </div>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Resume Date</mat-label>
+            <input matInput [matDatepicker]="picker" formControlName="resumeDate" [min]="minResumeDate" [max]="maxResumeDate">
+            <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+            <mat-datepicker #picker></mat-datepicker>
+            <mat-hint *ngIf="pauseDays > 0">Pauses for {{ pauseDays }} day{{ pauseDays === 1 ? '' : 's' }}</mat-hint>
+            <mat-error *ngIf="pauseForm.get('resumeDate')?.hasError('required')">Choose a resume date</mat-error>
+            <mat-error *ngIf="pauseForm.get('resumeDate')?.hasError('matDatepickerMin')">The resume date must be after today</mat-error>
+            <mat-error *ngIf="pauseForm.get('resumeDate')?.hasError('matDatepickerMax')">
+              Pauses are limited to {{ maxPauseDays }} day{{ maxPauseDays === 1 ? '' : 's' }} on this plan
+            </mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Reason</mat-label>
+            <textarea matInput formControlName="reason" rows="3"
+                      placeholder="Why is the subscription being paused?"></textarea>
+            <mat-error *ngIf="pauseForm.get('reason')?.hasError('required')">Reason is required</mat-error>
+            <mat-error *ngIf="pauseForm.get('reason')?.hasError('maxlength')">Reason must be 500 characters or fewer</mat-error>
+          </mat-form-field>
+
+          <p class="hint" *ngIf="pauseForm.get('resumeDate')?.valid">
+            Billing stops today and the subscription resumes automatically on
+            {{ pauseForm.get('resumeDate')?.value | date:'mediumDate' }}.
+          </p>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()"
+                [disabled]="loading || !!error || maxPauseDays < 1 || pauseForm.invalid">
+          Pause Subscription
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .pause-dialog {
+      min-width: 440px;
+      max-width: 600px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #f57c00;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .loading-container {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      padding: 24px;
+      color: #666;
+    }
+
+    .message {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 12px 16px;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .message.error {
+      background: #ffebee;
+      color: #c62828;
+    }
+
+    .message.warning {
+      background: #fff3e0;
+      color: #e65100;
+    }
+
+    .allowance {
+      padding: 12px 16px;
+      margin-bottom: 16px;
+      background: #fafafa;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .allowance-row {
+      display: flex;
+      justify-content: space-between;
+      padding: 4px 0;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .hint {
+      margin: 0;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .pause-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class PauseSubscriptionDialogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+
+  pauseForm: FormGroup;
+  plan: SubscriptionPlanDto | null = null;
+
+  readonly today = this.startOfDay(new Date());
+  readonly minResumeDate = this.addDays(this.today, 1);
+  maxResumeDate: Date | null = null;
+
+  loading = false;
+  error: string | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<PauseSubscriptionDialogComponent, PauseSubscriptionDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: PauseSubscriptionDialogData,
+    private fb: FormBuilder
+  ) {
+    this.pauseForm = this.fb.group({
+      resumeDate: [null, Validators.required],
+      reason: ['', [Validators.required, Validators.maxLength(500)]]
+    });
+  }
+
+  ngOnInit() {
+    this.loadPlan();
+  }
+
+  get maxPauseDays(): number {
+    return this.plan?.maxPauseDurationDays ?? 0;
+  }
+
+  get pauseDays(): number {
+    const resumeDate = this.pauseForm.get('resumeDate')?.value;
+    return resumeDate ? this.daysBetween(this.today, new Date(resumeDate)) : 0;
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.pauseForm.invalid || this.maxPauseDays < 1) return;
+
+    const resumeDate = new Date(this.pauseForm.value.resumeDate);
+    const reason: string = this.pauseForm.value.reason;
+    this.dialogRef.close({
+      resumeDate: this.toDateString(resumeDate),
+      reason: reason.trim()
+    });
+  }
+
+  private loadPlan() {
+    this.loading = true;
+    this.error = null;
+
+    this.subscriptionService.getPlanById(this.data.subscription.planId).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.plan = response.data;
+          this.maxResumeDate = this.addDays(this.today, this.maxPauseDays);
+          this.pauseForm.patchValue({ resumeDate: this.addDays(this.today, Math.min(30, this.maxPauseDays)) });
+        } else {
+          this.error = response.message || 'Failed to load the subscription plan';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading subscription plan:', error);
+        this.error = error.message || 'Failed to load the subscription plan';
+        this.loading = false;
+      }
+    });
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  // The backend stores the resume day, so send the picked calendar date rather than a UTC timestamp
+  private toDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private daysBetween(from: Date, to: Date): number {
+    const fromDay = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const toDay = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((toDay - fromDay) / DAY_IN_MS);
+  }
+}
@@ -0,0 +1,501 @@
+import { Component, Inject, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { SubscriptionService } from '../../services/subscription.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { ProrationService } from '../../services/proration.service';
+import { ProrationPreviewComponent } from './proration-preview.component';
+import {
+  MasterBillingCycle,
+  MasterCurrency,
+  PlanChangeDirection,
+  PlanPrivilegeDto,
+  ProrationResult,
+  SubscriptionDto,
+  SubscriptionPlanDto
+} from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface PlanChangeDialogData {
+  subscription: SubscriptionDto;
+  direction: PlanChangeDirection;
+}
+
+export interface PlanChangeDialogResult {
+  plan: SubscriptionPlanDto;
+}
+
+interface PrivilegeComparison {
+  name: string;
+  current: string;
+  target: string;
+  changed: boolean;
+}
+
+@Component({
+  selector: 'app-plan-change-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    ProrationPreviewComponent,
+    MoneyPipe
+  ],
+  template: `
+    <div class="plan-change-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>{{ data.direction === 'upgrade' ? 'upgrade' : 'downgrade' }}</mat-icon>
+        <div>
+          <h2>{{ data.direction === 'upgrade' ? 'Upgrade' : 'Downgrade' }} Plan</h2>
+          <p>{{ data.subscription.userName }} · currently on {{ data.subscription.planName }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="40"></mat-spinner>
+          <p>Loading eligible plans...</p>
+        </div>
+
+        <div *ngIf="!loading && error" class="panel-error">
+          <mat-icon>error_outline</mat-icon>
+          {{ error }}
+        </div>
+
+        <ng-container *ngIf="!loading && !error">
+          <div *ngIf="eligiblePlans.length === 0" class="empty-state">
+            <mat-icon>inventory_2</mat-icon>
+            <p>
+              No {{ data.direction === 'upgrade' ? 'higher' : 'lower' }} priced plans are available in the
+              {{ currentPlan?.categoryName || 'same' }} category with the same currency.
+            </p>
+          </div>
+
+          <div *ngIf="eligiblePlans.length > 0" class="plan-list">
+            <h3>Select a plan</h3>
+            <div *ngFor="let plan of eligiblePlans"
+                 class="plan-option"
+                 [class.selected]="plan.id === selectedPlan?.id"
+                 (click)="selectPlan(plan)">
+              <div>
+                <strong>{{ plan.name }}</strong>
+                <span class="plan-description">{{ plan.shortDescription || plan.description }}</span>
+              </div>
+              <div class="plan-price">
+                {{ getPlanPrice(plan) | money:currencyCode }}
+                <span>/ {{ getBillingCycleName(plan) }}</span>
+              </div>
+            </div>
+          </div>
+
+          <div *ngIf="selectedPlan && currentPlan" class="comparison">
+            <h3>Comparison</h3>
+            <table class="comparison-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Current · {{ currentPlan.name }}</th>
+                  <th>New · {{ selectedPlan.name }}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>Price</td>
+                  <td>{{ data.subscription.currentPrice | money:currencyCode }}</td>
+                  <td [class.changed]="getPlanPrice(selectedPlan) !== data.subscription.currentPrice">
+                    {{ getPlanPrice(selectedPlan) | money:currencyCode }}
+                    <span *ngIf="selectedPlan.hasActiveDiscount" class="hint">
+                      discounted from {{ selectedPlan.price | money:currencyCode }}
+                    </span>
+                  </td>
+                </tr>
+                <tr>
+                  <td>Billing cycle</td>
+                  <td>{{ getBillingCycleName(currentPlan) }}</td>
+                  <td [class.changed]="selectedPlan.billingCycleId !== currentPlan.billingCycleId">
+                    {{ getBillingCycleName(selectedPlan) }}
+                  </td>
+                </tr>
+                <tr *ngIf="privilegesLoading || privilegesError">
+                  <td>Privileges</td>
+                  <td colspan="2" class="hint">{{ privilegesLoading ? 'Loading privileges...' : privilegesError }}</td>
+                </tr>
+                <tr *ngFor="let privilege of privilegeComparison">
+                  <td>{{ privilege.name }}</td>
+                  <td>{{ privilege.current }}</td>
+                  <td [class.changed]="privilege.changed">{{ privilege.target }}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            <h3>Proration preview</h3>
+            <p class="hint">The new plan applies immediately; the rest of the current period is prorated.</p>
+            <app-proration-preview *ngIf="proration" [result]="proration" [currencyCode]="currencyCode"></app-proration-preview>
+            <p *ngIf="!proration" class="preview-unavailable">
+              The billing cycle for {{ selectedPlan.name }} is unknown, so no preview can be calculated.
+            </p>
+          </div>
+        </ng-container>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="!selectedPlan">
+          Confirm {{ data.direction === 'upgrade' ? 'Upgrade' : 'Downgrade' }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .plan-change-dialog {
+      min-width: 560px;
+      max-width: 860px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    h3 {
+      margin: 16px 0 8px 0;
+      font-size: 15px;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .plan-list {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .plan-option {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 16px;
+      padding: 12px 16px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      cursor: pointer;
+      transition: border-color 0.2s ease;
+    }
+
+    .plan-option:hover {
+      border-color: #90caf9;
+    }
+
+    .plan-option.selected {
+      border-color: #1976d2;
+      background: #e3f2fd;
+    }
+
+    .plan-description {
+      display: block;
+      font-size: 13px;
+      color: #666;
+    }
+
+    .plan-price {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+
+    .plan-price span {
+      font-weight: 400;
+      color: #666;
+      font-size: 13px;
+    }
+
+    .comparison-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+
+    .comparison-table th,
+    .comparison-table td {
+      padding: 8px;
+      text-align: left;
+      border-bottom: 1px solid #f0f0f0;
+    }
+
+    .comparison-table th {
+      background: #f5f5f5;
+      font-weight: 600;
+    }
+
+    .comparison-table td.changed {
+      color: #1976d2;
+      font-weight: 500;
+    }
+
+    .hint {
+      display: block;
+      font-size: 12px;
+      color: #999;
+      font-weight: 400;
+    }
+
+    .preview-unavailable {
+      margin: 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .loading-container,
+    .empty-state {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      padding: 32px;
+      color: #999;
+      text-align: center;
+    }
+
+    .panel-error {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 16px;
+      border-radius: 8px;
+      background: #fdecea;
+      color: #b71c1c;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 600px) {
+      .plan-change-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class PlanChangeDialogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+  private masterData = inject(MasterDataStoreService);
+  private prorationService = inject(ProrationService);
+
+  currentPlan: SubscriptionPlanDto | null = null;
+  eligiblePlans: SubscriptionPlanDto[] = [];
+  selectedPlan: SubscriptionPlanDto | null = null;
+  billingCycles: MasterBillingCycle[] = [];
+  currencies: MasterCurrency[] = [];
+  privilegeComparison: PrivilegeComparison[] = [];
+  privilegesLoading = false;
+  privilegesError: string | null = null;
+  // Plan listings do not always carry privileges, so each plan's are fetched on their own
+  private planPrivileges = new Map<string, PlanPrivilegeDto[]>();
+  proration: ProrationResult | null = null;
+
+  loading = false;
+  error: string | null = null;
+
+  constructor(
+    public dialogRef: MatDialogRef<PlanChangeDialogComponent, PlanChangeDialogResult>,
+    @Inject(MAT_DIALOG_DATA) public data: PlanChangeDialogData
+  ) {}
+
+  ngOnInit() {
+    this.loadPlans();
+  }
+
+  // The subscriber keeps paying in their own currency, which may not be the plan's primary one
+  get billingCurrencyId(): string | undefined {
+    return this.data.subscription.currencyId || this.currentPlan?.currencyId;
+  }
+
+  get currencyCode(): string {
+    return this.currencies.find(c => c.id === this.billingCurrencyId)?.code || 'USD';
+  }
+
+  selectPlan(plan: SubscriptionPlanDto) {
+    this.selectedPlan = plan;
+    this.updateProration();
+    this.loadPrivilegeComparison(plan);
+  }
+
+  updateProration() {
+    const cycle = this.billingCycles.find(c => c.id === this.selectedPlan?.billingCycleId);
+    this.proration = this.selectedPlan && cycle?.durationInDays
+      ? this.prorationService.calculate(this.data.subscription, this.selectedPlan, cycle)
+      : null;
+  }
+
+  getPlanPrice(plan: SubscriptionPlanDto): number {
+    return plan.effectivePrice ?? plan.price;
+  }
+
+  getBillingCycleName(plan: SubscriptionPlanDto): string {
+    return plan.billingCycleName || this.masterData.getBillingCycleName(plan.billingCycleId);
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (!this.selectedPlan) return;
+    this.dialogRef.close({ plan: this.selectedPlan });
+  }
+
+  private loadPlans() {
+    this.loading = true;
+    this.error = null;
+
+    forkJoin({
+      current: this.subscriptionService.getPlanById(this.data.subscription.planId),
+      currentPrivileges: this.subscriptionService.getPlanPrivileges(this.data.subscription.planId),
+      billingCycles: this.masterData.load('billingCycles'),
+      currencies: this.masterData.load('currencies')
+    }).subscribe({
+      next: ({ current, currentPrivileges, billingCycles, currencies }) => {
+        this.billingCycles = billingCycles;
+        this.currencies = currencies;
+        if (currentPrivileges.statusCode === 200) {
+          this.planPrivileges.set(this.data.subscription.planId, currentPrivileges.data || []);
+        }
+
+        if (current.statusCode !== 200 || !current.data) {
+          this.error = current.message || 'Failed to load the current plan';
+          this.loading = false;
+          return;
+        }
+
+        this.currentPlan = current.data;
+        this.loadEligiblePlans(current.data);
+      },
+      error: (error) => {
+        console.error('Error loading plan details:', error);
+        this.error = error.message || 'Failed to load the current plan';
+        this.loading = false;
+      }
+    });
+  }
+
+  private loadEligiblePlans(currentPlan: SubscriptionPlanDto) {
+    this.subscriptionService.getAllPlans(1, 100, undefined, currentPlan.categoryId, true).subscribe({
+      next: (response) => {
+        const currentPrice = this.data.subscription.currentPrice;
+        const currencyId = this.data.subscription.currencyId || currentPlan.currencyId;
+        // Only plans with a price in the subscriber's currency, priced in it
+        this.eligiblePlans = (response.data || [])
+          .filter(plan => plan.id !== currentPlan.id)
+          .map(plan => this.subscriptionService.priceInCurrency(plan, currencyId))
+          .filter((plan): plan is SubscriptionPlanDto => plan !== null)
+          .filter(plan => this.data.direction === 'upgrade'
+            ? this.getPlanPrice(plan) > currentPrice
+            : this.getPlanPrice(plan) < currentPrice)
+          .sort((a, b) => this.getPlanPrice(a) - this.getPlanPrice(b));
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading plans:', error);
+        this.error = error.message || 'Failed to load plans';
+        this.loading = false;
+      }
+    });
+  }
+
+  private loadPrivilegeComparison(plan: SubscriptionPlanDto) {
+    const currentPlanId = this.data.subscription.planId;
+    const missing = [currentPlanId, plan.id].filter(id => !this.planPrivileges.has(id));
+    this.privilegeComparison = [];
+    this.privilegesError = null;
+
+    if (missing.length === 0) {
+      this.privilegesLoading = false;
+      this.privilegeComparison = this.comparePrivileges(this.planPrivileges.get(currentPlanId)!, this.planPrivileges.get(plan.id)!);
+      return;
+    }
+
+    this.privilegesLoading = true;
+    forkJoin(missing.map(id => this.subscriptionService.getPlanPrivileges(id))).subscribe({
+      next: (responses) => {
+        responses.forEach((response, i) => {
+          if (response.statusCode === 200) this.planPrivileges.set(missing[i], response.data || []);
+        });
+        // The admin may have picked another plan while these were loading
+        if (this.selectedPlan?.id !== plan.id) return;
+
+        this.privilegesLoading = false;
+        const failed = responses.find(response => response.statusCode !== 200);
+        if (failed) {
+          this.privilegesError = failed.message || 'Failed to load plan privileges';
+          return;
+        }
+        this.privilegeComparison = this.comparePrivileges(this.planPrivileges.get(currentPlanId)!, this.planPrivileges.get(plan.id)!);
+      },
+      error: (error) => {
+        console.error('Error loading plan privileges:', error);
+        if (this.selectedPlan?.id !== plan.id) return;
+        this.privilegesLoading = false;
+        this.privilegesError = error.message || 'Failed to load plan privileges';
+      }
+    });
+  }
+
+  private comparePrivileges(current: PlanPrivilegeDto[], target: PlanPrivilegeDto[]): PrivilegeComparison[] {
+    const ids = Array.from(new Set([...current, ...target].map(p => p.privilegeId)));
+    return ids.map(id => {
+      const from = current.find(p => p.privilegeId === id);
+      const to = target.find(p => p.privilegeId === id);
+      const currentValue = this.formatPrivilegeValue(from);
+      const targetValue = this.formatPrivilegeValue(to);
+      return {
+        name: from?.privilegeName || to?.privilegeName || 'Privilege',
+        current: currentValue,
+        target: targetValue,
+        changed: currentValue !== targetValue
+      };
+    });
+  }
+
+  private formatPrivilegeValue(privilege?: PlanPrivilegeDto): string {
+    if (!privilege || privilege.value === 0) return 'Not included';
+    if (privilege.value === -1) return 'Unlimited';
+    return privilege.usagePeriodName ? `${privilege.value} per ${privilege.usagePeriodName.toLowerCase()}` : `${privilege.value}`;
+  }
+}
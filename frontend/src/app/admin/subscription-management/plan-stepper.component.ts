@@ -1,6 +1,6 @@
-import { Component, OnInit, Input, Output, EventEmitter, inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, Input, Output, EventEmitter, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ReactiveFormsModule, FormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ReactiveFormsModule, FormsModule, FormBuilder, FormGroup, FormArray, AbstractControl, ValidationErrors, Validators } from '@angular/forms';
 import { MatStepperModule, MatStepper } from '@angular/material/stepper';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
@@ -12,19 +12,56 @@ import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar } from '@angular/material/snack-bar';
+import { MAT_DIALOG_DATA, MatDialog } from '@angular/material/dialog';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
 
 import { 
-  CreateSubscriptionPlanDto, 
-  UpdateSubscriptionPlanDto, 
+  PlanFormValues,
   SubscriptionPlanDto,
   MasterBillingCycle,
   MasterCurrency,
   MasterPrivilegeType,
   Privilege,
-  PlanPrivilegeDto
+  PlanPrivilegeDto,
+  PlanPrivilegeChanges,
+  PlanCurrencyPrice,
+  PlanCycleOption,
+  PlanCyclePrice,
+  CategoryDto
 } from '../../models/subscription.models';
-import { MasterDataService } from '../../services/master-data.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
 import { SubscriptionService } from '../../services/subscription.service';
+import { PlanTemplateService } from '../../services/plan-template.service';
+import { PlanTemplateStripeSlot, PlanTemplateValues, STRIPE_SLOT_LABELS } from '../../models/plan-template.models';
+import { PlanCardPreview, PlanCardPreviewComponent } from '../plans/plan-card-preview.component';
+import { SavePlanTemplateDialogComponent, SavePlanTemplateDialogResult } from '../plans/save-plan-template-dialog.component';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+// Each extra price needs its own currency, other than the plan's primary one
+function currencyPricesValidator(group: AbstractControl): ValidationErrors | null {
+  const { currencyId, currencyPrices } = group.getRawValue();
+  const ids: string[] = currencyPrices.map((price: PlanCurrencyPrice) => price.currencyId).filter(Boolean);
+  if (currencyId && ids.includes(currencyId)) return { primaryCurrencyRepeated: true };
+  return new Set(ids).size < ids.length ? { duplicateCurrency: true } : null;
+}
+
+// Each extra billing cycle needs its own cycle, other than the plan's primary one
+function cyclePricesValidator(group: AbstractControl): ValidationErrors | null {
+  const { billingCycleId, cyclePrices } = group.getRawValue();
+  const ids: string[] = cyclePrices.map((price: PlanCyclePrice) => price.billingCycleId).filter(Boolean);
+  if (billingCycleId && ids.includes(billingCycleId)) return { primaryCycleRepeated: true };
+  return new Set(ids).size < ids.length ? { duplicateCycle: true } : null;
+}
+
+export interface PlanStepperDialogData {
+  editingPlan: SubscriptionPlanDto | null;
+  // Prefills a new plan, from a template or from a plan being duplicated
+  startFrom?: {
+    name: string;
+    values: PlanTemplateValues;
+  };
+}
 
 @Component({
   selector: 'app-plan-stepper',
@@ -42,20 +79,26 @@ import { SubscriptionService } from '../../services/subscription.service';
     MatIconModule,
     MatCardModule,
     MatChipsModule,
-    MatTooltipModule
+    MatTooltipModule,
+    PlanCardPreviewComponent,
+    MoneyPipe
   ],
   templateUrl: './plan-stepper.component.html',
   styleUrls: ['./plan-stepper.component.scss']
 })
-export class PlanStepperComponent implements OnInit {
+export class PlanStepperComponent implements OnInit, OnDestroy {
   @Input() editingPlan: SubscriptionPlanDto | null = null;
-  @Output() planCreated = new EventEmitter<CreateSubscriptionPlanDto>();
-  @Output() planUpdated = new EventEmitter<UpdateSubscriptionPlanDto>();
+  @Output() planCreated = new EventEmitter<PlanFormValues>();
+  @Output() planUpdated = new EventEmitter<PlanFormValues>();
   @Output() cancelled = new EventEmitter<void>();
 
   // Form groups for each step
   basicInfoForm!: FormGroup;
   pricingForm!: FormGroup;
+  // Prices in currencies other than the plan's own, one group per currency
+  currencyPrices!: FormArray;
+  // Prices on billing cycles other than the plan's own, one group per cycle
+  cyclePrices!: FormArray;
   featuresForm!: FormGroup;
   trialMarketingForm!: FormGroup;
   stripeForm!: FormGroup;
@@ -66,26 +109,49 @@ export class PlanStepperComponent implements OnInit {
   currencies: MasterCurrency[] = [];
   privilegeTypes: MasterPrivilegeType[] = [];
   privileges: Privilege[] = [];
-  categories: any[] = [];
+  categories: CategoryDto[] = [];
+  private masterDataSubscriptions: Subscription[] = [];
 
   // Privilege management
   selectedPrivileges: PlanPrivilegeDto[] = [];
+  // The editing plan's privileges as saved, to diff the edited list against
+  originalPrivileges: PlanPrivilegeDto[] = [];
+  planPrivilegesLoading = false;
+  planPrivilegesError: string | null = null;
+
+  // Stripe objects the template this plan started from expects to be linked
+  stripePlaceholders: PlanTemplateStripeSlot[] = [];
+  savingTemplate = false;
 
   // Services
   private fb = inject(FormBuilder);
-  private masterDataService = inject(MasterDataService);
+  readonly masterData = inject(MasterDataStoreService);
   private subscriptionService = inject(SubscriptionService);
+  private planTemplateService = inject(PlanTemplateService);
+  private dialog = inject(MatDialog);
+  private router = inject(Router);
   private snackBar = inject(MatSnackBar);
+  private dialogData = inject<PlanStepperDialogData | null>(MAT_DIALOG_DATA, { optional: true });
 
   ngOnInit() {
     this.initializeForms();
     this.loadMasterData();
-    
+
+    if (!this.editingPlan && this.dialogData?.editingPlan) {
+      this.editingPlan = this.dialogData.editingPlan;
+    }
+
     if (this.editingPlan) {
       this.populateFormsForEdit();
+    } else if (this.dialogData?.startFrom) {
+      this.populateFormsFromTemplate(this.dialogData.startFrom.name, this.dialogData.startFrom.values);
     }
   }
 
+  ngOnDestroy() {
+    this.masterDataSubscriptions.forEach(subscription => subscription.unsubscribe());
+  }
+
   private initializeForms() {
     // Step 1: Basic Information
     this.basicInfoForm = this.fb.group({
@@ -98,13 +164,17 @@ export class PlanStepperComponent implements OnInit {
     });
 
     // Step 2: Pricing
+    this.currencyPrices = this.fb.array([]);
+    this.cyclePrices = this.fb.array([]);
     this.pricingForm = this.fb.group({
       price: [0, [Validators.required, Validators.min(0.01)]],
       discountedPrice: [null, Validators.min(0)],
       discountValidUntil: [null],
       billingCycleId: ['', Validators.required],
-      currencyId: ['', Validators.required]
-    });
+      currencyId: ['', Validators.required],
+      currencyPrices: this.currencyPrices,
+      cyclePrices: this.cyclePrices
+    }, { validators: [currencyPricesValidator, cyclePricesValidator] });
 
     // Step 3: Features & Limits
     this.featuresForm = this.fb.group({
@@ -147,106 +217,108 @@ export class PlanStepperComponent implements OnInit {
   }
 
   private loadMasterData() {
-    // Load billing cycles
-    this.masterDataService.getBillingCycles().subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          this.billingCycles = response.data;
+    // The store serves cached lists and pushes reloads, e.g. after privileges are edited in another screen
+    this.masterDataSubscriptions.push(
+      this.masterData.select('billingCycles').subscribe({
+        next: (billingCycles) => this.billingCycles = billingCycles,
+        error: () => this.snackBar.open('Failed to load billing cycles', 'Close', { duration: 3000 })
+      }),
+      this.masterData.select('currencies').subscribe({
+        next: (currencies) => this.currencies = currencies,
+        error: () => this.snackBar.open('Failed to load currencies', 'Close', { duration: 3000 })
+      }),
+      this.masterData.select('categories').subscribe({
+        next: (categories) => this.categories = categories,
+        error: (err) => {
+          console.error('Error loading categories:', err);
+          this.snackBar.open('Failed to load categories', 'Close', { duration: 3000 });
         }
-      },
-      error: (err) => {
-        this.snackBar.open('Failed to load billing cycles', 'Close', { duration: 3000 });
-      }
-    });
-
-    // Load currencies
-    this.masterDataService.getCurrencies().subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          this.currencies = response.data;
+      }),
+      this.masterData.select('privilegeTypes').subscribe({
+        next: (privilegeTypes) => this.privilegeTypes = privilegeTypes,
+        error: () => this.snackBar.open('Failed to load privilege types', 'Close', { duration: 3000 })
+      }),
+      this.masterData.select('privileges').subscribe({
+        next: (privileges) => this.privileges = privileges,
+        error: (err) => {
+          console.error('Error loading privileges:', err);
+          this.snackBar.open('Failed to load privileges', 'Close', { duration: 3000 });
         }
-      },
-      error: (err) => {
-        this.snackBar.open('Failed to load currencies', 'Close', { duration: 3000 });
-      }
-    });
+      })
+    );
+  }
 
-    // Load categories
-    this.subscriptionService.getCategories().subscribe({
-      next: (response) => {
-        console.log('=== CATEGORIES API RESPONSE DEBUG ===');
-        console.log('Full response:', response);
-        console.log('Response data type:', typeof response.data);
-        console.log('Response data:', response.data);
-        console.log('Response data keys:', response.data ? Object.keys(response.data) : 'No data');
-        console.log('Response data JSON:', JSON.stringify(response.data, null, 2));
-        console.log('Response data is array:', Array.isArray(response.data));
-        console.log('Response data length:', response.data ? (Array.isArray(response.data) ? response.data.length : 'Not an array') : 'No data');
-        console.log('=== END DEBUG ===');
-        
-        if (response.statusCode === 200) {
-          // Handle the new response structure where categories are directly in data
-          if (Array.isArray(response.data)) {
-            this.categories = response.data;
-            console.log('Using direct array categories:', this.categories);
-          } else if (response.data && (response.data as any).categories) {
-            // Fallback for old paginated response structure
-            this.categories = (response.data as any).categories;
-            console.log('Using old paginated categories structure:', this.categories);
-          } else if (response.data && (response.data as any).Categories) {
-            // Fallback for uppercase Categories
-            this.categories = (response.data as any).Categories;
-            console.log('Using uppercase Categories:', this.categories);
-          } else if (response.data && typeof response.data === 'object' && Object.keys(response.data).length === 0) {
-            // Handle empty object response - likely no categories in database
-            this.categories = [];
-            console.log('Empty object response - no categories found in database');
-            this.snackBar.open('No categories found in database. Please contact administrator to add categories.', 'Close', { duration: 5000 });
-          } else {
-            this.categories = [];
-            console.log('No categories found, using empty array');
-            console.log('Response data structure:', JSON.stringify(response.data, null, 2));
-          }
-          console.log('Final categories array:', this.categories);
-        } else {
-          console.error('Categories API returned error status:', response.statusCode);
-          this.categories = [];
-        }
-      },
-      error: (err) => {
-        console.error('Error loading categories:', err);
-        this.snackBar.open('Failed to load categories', 'Close', { duration: 3000 });
-        this.categories = [];
-      }
-    });
+  addCurrencyPrice(price?: Partial<PlanCurrencyPrice>) {
+    this.currencyPrices.push(this.fb.group({
+      currencyId: [price?.currencyId ?? '', Validators.required],
+      price: [price?.price ?? null, [Validators.required, Validators.min(0.01)]],
+      discountedPrice: [price?.discountedPrice ?? null, Validators.min(0)],
+      stripePriceId: [price?.stripePriceId ?? '']
+    }));
+  }
 
-    // Load privilege types
-    this.masterDataService.getPrivilegeTypes().subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          this.privilegeTypes = response.data;
-        }
-      },
-      error: (err) => {
-        this.snackBar.open('Failed to load privilege types', 'Close', { duration: 3000 });
-      }
-    });
+  removeCurrencyPrice(index: number) {
+    this.currencyPrices.removeAt(index);
+  }
 
-    // Load privileges
-    this.masterDataService.getPrivileges().subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          // Handle the response structure - it might be wrapped in a data object
-          if (response.data && Array.isArray(response.data)) {
-            this.privileges = response.data;
-          } else if (response.data && (response.data as any).privileges && Array.isArray((response.data as any).privileges)) {
-            this.privileges = (response.data as any).privileges;
-          } else {
-            this.privileges = [];
-          }
-          console.log('Loaded privileges:', this.privileges);
-        }
-      },
+  // Currencies an extra price can still use
+  getAvailableCurrencies(index: number): MasterCurrency[] {
+    const taken = [
+      this.pricingForm.get('currencyId')?.value,
+      ...this.currencyPrices.controls.filter((_, i) => i !== index).map(control => control.get('currencyId')?.value)
+    ];
+    const own = this.currencyPrices.at(index)?.get('currencyId')?.value;
+    return this.currencies.filter(currency => currency.id === own || !taken.includes(currency.id));
+  }
+
+  addCyclePrice(price?: Partial<PlanCyclePrice>) {
+    this.cyclePrices.push(this.fb.group({
+      billingCycleId: [price?.billingCycleId ?? '', Validators.required],
+      price: [price?.price ?? null, [Validators.required, Validators.min(0.01)]],
+      discountedPrice: [price?.discountedPrice ?? null, Validators.min(0)],
+      stripePriceId: [price?.stripePriceId ?? '']
+    }));
+  }
+
+  removeCyclePrice(index: number) {
+    this.cyclePrices.removeAt(index);
+  }
+
+  // Billing cycles an extra price can still use
+  getAvailableCycles(index: number): MasterBillingCycle[] {
+    const taken = [
+      this.pricingForm.get('billingCycleId')?.value,
+      ...this.cyclePrices.controls.filter((_, i) => i !== index).map(control => control.get('billingCycleId')?.value)
+    ];
+    const own = this.cyclePrices.at(index)?.get('billingCycleId')?.value;
+    return this.billingCycles.filter(cycle => cycle.id === own || !taken.includes(cycle.id));
+  }
+
+  // Every cycle the plan is offered on as entered so far, for the review step
+  get cycleOptions(): PlanCycleOption[] {
+    const pricing = this.pricingForm.value;
+    if (!pricing.billingCycleId) return [];
+
+    return this.subscriptionService.getCycleOptions({
+      billingCycleId: pricing.billingCycleId,
+      price: Number(pricing.price) || 0,
+      discountedPrice: pricing.discountedPrice ?? undefined,
+      cyclePrices: pricing.cyclePrices
+        .filter((price: PlanCyclePrice) => price.billingCycleId && Number(price.price) > 0)
+        .map((price: PlanCyclePrice) => ({ ...price, price: Number(price.price) }))
+    }, this.billingCycles);
+  }
+
+  // The longest cycle, when paying for it up front is cheaper per month than the shortest
+  get bestCycleSaving(): PlanCycleOption | null {
+    const options = this.cycleOptions;
+    const longest = options[options.length - 1];
+    return longest?.savingsPercent && longest.savingsPercent > 0 ? longest : null;
+  }
+
+  loadPrivilegeOptions() {
+    this.masterData.load('privileges', true).subscribe({
+      next: (privileges) => this.privileges = privileges,
       error: (err) => {
         console.error('Error loading privileges:', err);
         this.snackBar.open('Failed to load privileges', 'Close', { duration: 3000 });
@@ -276,6 +348,10 @@ export class PlanStepperComponent implements OnInit {
       billingCycleId: this.editingPlan.billingCycleId,
       currencyId: this.editingPlan.currencyId
     });
+    this.currencyPrices.clear();
+    (this.editingPlan.currencyPrices ?? []).forEach(price => this.addCurrencyPrice(price));
+    this.cyclePrices.clear();
+    (this.editingPlan.cyclePrices ?? []).forEach(price => this.addCyclePrice(price));
 
     // Populate features
     this.featuresForm.patchValue({
@@ -308,8 +384,136 @@ export class PlanStepperComponent implements OnInit {
       stripeAnnualPriceId: this.editingPlan.stripeAnnualPriceId
     });
 
-    // Populate privileges (privileges will be loaded separately)
-    this.selectedPrivileges = [];
+    this.loadPlanPrivileges();
+  }
+
+  loadPlanPrivileges() {
+    if (!this.editingPlan) return;
+
+    this.planPrivilegesLoading = true;
+    this.planPrivilegesError = null;
+    this.subscriptionService.getPlanPrivileges(this.editingPlan.id).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.originalPrivileges = response.data || [];
+          this.selectedPrivileges = this.originalPrivileges.map(privilege => ({ ...privilege }));
+        } else {
+          this.planPrivilegesError = response.message || 'Failed to load plan privileges';
+        }
+        this.planPrivilegesLoading = false;
+      },
+      error: (error) => {
+        console.error('Error loading plan privileges:', error);
+        this.planPrivilegesError = 'Failed to load plan privileges';
+        this.planPrivilegesLoading = false;
+      }
+    });
+  }
+
+  get privilegeChanges(): PlanPrivilegeChanges {
+    return this.subscriptionService.diffPlanPrivileges(this.originalPrivileges, this.selectedPrivileges);
+  }
+
+  get privilegeChangeCount(): number {
+    const changes = this.privilegeChanges;
+    return changes.added.length + changes.updated.length + changes.removed.length;
+  }
+
+  /**
+   * Active subscribers whose entitlement a privilege change alters. Everyone on the plan shares its privileges,
+   * but a description-only edit or a privilege that stays disabled reaches nobody.
+   */
+  getChangeImpact(privilegeId: string): number {
+    const before = this.originalPrivileges.find(privilege => privilege.privilegeId === privilegeId);
+    const after = this.selectedPrivileges.find(privilege => privilege.privilegeId === privilegeId);
+    const enabled = (privilege?: PlanPrivilegeDto) => !!privilege && privilege.value !== 0;
+    if (!enabled(before) && !enabled(after)) return 0;
+    if (before && after && this.subscriptionService.isSamePlanPrivilege({ ...before, description: after.description }, after)) return 0;
+    return this.editingPlan?.totalActiveSubscriptions ?? 0;
+  }
+
+  getPrivilegeLimitLabel(privilege: PlanPrivilegeDto): string {
+    if (privilege.value === -1) return 'Unlimited';
+    if (privilege.value === 0) return 'Disabled';
+    return `${privilege.value}${privilege.usagePeriodName ? ' per ' + privilege.usagePeriodName.toLowerCase() : ''}`;
+  }
+
+  private populateFormsFromTemplate(name: string, values: PlanTemplateValues) {
+    this.basicInfoForm.patchValue({
+      name,
+      description: values.description,
+      shortDescription: values.shortDescription,
+      features: values.features,
+      terms: values.terms,
+      categoryId: values.categoryId,
+      isActive: values.isActive
+    });
+
+    this.pricingForm.patchValue({
+      price: values.price,
+      discountedPrice: values.discountedPrice ?? null,
+      discountValidUntil: values.discountValidUntil ?? null,
+      billingCycleId: values.billingCycleId,
+      currencyId: values.currencyId
+    });
+    this.currencyPrices.clear();
+    (values.currencyPrices ?? []).forEach(price => this.addCurrencyPrice(price));
+    this.cyclePrices.clear();
+    (values.cyclePrices ?? []).forEach(price => this.addCyclePrice(price));
+
+    this.featuresForm.patchValue({
+      messagingCount: values.messagingCount,
+      includesMedicationDelivery: values.includesMedicationDelivery,
+      includesFollowUpCare: values.includesFollowUpCare,
+      deliveryFrequencyDays: values.deliveryFrequencyDays,
+      maxPauseDurationDays: values.maxPauseDurationDays,
+      maxConcurrentUsers: values.maxConcurrentUsers,
+      gracePeriodDays: values.gracePeriodDays
+    });
+
+    this.trialMarketingForm.patchValue({
+      isTrialAllowed: values.isTrialAllowed,
+      trialDurationInDays: values.trialDurationInDays,
+      isFeatured: values.isFeatured,
+      isMostPopular: values.isMostPopular,
+      isTrending: values.isTrending
+    });
+
+    // Stripe IDs are left empty; the placeholders say which ones the new plan needs
+    this.stripePlaceholders = [...values.stripePlaceholders];
+    this.selectedPrivileges = (values.privileges ?? []).map(privilege => ({ ...privilege }));
+  }
+
+  needsStripe(slot: PlanTemplateStripeSlot): boolean {
+    return this.stripePlaceholders.includes(slot);
+  }
+
+  getStripePlaceholderHint(slot: PlanTemplateStripeSlot): string {
+    return `The template expects a ${STRIPE_SLOT_LABELS[slot]}`;
+  }
+
+  // The patient-facing card as it will look with the values entered so far
+  get previewPlan(): PlanCardPreview {
+    const basicInfo = this.basicInfoForm.value;
+    const pricing = this.pricingForm.value;
+    const trialMarketing = this.trialMarketingForm.value;
+    return {
+      name: basicInfo.name,
+      shortDescription: basicInfo.shortDescription,
+      description: basicInfo.description,
+      features: basicInfo.features,
+      isActive: basicInfo.isActive,
+      price: Number(pricing.price) || 0,
+      discountedPrice: pricing.discountedPrice ?? undefined,
+      discountValidUntil: pricing.discountValidUntil ?? undefined,
+      billingCycleName: pricing.billingCycleId ? this.masterData.getBillingCycleName(pricing.billingCycleId) : undefined,
+      currencyId: pricing.currencyId,
+      isFeatured: trialMarketing.isFeatured,
+      isMostPopular: trialMarketing.isMostPopular,
+      isTrending: trialMarketing.isTrending,
+      isTrialAllowed: trialMarketing.isTrialAllowed,
+      trialDurationInDays: Number(trialMarketing.trialDurationInDays) || 0
+    };
   }
 
   addPrivilege() {
@@ -326,7 +530,7 @@ export class PlanStepperComponent implements OnInit {
       usagePeriodName: '',
       durationMonths: 1,
       description: '',
-      effectiveDate: new Date(),
+      effectiveDate: new Date().toISOString().slice(0, 10),
       expirationDate: undefined,
       dailyLimit: undefined,
       weeklyLimit: undefined,
@@ -339,29 +543,6 @@ export class PlanStepperComponent implements OnInit {
     this.selectedPrivileges.splice(index, 1);
   }
 
-  getPrivilegeName(privilegeId: string): string {
-    const privilege = this.privileges.find(p => p.id === privilegeId);
-    return privilege ? privilege.name : 'Unknown Privilege';
-  }
-
-  getBillingCycleName(billingCycleId: string): string {
-    const cycle = this.billingCycles.find(c => c.id === billingCycleId);
-    return cycle ? cycle.name : 'Unknown Cycle';
-  }
-
-  getCurrencyName(currencyId: string): string {
-    const currency = this.currencies.find(c => c.id === currencyId);
-    return currency ? currency.name : 'Unknown Currency';
-  }
-
-  getCategoryName(categoryId: string): string {
-    if (!this.categories || !Array.isArray(this.categories)) {
-      return 'Unknown Category';
-    }
-    const category = this.categories.find(c => c.id === categoryId);
-    return category ? category.name : 'Unknown Category';
-  }
-
   onPrivilegeChange(privilege: PlanPrivilegeDto, privilegeId: string) {
     const selectedPrivilege = this.privileges.find(p => p.id === privilegeId);
     if (selectedPrivilege) {
@@ -382,7 +563,7 @@ export class PlanStepperComponent implements OnInit {
     return !!(privilege.privilegeId && 
               privilege.value >= 0 && 
               privilege.usagePeriodId && 
-              privilege.durationMonths > 0);
+              (privilege.durationMonths ?? 0) > 0);
   }
 
   areAllPrivilegesValid(): boolean {
@@ -394,9 +575,9 @@ export class PlanStepperComponent implements OnInit {
       const planData = this.buildPlanData();
       
       if (this.editingPlan) {
-        this.planUpdated.emit(planData as UpdateSubscriptionPlanDto);
+        this.planUpdated.emit(planData);
       } else {
-        this.planCreated.emit(planData as CreateSubscriptionPlanDto);
+        this.planCreated.emit(planData);
       }
     } else {
       this.snackBar.open('Please fill in all required fields', 'Close', { duration: 3000 });
@@ -412,36 +593,80 @@ export class PlanStepperComponent implements OnInit {
            this.areAllPrivilegesValid();
   }
 
-  private buildPlanData(): CreateSubscriptionPlanDto | UpdateSubscriptionPlanDto {
+  private buildPlanData(): PlanFormValues {
     const basicInfo = this.basicInfoForm.value;
     const pricing = this.pricingForm.value;
     const features = this.featuresForm.value;
     const trialMarketing = this.trialMarketingForm.value;
     const stripe = this.stripeForm.value;
 
-    const planData: any = {
+    return {
       ...basicInfo,
       ...pricing,
       ...features,
       ...trialMarketing,
       ...stripe,
+      currencyPrices: pricing.currencyPrices.map((price: PlanCurrencyPrice) => ({
+        currencyId: price.currencyId,
+        currencyCode: this.currencies.find(currency => currency.id === price.currencyId)?.code,
+        price: Number(price.price),
+        discountedPrice: price.discountedPrice ?? null,
+        stripePriceId: price.stripePriceId || null
+      })),
+      cyclePrices: pricing.cyclePrices.map((price: PlanCyclePrice) => ({
+        billingCycleId: price.billingCycleId,
+        billingCycleName: this.billingCycles.find(cycle => cycle.id === price.billingCycleId)?.name,
+        price: Number(price.price),
+        discountedPrice: price.discountedPrice ?? null,
+        stripePriceId: price.stripePriceId || null
+      })),
       privileges: this.selectedPrivileges
     };
-
-    if (this.editingPlan) {
-      planData.id = this.editingPlan.id;
-    }
-
-    return planData;
   }
 
   onCancel() {
     this.cancelled.emit();
   }
 
+  /**
+   * Save the values entered so far to the template library, without creating the plan
+   */
+  saveAsTemplate() {
+    if (this.savingTemplate) return;
+
+    this.dialog.open(SavePlanTemplateDialogComponent, {
+      width: '500px',
+      data: { name: this.basicInfoForm.get('name')?.value || '' }
+    })
+      .afterClosed()
+      .subscribe((result: SavePlanTemplateDialogResult | undefined) => {
+        if (!result) return;
+
+        const values = this.planTemplateService.toTemplateValues(this.buildPlanData());
+        // Keep placeholders this plan inherited but has not been linked to yet
+        values.stripePlaceholders = [...new Set([...values.stripePlaceholders, ...this.stripePlaceholders])];
+
+        this.savingTemplate = true;
+        this.planTemplateService.createTemplate({ ...result, values }).subscribe({
+          next: (response) => {
+            this.savingTemplate = false;
+            if (response.statusCode === 200) {
+              this.snackBar.open(`Template "${result.name}" saved`, 'Close', { duration: 3000 });
+            } else {
+              this.snackBar.open(response.message || 'Failed to save template', 'Close', { duration: 5000 });
+            }
+          },
+          error: (error) => {
+            console.error('Error saving plan template:', error);
+            this.savingTemplate = false;
+            this.snackBar.open('Error saving template', 'Close', { duration: 3000 });
+          }
+        });
+      });
+  }
+
   navigateToPrivileges() {
-    // This would typically navigate to a privileges management page
-    // For now, we'll show a message
-    this.snackBar.open('Privilege management feature coming soon. Please contact admin to create privileges.', 'Close', { duration: 5000 });
+    // A new tab keeps this plan's unsaved steps; reload the list here after adding privileges there
+    window.open(this.router.serializeUrl(this.router.createUrlTree(['/admin/privileges'])), '_blank');
   }
 }
@@ -0,0 +1,678 @@
+import { Component, Inject, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Observable, forkJoin } from 'rxjs';
+import { SubscriptionService } from '../../services/subscription.service';
+import { ApiResponse } from '../../services/common.service';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { BarChartComponent } from '../analytics-dashboard/charts/bar-chart.component';
+import { CHART_COLORS, ChartSeries } from '../analytics-dashboard/charts/chart.models';
+import {
+  PlanPrivilegeDto,
+  PrivilegeUsageDto,
+  PrivilegeUsageHistoryDto,
+  SubscriptionDto
+} from '../../models/subscription.models';
+
+export interface PrivilegeUsageDialogData {
+  subscription: SubscriptionDto;
+}
+
+type HistoryGranularity = 'day' | 'week' | 'month';
+
+type UsageAdjustment = 'grant' | 'reset';
+
+interface UsageWindow {
+  name: string;
+  used: number;
+  limit: number;
+  resetsOn: Date;
+}
+
+// Number of buckets shown in the history chart for each granularity
+const HISTORY_BUCKETS: Record<HistoryGranularity, number> = { day: 14, week: 12, month: 12 };
+
+@Component({
+  selector: 'app-privilege-usage-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    BarChartComponent,
+    HasPermissionDirective
+  ],
+  template: `
+    <div class="privilege-usage-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <div class="header-info">
+          <mat-icon>data_usage</mat-icon>
+          <div>
+            <h2>Privilege Usage</h2>
+            <p>{{ data.subscription.userName }} · {{ data.subscription.planName }}</p>
+          </div>
+        </div>
+        <button mat-icon-button (click)="onClose()">
+          <mat-icon>close</mat-icon>
+        </button>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loading" class="loading-container">
+          <mat-spinner diameter="40"></mat-spinner>
+          <p>Loading privilege usage...</p>
+        </div>
+
+        <div *ngIf="!loading && usage.length === 0" class="empty-state">
+          <mat-icon>security</mat-icon>
+          <h3>No Privilege Usage</h3>
+          <p>No privilege usage records found for this subscription.</p>
+        </div>
+
+        <div *ngIf="!loading && usage.length > 0" class="usage-layout">
+          <div class="privilege-list">
+            <button *ngFor="let item of usage" class="privilege-item" type="button"
+                    [class.selected]="item.privilegeName === selected?.privilegeName" (click)="selectUsage(item)">
+              <div class="privilege-name">{{ item.privilegeName }}</div>
+              <div class="privilege-count">
+                {{ item.usedValue }} / {{ formatLimit(item.allowedValue) }}
+              </div>
+              <mat-progress-bar mode="determinate" [value]="getUsagePercentage(item.usedValue, item.allowedValue)"
+                                [color]="isExhausted(item) ? 'warn' : 'primary'"></mat-progress-bar>
+            </button>
+          </div>
+
+          <div class="privilege-detail" *ngIf="selected">
+            <div class="detail-header">
+              <h3>{{ selected.privilegeName }}</h3>
+              <span class="next-reset">
+                <mat-icon>restart_alt</mat-icon>
+                Next reset {{ getNextReset() | date:'mediumDate' }}
+              </span>
+            </div>
+
+            <table class="windows-table">
+              <thead>
+                <tr>
+                  <th>Window</th>
+                  <th>Used</th>
+                  <th>Limit</th>
+                  <th>Resets</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr *ngFor="let window of windows" [class.exhausted]="window.limit > 0 && window.used >= window.limit">
+                  <td>{{ window.name }}</td>
+                  <td>{{ window.used }}</td>
+                  <td>{{ formatLimit(window.limit) }}</td>
+                  <td>{{ window.resetsOn | date:'mediumDate' }}</td>
+                </tr>
+              </tbody>
+            </table>
+            <p class="muted" *ngIf="currentPeriodStart && currentPeriodEnd">
+              Current period {{ currentPeriodStart | date:'mediumDate' }} – {{ currentPeriodEnd | date:'mediumDate' }}
+            </p>
+
+            <div class="history-header">
+              <h4>Usage History</h4>
+              <mat-button-toggle-group [value]="granularity" (change)="setGranularity($event.value)">
+                <mat-button-toggle value="day">Daily</mat-button-toggle>
+                <mat-button-toggle value="week">Weekly</mat-button-toggle>
+                <mat-button-toggle value="month">Monthly</mat-button-toggle>
+              </mat-button-toggle-group>
+            </div>
+            <div *ngIf="loadingHistory" class="loading-container small">
+              <mat-spinner diameter="32"></mat-spinner>
+            </div>
+            <app-bar-chart *ngIf="!loadingHistory" [series]="historySeries"></app-bar-chart>
+
+            <div class="adjust-actions" *ngIf="!adjustment">
+              <button mat-stroked-button color="primary" *appHasPermission="'subscriptions.manage'"
+                      (click)="startAdjustment('grant')" [disabled]="selected.allowedValue === -1">
+                <mat-icon>add_circle</mat-icon>
+                Grant Extra Usage
+              </button>
+              <button mat-stroked-button *appHasPermission="'subscriptions.manage'"
+                      (click)="startAdjustment('reset')" [disabled]="selected.usedValue === 0">
+                <mat-icon>restart_alt</mat-icon>
+                Reset Counter
+              </button>
+            </div>
+
+            <form *ngIf="adjustment" [formGroup]="adjustForm" class="adjust-form">
+              <h4>{{ adjustment === 'grant' ? 'Grant Extra Usage' : 'Reset Counter' }}</h4>
+              <p class="muted" *ngIf="adjustment === 'reset'">
+                Sets {{ selected.privilegeName }} usage back to zero for the current period. The history and the daily,
+                weekly and monthly limits are kept.
+              </p>
+              <mat-form-field appearance="outline" class="full-width" *ngIf="adjustment === 'grant'">
+                <mat-label>Extra uses</mat-label>
+                <input matInput type="number" formControlName="amount" min="1" max="1000">
+                <mat-hint *ngIf="currentPeriodEnd">Valid until {{ currentPeriodEnd | date:'mediumDate' }}</mat-hint>
+                <mat-error *ngIf="adjustForm.get('amount')?.hasError('required')">Amount is required</mat-error>
+                <mat-error *ngIf="adjustForm.get('amount')?.hasError('min')">Grant at least 1 use</mat-error>
+                <mat-error *ngIf="adjustForm.get('amount')?.hasError('max')">Grant at most 1000 uses</mat-error>
+              </mat-form-field>
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Reason</mat-label>
+                <textarea matInput formControlName="reason" rows="2"
+                          placeholder="Support ticket or reason for the adjustment"></textarea>
+                <mat-error *ngIf="adjustForm.get('reason')?.hasError('required')">Reason is required</mat-error>
+                <mat-error *ngIf="adjustForm.get('reason')?.hasError('minlength')">
+                  Please provide more detail (at least 10 characters)
+                </mat-error>
+                <mat-error *ngIf="adjustForm.get('reason')?.hasError('maxlength')">Reason must be 400 characters or fewer</mat-error>
+              </mat-form-field>
+              <div class="form-actions">
+                <button mat-button type="button" (click)="cancelAdjustment()" [disabled]="saving">Cancel</button>
+                <button mat-raised-button color="primary" type="button" (click)="applyAdjustment()"
+                        [disabled]="adjustForm.invalid || saving">
+                  {{ saving ? 'Saving...' : (adjustment === 'grant' ? 'Grant' : 'Reset') }}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .privilege-usage-dialog {
+      min-width: 720px;
+    }
+
+    .dialog-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 16px 24px;
+      margin: 0;
+      border-bottom: 1px solid #e0e0e0;
+    }
+
+    .header-info {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+    }
+
+    .header-info mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .header-info h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .header-info p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 16px 24px 24px 24px;
+      max-height: 75vh;
+    }
+
+    .loading-container {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      height: 200px;
+      gap: 16px;
+    }
+
+    .loading-container.small {
+      height: 120px;
+    }
+
+    .empty-state {
+      text-align: center;
+      padding: 48px 24px;
+      color: #666;
+    }
+
+    .empty-state mat-icon {
+      font-size: 48px;
+      width: 48px;
+      height: 48px;
+      color: #ccc;
+    }
+
+    .usage-layout {
+      display: grid;
+      grid-template-columns: 220px 1fr;
+      gap: 24px;
+    }
+
+    .privilege-list {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .privilege-item {
+      text-align: left;
+      padding: 12px;
+      border: 1px solid #e0e0e0;
+      border-radius: 8px;
+      background: #fff;
+      cursor: pointer;
+      font: inherit;
+    }
+
+    .privilege-item.selected {
+      border-color: #1976d2;
+      background: #e3f2fd;
+    }
+
+    .privilege-name {
+      font-weight: 600;
+    }
+
+    .privilege-count {
+      font-size: 13px;
+      color: #666;
+      margin: 4px 0 8px 0;
+    }
+
+    .detail-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 16px;
+    }
+
+    .detail-header h3 {
+      margin: 0;
+      font-size: 18px;
+    }
+
+    .next-reset {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 13px;
+      color: #666;
+    }
+
+    .next-reset mat-icon {
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
+    }
+
+    .windows-table {
+      width: 100%;
+      margin-top: 16px;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+
+    .windows-table th {
+      text-align: left;
+      font-weight: 500;
+      color: #666;
+      padding: 6px 8px;
+      border-bottom: 1px solid #e0e0e0;
+    }
+
+    .windows-table td {
+      padding: 6px 8px;
+      border-bottom: 1px solid #f0f0f0;
+    }
+
+    .windows-table tr.exhausted td {
+      color: #d32f2f;
+      font-weight: 500;
+    }
+
+    .muted {
+      margin: 8px 0 0 0;
+      color: #999;
+      font-size: 13px;
+    }
+
+    .history-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin: 24px 0 8px 0;
+    }
+
+    h4 {
+      margin: 0;
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    .adjust-actions {
+      display: flex;
+      gap: 12px;
+      margin-top: 16px;
+    }
+
+    .adjust-form {
+      margin-top: 16px;
+      padding: 16px;
+      background: #fafafa;
+      border-radius: 8px;
+    }
+
+    .adjust-form h4 {
+      margin-bottom: 12px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .form-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+    }
+
+    @media (max-width: 768px) {
+      .privilege-usage-dialog {
+        min-width: auto;
+      }
+
+      .usage-layout {
+        grid-template-columns: 1fr;
+      }
+    }
+  `]
+})
+export class PrivilegeUsageDialogComponent implements OnInit {
+  private subscriptionService = inject(SubscriptionService);
+  private snackBar = inject(MatSnackBar);
+  private fb = inject(FormBuilder);
+
+  usage: PrivilegeUsageDto[] = [];
+  selected: PrivilegeUsageDto | null = null;
+  windows: UsageWindow[] = [];
+
+  currentPeriodStart: Date | null = null;
+  currentPeriodEnd: Date | null = null;
+
+  granularity: HistoryGranularity = 'day';
+  historySeries: ChartSeries[] = [];
+
+  loading = false;
+  loadingHistory = false;
+
+  adjustment: UsageAdjustment | null = null;
+  adjustForm: FormGroup = this.fb.group({
+    amount: [1, [Validators.required, Validators.min(1), Validators.max(1000)]],
+    reason: ['', [Validators.required, Validators.minLength(10), Validators.maxLength(400)]]
+  });
+  saving = false;
+
+  // Usage statistics carry only the period allowance, so the time-based limits come from the plan's privileges
+  private planPrivileges: PlanPrivilegeDto[] = [];
+  private history: PrivilegeUsageHistoryDto[] = [];
+
+  constructor(
+    public dialogRef: MatDialogRef<PrivilegeUsageDialogComponent>,
+    @Inject(MAT_DIALOG_DATA) public data: PrivilegeUsageDialogData
+  ) {}
+
+  ngOnInit() {
+    this.loadUsage();
+    this.loadHistory();
+  }
+
+  selectUsage(item: PrivilegeUsageDto) {
+    this.selected = item;
+    this.refreshSelection();
+  }
+
+  setGranularity(granularity: HistoryGranularity) {
+    this.granularity = granularity;
+    this.refreshSelection();
+  }
+
+  isExhausted(item: PrivilegeUsageDto): boolean {
+    return item.allowedValue !== -1 && item.usedValue >= item.allowedValue;
+  }
+
+  getUsagePercentage(used: number, allowed: number): number {
+    if (allowed === -1) return 0; // Unlimited
+    if (allowed === 0) return 100; // Disabled
+    return Math.min((used / allowed) * 100, 100);
+  }
+
+  formatLimit(limit: number): string {
+    if (limit === -1) return 'Unlimited';
+    if (limit === 0) return 'Not included';
+    return `${limit}`;
+  }
+
+  /** Earliest reset across the exhausted windows, so support can tell a patient when they can book again */
+  getNextReset(): Date | null {
+    const now = new Date();
+    const resets = this.windows
+      .filter(w => w.limit > 0 && w.used >= w.limit)
+      .map(w => w.resetsOn)
+      .filter(d => d.getTime() > now.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+    return resets[0] ?? this.currentPeriodEnd;
+  }
+
+  startAdjustment(adjustment: UsageAdjustment) {
+    this.adjustment = adjustment;
+    this.adjustForm.reset({ amount: 1, reason: '' });
+    const amount = this.adjustForm.get('amount');
+    if (adjustment === 'grant') {
+      amount?.enable();
+    } else {
+      amount?.disable();
+    }
+  }
+
+  cancelAdjustment() {
+    this.adjustment = null;
+  }
+
+  applyAdjustment() {
+    if (!this.selected || !this.adjustment || this.adjustForm.invalid) return;
+
+    const privilegeName = this.selected.privilegeName;
+    const subscriptionId = this.data.subscription.id;
+    const reason: string = this.adjustForm.value.reason;
+    const isGrant = this.adjustment === 'grant';
+
+    const request: Observable<ApiResponse<PrivilegeUsageDto>> = isGrant
+      ? this.subscriptionService.grantPrivilegeUsage({ subscriptionId, privilegeName, amount: Number(this.adjustForm.value.amount), reason: reason.trim() })
+      : this.subscriptionService.resetPrivilegeUsage({ subscriptionId, privilegeName, reason: reason.trim() });
+
+    this.saving = true;
+    request.subscribe({
+      next: (response) => {
+        this.saving = false;
+        if (response.statusCode === 200) {
+          this.adjustment = null;
+          this.snackBar.open(isGrant ? 'Extra usage granted' : 'Usage counter reset', 'Close', { duration: 3000 });
+          this.loadUsage(privilegeName);
+        } else {
+          this.snackBar.open(response.message || 'Failed to adjust usage', 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error('Error adjusting privilege usage:', error);
+        this.saving = false;
+        this.snackBar.open('Error adjusting privilege usage', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  onClose(): void {
+    this.dialogRef.close();
+  }
+
+  private loadUsage(selectedName?: string) {
+    this.loading = true;
+    forkJoin({
+      statistics: this.subscriptionService.getUsageStatistics(this.data.subscription.id),
+      privileges: this.subscriptionService.getPlanPrivileges(this.data.subscription.planId)
+    }).subscribe({
+      next: ({ statistics, privileges }) => {
+        if (statistics.statusCode === 200 && statistics.data) {
+          this.usage = statistics.data.privilegeUsage || [];
+          this.currentPeriodStart = new Date(statistics.data.currentPeriodStart);
+          this.currentPeriodEnd = new Date(statistics.data.currentPeriodEnd);
+          this.planPrivileges = privileges.statusCode === 200 ? privileges.data || [] : [];
+          const selected = this.usage.find(item => item.privilegeName === selectedName) ?? this.usage[0];
+          if (selected) this.selectUsage(selected);
+        } else {
+          this.snackBar.open(statistics.message || 'Failed to load privilege usage', 'Close', { duration: 5000 });
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading privilege usage:', error);
+        this.snackBar.open('Error loading privilege usage', 'Close', { duration: 3000 });
+        this.loading = false;
+      }
+    });
+  }
+
+  // Loads enough history for the longest chart range and every limit window
+  private loadHistory() {
+    const startDate = this.buildBuckets('month', new Date())[0];
+
+    this.loadingHistory = true;
+    this.subscriptionService.getPrivilegeUsageHistory(this.data.subscription.id, startDate).subscribe({
+      next: (response) => {
+        this.history = response.statusCode === 200 ? response.data || [] : [];
+        this.loadingHistory = false;
+        this.refreshSelection();
+      },
+      error: (error) => {
+        console.error('Error loading privilege usage history:', error);
+        this.history = [];
+        this.loadingHistory = false;
+        this.refreshSelection();
+      }
+    });
+  }
+
+  private refreshSelection() {
+    if (!this.selected) return;
+
+    const history = this.history.filter(entry => entry.privilegeName === this.selected?.privilegeName);
+    const buckets = this.buildBuckets(this.granularity, new Date());
+
+    this.windows = this.buildWindows(this.selected, history);
+    this.historySeries = [{
+      name: this.selected.privilegeName,
+      color: CHART_COLORS[0],
+      points: this.groupHistory(history, buckets)
+    }];
+  }
+
+  private buildWindows(item: PrivilegeUsageDto, history: PrivilegeUsageHistoryDto[]): UsageWindow[] {
+    const now = new Date();
+    const limits = this.planPrivileges.find(p => p.privilegeName === item.privilegeName);
+    const usedSince = (start: Date) => history
+      .filter(entry => this.getUsedAt(entry).getTime() >= start.getTime())
+      .reduce((total, entry) => total + entry.usedValue, 0);
+    const windows: UsageWindow[] = [];
+
+    if (limits?.dailyLimit) {
+      const start = this.startOfDay(now);
+      windows.push({ name: 'Daily', used: usedSince(start), limit: limits.dailyLimit, resetsOn: this.addDays(start, 1) });
+    }
+    if (limits?.weeklyLimit) {
+      const start = this.startOfWeek(now);
+      windows.push({ name: 'Weekly', used: usedSince(start), limit: limits.weeklyLimit, resetsOn: this.addDays(start, 7) });
+    }
+    if (limits?.monthlyLimit) {
+      const start = new Date(now.getFullYear(), now.getMonth(), 1);
+      windows.push({ name: 'Monthly', used: usedSince(start), limit: limits.monthlyLimit, resetsOn: new Date(now.getFullYear(), now.getMonth() + 1, 1) });
+    }
+    if (this.currentPeriodEnd) {
+      windows.push({ name: 'Subscription period', used: item.usedValue, limit: item.allowedValue, resetsOn: this.currentPeriodEnd });
+    }
+
+    return windows;
+  }
+
+  // Start dates of each chart bucket, oldest first, ending with the bucket containing today
+  private buildBuckets(granularity: HistoryGranularity, now: Date): Date[] {
+    const count = HISTORY_BUCKETS[granularity];
+    return Array.from({ length: count }, (_, i) => {
+      const offset = i - count + 1;
+      switch (granularity) {
+        case 'day': return this.addDays(this.startOfDay(now), offset);
+        case 'week': return this.addDays(this.startOfWeek(now), offset * 7);
+        case 'month': return new Date(now.getFullYear(), now.getMonth() + offset, 1);
+      }
+    });
+  }
+
+  private groupHistory(history: PrivilegeUsageHistoryDto[], buckets: Date[]) {
+    const totals = buckets.map(() => 0);
+    history.forEach(entry => {
+      const usedAt = this.getUsedAt(entry).getTime();
+      for (let i = buckets.length - 1; i >= 0; i--) {
+        if (usedAt >= buckets[i].getTime()) {
+          totals[i] += entry.usedValue;
+          break;
+        }
+      }
+    });
+
+    return buckets.map((start, i) => ({
+      label: this.granularity === 'month'
+        ? start.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+        : start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      value: totals[i],
+      key: start.toISOString()
+    }));
+  }
+
+  private getUsedAt(entry: PrivilegeUsageHistoryDto): Date {
+    return new Date(entry.usedAt ?? entry.usageDate);
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  // Weeks start on Monday
+  private startOfWeek(date: Date): Date {
+    const day = this.startOfDay(date);
+    return this.addDays(day, -((day.getDay() + 6) % 7));
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+}
@@ -0,0 +1,115 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { ProrationResult } from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+@Component({
+  selector: 'app-proration-preview',
+  standalone: true,
+  imports: [CommonModule, MatIconModule, MoneyPipe],
+  template: `
+    <div class="proration-preview" *ngIf="result">
+      <table class="line-items">
+        <tbody>
+          <tr *ngFor="let item of result.lineItems" [class]="item.type">
+            <td>
+              {{ item.description }}
+              <span class="period" *ngIf="item.periodStart && item.periodEnd">
+                {{ item.periodStart | date:'mediumDate' }} – {{ item.periodEnd | date:'mediumDate' }}
+              </span>
+            </td>
+            <td class="amount">{{ item.amount | money:currencyCode }}</td>
+          </tr>
+        </tbody>
+        <tfoot>
+          <tr class="total">
+            <td>
+              <ng-container *ngIf="result.timing === 'period_end'">
+                Due on {{ result.effectiveDate | date:'mediumDate' }}
+              </ng-container>
+              <ng-container *ngIf="result.timing === 'immediately'">
+                {{ result.creditBalance > 0 ? 'Credit to account' : 'Due now' }}
+              </ng-container>
+            </td>
+            <td class="amount">
+              {{ (result.creditBalance > 0 ? result.creditBalance : result.amountDue) | money:currencyCode }}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div class="next-billing">
+        <mat-icon>event</mat-icon>
+        Next billing {{ result.nextBillingDate | date:'mediumDate' }}
+        at {{ result.nextBillingAmount | money:currencyCode }}
+        <span *ngIf="result.billingAnchorReset" class="hint">(billing date moves because the cycle length changes)</span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .proration-preview {
+      padding: 16px;
+      background: #fafafa;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .line-items {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .line-items td {
+      padding: 6px 0;
+      vertical-align: top;
+    }
+
+    .line-items .amount {
+      text-align: right;
+      white-space: nowrap;
+      padding-left: 16px;
+    }
+
+    .line-items tr.credit .amount,
+    .line-items tr.discount .amount {
+      color: #2e7d32;
+    }
+
+    .period {
+      display: block;
+      font-size: 12px;
+      color: #999;
+    }
+
+    .total td {
+      border-top: 1px solid #e0e0e0;
+      padding-top: 8px;
+      font-weight: 600;
+    }
+
+    .next-billing {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-top: 12px;
+      color: #555;
+    }
+
+    .next-billing mat-icon {
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
+    }
+
+    .hint {
+      font-size: 12px;
+      color: #999;
+    }
+  `]
+})
+export class ProrationPreviewComponent {
+  @Input() result: ProrationResult | null = null;
+  @Input() currencyCode = 'USD';
+}
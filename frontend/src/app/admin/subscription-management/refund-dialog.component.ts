@@ -0,0 +1,175 @@
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { BillingRecordDto, RefundBillingRecordDto } from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface RefundDialogData {
+  record: BillingRecordDto;
+}
+
+@Component({
+  selector: 'app-refund-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MoneyPipe
+  ],
+  template: `
+    <div class="refund-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>undo</mat-icon>
+        <div>
+          <h2>Issue Refund</h2>
+          <p>Invoice of {{ data.record.billingDate | date:'mediumDate' }} · {{ data.record.amount | money:data.record.currency }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div class="refundable">
+          <span>Refundable balance</span>
+          <strong>{{ refundable | money:data.record.currency }}</strong>
+        </div>
+
+        <form [formGroup]="refundForm">
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Amount</mat-label>
+            <input matInput type="number" formControlName="amount" min="0.01" [max]="refundable" step="0.01">
+            <button mat-button matSuffix type="button" (click)="refundAll()">Full</button>
+            <mat-error *ngIf="refundForm.get('amount')?.hasError('required')">Amount is required</mat-error>
+            <mat-error *ngIf="refundForm.get('amount')?.hasError('min')">Amount must be greater than zero</mat-error>
+            <mat-error *ngIf="refundForm.get('amount')?.hasError('max')">
+              Cannot refund more than {{ refundable | money:data.record.currency }}
+            </mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Reason</mat-label>
+            <textarea matInput formControlName="reason" rows="3"></textarea>
+            <mat-error *ngIf="refundForm.get('reason')?.hasError('required')">Reason is required</mat-error>
+            <mat-error *ngIf="refundForm.get('reason')?.hasError('minlength')">
+              Please provide more detail (at least 10 characters)
+            </mat-error>
+          </mat-form-field>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="warn" (click)="onConfirm()" [disabled]="refundForm.invalid">
+          Refund {{ (refundForm.get('amount')?.value || 0) | money:data.record.currency }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .refund-dialog {
+      min-width: 400px;
+      max-width: 500px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #d32f2f;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .refundable {
+      display: flex;
+      justify-content: space-between;
+      padding: 12px 16px;
+      margin-bottom: 16px;
+      background: #fafafa;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .refund-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class RefundDialogComponent {
+  refundForm: FormGroup;
+  readonly refundable: number;
+
+  constructor(
+    public dialogRef: MatDialogRef<RefundDialogComponent, RefundBillingRecordDto>,
+    @Inject(MAT_DIALOG_DATA) public data: RefundDialogData,
+    private fb: FormBuilder
+  ) {
+    this.refundable = Math.max(0, Math.round((data.record.amount - (data.record.refundAmount ?? 0)) * 100) / 100);
+    this.refundForm = this.fb.group({
+      amount: [this.refundable, [Validators.required, Validators.min(0.01), Validators.max(this.refundable)]],
+      reason: ['', [Validators.required, Validators.minLength(10)]]
+    });
+  }
+
+  refundAll(): void {
+    this.refundForm.patchValue({ amount: this.refundable });
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    if (this.refundForm.invalid) return;
+
+    const { amount, reason } = this.refundForm.value;
+    this.dialogRef.close({
+      amount: Math.round(Number(amount) * 100) / 100,
+      reason: reason.trim()
+    });
+  }
+}
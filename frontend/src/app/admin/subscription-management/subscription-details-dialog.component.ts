@@ -9,15 +9,19 @@ import { MatChipsModule } from '@angular/material/chips';
 import { MatTableModule } from '@angular/material/table';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import { MatMenuModule } from '@angular/material/menu';
 import { SubscriptionService } from '../../services/subscription.service';
+import { ExportFormat, ExportService } from '../../services/export.service';
+import { buildBillingTable } from './export-tables';
 import { 
   SubscriptionDto, 
   SubscriptionDetailsDto,
   BillingRecordDto,
   SubscriptionPaymentDto,
   SubscriptionStatusHistoryDto,
-  UserSubscriptionPrivilegeUsageDto
+  PrivilegeUsageDto
 } from '../../models/subscription.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
 
 @Component({
   selector: 'app-subscription-details-dialog',
@@ -32,7 +36,9 @@ import {
     MatChipsModule,
     MatTableModule,
     MatProgressSpinnerModule,
-    MatSnackBarModule
+    MatSnackBarModule,
+    MatMenuModule,
+    MoneyPipe
   ],
   template: `
     <div class="subscription-details-dialog">
@@ -68,7 +74,7 @@ import {
                     </div>
                     <div class="info-row">
                       <span class="label">Current Price:</span>
-                      <span class="value">{{ subscription.currentPrice | currency:'USD' }}</span>
+                      <span class="value">{{ subscription.currentPrice | money:subscription.currencyId }}</span>
                     </div>
                     <div class="info-row">
                       <span class="label">Start Date:</span>
@@ -116,6 +122,10 @@ import {
                       <span class="label">Paused Date:</span>
                       <span class="value">{{ subscription.pausedDate | date:'medium' }}</span>
                     </div>
+                    <div class="info-row" *ngIf="subscription.isPaused && subscription.scheduledResumeDate">
+                      <span class="label">Auto-resumes On:</span>
+                      <span class="value">{{ subscription.scheduledResumeDate | date:'mediumDate' }}</span>
+                    </div>
                     <div class="info-row" *ngIf="subscription.resumedDate">
                       <span class="label">Resumed Date:</span>
                       <span class="value">{{ subscription.resumedDate | date:'medium' }}</span>
@@ -164,6 +174,18 @@ import {
                 <p>No billing records found for this subscription.</p>
               </div>
 
+              <div *ngIf="!loadingBilling && billingHistory.length > 0" class="tab-actions">
+                <button mat-stroked-button [matMenuTriggerFor]="billingExportMenu">
+                  <mat-icon>download</mat-icon>
+                  Export
+                </button>
+                <mat-menu #billingExportMenu="matMenu">
+                  <button mat-menu-item (click)="exportBillingHistory('csv')">CSV</button>
+                  <button mat-menu-item (click)="exportBillingHistory('xlsx')">Excel (XLSX)</button>
+                  <button mat-menu-item (click)="exportBillingHistory('pdf')">PDF</button>
+                </mat-menu>
+              </div>
+
               <div *ngIf="!loadingBilling && billingHistory.length > 0" class="billing-table">
                 <table mat-table [dataSource]="billingHistory">
                   <ng-container matColumnDef="billingDate">
@@ -173,7 +195,7 @@ import {
 
                   <ng-container matColumnDef="amount">
                     <th mat-header-cell *matHeaderCellDef>Amount</th>
-                    <td mat-cell *matCellDef="let record">{{ record.amount | currency:record.currency }}</td>
+                    <td mat-cell *matCellDef="let record">{{ record.amount | money:record.currency }}</td>
                   </ng-container>
 
                   <ng-container matColumnDef="dueDate">
@@ -227,19 +249,16 @@ import {
                     <div class="usage-info">
                       <div class="usage-bar">
                         <div class="usage-progress" 
-                             [style.width.%]="getUsagePercentage(usage.usedCount, usage.allowedCount)">
+                             [style.width.%]="getUsagePercentage(usage.usedValue, usage.allowedValue)">
                         </div>
                       </div>
                       <div class="usage-text">
-                        <span>{{ usage.usedCount }} / {{ usage.allowedCount === -1 ? 'Unlimited' : usage.allowedCount }}</span>
-                        <span class="usage-percentage">{{ getUsagePercentage(usage.usedCount, usage.allowedCount) }}%</span>
+                        <span>{{ usage.usedValue }} / {{ usage.allowedValue === -1 ? 'Unlimited' : usage.allowedValue }}</span>
+                        <span class="usage-percentage">{{ getUsagePercentage(usage.usedValue, usage.allowedValue) }}%</span>
                       </div>
-                      <div class="usage-dates">
-                        <div *ngIf="usage.lastUsedDate">
-                          <strong>Last Used:</strong> {{ usage.lastUsedDate | date:'medium' }}
-                        </div>
+                      <div class="usage-dates" *ngIf="usagePeriodEnd">
                         <div>
-                          <strong>Reset Date:</strong> {{ usage.resetDate | date:'medium' }}
+                          <strong>Reset Date:</strong> {{ usagePeriodEnd | date:'medium' }}
                         </div>
                       </div>
                     </div>
@@ -273,11 +292,11 @@ import {
                         <mat-icon>arrow_forward</mat-icon>
                         <mat-chip [color]="getStatusColor(history.toStatus)">{{ history.toStatus }}</mat-chip>
                       </span>
-                      <span class="change-date">{{ history.changedDate | date:'medium' }}</span>
+                      <span class="change-date">{{ history.changedAt | date:'medium' }}</span>
                     </div>
-                    <div class="timeline-details" *ngIf="history.reason || history.notes">
+                    <div class="timeline-details" *ngIf="history.reason || history.metadata">
                       <p *ngIf="history.reason"><strong>Reason:</strong> {{ history.reason }}</p>
-                      <p *ngIf="history.notes"><strong>Notes:</strong> {{ history.notes }}</p>
+                      <p *ngIf="history.metadata"><strong>Notes:</strong> {{ history.metadata }}</p>
                     </div>
                   </div>
                 </div>
@@ -403,6 +422,12 @@ import {
       color: #ccc;
     }
 
+    .tab-actions {
+      display: flex;
+      justify-content: flex-end;
+      margin-bottom: 12px;
+    }
+
     .billing-table,
     .privilege-cards {
       background: white;
@@ -558,10 +583,12 @@ import {
 export class SubscriptionDetailsDialogComponent implements OnInit {
   private subscriptionService = inject(SubscriptionService);
   private snackBar = inject(MatSnackBar);
+  private exportService = inject(ExportService);
 
   subscription: SubscriptionDto;
   billingHistory: BillingRecordDto[] = [];
-  privilegeUsage: UserSubscriptionPrivilegeUsageDto[] = [];
+  privilegeUsage: PrivilegeUsageDto[] = [];
+  usagePeriodEnd: Date | null = null;
   statusHistory: SubscriptionStatusHistoryDto[] = [];
 
   loadingBilling = false;
@@ -583,6 +610,16 @@ export class SubscriptionDetailsDialogComponent implements OnInit {
     this.loadStatusHistory();
   }
 
+  exportBillingHistory(format: ExportFormat) {
+    const title = `Billing History - ${this.subscription.userName} (${this.subscription.planName})`;
+    const fileName = this.exportService.exportTable(
+      buildBillingTable(this.billingHistory, title),
+      format,
+      `billing-history-${this.subscription.userName}`
+    );
+    this.snackBar.open(`Billing history saved as ${fileName}`, 'Close', { duration: 3000 });
+  }
+
   private loadBillingHistory() {
     this.loadingBilling = true;
     this.subscriptionService.getBillingHistory(this.subscription.id).subscribe({
@@ -601,10 +638,11 @@ export class SubscriptionDetailsDialogComponent implements OnInit {
 
   private loadPrivilegeUsage() {
     this.loadingPrivileges = true;
-    this.subscriptionService.getPrivilegeUsage(this.subscription.id).subscribe({
+    this.subscriptionService.getUsageStatistics(this.subscription.id).subscribe({
       next: (response) => {
-        if (response.statusCode === 200) {
-          this.privilegeUsage = response.data || [];
+        if (response.statusCode === 200 && response.data) {
+          this.privilegeUsage = response.data.privilegeUsage || [];
+          this.usagePeriodEnd = new Date(response.data.currentPeriodEnd);
         }
         this.loadingPrivileges = false;
       },
@@ -16,19 +16,34 @@ import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { SubscriptionService } from '../../services/subscription.service';
-import { PlanStepperComponent } from './plan-stepper.component';
+import { PlanStepperDialogData } from './plan-stepper.component';
 import { SubscriptionDetailsDialogComponent } from './subscription-details-dialog.component';
 import { ConfirmationDialogComponent, ConfirmationDialogData } from './confirmation-dialog.component';
+import { BillingHistoryDialogComponent, BillingHistoryDialogData } from './billing-history-dialog.component';
+import { PrivilegeUsageDialogComponent, PrivilegeUsageDialogData } from './privilege-usage-dialog.component';
+import { PauseSubscriptionDialogComponent, PauseSubscriptionDialogData, PauseSubscriptionDialogResult } from './pause-subscription-dialog.component';
+import { ExtendSubscriptionDialogComponent, ExtendSubscriptionDialogData, ExtendSubscriptionDialogResult } from './extend-subscription-dialog.component';
+import { PlanChangeDialogComponent, PlanChangeDialogData, PlanChangeDialogResult } from './plan-change-dialog.component';
+import {
+  BillingCycleChangeDialogComponent,
+  BillingCycleChangeDialogData,
+  BillingCycleChangeDialogResult
+} from './billing-cycle-change-dialog.component';
+import { ExportFormat, ExportService } from '../../services/export.service';
+import { buildPlansTable, buildSubscriptionsTable } from './export-tables';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { PlanEditorService } from '../plans/plan-editor.service';
 import { 
   SubscriptionDto, 
   SubscriptionPlanDto, 
-  CreateSubscriptionPlanDto, 
-  PaginatedResponse,
   SubscriptionDetailsDto,
   BillingRecordDto,
-  UserSubscriptionPrivilegeUsageDto
+  PlanChangeDirection
 } from '../../models/subscription.models';
 import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { ActivatedRoute } from '@angular/router';
+import { MoneyPipe } from '../../pipes/money.pipe';
 
 @Component({
   selector: 'app-subscription-management',
@@ -52,15 +67,20 @@ import { MatDialog, MatDialogModule } from '@angular/material/dialog';
     MatSnackBarModule,
     MatDividerModule,
     MatProgressSpinnerModule,
-    PlanStepperComponent
+    HasPermissionDirective,
+    MoneyPipe
   ],
   templateUrl: './subscription-management.html',
   styleUrls: ['./subscription-management.scss']
 })
 export class SubscriptionManagementComponent implements OnInit {
   private subscriptionService = inject(SubscriptionService);
+  private planEditor = inject(PlanEditorService);
   private snackBar = inject(MatSnackBar);
   private dialog = inject(MatDialog);
+  private route = inject(ActivatedRoute);
+  private exportService = inject(ExportService);
+  private masterData = inject(MasterDataStoreService);
 
   // Plans data
   plans: SubscriptionPlanDto[] = [];
@@ -70,6 +90,7 @@ export class SubscriptionManagementComponent implements OnInit {
   planCurrentPage = 0;
   planSearchTerm = '';
   plansLoading = false;
+  plansExporting = false;
 
   // Subscriptions data
   subscriptions: SubscriptionDto[] = [];
@@ -79,13 +100,28 @@ export class SubscriptionManagementComponent implements OnInit {
   subscriptionCurrentPage = 0;
   subscriptionSearchTerm = '';
   selectedStatus = '';
+  selectedPlanId = '';
+  // Created-date range set by analytics drill-down (yyyy-mm-dd)
+  createdFrom = '';
+  createdTo = '';
   subscriptionsLoading = false;
+  subscriptionsExporting = false;
 
   // UI state
   selectedTab = 0;
   loading = false;
 
   ngOnInit() {
+    // Drill-down links from analytics land here with status, plan and created-date filters
+    const queryParams = this.route.snapshot.queryParamMap;
+    if (['status', 'planId', 'startDate', 'endDate'].some(key => queryParams.has(key))) {
+      this.selectedStatus = queryParams.get('status') || '';
+      this.selectedPlanId = queryParams.get('planId') || '';
+      this.createdFrom = queryParams.get('startDate') || '';
+      this.createdTo = queryParams.get('endDate') || '';
+      this.selectedTab = 1;
+    }
+
     this.loadPlans();
     this.loadSubscriptions();
   }
@@ -129,64 +165,43 @@ export class SubscriptionManagementComponent implements OnInit {
     this.loadPlans();
   }
 
-  openCreatePlanDialog() {
-    const dialogRef = this.dialog.open(PlanStepperComponent, {
-      width: '90vw',
-      maxWidth: '1200px',
-      height: '90vh',
-      data: { editingPlan: null }
-    });
-
-    dialogRef.componentInstance.planCreated.subscribe((planData: CreateSubscriptionPlanDto) => {
-      this.subscriptionService.createPlan(planData).subscribe({
-        next: (response) => {
-          if (response.statusCode === 200) {
-            this.snackBar.open('Plan created successfully', 'Close', { duration: 3000 });
-            this.loadPlans();
-            dialogRef.close();
-          } else {
-            this.snackBar.open(response.message || 'Failed to create plan', 'Close', { duration: 5000 });
-          }
-        },
-        error: (err: any) => {
-          this.snackBar.open(err.message || 'Failed to create plan', 'Close', { duration: 5000 });
+  /**
+   * Export every plan matching the current search, not just the visible page
+   */
+  exportPlans(format: ExportFormat) {
+    this.plansExporting = true;
+    this.subscriptionService.getAllPlans(1, Math.max(this.planTotalCount, this.planPageSize), this.planSearchTerm).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          const fileName = this.exportService.exportTable(buildPlansTable(response.data, undefined, this.masterData.snapshot('currencies')), format, 'subscription-plans');
+          this.snackBar.open(`Plans exported to ${fileName}`, 'Close', { duration: 3000 });
+        } else {
+          this.snackBar.open(response.message || 'Failed to export plans', 'Close', { duration: 5000 });
         }
-      });
+        this.plansExporting = false;
+      },
+      error: (error) => {
+        console.error('Error exporting plans:', error);
+        this.snackBar.open('Error exporting plans: ' + (error.message || 'Unknown error'), 'Close', { duration: 5000 });
+        this.plansExporting = false;
+      }
     });
+  }
 
-    dialogRef.componentInstance.cancelled.subscribe(() => {
-      dialogRef.close();
-    });
+  openCreatePlanDialog(startFrom?: PlanStepperDialogData['startFrom']) {
+    this.planEditor.openCreatePlanDialog(startFrom).subscribe(() => this.loadPlans());
   }
 
-  editPlan(plan: SubscriptionPlanDto) {
-    const dialogRef = this.dialog.open(PlanStepperComponent, {
-      width: '90vw',
-      maxWidth: '1200px',
-      height: '90vh',
-      data: { editingPlan: plan }
-    });
+  duplicatePlan(plan: SubscriptionPlanDto) {
+    this.planEditor.duplicatePlan(plan).subscribe(() => this.loadPlans());
+  }
 
-    dialogRef.componentInstance.planUpdated.subscribe((planData: any) => {
-      this.subscriptionService.updatePlan(plan.id, planData).subscribe({
-        next: (response) => {
-          if (response.statusCode === 200) {
-            this.snackBar.open('Plan updated successfully', 'Close', { duration: 3000 });
-            this.loadPlans();
-            dialogRef.close();
-          } else {
-            this.snackBar.open(response.message || 'Failed to update plan', 'Close', { duration: 5000 });
-          }
-        },
-        error: (err: any) => {
-          this.snackBar.open(err.message || 'Failed to update plan', 'Close', { duration: 5000 });
-        }
-      });
-    });
+  editPlan(plan: SubscriptionPlanDto) {
+    this.planEditor.editPlan(plan).subscribe(() => this.loadPlans());
+  }
 
-    dialogRef.componentInstance.cancelled.subscribe(() => {
-      dialogRef.close();
-    });
+  showVersionHistory(plan: SubscriptionPlanDto) {
+    this.planEditor.showVersionHistory(plan).subscribe(() => this.loadPlans());
   }
 
   viewPlan(plan: SubscriptionPlanDto) {
@@ -233,12 +248,16 @@ export class SubscriptionManagementComponent implements OnInit {
   loadSubscriptions() {
     this.subscriptionsLoading = true;
     const statusFilter = this.selectedStatus ? [this.selectedStatus] : undefined;
+    const planFilter = this.selectedPlanId ? [this.selectedPlanId] : undefined;
     
     this.subscriptionService.getAllSubscriptions(
       this.subscriptionCurrentPage + 1,
       this.subscriptionPageSize,
       this.subscriptionSearchTerm,
-      statusFilter
+      statusFilter,
+      planFilter,
+      this.createdFrom,
+      this.createdTo
     ).subscribe({
       next: (response) => {
         if (response.statusCode === 200 && response.data) {
@@ -270,6 +289,62 @@ export class SubscriptionManagementComponent implements OnInit {
     this.loadSubscriptions();
   }
 
+  clearPlanFilter() {
+    this.selectedPlanId = '';
+    this.filterSubscriptions();
+  }
+
+  clearCreatedFilter() {
+    this.createdFrom = '';
+    this.createdTo = '';
+    this.filterSubscriptions();
+  }
+
+  getSelectedPlanName(): string {
+    return this.plans.find(p => p.id === this.selectedPlanId)?.name ?? 'Selected plan';
+  }
+
+  /**
+   * Export every subscription matching the current search and filters, not just the visible page
+   */
+  exportSubscriptions(format: ExportFormat) {
+    this.subscriptionsExporting = true;
+    const statusFilter = this.selectedStatus ? [this.selectedStatus] : undefined;
+    const planFilter = this.selectedPlanId ? [this.selectedPlanId] : undefined;
+
+    this.subscriptionService.getAllSubscriptions(
+      1,
+      Math.max(this.subscriptionTotalCount, this.subscriptionPageSize),
+      this.subscriptionSearchTerm,
+      statusFilter,
+      planFilter,
+      this.createdFrom,
+      this.createdTo
+    ).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          const filters = [
+            this.selectedStatus && `status ${this.selectedStatus}`,
+            this.selectedPlanId && `plan ${this.getSelectedPlanName()}`,
+            (this.createdFrom || this.createdTo) && `created ${this.createdFrom || '…'} to ${this.createdTo || '…'}`,
+            this.subscriptionSearchTerm && `search "${this.subscriptionSearchTerm}"`
+          ].filter(Boolean).join(', ');
+          const title = filters ? `User Subscriptions (${filters})` : 'User Subscriptions';
+          const fileName = this.exportService.exportTable(buildSubscriptionsTable(response.data, title, this.masterData.snapshot('currencies')), format, 'subscriptions');
+          this.snackBar.open(`Subscriptions exported to ${fileName}`, 'Close', { duration: 3000 });
+        } else {
+          this.snackBar.open(response.message || 'Failed to export subscriptions', 'Close', { duration: 5000 });
+        }
+        this.subscriptionsExporting = false;
+      },
+      error: (error) => {
+        console.error('Error exporting subscriptions:', error);
+        this.snackBar.open('Error exporting subscriptions: ' + (error.message || 'Unknown error'), 'Close', { duration: 5000 });
+        this.subscriptionsExporting = false;
+      }
+    });
+  }
+
   onSubscriptionPageChange(event: PageEvent) {
     this.subscriptionCurrentPage = event.pageIndex;
     this.subscriptionPageSize = event.pageSize;
@@ -293,51 +368,88 @@ export class SubscriptionManagementComponent implements OnInit {
   }
 
   upgradeSubscription(subscription: SubscriptionDto) {
-    // TODO: Open plan selection dialog for upgrade
-    const newPlanId = prompt('Enter new plan ID for upgrade:');
-    if (newPlanId) {
-      this.subscriptionService.upgradeSubscription(subscription.id, newPlanId).subscribe({
+    this.openPlanChangeDialog(subscription, 'upgrade');
+  }
+
+  downgradeSubscription(subscription: SubscriptionDto) {
+    this.openPlanChangeDialog(subscription, 'downgrade');
+  }
+
+  private openPlanChangeDialog(subscription: SubscriptionDto, direction: PlanChangeDirection) {
+    const data: PlanChangeDialogData = { subscription, direction };
+    const dialogRef = this.dialog.open(PlanChangeDialogComponent, {
+      width: '860px',
+      maxWidth: '95vw',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe((result?: PlanChangeDialogResult) => {
+      if (!result) return;
+
+      const label = direction === 'upgrade' ? 'upgraded' : 'downgraded';
+
+      this.subscriptionService.changeSubscriptionPlan(subscription.id, result.plan.id).subscribe({
         next: (response) => {
           if (response.statusCode === 200) {
-            this.snackBar.open('Subscription upgraded successfully', 'Close', { duration: 3000 });
+            this.snackBar.open(`Subscription ${label} to ${result.plan.name}`, 'Close', { duration: 3000 });
             this.loadSubscriptions();
+          } else {
+            this.snackBar.open(response.message || 'Failed to change plan', 'Close', { duration: 5000 });
           }
         },
         error: (error) => {
-          console.error('Error upgrading subscription:', error);
-          this.snackBar.open('Error upgrading subscription', 'Close', { duration: 3000 });
+          console.error(`Error changing subscription plan (${direction}):`, error);
+          this.snackBar.open('Error changing subscription plan', 'Close', { duration: 3000 });
         }
       });
-    }
+    });
   }
 
-  downgradeSubscription(subscription: SubscriptionDto) {
-    // TODO: Open plan selection dialog for downgrade
-    const newPlanId = prompt('Enter new plan ID for downgrade:');
-    if (newPlanId) {
-      this.subscriptionService.downgradeSubscription(subscription.id, newPlanId).subscribe({
+  changeBillingCycle(subscription: SubscriptionDto) {
+    const data: BillingCycleChangeDialogData = { subscription };
+    const dialogRef = this.dialog.open(BillingCycleChangeDialogComponent, {
+      width: '720px',
+      maxWidth: '95vw',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe((result?: BillingCycleChangeDialogResult) => {
+      if (!result) return;
+
+      this.subscriptionService.changeBillingCycle(subscription.id, result.billingCycleId).subscribe({
         next: (response) => {
           if (response.statusCode === 200) {
-            this.snackBar.open('Subscription downgraded successfully', 'Close', { duration: 3000 });
+            this.snackBar.open(`Subscription will move to ${result.billingCycleName} billing from its next billing date`, 'Close', { duration: 3000 });
             this.loadSubscriptions();
+          } else {
+            this.snackBar.open(response.message || 'Failed to change billing cycle', 'Close', { duration: 5000 });
           }
         },
         error: (error) => {
-          console.error('Error downgrading subscription:', error);
-          this.snackBar.open('Error downgrading subscription', 'Close', { duration: 3000 });
+          console.error('Error changing billing cycle:', error);
+          this.snackBar.open('Error changing billing cycle', 'Close', { duration: 3000 });
         }
       });
-    }
+    });
   }
 
   extendSubscription(subscription: SubscriptionDto) {
-    const additionalDays = prompt('Enter number of days to extend:');
-    if (additionalDays && !isNaN(Number(additionalDays))) {
-      this.subscriptionService.extendSubscription(subscription.id, Number(additionalDays)).subscribe({
+    const data: ExtendSubscriptionDialogData = { subscription };
+    const dialogRef = this.dialog.open(ExtendSubscriptionDialogComponent, {
+      width: '600px',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe((request?: ExtendSubscriptionDialogResult) => {
+      if (!request) return;
+
+      this.subscriptionService.extendSubscription(subscription.id, request).subscribe({
         next: (response) => {
           if (response.statusCode === 200) {
-            this.snackBar.open(`Subscription extended by ${additionalDays} days`, 'Close', { duration: 3000 });
+            this.snackBar.open(`Subscription extended by ${request.additionalDays} days`, 'Close', { duration: 3000 });
             this.loadSubscriptions();
+          } else {
+            this.snackBar.open(response.message || 'Failed to extend subscription', 'Close', { duration: 5000 });
           }
         },
         error: (error) => {
@@ -345,7 +457,7 @@ export class SubscriptionManagementComponent implements OnInit {
           this.snackBar.open('Error extending subscription', 'Close', { duration: 3000 });
         }
       });
-    }
+    });
   }
 
   reactivateSubscription(subscriptionId: string) {
@@ -366,42 +478,47 @@ export class SubscriptionManagementComponent implements OnInit {
   }
 
   viewBillingHistory(subscription: SubscriptionDto) {
-    this.subscriptionService.getBillingHistory(subscription.id).subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          // TODO: Open billing history dialog with response.data
-          this.snackBar.open(`Billing history loaded for ${subscription.userName}`, 'Close', { duration: 3000 });
-        }
-      },
-      error: (error) => {
-        console.error('Error loading billing history:', error);
-        this.snackBar.open('Error loading billing history', 'Close', { duration: 3000 });
+    const data: BillingHistoryDialogData = { subscription };
+    const dialogRef = this.dialog.open(BillingHistoryDialogComponent, {
+      width: '900px',
+      maxWidth: '95vw',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe(result => {
+      if (result === 'refresh') {
+        this.loadSubscriptions();
       }
     });
   }
 
   viewPrivilegeUsage(subscription: SubscriptionDto) {
-    this.subscriptionService.getPrivilegeUsage(subscription.id).subscribe({
-      next: (response) => {
-        if (response.statusCode === 200) {
-          // TODO: Open privilege usage dialog with response.data
-          this.snackBar.open(`Privilege usage loaded for ${subscription.userName}`, 'Close', { duration: 3000 });
-        }
-      },
-      error: (error) => {
-        console.error('Error loading privilege usage:', error);
-        this.snackBar.open('Error loading privilege usage', 'Close', { duration: 3000 });
-      }
+    const data: PrivilegeUsageDialogData = { subscription };
+    this.dialog.open(PrivilegeUsageDialogComponent, {
+      width: '960px',
+      maxWidth: '95vw',
+      data
     });
   }
 
-  pauseSubscription(subscriptionId: string) {
-    if (confirm('Are you sure you want to pause this subscription?')) {
-      this.subscriptionService.pauseSubscription(subscriptionId).subscribe({
+  pauseSubscription(subscription: SubscriptionDto) {
+    const data: PauseSubscriptionDialogData = { subscription };
+    const dialogRef = this.dialog.open(PauseSubscriptionDialogComponent, {
+      width: '600px',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe((request?: PauseSubscriptionDialogResult) => {
+      if (!request) return;
+
+      this.subscriptionService.pauseSubscription(subscription.id, request).subscribe({
         next: (response) => {
           if (response.statusCode === 200) {
-            this.snackBar.open('Subscription paused successfully', 'Close', { duration: 3000 });
+            const resumeDate = response.data.scheduledResumeDate ? new Date(response.data.scheduledResumeDate).toLocaleDateString() : null;
+            this.snackBar.open(resumeDate ? `Subscription paused; it resumes automatically on ${resumeDate}` : 'Subscription paused successfully', 'Close', { duration: 3000 });
             this.loadSubscriptions();
+          } else {
+            this.snackBar.open(response.message || 'Failed to pause subscription', 'Close', { duration: 5000 });
           }
         },
         error: (error) => {
@@ -409,7 +526,7 @@ export class SubscriptionManagementComponent implements OnInit {
           this.snackBar.open('Error pausing subscription', 'Close', { duration: 3000 });
         }
       });
-    }
+    });
   }
 
   resumeSubscription(subscriptionId: string) {
@@ -12,16 +12,17 @@ import { MatNativeDateModule } from '@angular/material/core';
 import { MatIconModule } from '@angular/material/icon';
 import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { forkJoin } from 'rxjs';
 import { 
   CreateSubscriptionPlanDto, 
   SubscriptionPlanDto,
   MasterBillingCycle, 
   MasterCurrency, 
   MasterPrivilegeType, 
-  Privilege,
-  ApiResponse 
+  Privilege
 } from '../../models/subscription.models';
 import { SubscriptionService } from '../../services/subscription.service';
+import { MasterDataStoreService } from '../../services/master-data-store.service';
 import { MatSnackBar } from '@angular/material/snack-bar';
 
 @Component({
@@ -277,6 +278,7 @@ export class SubscriptionStepperComponent {
 
   private fb = inject(FormBuilder);
   private subscriptionService = inject(SubscriptionService);
+  private masterData = inject(MasterDataStoreService);
   private snackBar = inject(MatSnackBar);
 
   basicInfoForm: FormGroup;
@@ -331,28 +333,18 @@ export class SubscriptionStepperComponent {
   private async loadMasterData() {
     this.loading = true;
     try {
-      // Load billing cycles
-      const billingCyclesResponse = await this.subscriptionService.getBillingCycles().toPromise();
-      if (billingCyclesResponse?.data) {
-        this.billingCycles = billingCyclesResponse.data;
-      }
-
-      // Load currencies
-      const currenciesResponse = await this.subscriptionService.getCurrencies().toPromise();
-      if (currenciesResponse?.data) {
-        this.currencies = currenciesResponse.data;
-      }
-
-      // Load privilege types
-      const privilegeTypesResponse = await this.subscriptionService.getPrivilegeTypes().toPromise();
-      if (privilegeTypesResponse?.data) {
-        this.privilegeTypes = privilegeTypesResponse.data;
-      }
-
-      // Load privileges
-      const privilegesResponse = await this.subscriptionService.getPrivileges().toPromise();
-      if (privilegesResponse?.data) {
-        this.privileges = privilegesResponse.data;
+      // Cached by the store, so reopening the stepper does not fetch the lists again
+      const lists = await forkJoin({
+        billingCycles: this.masterData.load('billingCycles'),
+        currencies: this.masterData.load('currencies'),
+        privilegeTypes: this.masterData.load('privilegeTypes'),
+        privileges: this.masterData.load('privileges')
+      }).toPromise();
+      if (lists) {
+        this.billingCycles = lists.billingCycles;
+        this.currencies = lists.currencies;
+        this.privilegeTypes = lists.privilegeTypes;
+        this.privileges = lists.privileges;
       }
     } catch (error) {
       console.error('Error loading master data:', error);
@@ -0,0 +1,286 @@
+import { Component, Inject, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { SubscriptionService } from '../../services/subscription.service';
+import { CreateSubscriptionDto, SubscriptionPlanDto } from '../../models/subscription.models';
+import { PaymentMethodDto, UserDto } from '../../models/user.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+export interface CreateUserSubscriptionDialogData {
+  user: UserDto;
+  paymentMethods: PaymentMethodDto[];
+}
+
+@Component({
+  selector: 'app-create-user-subscription-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatCheckboxModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    MatProgressSpinnerModule,
+    MoneyPipe
+  ],
+  template: `
+    <div class="create-subscription-dialog">
+      <div mat-dialog-title class="dialog-header">
+        <mat-icon>add_card</mat-icon>
+        <div>
+          <h2>New Subscription</h2>
+          <p>{{ data.user.fullName || data.user.email }}</p>
+        </div>
+      </div>
+
+      <div mat-dialog-content class="dialog-content">
+        <div *ngIf="loadingPlans" class="loading-container">
+          <mat-spinner diameter="32"></mat-spinner>
+        </div>
+
+        <form [formGroup]="subscriptionForm" *ngIf="!loadingPlans">
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Plan</mat-label>
+            <mat-select formControlName="planId">
+              <mat-option *ngFor="let plan of plans" [value]="plan.id">
+                {{ plan.name }} · {{ plan.effectivePrice | money:plan.currencyId }}{{ plan.billingCycleName ? ' / ' + plan.billingCycleName : '' }}
+              </mat-option>
+            </mat-select>
+            <mat-hint *ngIf="plans.length === 0">There are no active plans to subscribe to</mat-hint>
+            <mat-error *ngIf="subscriptionForm.get('planId')?.hasError('required')">Choose a plan</mat-error>
+          </mat-form-field>
+
+          <div class="plan-summary" *ngIf="selectedPlan as plan">
+            <div class="summary-row">
+              <span>Price</span>
+              <strong>{{ plan.effectivePrice | money:plan.currencyId }}</strong>
+            </div>
+            <div class="summary-row" *ngIf="plan.billingCycleName">
+              <span>Billed</span>
+              <strong>{{ plan.billingCycleName }}</strong>
+            </div>
+            <div class="summary-row" *ngIf="plan.isTrialAllowed && plan.trialDurationInDays > 0">
+              <span>Trial</span>
+              <strong>{{ plan.trialDurationInDays }} days</strong>
+            </div>
+          </div>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Payment Method</mat-label>
+            <mat-select formControlName="paymentMethodId">
+              <mat-option [value]="null">Collect payment later</mat-option>
+              <mat-option *ngFor="let method of data.paymentMethods" [value]="method.id">
+                {{ getPaymentMethodLabel(method) }}{{ method.isDefault ? ' (default)' : '' }}
+              </mat-option>
+            </mat-select>
+            <mat-hint *ngIf="data.paymentMethods.length === 0">This user has no saved payment methods</mat-hint>
+          </mat-form-field>
+
+          <mat-checkbox formControlName="startImmediately">Start immediately</mat-checkbox>
+
+          <mat-form-field appearance="outline" class="full-width start-date" *ngIf="!subscriptionForm.get('startImmediately')?.value">
+            <mat-label>Start Date</mat-label>
+            <input matInput [matDatepicker]="picker" formControlName="startDate" [min]="minStartDate">
+            <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+            <mat-datepicker #picker></mat-datepicker>
+            <mat-error *ngIf="subscriptionForm.get('startDate')?.hasError('required')">Choose a start date</mat-error>
+            <mat-error *ngIf="subscriptionForm.get('startDate')?.hasError('matDatepickerMin')">The start date cannot be in the past</mat-error>
+          </mat-form-field>
+
+          <mat-checkbox formControlName="autoRenew">Renew automatically</mat-checkbox>
+        </form>
+      </div>
+
+      <div mat-dialog-actions class="dialog-actions">
+        <button mat-button (click)="onCancel()">Cancel</button>
+        <button mat-raised-button color="primary" (click)="onConfirm()" [disabled]="loadingPlans || subscriptionForm.invalid">
+          Create Subscription
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .create-subscription-dialog {
+      min-width: 440px;
+      max-width: 600px;
+    }
+
+    .dialog-header {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 24px 16px 24px;
+      margin: 0;
+    }
+
+    .dialog-header mat-icon {
+      font-size: 32px;
+      width: 32px;
+      height: 32px;
+      color: #1976d2;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 600;
+    }
+
+    .dialog-header p {
+      margin: 4px 0 0 0;
+      color: #666;
+      font-size: 14px;
+    }
+
+    .dialog-content {
+      padding: 0 24px 16px 24px;
+    }
+
+    .loading-container {
+      display: flex;
+      justify-content: center;
+      padding: 24px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .plan-summary {
+      padding: 12px 16px;
+      margin-bottom: 16px;
+      background: #e3f2fd;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+
+    .summary-row {
+      display: flex;
+      justify-content: space-between;
+      padding: 4px 0;
+    }
+
+    mat-checkbox {
+      display: block;
+      margin-bottom: 12px;
+    }
+
+    .start-date {
+      margin-top: 4px;
+    }
+
+    .dialog-actions {
+      padding: 16px 24px 24px 24px;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      margin: 0;
+    }
+
+    @media (max-width: 480px) {
+      .create-subscription-dialog {
+        min-width: 280px;
+      }
+    }
+  `]
+})
+export class CreateUserSubscriptionDialogComponent implements OnInit {
+  subscriptionForm: FormGroup;
+  plans: SubscriptionPlanDto[] = [];
+  loadingPlans = false;
+
+  readonly minStartDate = new Date();
+
+  constructor(
+    public dialogRef: MatDialogRef<CreateUserSubscriptionDialogComponent, CreateSubscriptionDto>,
+    @Inject(MAT_DIALOG_DATA) public data: CreateUserSubscriptionDialogData,
+    private fb: FormBuilder,
+    private subscriptionService: SubscriptionService
+  ) {
+    const defaultMethod = data.paymentMethods.find(m => m.isDefault) ?? data.paymentMethods[0];
+
+    this.subscriptionForm = this.fb.group({
+      planId: ['', Validators.required],
+      paymentMethodId: [defaultMethod?.id ?? null],
+      startImmediately: [true],
+      startDate: [new Date(), Validators.required],
+      autoRenew: [true]
+    });
+
+    // The start date only takes part in validation when the subscription is scheduled
+    this.subscriptionForm.get('startDate')?.disable();
+    this.subscriptionForm.get('startImmediately')?.valueChanges.subscribe(immediately => {
+      const startDate = this.subscriptionForm.get('startDate');
+      if (immediately) {
+        startDate?.disable({ emitEvent: false });
+      } else {
+        startDate?.enable({ emitEvent: false });
+      }
+    });
+  }
+
+  ngOnInit() {
+    this.loadingPlans = true;
+    this.subscriptionService.getAllPlans(1, 100, undefined, undefined, true).subscribe({
+      next: (response) => {
+        this.plans = (response.data || []).filter(plan => plan.isActive);
+        this.loadingPlans = false;
+      },
+      error: (error) => {
+        console.error('Error loading plans:', error);
+        this.loadingPlans = false;
+      }
+    });
+  }
+
+  get selectedPlan(): SubscriptionPlanDto | undefined {
+    return this.plans.find(plan => plan.id === this.subscriptionForm.get('planId')?.value);
+  }
+
+  getPaymentMethodLabel(method: PaymentMethodDto): string {
+    if (!method.card) return method.type;
+    const expiry = `${method.card.expMonth}`.padStart(2, '0') + '/' + `${method.card.expYear}`.slice(-2);
+    return `${method.card.brand ?? 'Card'} •••• ${method.card.last4 ?? '????'} (exp ${expiry})`;
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onConfirm(): void {
+    const plan = this.selectedPlan;
+    if (this.subscriptionForm.invalid || !plan) return;
+
+    const { paymentMethodId, startImmediately, startDate, autoRenew } = this.subscriptionForm.getRawValue();
+
+    this.dialogRef.close({
+      userId: this.data.user.id,
+      subscriptionId: '',
+      planId: plan.id,
+      price: plan.effectivePrice,
+      billingCycleId: plan.billingCycleId,
+      currencyId: plan.currencyId,
+      isActive: true,
+      startImmediately,
+      startDate: startImmediately ? undefined : startDate,
+      paymentMethodId: paymentMethodId ?? undefined,
+      autoRenew
+    });
+  }
+}
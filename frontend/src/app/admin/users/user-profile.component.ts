@@ -0,0 +1,225 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatTableModule } from '@angular/material/table';
+import { UserService } from '../../services/user.service';
+import { SubscriptionService } from '../../services/subscription.service';
+import { HasPermissionDirective } from '../auth/has-permission.directive';
+import { SubscriptionDetailsDialogComponent } from '../subscription-management/subscription-details-dialog.component';
+import {
+  CreateUserSubscriptionDialogComponent,
+  CreateUserSubscriptionDialogData
+} from './create-user-subscription-dialog.component';
+import { CreateSubscriptionDto, SubscriptionDto } from '../../models/subscription.models';
+import { PaymentMethodDto, UserDto } from '../../models/user.models';
+import { MoneyPipe } from '../../pipes/money.pipe';
+
+const STRIPE_DASHBOARD_URL = 'https://dashboard.stripe.com';
+
+@Component({
+  selector: 'app-user-profile',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterModule,
+    MatButtonModule,
+    MatCardModule,
+    MatChipsModule,
+    MatDialogModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTableModule,
+    HasPermissionDirective,
+    MoneyPipe
+  ],
+  templateUrl: './user-profile.component.html',
+  styleUrls: ['./user-profile.component.scss']
+})
+export class UserProfileComponent implements OnInit {
+  private route = inject(ActivatedRoute);
+  private userService = inject(UserService);
+  private subscriptionService = inject(SubscriptionService);
+  private dialog = inject(MatDialog);
+  private snackBar = inject(MatSnackBar);
+
+  userId = 0;
+  user: UserDto | null = null;
+  loading = false;
+  error: string | null = null;
+
+  subscriptions: SubscriptionDto[] = [];
+  subscriptionColumns = ['plan', 'status', 'price', 'startDate', 'nextBillingDate', 'actions'];
+  loadingSubscriptions = false;
+  subscriptionsError: string | null = null;
+
+  paymentMethods: PaymentMethodDto[] = [];
+  loadingPaymentMethods = false;
+
+  creatingSubscription = false;
+
+  ngOnInit() {
+    this.userId = Number(this.route.snapshot.paramMap.get('id'));
+    this.loadUser();
+    this.loadSubscriptions();
+    this.loadPaymentMethods();
+  }
+
+  loadUser() {
+    this.loading = true;
+    this.error = null;
+    this.userService.getUser(this.userId).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200 && response.data) {
+          this.user = response.data;
+        } else {
+          this.error = response.message || 'User not found';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading user:', error);
+        this.error = error.message || 'Failed to load user';
+        this.loading = false;
+      }
+    });
+  }
+
+  loadSubscriptions() {
+    this.loadingSubscriptions = true;
+    this.subscriptionsError = null;
+    this.subscriptionService.getUserSubscriptions(this.userId).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.subscriptions = response.data || [];
+        } else {
+          this.subscriptions = [];
+          this.subscriptionsError = response.message || 'Failed to load subscriptions';
+        }
+        this.loadingSubscriptions = false;
+      },
+      error: (error) => {
+        console.error('Error loading user subscriptions:', error);
+        this.subscriptions = [];
+        this.subscriptionsError = error.message || 'Failed to load subscriptions';
+        this.loadingSubscriptions = false;
+      }
+    });
+  }
+
+  loadPaymentMethods() {
+    this.loadingPaymentMethods = true;
+    this.subscriptionService.getUserPaymentMethods(this.userId).subscribe({
+      next: (response) => {
+        this.paymentMethods = response.statusCode === 200 ? response.data || [] : [];
+        this.loadingPaymentMethods = false;
+      },
+      error: (error) => {
+        console.error('Error loading payment methods:', error);
+        this.paymentMethods = [];
+        this.loadingPaymentMethods = false;
+      }
+    });
+  }
+
+  openCreateSubscription() {
+    if (!this.user) return;
+
+    const data: CreateUserSubscriptionDialogData = {
+      user: this.user,
+      paymentMethods: this.paymentMethods
+    };
+    const dialogRef = this.dialog.open(CreateUserSubscriptionDialogComponent, {
+      width: '600px',
+      data
+    });
+
+    dialogRef.afterClosed().subscribe((result?: CreateSubscriptionDto) => {
+      if (result) {
+        this.createSubscription(result);
+      }
+    });
+  }
+
+  viewSubscriptionDetails(subscription: SubscriptionDto) {
+    const dialogRef = this.dialog.open(SubscriptionDetailsDialogComponent, {
+      width: '90vw',
+      maxWidth: '1200px',
+      height: '80vh',
+      data: { subscription }
+    });
+
+    dialogRef.afterClosed().subscribe(result => {
+      if (result === 'refresh') {
+        this.loadSubscriptions();
+      }
+    });
+  }
+
+  getDisplayName(user: UserDto): string {
+    return user.fullName || `${user.firstName} ${user.lastName}`.trim() || user.email;
+  }
+
+  getAddressLines(user: UserDto): string[] {
+    const cityLine = [user.city, [user.state, user.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+    return [user.address, cityLine, user.country].filter((line): line is string => !!line);
+  }
+
+  getPaymentMethodLabel(method: PaymentMethodDto): string {
+    if (!method.card) return method.type;
+    return `${method.card.brand ?? 'Card'} •••• ${method.card.last4 ?? '????'}`;
+  }
+
+  getPaymentMethodExpiry(method: PaymentMethodDto): string {
+    if (!method.card) return '';
+    return `${method.card.expMonth}`.padStart(2, '0') + '/' + method.card.expYear;
+  }
+
+  isPaymentMethodExpired(method: PaymentMethodDto): boolean {
+    if (!method.card) return false;
+    const now = new Date();
+    return method.card.expYear < now.getFullYear()
+      || (method.card.expYear === now.getFullYear() && method.card.expMonth < now.getMonth() + 1);
+  }
+
+  getStripeCustomerUrl(customerId: string): string {
+    return `${STRIPE_DASHBOARD_URL}/customers/${customerId}`;
+  }
+
+  getStatusColor(status: string): 'primary' | 'accent' | 'warn' | undefined {
+    switch (status?.toLowerCase()) {
+      case 'active': return 'primary';
+      case 'paused': return 'accent';
+      case 'cancelled':
+      case 'expired': return 'warn';
+      default: return undefined;
+    }
+  }
+
+  private createSubscription(subscription: CreateSubscriptionDto) {
+    this.creatingSubscription = true;
+    this.subscriptionService.createSubscription(subscription).subscribe({
+      next: (response) => {
+        this.creatingSubscription = false;
+        if (response.statusCode === 200) {
+          this.snackBar.open('Subscription created successfully', 'Close', { duration: 3000 });
+          this.loadSubscriptions();
+        } else {
+          this.snackBar.open(response.message || 'Failed to create subscription', 'Close', { duration: 5000 });
+        }
+      },
+      error: (error) => {
+        console.error('Error creating subscription:', error);
+        this.creatingSubscription = false;
+        this.snackBar.open('Error creating subscription', 'Close', { duration: 3000 });
+      }
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
+import { Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTableModule } from '@angular/material/table';
+import { UserService } from '../../services/user.service';
+import { UserDto, UserSearchFilter } from '../../models/user.models';
+
+@Component({
+  selector: 'app-users',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCardModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatPaginatorModule,
+    MatProgressSpinnerModule,
+    MatSelectModule,
+    MatTableModule
+  ],
+  templateUrl: './users.component.html',
+  styleUrls: ['./users.component.scss']
+})
+export class UsersComponent implements OnInit {
+  private userService = inject(UserService);
+  private router = inject(Router);
+  private fb = inject(FormBuilder);
+
+  searchForm: FormGroup;
+
+  users: UserDto[] = [];
+  userColumns = ['name', 'email', 'phone', 'type', 'status', 'createdDate', 'lastLoginAt'];
+  loading = false;
+  error: string | null = null;
+
+  currentPage = 0;
+  pageSize = 20;
+  totalCount = 0;
+
+  constructor() {
+    // Most lookups are for patients, so start there
+    this.searchForm = this.fb.group({
+      searchText: [''],
+      userType: ['Patient'],
+      status: ['']
+    });
+  }
+
+  ngOnInit() {
+    this.loadUsers();
+  }
+
+  search() {
+    this.currentPage = 0;
+    this.loadUsers();
+  }
+
+  clearSearch() {
+    this.searchForm.patchValue({ searchText: '', userType: 'Patient', status: '' });
+    this.search();
+  }
+
+  onPageChange(event: PageEvent) {
+    this.currentPage = event.pageIndex;
+    this.pageSize = event.pageSize;
+    this.loadUsers();
+  }
+
+  loadUsers() {
+    this.loading = true;
+    this.error = null;
+    this.userService.searchUsers(this.getFilter(), this.currentPage + 1, this.pageSize).subscribe({
+      next: (response) => {
+        if (response.statusCode === 200) {
+          this.users = response.data || [];
+          this.totalCount = response.meta?.totalRecords || this.users.length;
+        } else {
+          this.users = [];
+          this.totalCount = 0;
+          this.error = response.message || 'Failed to load users';
+        }
+        this.loading = false;
+      },
+      error: (error) => {
+        console.error('Error loading users:', error);
+        this.users = [];
+        this.totalCount = 0;
+        this.error = error.message || 'Failed to load users';
+        this.loading = false;
+      }
+    });
+  }
+
+  openUser(user: UserDto) {
+    this.router.navigate(['/admin/users', user.id]);
+  }
+
+  getDisplayName(user: UserDto): string {
+    return user.fullName || `${user.firstName} ${user.lastName}`.trim() || user.email;
+  }
+
+  private getFilter(): UserSearchFilter {
+    const value = this.searchForm.value;
+    const filter: UserSearchFilter = {};
+    if (value.searchText?.trim()) filter.searchText = value.searchText.trim();
+    if (value.userType) filter.userType = value.userType;
+    if (value.status) filter.isActive = value.status === 'active';
+    return filter;
+  }
+}
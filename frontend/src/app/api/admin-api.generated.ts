@@ -0,0 +1,2534 @@
+/* eslint-disable */
+// Generated by scripts/generate-api.mjs from the backend OpenAPI document. Do not edit by hand.
+// Source: SmartTelehealth.API 1.0
+
+export interface AddPaymentMethodDto {
+  token: string;
+  paymentMethodId?: string;
+  isDefault?: boolean;
+  setAsDefault?: boolean;
+  type?: string;
+  last4?: string;
+  expiryMonth?: number;
+  expiryYear?: number;
+}
+
+export interface AddReviewDto {
+  rating: number;
+  comment: string;
+}
+
+export interface BillingCalculationRequestDto {
+  baseAmount?: number;
+  state?: string;
+  deliveryAddress?: string;
+  isExpress?: boolean;
+}
+
+export interface BillingHistoryDto {
+  id?: string;
+  userId?: number;
+  userName?: string;
+  billingType?: string;
+  amount?: number;
+  taxAmount?: number;
+  refundAmount?: number | null;
+  currency?: string;
+  status?: string;
+  dueDate?: string;
+  paidDate?: string | null;
+  paymentMethod?: string | null;
+  description?: string | null;
+  invoiceNumber?: string | null;
+  receiptUrl?: string | null;
+  createdDate?: string;
+  subscriptionId?: string | null;
+  billingDate?: string | null;
+  paidAt?: string | null;
+  stripeInvoiceId?: string | null;
+  stripePaymentIntentId?: string | null;
+  failureReason?: string | null;
+}
+
+export interface BillingRecordDto {
+  id?: string;
+  userId?: number;
+  subscriptionId?: string | null;
+  amount?: number;
+  description?: string;
+  dueDate?: string | null;
+  status?: string;
+  type?: string;
+  paidAt?: string | null;
+  paymentIntentId?: string | null;
+  subscriptionName?: string | null;
+  userName?: string;
+  userEmail?: string;
+  createdDate?: string;
+  updatedDate?: string | null;
+  consultationId?: string | null;
+  medicationDeliveryId?: string | null;
+  currency?: string;
+  paymentMethod?: string;
+  stripeInvoiceId?: string;
+  stripePaymentIntentId?: string;
+  billingDate?: string;
+  isRecurring?: boolean;
+  taxAmount?: number;
+  shippingAmount?: number;
+  invoiceNumber?: string | null;
+  isPaid?: boolean;
+  failureReason?: string | null;
+  refundAmount?: number | null;
+  refundReason?: string | null;
+  refundDate?: string | null;
+  billingStatusId?: number | null;
+  billingStatusName?: string | null;
+  paidDate?: string | null;
+  paymentMethodId?: string | null;
+  stripeSessionId?: string | null;
+  accruedAmount?: number | null;
+  accrualStartDate?: string | null;
+  accrualEndDate?: string | null;
+}
+
+export interface BulkActionRequestDto {
+  subscriptionId?: string;
+  action?: string;
+  reason?: string | null;
+  additionalDays?: number | null;
+}
+
+export interface BulkCancelRequest {
+  subscriptionIds?: string[];
+  reason?: string;
+}
+
+export interface BulkNotificationRequest {
+  subscriptionIds?: string[];
+  title?: string;
+  message?: string;
+  type?: string;
+}
+
+export interface BulkStatusUpdateRequest {
+  subscriptionIds?: string[];
+  newStatus?: string;
+  reason?: string | null;
+}
+
+export interface BundleItemDto {
+  itemId?: string;
+  itemType?: string;
+  unitPrice?: number;
+  quantity?: number;
+  amount?: number;
+  description?: string | null;
+}
+
+export interface CancelSubscriptionRequest {
+  reason?: string;
+}
+
+export interface ChangeBillingCycleRequest {
+  billingCycleId: string;
+  reason?: string | null;
+}
+
+export interface ChangePasswordDto {
+  currentPassword: string;
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
+export interface ChangePlanRequest {
+  newPlanId: string;
+  effectiveDate?: string;
+  reason?: string | null;
+  prorate?: boolean;
+}
+
+export interface CheckoutSessionRequest {
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
+export interface ConfirmPasswordResetDto {
+  email: string;
+  resetToken: string;
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
+export interface CreateBillingAdjustmentDto {
+  amount?: number;
+  reason?: string;
+  adjustmentType?: string;
+  notes?: string | null;
+}
+
+export interface CreateBillingCycleDto {
+  userId?: number;
+  amount?: number;
+  dueDate?: string;
+  name?: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  billingCycleId?: string;
+  subscriptionIds?: string[];
+  autoProcess?: boolean;
+  gracePeriodDays?: number;
+  lateFeeAmount?: number | null;
+}
+
+export interface CreateBillingRecordDto {
+  userId: number;
+  subscriptionId?: string | null;
+  amount: number;
+  taxAmount?: number;
+  totalAmount?: number;
+  description: string;
+  billingDate: string;
+  dueDate: string;
+  paymentMethod?: string | null;
+  stripeInvoiceId?: string | null;
+  stripePaymentIntentId?: string | null;
+  status: string;
+  type: string;
+  currencyId?: string | null;
+  paidAt?: string | null;
+  invoiceNumber?: string | null;
+  isRecurring?: boolean;
+  shippingAmount?: number;
+  isPaid?: boolean;
+  failureReason?: string | null;
+  consultationId?: string | null;
+}
+
+export interface CreateBundlePaymentDto {
+  userId?: number;
+  items?: BundleItemDto[];
+  paymentMethodId?: string;
+  includeShipping?: boolean;
+  isExpressShipping?: boolean;
+  couponCode?: string | null;
+  description?: string | null;
+}
+
+export interface CreateCategoryDto {
+  name?: string;
+  description?: string;
+  icon?: string | null;
+  color?: string | null;
+  isActive?: boolean;
+  displayOrder?: number;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
+}
+
+export interface CreateInvoiceDto {
+  userId?: number;
+  items?: InvoiceItemDto[];
+  subtotal?: number;
+  taxAmount?: number;
+  shippingAmount?: number;
+  totalAmount?: number;
+  amount?: number;
+  description?: string;
+  currency?: string;
+  dueDate?: string;
+  invoiceNumber?: string | null;
+  notes?: string | null;
+}
+
+export interface CreatePlanVersionDto {
+  plan: UpdateSubscriptionPlanDto;
+  privileges?: PlanPrivilegeDto[] | null;
+  effectiveDate?: string | null;
+  migrationPolicy: string;
+  noticeDays?: number;
+  changeSummary?: string | null;
+}
+
+export interface CreatePrivilegeDto {
+  name: string;
+  description?: string | null;
+  privilegeTypeId: string;
+  isActive?: boolean;
+}
+
+export interface CreateProviderDto {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber: string;
+  licenseNumber: string;
+  state: string;
+  specialty: string;
+  bio: string;
+  profilePicture?: string | null;
+  isAvailable?: boolean;
+  stripeAccountId?: string | null;
+}
+
+export interface CreateRecurringBillingDto {
+  userId?: number;
+  subscriptionId?: string;
+  amount?: number;
+  billingCycleId?: string;
+  startDate?: string;
+  endDate?: string | null;
+  dueDate?: string;
+  paymentMethodId?: string;
+  autoRenew?: boolean;
+  gracePeriodDays?: number;
+  lateFeeAmount?: number | null;
+  description?: string | null;
+}
+
+export interface CreateSubscriptionDto {
+  userId?: number;
+  subscriptionId?: string;
+  planId?: string;
+  name?: string | null;
+  description?: string | null;
+  price?: number;
+  billingCycleId?: string;
+  currencyId?: string;
+  isActive?: boolean;
+  startDate?: string | null;
+  startImmediately?: boolean;
+  paymentMethodId?: string | null;
+  autoRenew?: boolean;
+}
+
+export interface CreateSubscriptionPlanDto {
+  name: string;
+  description?: string | null;
+  shortDescription?: string | null;
+  price: number;
+  discountedPrice?: number | null;
+  discountValidUntil?: string | null;
+  billingCycleId: string;
+  currencyId: string;
+  categoryId: string;
+  isTrialAllowed?: boolean;
+  trialDurationInDays?: number;
+  isFeatured?: boolean;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
+  displayOrder?: number;
+  messagingCount?: number;
+  includesMedicationDelivery?: boolean;
+  includesFollowUpCare?: boolean;
+  deliveryFrequencyDays?: number;
+  maxPauseDurationDays?: number;
+  maxConcurrentUsers?: number;
+  gracePeriodDays?: number;
+  isActive?: boolean;
+  features?: string | null;
+  terms?: string | null;
+  effectiveDate?: string | null;
+  expirationDate?: string | null;
+  currencyPrices?: PlanCurrencyPriceDto[];
+  cyclePrices?: PlanCyclePriceDto[];
+  privileges?: PlanPrivilegeDto[];
+}
+
+export interface CreateSubscriptionPlanWithTimeLimitsDto {
+  planName: string;
+  description: string;
+  price: number;
+  billingCycle: string;
+  durationMonths: number;
+  privileges: PrivilegeTimeLimitDto[];
+}
+
+export interface CreateUpfrontPaymentDto {
+  userId?: number;
+  amount?: number;
+  paymentMethodId?: string;
+  description?: string;
+  invoiceNumber?: string | null;
+  dueDate?: string;
+  isUrgent?: boolean;
+}
+
+export interface CreateUserDto {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  password?: string;
+  phoneNumber?: string | null;
+  dateOfBirth?: string | null;
+  gender?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+  country?: string | null;
+  emergencyContactName?: string | null;
+  emergencyContactPhone?: string | null;
+  userType?: string;
+  role?: string;
+  userRoleId?: number;
+}
+
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface DueDateCalculationRequestDto {
+  billingDate?: string;
+  gracePeriodDays?: number;
+}
+
+export interface ExchangeRateDto {
+  currencyId?: string;
+  currencyCode?: string;
+  currencyName?: string;
+  rate?: number | null;
+  isReportingCurrency?: boolean;
+  updatedBy?: number | null;
+  updatedDate?: string | null;
+}
+
+export interface ExtendSubscriptionDto {
+  newEndDate?: string;
+  reason?: string | null;
+}
+
+export interface ExtendSubscriptionRequest {
+  additionalDays?: number;
+  reasonCategory: string;
+  notes: string;
+}
+
+export interface ForgotPasswordDto {
+  email: string;
+}
+
+export interface GrantPrivilegeUsageDto {
+  subscriptionId: string;
+  privilegeName: string;
+  amount?: number;
+  reason: string;
+}
+
+export interface InvoiceItemDto {
+  description?: string;
+  unitPrice?: number;
+  quantity?: number;
+  totalPrice?: number;
+  itemType?: string | null;
+  itemId?: string | null;
+}
+
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+export interface MasterBillingCycleDto {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  durationInDays?: number;
+  sortOrder?: number;
+  isActive?: boolean;
+  isDeleted?: boolean;
+  createdBy?: number | null;
+  createdDate?: string | null;
+  updatedBy?: number | null;
+  updatedDate?: string | null;
+  deletedBy?: number | null;
+  deletedDate?: string | null;
+}
+
+export interface MasterCurrencyDto {
+  id?: string;
+  code?: string;
+  name?: string;
+  symbol?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+  isDeleted?: boolean;
+  createdBy?: number | null;
+  createdDate?: string | null;
+  updatedBy?: number | null;
+  updatedDate?: string | null;
+  deletedBy?: number | null;
+  deletedDate?: string | null;
+}
+
+export interface MasterPrivilegeTypeDto {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+  isDeleted?: boolean;
+  createdBy?: number | null;
+  createdDate?: string | null;
+  updatedBy?: number | null;
+  updatedDate?: string | null;
+  deletedBy?: number | null;
+  deletedDate?: string | null;
+}
+
+export interface PartialPaymentRequestDto {
+  amount?: number;
+}
+
+export interface PauseSubscriptionDto {
+  reason: string;
+  resumeDate?: string | null;
+}
+
+export interface PaymentMethodRequest {
+  paymentMethodId?: string;
+}
+
+export interface PaymentRequestDto {
+  paymentMethodId?: string;
+  amount?: number;
+  description?: string | null;
+  currency?: string | null;
+}
+
+export interface PlanCurrencyPriceDto {
+  currencyId: string;
+  currencyCode?: string | null;
+  price: number;
+  discountedPrice?: number | null;
+  stripePriceId?: string | null;
+}
+
+export interface PlanCyclePriceDto {
+  billingCycleId: string;
+  billingCycleName?: string | null;
+  price: number;
+  discountedPrice?: number | null;
+  stripePriceId?: string | null;
+}
+
+export interface PlanDisplayOrderDto {
+  planId?: string;
+  displayOrder?: number;
+}
+
+export interface PlanPrivilegeDto {
+  privilegeId: string;
+  value: number;
+  usagePeriodId: string;
+  durationMonths?: number;
+  description?: string | null;
+  effectiveDate?: string | null;
+  expirationDate?: string | null;
+  dailyLimit?: number | null;
+  weeklyLimit?: number | null;
+  monthlyLimit?: number | null;
+}
+
+export interface PlanVersionDto {
+  id?: string;
+  subscriptionPlanId?: string;
+  versionNumber?: number;
+  status?: string;
+  price?: number;
+  effectiveDate?: string;
+  appliedDate?: string | null;
+  migrationPolicy?: string;
+  noticeDays?: number;
+  noticeSentDate?: string | null;
+  changeSummary?: string | null;
+  subscriberCount?: number;
+  plan?: UpdateSubscriptionPlanDto;
+  privileges?: PlanPrivilegeDto[];
+  createdBy?: number | null;
+  createdDate?: string | null;
+}
+
+export interface PrivilegeTimeLimitDto {
+  privilegeName: string;
+  totalValue: number;
+  dailyLimit?: number | null;
+  weeklyLimit?: number | null;
+  monthlyLimit?: number | null;
+  description?: string | null;
+}
+
+export interface PrivilegeUsageDto {
+  privilegeName?: string;
+  usedValue?: number;
+  allowedValue?: number;
+  remainingValue?: number;
+  usagePercentage?: number;
+}
+
+export interface ProviderAvailabilityDto {
+  id?: string;
+  providerId?: string;
+  date?: string;
+  startTime?: TimeSpan;
+  endTime?: TimeSpan;
+  isAvailable?: boolean;
+  notes?: string | null;
+  dayOfWeek?: DayOfWeek;
+}
+
+export interface RefundLedgerEntryDto {
+  id?: string;
+  billingRecordId?: string;
+  invoiceNumber?: string | null;
+  subscriptionId?: string | null;
+  userId?: number;
+  userName?: string;
+  planId?: string | null;
+  planName?: string | null;
+  amount?: number;
+  paymentAmount?: number;
+  currency?: string;
+  reason?: string;
+  refundedAt?: string;
+  refundedBy?: number | null;
+  refundedByName?: string | null;
+  stripePaymentIntentId?: string | null;
+}
+
+export interface RefundRequestDto {
+  amount?: number;
+  reason?: string;
+}
+
+export interface RegisterDto {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  phoneNumber: string;
+  dateOfBirth: string;
+  gender: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  role?: string | null;
+}
+
+export interface ResetPasswordDto {
+  token: string;
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
+export interface ResetPrivilegeUsageDto {
+  subscriptionId: string;
+  privilegeName: string;
+  reason: string;
+}
+
+export interface SaveExchangeRateDto {
+  rate?: number;
+}
+
+export interface SaveMasterBillingCycleDto {
+  name: string;
+  description?: string | null;
+  durationInDays?: number;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface SaveMasterCurrencyDto {
+  code: string;
+  name: string;
+  symbol?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface SaveMasterPrivilegeTypeDto {
+  name: string;
+  description?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface ShippingCalculationRequestDto {
+  deliveryAddress?: string;
+  isExpress?: boolean;
+}
+
+export interface SubscriptionPlanDto {
+  id?: string;
+  name?: string;
+  description?: string;
+  shortDescription?: string | null;
+  price?: number;
+  discountedPrice?: number | null;
+  discountValidUntil?: string | null;
+  billingCycleId?: string;
+  currencyId?: string;
+  categoryId?: string;
+  isActive?: boolean;
+  isFeatured?: boolean;
+  isTrialAllowed?: boolean;
+  trialDurationInDays?: number;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
+  displayOrder?: number;
+  stripeProductId?: string | null;
+  stripeMonthlyPriceId?: string | null;
+  stripeQuarterlyPriceId?: string | null;
+  stripeAnnualPriceId?: string | null;
+  currencyPrices?: PlanCurrencyPriceDto[];
+  cyclePrices?: PlanCyclePriceDto[];
+  features?: string | null;
+  terms?: string | null;
+  effectiveDate?: string | null;
+  expirationDate?: string | null;
+  effectivePrice?: number;
+  hasActiveDiscount?: boolean;
+  isCurrentlyAvailable?: boolean;
+  createdDate?: string;
+  updatedDate?: string | null;
+}
+
+export interface TaxCalculationRequestDto {
+  baseAmount?: number;
+  state?: string;
+}
+
+export interface TimeSpan {
+  ticks?: number;
+  days?: number;
+  hours?: number;
+  milliseconds?: number;
+  microseconds?: number;
+  nanoseconds?: number;
+  minutes?: number;
+  seconds?: number;
+  totalDays?: number;
+  totalHours?: number;
+  totalMilliseconds?: number;
+  totalMicroseconds?: number;
+  totalNanoseconds?: number;
+  totalMinutes?: number;
+  totalSeconds?: number;
+}
+
+export interface UpdateCategoryDto {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
+}
+
+export interface UpdateInvoiceStatusRequestDto {
+  status?: string;
+}
+
+export interface UpdateMedicalHistoryDto {
+  userId?: number;
+  allergies?: string[] | null;
+  medications?: string[] | null;
+  currentMedications?: string[] | null;
+  conditions?: string[] | null;
+  surgeries?: string[] | null;
+  familyHistory?: string | null;
+  lifestyle?: string | null;
+  medicalHistory?: string | null;
+}
+
+export interface UpdatePaymentMethodRequestDto {
+  paymentMethodId?: string;
+}
+
+export interface UpdatePrivilegeDto {
+  name: string;
+  description?: string | null;
+  privilegeTypeId: string;
+  isActive?: boolean;
+}
+
+export interface UpdateProviderDto {
+  id?: number;
+  userId?: number;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phoneNumber?: string | null;
+  licenseNumber?: string | null;
+  specialization?: string | null;
+  bio?: string | null;
+  profilePictureUrl?: string | null;
+  isActive?: boolean;
+  isVerified?: boolean;
+}
+
+export interface UpdateProviderScheduleDto {
+  providerId?: string;
+  availability?: ProviderAvailabilityDto[];
+  isAvailable?: boolean;
+  notes?: string | null;
+  weeklySchedule?: WeeklyScheduleDto[];
+  availableDates?: string[];
+  unavailableDates?: string[];
+  defaultDurationMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface UpdateSubscriptionDto {
+  status?: string | null;
+  currentPrice?: number | null;
+  nextBillingDate?: string | null;
+  lastPaymentDate?: string | null;
+  lastPaymentFailedDate?: string | null;
+  lastPaymentError?: string | null;
+  failedPaymentAttempts?: number | null;
+  stripeSubscriptionId?: string | null;
+  stripeCustomerId?: string | null;
+  paymentMethodId?: string | null;
+  cancelledDate?: string | null;
+  cancellationReason?: string | null;
+  pausedDate?: string | null;
+  pauseReason?: string | null;
+  resumedDate?: string | null;
+  expiredDate?: string | null;
+  renewedAt?: string | null;
+  lastUsedDate?: string | null;
+  totalUsageCount?: number | null;
+  autoRenew?: boolean | null;
+  subscriptionPlanId?: string | null;
+  trialEndDate?: string | null;
+}
+
+export interface UpdateSubscriptionPlanDto {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  price?: number;
+  billingCycleId?: string;
+  currencyId?: string;
+  categoryId?: string;
+  isActive?: boolean;
+  isFeatured?: boolean | null;
+  isMostPopular?: boolean | null;
+  isTrending?: boolean | null;
+  displayOrder?: number | null;
+  currencyPrices?: PlanCurrencyPriceDto[] | null;
+  cyclePrices?: PlanCyclePriceDto[] | null;
+}
+
+export interface UpdateTimeBasedLimitsRequest {
+  privilegeId?: string;
+  dailyLimit?: number | null;
+  weeklyLimit?: number | null;
+  monthlyLimit?: number | null;
+  usagePeriodId?: string;
+  durationMonths?: number;
+  description?: string | null;
+  effectiveDate?: string | null;
+  expirationDate?: string | null;
+}
+
+export interface UpdateUserDto {
+  id?: number;
+  userId?: number;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phoneNumber?: string | null;
+  dateOfBirth?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+  country?: string | null;
+  profilePictureUrl?: string | null;
+  isActive?: boolean;
+  stripeCustomerId?: string | null;
+}
+
+export interface UpdateUserPreferencesDto {
+  emailNotifications?: boolean;
+  smsNotifications?: boolean;
+  pushNotifications?: boolean;
+  language?: string | null;
+  timeZone?: string | null;
+  marketingEmails?: boolean;
+  preferences?: Record<string, unknown | null>;
+  notificationPreferences?: string | null;
+  languagePreference?: string | null;
+  timeZonePreference?: string | null;
+}
+
+export interface UploadUserDocumentRequest {
+  fileData?: string;
+  fileName?: string;
+  contentType?: string;
+  userId?: number;
+  referenceType?: string | null;
+  description?: string | null;
+  isPublic?: boolean;
+  isEncrypted?: boolean;
+  createdById?: number | null;
+  expiresAt?: string | null;
+  documentTypeId?: string;
+}
+
+export interface UsageStatisticsDto {
+  subscriptionId?: string;
+  planName?: string;
+  currentPeriodStart?: string;
+  currentPeriodEnd?: string;
+  totalPrivileges?: number;
+  usedPrivileges?: number;
+  privilegeUsage?: PrivilegeUsageDto[];
+}
+
+export interface WeeklyScheduleDto {
+  dayOfWeek?: string;
+  dayName?: string;
+  isAvailable?: boolean;
+  startTime?: TimeSpan;
+  endTime?: TimeSpan;
+  defaultDurationMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface ApiOperations {
+  'DELETE /api/Categories/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/MasterData/billing-cycles/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: boolean;
+  };
+  'DELETE /api/MasterData/currencies/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: boolean;
+  };
+  'DELETE /api/MasterData/privilege-types/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: boolean;
+  };
+  'DELETE /api/Privileges/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/SubscriptionPlans/admin/{planId}': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/SubscriptionPlans/admin/{planId}/versions/{versionId}': {
+    path: { planId: string; versionId: string };
+    query: never;
+    body: never;
+    response: PlanVersionDto;
+  };
+  'DELETE /api/Users/{userId}': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/Users/account': {
+    path: never;
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'DELETE /api/Users/documents/{documentId}': {
+    path: { documentId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/Users/notifications/{notificationId}': {
+    path: { notificationId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/Users/payment-methods/{paymentMethodId}': {
+    path: { paymentMethodId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /api/Users/providers/{providerId}': {
+    path: { providerId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /webadmin/subscription-management/categories/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /webadmin/subscription-management/plans/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'DELETE /webadmin/subscription-management/plans/{planId}/privileges/{privilegeId}': {
+    path: { planId: string; privilegeId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminStripeSync/plans/{planId}/validate': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminStripeSync/status': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminStripeSync/subscriptions/{subscriptionId}/validate': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription': {
+    path: never;
+    query: { page?: number; pageSize?: number; status?: string; planId?: string; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/analytics': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/analytics/churn': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/analytics/export': {
+    path: never;
+    query: { format?: string; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/analytics/revenue': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/automation/logs': {
+    path: never;
+    query: { page?: number; pageSize?: number };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/automation/status': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/admin/AdminSubscription/statistics': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/appointments': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/billing': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/churn': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/dashboard': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/export/subscriptions': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/plans': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/providers': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/reports/billing': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/reports/providers': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/reports/subscriptions': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/reports/users': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/revenue': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/subscriptions': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/subscriptions/dashboard': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/subscriptions/plan/{planId}': {
+    path: { planId: string };
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/system': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/system/health': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/usage': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/user-activity': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Analytics/users': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit': {
+    path: never;
+    query: { action?: string; userId?: string; startDate?: string; endDate?: string; page?: number; pageSize?: number };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/{id}': {
+    path: { id: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/database/{tableName}': {
+    path: { tableName: string };
+    query: { entityId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/entity/{tableName}/{entityId}': {
+    path: { tableName: string; entityId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/recent': {
+    path: never;
+    query: { count?: number };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/statistics': {
+    path: never;
+    query: { fromDate?: string; toDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Audit/user/{userId}': {
+    path: { userId: number };
+    query: { fromDate?: string; toDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; status?: string[]; type?: string[]; userId?: string[]; subscriptionId?: string[]; startDate?: string; endDate?: string; sortBy?: string; sortOrder?: string; format?: string; includeFailed?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: BillingRecordDto;
+  };
+  'GET /api/Billing/{id}/adjustments': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/{id}/invoice-pdf': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/{id}/overdue-status': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/analytics': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/cycle/{id}/records': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/export-revenue': {
+    path: never;
+    query: { from?: string; to?: string; planId?: string; format?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/invoice/{invoiceNumber}': {
+    path: { invoiceNumber: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/overdue': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/payment-analytics': {
+    path: never;
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/payment-analytics/{userId}': {
+    path: { userId: number };
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/payment-history': {
+    path: never;
+    query: { userId?: number; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/pending': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/records': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; status?: string[]; type?: string[]; userId?: string[]; subscriptionId?: string[]; startDate?: string; endDate?: string; sortBy?: string; sortOrder?: string; format?: string; includeFailed?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/refunds': {
+    path: never;
+    query: { startDate?: string; endDate?: string; planId?: string; refundedBy?: number; page?: number; pageSize?: number };
+    body: never;
+    response: RefundLedgerEntryDto[];
+  };
+  'GET /api/Billing/report': {
+    path: never;
+    query: { startDate?: string; endDate?: string; format?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/revenue-summary': {
+    path: never;
+    query: { from?: string; to?: string; planId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/schedule/{subscriptionId}': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/subscription/{subscriptionId}': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/summary': {
+    path: never;
+    query: { userId?: number; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Billing/user/{userId}': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/{id}/plans': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/active': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/count/active': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/paged': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; isActive?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Categories/search': {
+    path: never;
+    query: { searchTerm?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/MasterData/billing-cycles': {
+    path: never;
+    query: { includeInactive?: boolean; includeDeleted?: boolean };
+    body: never;
+    response: MasterBillingCycleDto[];
+  };
+  'GET /api/MasterData/currencies': {
+    path: never;
+    query: { includeInactive?: boolean; includeDeleted?: boolean };
+    body: never;
+    response: MasterCurrencyDto[];
+  };
+  'GET /api/MasterData/exchange-rates': {
+    path: never;
+    query: never;
+    body: never;
+    response: ExchangeRateDto[];
+  };
+  'GET /api/MasterData/privilege-types': {
+    path: never;
+    query: { includeInactive?: boolean; includeDeleted?: boolean };
+    body: never;
+    response: MasterPrivilegeTypeDto[];
+  };
+  'GET /api/Privileges': {
+    path: never;
+    query: { page?: number; pageSize?: number; search?: string; category?: string; status?: string; format?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/categories': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/types': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/usage-export': {
+    path: never;
+    query: { format?: string; privilegeId?: string; userId?: string; subscriptionId?: string; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/usage-history': {
+    path: never;
+    query: { page?: number; pageSize?: number; privilegeId?: string; userId?: string; subscriptionId?: string; startDate?: string; endDate?: string; sortBy?: string; sortOrder?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Privileges/usage-summary': {
+    path: never;
+    query: { privilegeId?: string; userId?: string; subscriptionId?: string; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/stripe/test-connection': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionAnalytics': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionAnalytics/churn': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionAnalytics/export': {
+    path: never;
+    query: { format?: string; startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionAnalytics/revenue': {
+    path: never;
+    query: { startDate?: string; endDate?: string; currencyId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionAnalytics/usage/{subscriptionId}': {
+    path: { subscriptionId: string };
+    query: { startDate?: string; endDate?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlanPrivileges/{planPrivilegeId}/time-based-limits': {
+    path: { planPrivilegeId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/active': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/admin': {
+    path: never;
+    query: { searchTerm?: string; categoryId?: string; isActive?: boolean; page?: number; pageSize?: number; format?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/admin/{planId}': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: SubscriptionPlanDto;
+  };
+  'GET /api/SubscriptionPlans/admin/{planId}/versions': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: PlanVersionDto[];
+  };
+  'GET /api/SubscriptionPlans/admin/active': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/admin/category/{category}': {
+    path: { category: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/admin/paged': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; categoryId?: string; isActive?: boolean; includeAnalytics?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/category/{categoryId}': {
+    path: { categoryId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/SubscriptionPlans/public': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/{id}': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/{id}/analytics': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/{id}/billing-history': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: BillingHistoryDto[];
+  };
+  'GET /api/Subscriptions/{id}/usage-statistics': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: UsageStatisticsDto;
+  };
+  'GET /api/Subscriptions/active': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/admin/{id}/history': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/admin/categories': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; isActive?: boolean; format?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/admin/user-subscriptions': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; status?: string[]; planId?: string[]; userId?: string[]; startDate?: string; endDate?: string; sortBy?: string; sortOrder?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/plan/{planId}': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/stripe/{stripeSubscriptionId}': {
+    path: { stripeSubscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/user/{userId}': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Subscriptions/user/{userId}/payment-methods': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users': {
+    path: never;
+    query: { searchText?: string; role?: string; isActive?: boolean; page?: number; pageSize?: number };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/{userId}': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/documents': {
+    path: never;
+    query: { referenceType?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/medical-history': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/notifications': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/patients': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/patients/{patientId}': {
+    path: { patientId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/patients/{patientId}/medical-history': {
+    path: { patientId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/payment-methods': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/preferences': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/profile': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/providers': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/providers/{providerId}': {
+    path: { providerId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/providers/{providerId}/reviews': {
+    path: { providerId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/providers/{providerId}/schedule': {
+    path: { providerId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/role/{role}': {
+    path: { role: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /api/Users/stats': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /webadmin/subscription-management/analytics': {
+    path: never;
+    query: { startDate?: string; endDate?: string; planId?: string };
+    body: never;
+    response: unknown;
+  };
+  'GET /webadmin/subscription-management/categories': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; isActive?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /webadmin/subscription-management/plans': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; categoryId?: string; isActive?: boolean };
+    body: never;
+    response: unknown;
+  };
+  'GET /webadmin/subscription-management/plans/{planId}/privileges': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'GET /webadmin/subscription-management/subscriptions': {
+    path: never;
+    query: { page?: number; pageSize?: number; searchTerm?: string; status?: string[]; planId?: string[]; userId?: string[]; startDate?: string; endDate?: string; sortBy?: string; sortOrder?: string };
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminStripeSync/customers/{userId}/sync': {
+    path: { userId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminStripeSync/plans/{planId}/repair': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminStripeSync/plans/{planId}/sync': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminStripeSync/subscriptions/{subscriptionId}/repair': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/cancel': {
+    path: { id: string };
+    query: never;
+    body: CancelSubscriptionRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/change-billing-cycle': {
+    path: { id: string };
+    query: never;
+    body: ChangeBillingCycleRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/change-plan': {
+    path: { id: string };
+    query: never;
+    body: ChangePlanRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/pause': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/renew': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/{id}/resume': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/automation/billing': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/automation/expired': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/automation/renewals': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/bulk/cancel': {
+    path: never;
+    query: never;
+    body: BulkCancelRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/bulk/notifications': {
+    path: never;
+    query: never;
+    body: BulkNotificationRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/bulk/status': {
+    path: never;
+    query: never;
+    body: BulkStatusUpdateRequest;
+    response: unknown;
+  };
+  'POST /api/admin/AdminSubscription/plans': {
+    path: never;
+    query: never;
+    body: CreateSubscriptionPlanWithTimeLimitsDto;
+    response: unknown;
+  };
+  'POST /api/Auth/change-password': {
+    path: never;
+    query: never;
+    body: ChangePasswordDto;
+    response: unknown;
+  };
+  'POST /api/Auth/forgot-password': {
+    path: never;
+    query: never;
+    body: ForgotPasswordDto;
+    response: unknown;
+  };
+  'POST /api/Auth/login': {
+    path: never;
+    query: never;
+    body: LoginDto;
+    response: unknown;
+  };
+  'POST /api/Auth/logout': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Auth/refresh-token': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Auth/register': {
+    path: never;
+    query: never;
+    body: RegisterDto;
+    response: unknown;
+  };
+  'POST /api/Auth/reset-password': {
+    path: never;
+    query: never;
+    body: ResetPasswordDto;
+    response: unknown;
+  };
+  'POST /api/Billing': {
+    path: never;
+    query: never;
+    body: CreateBillingRecordDto;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/adjustments': {
+    path: { id: string };
+    query: never;
+    body: CreateBillingAdjustmentDto;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/generate-invoice': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/partial-payment': {
+    path: { id: string };
+    query: never;
+    body: PartialPaymentRequestDto;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/process-payment': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/process-refund': {
+    path: { id: string };
+    query: never;
+    body: RefundRequestDto;
+    response: BillingRecordDto;
+  };
+  'POST /api/Billing/{id}/retry': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/{id}/retry-failed': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/bundle': {
+    path: never;
+    query: never;
+    body: CreateBundlePaymentDto;
+    response: unknown;
+  };
+  'POST /api/Billing/calculate-due-date': {
+    path: never;
+    query: never;
+    body: DueDateCalculationRequestDto;
+    response: unknown;
+  };
+  'POST /api/Billing/calculate-shipping': {
+    path: never;
+    query: never;
+    body: ShippingCalculationRequestDto;
+    response: unknown;
+  };
+  'POST /api/Billing/calculate-tax': {
+    path: never;
+    query: never;
+    body: TaxCalculationRequestDto;
+    response: unknown;
+  };
+  'POST /api/Billing/calculate-total': {
+    path: never;
+    query: never;
+    body: BillingCalculationRequestDto;
+    response: unknown;
+  };
+  'POST /api/Billing/cycle': {
+    path: never;
+    query: never;
+    body: CreateBillingCycleDto;
+    response: unknown;
+  };
+  'POST /api/Billing/cycle/{id}/process': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/invoice': {
+    path: never;
+    query: never;
+    body: CreateInvoiceDto;
+    response: unknown;
+  };
+  'POST /api/Billing/recurring': {
+    path: never;
+    query: never;
+    body: CreateRecurringBillingDto;
+    response: unknown;
+  };
+  'POST /api/Billing/recurring/{subscriptionId}/cancel': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/recurring/{subscriptionId}/process': {
+    path: { subscriptionId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Billing/upfront': {
+    path: never;
+    query: never;
+    body: CreateUpfrontPaymentDto;
+    response: unknown;
+  };
+  'POST /api/Categories': {
+    path: never;
+    query: never;
+    body: CreateCategoryDto;
+    response: unknown;
+  };
+  'POST /api/MasterData/billing-cycles': {
+    path: never;
+    query: never;
+    body: SaveMasterBillingCycleDto;
+    response: MasterBillingCycleDto;
+  };
+  'POST /api/MasterData/billing-cycles/{id}/restore': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: MasterBillingCycleDto;
+  };
+  'POST /api/MasterData/currencies': {
+    path: never;
+    query: never;
+    body: SaveMasterCurrencyDto;
+    response: MasterCurrencyDto;
+  };
+  'POST /api/MasterData/currencies/{id}/restore': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: MasterCurrencyDto;
+  };
+  'POST /api/MasterData/privilege-types': {
+    path: never;
+    query: never;
+    body: SaveMasterPrivilegeTypeDto;
+    response: MasterPrivilegeTypeDto;
+  };
+  'POST /api/MasterData/privilege-types/{id}/restore': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: MasterPrivilegeTypeDto;
+  };
+  'POST /api/Privileges': {
+    path: never;
+    query: never;
+    body: CreatePrivilegeDto;
+    response: unknown;
+  };
+  'POST /api/Privileges/usage/grant': {
+    path: never;
+    query: never;
+    body: GrantPrivilegeUsageDto;
+    response: PrivilegeUsageDto;
+  };
+  'POST /api/Privileges/usage/reset': {
+    path: never;
+    query: never;
+    body: ResetPrivilegeUsageDto;
+    response: PrivilegeUsageDto;
+  };
+  'POST /api/stripe/create-checkout-session': {
+    path: never;
+    query: never;
+    body: CheckoutSessionRequest;
+    response: unknown;
+  };
+  'POST /api/stripe/test-payment': {
+    path: never;
+    query: never;
+    body: PaymentMethodRequest;
+    response: unknown;
+  };
+  'POST /api/StripeWebhook': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/SubscriptionPlans/{planId}/activate': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/SubscriptionPlans/{planId}/deactivate': {
+    path: { planId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/SubscriptionPlans/admin': {
+    path: never;
+    query: never;
+    body: CreateSubscriptionPlanDto;
+    response: SubscriptionPlanDto;
+  };
+  'POST /api/SubscriptionPlans/admin/{planId}/versions': {
+    path: { planId: string };
+    query: never;
+    body: CreatePlanVersionDto;
+    response: PlanVersionDto;
+  };
+  'POST /api/Subscriptions': {
+    path: never;
+    query: never;
+    body: CreateSubscriptionDto;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/cancel': {
+    path: { id: string };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/pause': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/process-payment': {
+    path: { id: string };
+    query: never;
+    body: PaymentRequestDto;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/reactivate': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/resume': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/{id}/upgrade': {
+    path: { id: string };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/admin/{id}/cancel': {
+    path: { id: string };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/admin/{id}/extend': {
+    path: { id: string };
+    query: never;
+    body: ExtendSubscriptionRequest;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/admin/{id}/pause': {
+    path: { id: string };
+    query: never;
+    body: PauseSubscriptionDto;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/admin/{id}/resume': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Subscriptions/admin/bulk-action': {
+    path: never;
+    query: never;
+    body: BulkActionRequestDto[];
+    response: unknown;
+  };
+  'POST /api/Subscriptions/user/{userId}/payment-methods': {
+    path: { userId: number };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /api/Users': {
+    path: never;
+    query: never;
+    body: CreateUserDto;
+    response: unknown;
+  };
+  'POST /api/Users/change-password': {
+    path: never;
+    query: never;
+    body: ChangePasswordDto;
+    response: unknown;
+  };
+  'POST /api/Users/confirm-password-reset': {
+    path: never;
+    query: never;
+    body: ConfirmPasswordResetDto;
+    response: unknown;
+  };
+  'POST /api/Users/documents': {
+    path: never;
+    query: never;
+    body: UploadUserDocumentRequest;
+    response: unknown;
+  };
+  'POST /api/Users/payment-methods': {
+    path: never;
+    query: never;
+    body: AddPaymentMethodDto;
+    response: unknown;
+  };
+  'POST /api/Users/profile-picture': {
+    path: never;
+    query: never;
+    body: {
+      file?: Blob;
+    };
+    response: unknown;
+  };
+  'POST /api/Users/providers': {
+    path: never;
+    query: never;
+    body: CreateProviderDto;
+    response: unknown;
+  };
+  'POST /api/Users/providers/{providerId}/reviews': {
+    path: { providerId: number };
+    query: never;
+    body: AddReviewDto;
+    response: unknown;
+  };
+  'POST /api/Users/request-password-reset': {
+    path: never;
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /api/Users/resend-email-verification': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Users/reset-password': {
+    path: never;
+    query: never;
+    body: ResetPasswordDto;
+    response: unknown;
+  };
+  'POST /api/Users/send-email-verification': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /api/Users/verify-email': {
+    path: never;
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/bulk-action': {
+    path: never;
+    query: never;
+    body: BulkActionRequestDto;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/categories': {
+    path: never;
+    query: never;
+    body: CreateCategoryDto;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/plans': {
+    path: never;
+    query: never;
+    body: CreateSubscriptionPlanDto;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/plans/{id}/activate': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/plans/{id}/deactivate': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/plans/{planId}/privileges': {
+    path: { planId: string };
+    query: never;
+    body: PlanPrivilegeDto[];
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/subscriptions/{id}/cancel': {
+    path: { id: string };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/subscriptions/{id}/extend': {
+    path: { id: string };
+    query: never;
+    body: ExtendSubscriptionDto;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/subscriptions/{id}/pause': {
+    path: { id: string };
+    query: never;
+    body: string;
+    response: unknown;
+  };
+  'POST /webadmin/subscription-management/subscriptions/{id}/resume': {
+    path: { id: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'PUT /api/admin/AdminSubscription/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdateSubscriptionDto;
+    response: unknown;
+  };
+  'PUT /api/Billing/{id}/payment-method': {
+    path: { id: string };
+    query: never;
+    body: UpdatePaymentMethodRequestDto;
+    response: unknown;
+  };
+  'PUT /api/Billing/invoice/{invoiceNumber}/status': {
+    path: { invoiceNumber: string };
+    query: never;
+    body: UpdateInvoiceStatusRequestDto;
+    response: unknown;
+  };
+  'PUT /api/Categories/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdateCategoryDto;
+    response: unknown;
+  };
+  'PUT /api/MasterData/billing-cycles/{id}': {
+    path: { id: string };
+    query: never;
+    body: SaveMasterBillingCycleDto;
+    response: MasterBillingCycleDto;
+  };
+  'PUT /api/MasterData/currencies/{id}': {
+    path: { id: string };
+    query: never;
+    body: SaveMasterCurrencyDto;
+    response: MasterCurrencyDto;
+  };
+  'PUT /api/MasterData/exchange-rates/{currencyId}': {
+    path: { currencyId: string };
+    query: never;
+    body: SaveExchangeRateDto;
+    response: ExchangeRateDto;
+  };
+  'PUT /api/MasterData/privilege-types/{id}': {
+    path: { id: string };
+    query: never;
+    body: SaveMasterPrivilegeTypeDto;
+    response: MasterPrivilegeTypeDto;
+  };
+  'PUT /api/Privileges/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdatePrivilegeDto;
+    response: unknown;
+  };
+  'PUT /api/SubscriptionPlanPrivileges/time-based-limits': {
+    path: never;
+    query: never;
+    body: UpdateTimeBasedLimitsRequest;
+    response: unknown;
+  };
+  'PUT /api/SubscriptionPlans/admin/{planId}': {
+    path: { planId: string };
+    query: never;
+    body: UpdateSubscriptionPlanDto;
+    response: SubscriptionPlanDto;
+  };
+  'PUT /api/SubscriptionPlans/admin/display-order': {
+    path: never;
+    query: never;
+    body: PlanDisplayOrderDto[];
+    response: PlanDisplayOrderDto[];
+  };
+  'PUT /api/Subscriptions/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdateSubscriptionDto;
+    response: unknown;
+  };
+  'PUT /api/Users/{userId}': {
+    path: { userId: number };
+    query: never;
+    body: UpdateUserDto;
+    response: unknown;
+  };
+  'PUT /api/Users/medical-history': {
+    path: never;
+    query: never;
+    body: UpdateMedicalHistoryDto;
+    response: unknown;
+  };
+  'PUT /api/Users/notifications/{notificationId}/read': {
+    path: { notificationId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'PUT /api/Users/notifications/read-all': {
+    path: never;
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'PUT /api/Users/patients/{patientId}/medical-history': {
+    path: { patientId: number };
+    query: never;
+    body: UpdateMedicalHistoryDto;
+    response: unknown;
+  };
+  'PUT /api/Users/payment-methods/{paymentMethodId}/default': {
+    path: { paymentMethodId: string };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'PUT /api/Users/preferences': {
+    path: never;
+    query: never;
+    body: UpdateUserPreferencesDto;
+    response: unknown;
+  };
+  'PUT /api/Users/profile': {
+    path: never;
+    query: never;
+    body: UpdateUserDto;
+    response: unknown;
+  };
+  'PUT /api/Users/providers/{providerId}': {
+    path: { providerId: number };
+    query: never;
+    body: UpdateProviderDto;
+    response: unknown;
+  };
+  'PUT /api/Users/providers/{providerId}/schedule': {
+    path: { providerId: number };
+    query: never;
+    body: UpdateProviderScheduleDto;
+    response: unknown;
+  };
+  'PUT /api/Users/providers/{providerId}/verify': {
+    path: { providerId: number };
+    query: never;
+    body: never;
+    response: unknown;
+  };
+  'PUT /webadmin/subscription-management/categories/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdateCategoryDto;
+    response: unknown;
+  };
+  'PUT /webadmin/subscription-management/plans/{id}': {
+    path: { id: string };
+    query: never;
+    body: UpdateSubscriptionPlanDto;
+    response: unknown;
+  };
+  'PUT /webadmin/subscription-management/plans/{planId}/privileges/{privilegeId}': {
+    path: { planId: string; privilegeId: string };
+    query: never;
+    body: PlanPrivilegeDto;
+    response: unknown;
+  };
+}
+
+export type ApiOperationKey = keyof ApiOperations;
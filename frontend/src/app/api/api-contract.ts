@@ -0,0 +1,16 @@
+import { ApiOperationKey, ApiOperations } from './admin-api.generated';
+
+/*
+ * Request and response shapes for a backend operation, looked up by its "METHOD /path" key in the generated contract,
+ * e.g. ApiQuery<'GET /api/SubscriptionPlans/admin'>. A renamed or removed parameter becomes a type error.
+ */
+export type ApiPathParams<K extends ApiOperationKey> = ApiOperations[K]['path'];
+export type ApiQuery<K extends ApiOperationKey> = ApiOperations[K]['query'];
+export type ApiRequestBody<K extends ApiOperationKey> = ApiOperations[K]['body'];
+export type ApiResponseData<K extends ApiOperationKey> = Serialized<ApiOperations[K]['response']>;
+
+// The backend writes every property of a DTO, so no response field is missing; nullable ones can still be null
+type Serialized<T> =
+  T extends (infer Item)[] ? Serialized<Item>[] :
+  T extends object ? { [P in keyof T]-?: Serialized<Exclude<T[P], undefined>> } :
+  T;
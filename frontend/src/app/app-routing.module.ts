@@ -1,6 +1,8 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { AuthGuard } from './admin/auth/auth.guard';
+import { PermissionGuard } from './admin/auth/permission.guard';
+import { PERMISSIONS } from './admin/auth/permissions';
 
 const routes: Routes = [
   { path: '', redirectTo: '/admin/login', pathMatch: 'full' },
@@ -20,6 +22,7 @@ const routes: Routes = [
     path: 'admin',
     loadComponent: () => import('./admin/admin-layout.component').then(m => m.AdminLayoutComponent),
     canActivate: [AuthGuard],
+    canActivateChild: [PermissionGuard],
     children: [
       { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
       { 
@@ -28,23 +31,53 @@ const routes: Routes = [
       },
       { 
         path: 'subscriptions', 
-        loadComponent: () => import('./admin/subscription-management/subscription-management').then(m => m.SubscriptionManagementComponent) 
+        loadComponent: () => import('./admin/subscription-management/subscription-management').then(m => m.SubscriptionManagementComponent),
+        data: { permissions: [PERMISSIONS.subscriptionsView] }
+      },
+      { 
+        path: 'plans', 
+        loadComponent: () => import('./admin/plans/plans-catalog.component').then(m => m.PlansCatalogComponent),
+        data: { permissions: [PERMISSIONS.plansView] }
+      },
+      { 
+        path: 'privileges', 
+        loadComponent: () => import('./admin/privileges/privileges.component').then(m => m.PrivilegesComponent),
+        data: { permissions: [PERMISSIONS.plansView] }
+      },
+      { 
+        path: 'users', 
+        loadComponent: () => import('./admin/users/users.component').then(m => m.UsersComponent),
+        data: { permissions: [PERMISSIONS.usersManage] }
+      },
+      { 
+        path: 'users/:id', 
+        loadComponent: () => import('./admin/users/user-profile.component').then(m => m.UserProfileComponent),
+        data: { permissions: [PERMISSIONS.usersManage] }
       },
       { 
         path: 'analytics', 
-        loadComponent: () => import('./admin/analytics-dashboard/analytics-dashboard').then(m => m.AnalyticsDashboardComponent) 
+        loadComponent: () => import('./admin/analytics-dashboard/analytics-dashboard.component').then(m => m.AnalyticsDashboardComponent),
+        data: { permissions: [PERMISSIONS.analyticsView] }
       },
       { 
         path: 'manual-actions', 
-        loadComponent: () => import('./admin/manual-actions/manual-actions.component').then(m => m.ManualActionsComponent) 
+        loadComponent: () => import('./admin/manual-actions/manual-actions.component').then(m => m.ManualActionsComponent),
+        data: { permissions: [PERMISSIONS.subscriptionsManage, PERMISSIONS.subscriptionsCancel] }
+      },
+      { 
+        path: 'refunds', 
+        loadComponent: () => import('./admin/refunds/refunds-ledger.component').then(m => m.RefundsLedgerComponent),
+        data: { permissions: [PERMISSIONS.refundsView] }
       },
       { 
         path: 'reports', 
-        loadComponent: () => import('./admin/analytics-dashboard/analytics-dashboard').then(m => m.AnalyticsDashboardComponent) 
+        loadComponent: () => import('./admin/reports/reports.component').then(m => m.ReportsComponent),
+        data: { permissions: [PERMISSIONS.reportsView] }
       },
       { 
         path: 'settings', 
-        loadComponent: () => import('./admin/analytics-dashboard/analytics-dashboard').then(m => m.AnalyticsDashboardComponent) 
+        loadComponent: () => import('./admin/settings/master-data.component').then(m => m.MasterDataComponent),
+        data: { permissions: [PERMISSIONS.settingsManage] }
       },
       { 
         path: 'profile', 
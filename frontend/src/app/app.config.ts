@@ -1,4 +1,4 @@
-import { ApplicationConfig, importProvidersFrom } from '@angular/core';
+import { ApplicationConfig, importProvidersFrom, inject, provideAppInitializer } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideHttpClient, withInterceptorsFromDi, withInterceptors } from '@angular/common/http';
 import { provideAnimations } from '@angular/platform-browser/animations';
@@ -6,9 +6,12 @@ import { provideClientHydration } from '@angular/platform-browser';
 
 import { routes } from './app.routes';
 import { AuthInterceptor } from './interceptors/auth.interceptor';
+import { AppConfigService } from './services/app-config.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
+    // Runtime config must be in place before any service builds an API URL
+    provideAppInitializer(() => inject(AppConfigService).load()),
     provideRouter(routes),
     provideHttpClient(
       withInterceptorsFromDi(),
@@ -1,48 +1,47 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { Router } from '@angular/router';
-import { catchError } from 'rxjs/operators';
+import { catchError, switchMap } from 'rxjs/operators';
 import { throwError } from 'rxjs';
+import { AuthService } from '../admin/auth/auth.service';
+
+const withToken = (req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> =>
+  token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
 
 export const AuthInterceptor: HttpInterceptorFn = (req, next) => {
-  const router = inject(Router);
-  
-  // Get the auth token from localStorage
-  const token = localStorage.getItem('adminToken');
-  
-  console.log('AuthInterceptor - Request URL:', req.url);
-  console.log('AuthInterceptor - Has token:', !!token);
-  if (token) {
-    console.log('AuthInterceptor - Token (first 20 chars):', token.substring(0, 20) + '...');
-  }
-  
-  // Clone the request and add the authorization header if token exists
-  if (token) {
-    req = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`
-      }
-    });
-    console.log('AuthInterceptor - Added Authorization header to request');
-  } else {
-    console.log('AuthInterceptor - No token found, request sent without Authorization header');
+  const authService = inject(AuthService);
+
+  // Login, register and forgot password go out without a token. The refresh call carries its own token
+  // and must not trigger another refresh.
+  if (authService.isAnonymousAuthRequest(req.url) || authService.isRefreshRequest(req.url)) {
+    return next(req);
   }
 
+  const token = authService.getToken();
+
   // Handle the request and catch any errors
-  return next(req).pipe(
+  return next(withToken(req, token)).pipe(
     catchError((error: HttpErrorResponse) => {
-      console.log('AuthInterceptor - Request failed with status:', error.status);
-      console.log('AuthInterceptor - Error details:', error);
-      
-      // If we get a 401 Unauthorized, redirect to login
-      if (error.status === 401) {
-        console.log('AuthInterceptor - Unauthorized request, redirecting to login');
-        localStorage.removeItem('adminToken');
-        localStorage.removeItem('adminUser');
-        router.navigate(['/admin/login']);
+      if (error.status !== 401 || !token) {
+        return throwError(() => error);
       }
-      
-      return throwError(() => error);
+
+      // Refresh and retry once; requests that fail together wait on the same refresh
+      return authService.refreshToken().pipe(
+        switchMap(newToken => {
+          if (!newToken) {
+            authService.expireSession();
+            return throwError(() => error);
+          }
+          return next(withToken(req, newToken)).pipe(
+            catchError((retryError: HttpErrorResponse) => {
+              if (retryError.status === 401) {
+                authService.expireSession();
+              }
+              return throwError(() => retryError);
+            })
+          );
+        })
+      );
     })
   );
 };
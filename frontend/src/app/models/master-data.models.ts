@@ -0,0 +1,80 @@
+import { ApiRequestBody, ApiResponseData } from '../api/api-contract';
+import { CategoryDto, MasterBillingCycle, MasterCurrency, MasterPrivilegeType, Privilege } from './subscription.models';
+
+// The lookup tables managed from the settings screen
+export type MasterDataKind = 'billingCycles' | 'currencies' | 'privilegeTypes' | 'categories';
+
+export type MasterDataRecord = MasterBillingCycle | MasterCurrency | MasterPrivilegeType | CategoryDto;
+
+// Lists the master data store caches for the whole app
+export interface MasterDataLists {
+  billingCycles: MasterBillingCycle[];
+  currencies: MasterCurrency[];
+  privilegeTypes: MasterPrivilegeType[];
+  privileges: Privilege[];
+  categories: CategoryDto[];
+}
+
+export type MasterDataListKey = keyof MasterDataLists;
+
+export const MASTER_DATA_LABELS: Record<MasterDataKind, { plural: string; singular: string }> = {
+  billingCycles: { plural: 'Billing Cycles', singular: 'billing cycle' },
+  currencies: { plural: 'Currencies', singular: 'currency' },
+  privilegeTypes: { plural: 'Privilege Types', singular: 'privilege type' },
+  categories: { plural: 'Categories', singular: 'category' }
+};
+
+// Database tables the audit log records changes to these lookups under
+export const MASTER_DATA_AUDIT_TABLES: Record<MasterDataKind, string> = {
+  billingCycles: 'MasterBillingCycles',
+  currencies: 'MasterCurrencies',
+  privilegeTypes: 'MasterPrivilegeTypes',
+  categories: 'Categories'
+};
+
+export type SaveBillingCycleDto = ApiRequestBody<'POST /api/MasterData/billing-cycles'>;
+
+export type SaveCurrencyDto = ApiRequestBody<'POST /api/MasterData/currencies'>;
+
+export type SavePrivilegeTypeDto = ApiRequestBody<'POST /api/MasterData/privilege-types'>;
+
+export type SaveMasterDataDto = SaveBillingCycleDto | SaveCurrencyDto | SavePrivilegeTypeDto | SaveCategoryDto;
+
+// Categories are saved through /api/Categories, whose create and update bodies differ, so the dialog uses its own shape
+export interface SaveCategoryDto {
+  name: string;
+  description?: string;
+  sortOrder: number;
+  isActive: boolean;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
+}
+
+// A row of the database audit log, written by the backend whenever an audited table changes.
+// Keys, values and columns are JSON, e.g. primaryKey '{"Id":"…"}' and affectedColumns '["Name","IsActive"]'.
+export interface AuditLogDto {
+  id: number;
+  userId?: number;
+  type: string; // Create, Update or Delete
+  tableName: string;
+  dateTime: Date;
+  oldValues?: string;
+  newValues?: string;
+  affectedColumns?: string;
+  primaryKey?: string;
+}
+
+export interface AuditFieldChange {
+  column: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+// Currency that revenue in several currencies is converted to for totals
+export const REPORTING_CURRENCY_CODE = 'USD';
+
+// Admin-maintained rate: how many units of the reporting currency one unit of this currency is worth.
+// rate is null until an admin sets it.
+export type ExchangeRateDto = ApiResponseData<'GET /api/MasterData/exchange-rates'>[number];
+
+export type SaveExchangeRateDto = ApiRequestBody<'PUT /api/MasterData/exchange-rates/{currencyId}'>;
@@ -0,0 +1,36 @@
+import { PlanFormValues } from './subscription.models';
+
+// Stripe objects a plan started from a template still has to be linked to.
+// Stripe IDs belong to exactly one plan, so templates keep only these placeholders.
+export type PlanTemplateStripeSlot = 'product' | 'monthly' | 'quarterly' | 'annual';
+
+export const STRIPE_SLOT_LABELS: Record<PlanTemplateStripeSlot, string> = {
+  product: 'Stripe product',
+  monthly: 'monthly price',
+  quarterly: 'quarterly price',
+  annual: 'annual price'
+};
+
+// The plan stepper's values without what is specific to one plan: its name, position, dates and Stripe IDs
+export type PlanTemplateValues = Omit<PlanFormValues,
+  'name' | 'displayOrder' | 'effectiveDate' | 'expirationDate' |
+  'stripeProductId' | 'stripeMonthlyPriceId' | 'stripeQuarterlyPriceId' | 'stripeAnnualPriceId'
+> & {
+  stripePlaceholders: PlanTemplateStripeSlot[];
+};
+
+export interface PlanTemplateDto {
+  id: string;
+  name: string;
+  description?: string;
+  values: PlanTemplateValues;
+  createdDate: Date;
+  updatedDate?: Date;
+  createdByName?: string;
+}
+
+export interface CreatePlanTemplateDto {
+  name: string;
+  description?: string;
+  values: PlanTemplateValues;
+}
@@ -0,0 +1,44 @@
+import { ApiRequestBody, ApiResponseData } from '../api/api-contract';
+import { PlanCurrencyPrice, PlanCyclePrice, PlanPrivilegeDto } from './subscription.models';
+
+// Each edit to a plan's price, terms or privileges publishes a new version instead of changing the plan in place
+
+// What happens to the price existing subscribers pay when a version takes effect.
+// Privileges are shared by everyone on the plan, so privilege changes reach every subscriber whatever the policy.
+export type SubscriberMigrationPolicy = 'Grandfather' | 'NextRenewal' | 'Immediate';
+
+export const MIGRATION_POLICY_LABELS: Record<SubscriberMigrationPolicy, string> = {
+  Grandfather: 'Keep existing subscribers at the price they pay now',
+  NextRenewal: 'Move existing subscribers to the new price at their next renewal',
+  Immediate: 'Move existing subscribers to the new price on the effective date'
+};
+
+export type PlanVersionStatus = 'Scheduled' | 'Current' | 'Superseded' | 'Cancelled';
+
+// A version as listed by GET /api/SubscriptionPlans/admin/{planId}/versions
+export type PlanVersionDto = ApiResponseData<'GET /api/SubscriptionPlans/admin/{planId}/versions'>[number];
+
+export type CreatePlanVersionDto = ApiRequestBody<'POST /api/SubscriptionPlans/admin/{planId}/versions'>;
+
+// The fields a version saves, with names for the lookups when they are known
+export interface PlanVersionSnapshot {
+  name?: string | null;
+  description?: string | null;
+  price?: number | null;
+  categoryId?: string | null;
+  categoryName?: string;
+  isActive?: boolean | null;
+  isFeatured?: boolean | null;
+  isMostPopular?: boolean | null;
+  isTrending?: boolean | null;
+  currencyPrices?: PlanCurrencyPrice[] | null;
+  cyclePrices?: PlanCyclePrice[] | null;
+  privileges?: PlanPrivilegeDto[] | null;
+}
+
+// One field that differs between two versions
+export interface PlanVersionChange {
+  field: string;
+  from: string;
+  to: string;
+}
@@ -0,0 +1,16 @@
+// Privileges are the entitlements plans grant (consultations, messages, deliveries), as managed through /api/Privileges
+
+export interface PrivilegeSearchFilter {
+  search?: string;
+  isActive?: boolean;
+}
+
+// A plan that grants a privilege, and the limit it grants
+export interface PrivilegePlanUsageDto {
+  planId: string;
+  planName: string;
+  isActive: boolean;
+  value: number; // -1 for unlimited, 0 for disabled, >0 for limited
+  usagePeriodName?: string;
+  totalActiveSubscriptions?: number;
+}
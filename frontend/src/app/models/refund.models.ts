@@ -0,0 +1,11 @@
+import { ApiResponseData } from '../api/api-contract';
+
+// Refunds issued against billing records, as listed by GET /api/Billing/refunds
+export type RefundLedgerEntryDto = ApiResponseData<'GET /api/Billing/refunds'>[number];
+
+export interface RefundLedgerFilter {
+  startDate?: Date;
+  endDate?: Date;
+  planId?: string;
+  refundedBy?: number;
+}
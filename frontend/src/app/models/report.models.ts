@@ -0,0 +1,83 @@
+export type ReportType =
+  | 'subscriptions'
+  | 'billing'
+  | 'users'
+  | 'providers'
+  | 'revenue'
+  | 'churn';
+
+export interface ReportDefinition {
+  type: ReportType;
+  name: string;
+  description: string;
+  icon: string;
+}
+
+export interface ReportParameters {
+  startDate?: string;
+  endDate?: string;
+}
+
+// The analytics routes return nested summaries; each leaf value becomes one row
+export interface ReportRow {
+  section: string;
+  metric: string;
+  value: string | number | boolean | null;
+}
+
+export interface ReportColumn {
+  key: keyof ReportRow;
+  header: string;
+}
+
+export interface ReportResult {
+  reportType: ReportType;
+  generatedAt: Date;
+  columns: ReportColumn[];
+  rows: ReportRow[];
+}
+
+export const REPORT_COLUMNS: ReportColumn[] = [
+  { key: 'section', header: 'Section' },
+  { key: 'metric', header: 'Metric' },
+  { key: 'value', header: 'Value' }
+];
+
+export const REPORT_CATALOG: ReportDefinition[] = [
+  {
+    type: 'subscriptions',
+    name: 'Subscriptions',
+    description: 'Subscription counts, churn, growth and revenue with the top categories',
+    icon: 'subscriptions'
+  },
+  {
+    type: 'revenue',
+    name: 'Revenue',
+    description: 'Total, monthly and annual recurring revenue with refunds',
+    icon: 'trending_up'
+  },
+  {
+    type: 'churn',
+    name: 'Churn',
+    description: 'Churn and retention rates with cancelled subscriptions',
+    icon: 'swap_vert'
+  },
+  {
+    type: 'billing',
+    name: 'Billing',
+    description: 'Revenue, failed payments, payment success rate and refunds issued',
+    icon: 'receipt_long'
+  },
+  {
+    type: 'users',
+    name: 'Users',
+    description: 'Total, active and new users with retention',
+    icon: 'people'
+  },
+  {
+    type: 'providers',
+    name: 'Providers',
+    description: 'Total, active and new providers',
+    icon: 'medical_services'
+  }
+];
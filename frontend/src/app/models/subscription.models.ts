@@ -1,3 +1,31 @@
+import { ApiRequestBody, ApiResponseData } from '../api/api-contract';
+
+// Request and response shapes the backend defines, taken from the generated contract
+export type CreateSubscriptionDto = ApiRequestBody<'POST /api/Subscriptions'>;
+export type CreateSubscriptionPlanDto = ApiRequestBody<'POST /api/SubscriptionPlans/admin'>;
+export type UpdateSubscriptionPlanDto = ApiRequestBody<'PUT /api/SubscriptionPlans/admin/{planId}'>;
+export type RefundBillingRecordDto = ApiRequestBody<'POST /api/Billing/{id}/process-refund'>;
+export type UsageStatisticsDto = ApiResponseData<'GET /api/Subscriptions/{id}/usage-statistics'>;
+export type PrivilegeUsageDto = ApiResponseData<'POST /api/Privileges/usage/grant'>;
+// A plan's price in a currency other than its own currencyId, with the Stripe price charged in it
+export type PlanCurrencyPrice = NonNullable<CreateSubscriptionPlanDto['currencyPrices']>[number];
+// A plan's price on a billing cycle other than its own billingCycleId, with the Stripe price charged on it
+export type PlanCyclePrice = NonNullable<CreateSubscriptionPlanDto['cyclePrices']>[number];
+export type ChangeSubscriptionBillingCycleDto = ApiRequestBody<'POST /api/admin/AdminSubscription/{id}/change-billing-cycle'>;
+
+// A billing cycle of a plan side by side with the others, for comparing what each costs per month
+export interface PlanCycleOption {
+  billingCycleId: string;
+  billingCycleName: string;
+  durationInDays: number;
+  price: number;
+  effectivePrice: number;
+  monthlyEquivalent: number;
+  // Saving per month against the plan's shortest cycle; null for the shortest cycle itself
+  savingsPercent: number | null;
+  isPrimary: boolean;
+}
+
 export interface SubscriptionDto {
   id: string;
   userId: number;
@@ -11,6 +39,11 @@ export interface SubscriptionDto {
   currentPeriodEnd?: Date;
   statusReason?: string;
   currentPrice: number;
+  // Currency the subscriber is billed in; the plan's own currency when not set
+  currencyId?: string;
+  // Billing cycle the subscriber is on; the plan's primary cycle when not set
+  billingCycleId?: string;
+  billingCycleName?: string;
   autoRenew: boolean;
   notes?: string;
   startDate: Date;
@@ -22,6 +55,8 @@ export interface SubscriptionDto {
   expirationDate?: Date;
   cancellationReason?: string;
   pauseReason?: string;
+  // Date the backend resumes a paused subscription automatically
+  scheduledResumeDate?: Date;
   stripeSubscriptionId?: string;
   stripeCustomerId?: string;
   paymentMethodId?: string;
@@ -31,22 +66,6 @@ export interface SubscriptionDto {
   isExpired: boolean;
 }
 
-export interface CreateSubscriptionDto {
-  userId: number;
-  subscriptionId: string;
-  planId: string;
-  name?: string;
-  description?: string;
-  price: number;
-  billingCycleId: string;
-  currencyId: string;
-  isActive: boolean;
-  startDate?: Date;
-  startImmediately: boolean;
-  paymentMethodId?: string;
-  autoRenew: boolean;
-}
-
 export interface SubscriptionPlanDto {
   id: string;
   name: string;
@@ -54,7 +73,7 @@ export interface SubscriptionPlanDto {
   shortDescription?: string;
   price: number;
   discountedPrice?: number;
-  discountValidUntil?: Date;
+  discountValidUntil?: string;
   billingCycleId: string;
   billingCycleName?: string;
   currencyId: string;
@@ -70,8 +89,8 @@ export interface SubscriptionPlanDto {
   displayOrder: number;
   features?: string;
   terms?: string;
-  effectiveDate?: Date;
-  expirationDate?: Date;
+  effectiveDate?: string;
+  expirationDate?: string;
   effectivePrice: number;
   hasActiveDiscount: boolean;
   isCurrentlyAvailable: boolean;
@@ -90,100 +109,24 @@ export interface SubscriptionPlanDto {
   stripeMonthlyPriceId?: string;
   stripeQuarterlyPriceId?: string;
   stripeAnnualPriceId?: string;
+  // Prices in other currencies
+  currencyPrices?: PlanCurrencyPrice[];
+  // Billing cycles besides billingCycleId, priced in the plan's own currency
+  cyclePrices?: PlanCyclePrice[];
   // Privilege information
   privileges?: PlanPrivilegeDto[];
   totalActiveSubscriptions?: number;
 }
 
-export interface CreateSubscriptionPlanDto {
-  name: string;
-  description?: string;
-  shortDescription?: string;
-  price: number;
-  discountedPrice?: number;
-  discountValidUntil?: Date;
-  billingCycleId: string;
-  currencyId: string;
-  categoryId: string;
-  messagingCount: number;
-  includesMedicationDelivery: boolean;
-  includesFollowUpCare: boolean;
-  deliveryFrequencyDays: number;
-  maxPauseDurationDays: number;
-  maxConcurrentUsers: number;
-  gracePeriodDays: number;
-  isActive: boolean;
-  isFeatured: boolean;
-  isTrialAllowed: boolean;
-  trialDurationInDays: number;
-  isMostPopular: boolean;
-  isTrending: boolean;
-  displayOrder: number;
-  features?: string;
-  terms?: string;
-  effectiveDate?: Date;
-  expirationDate?: Date;
-  // Stripe integration fields
+// Everything the plan stepper edits: the create request plus the Stripe objects the plan is linked to
+export interface PlanFormValues extends Omit<CreateSubscriptionPlanDto, 'privileges'> {
   stripeProductId?: string;
   stripeMonthlyPriceId?: string;
   stripeQuarterlyPriceId?: string;
   stripeAnnualPriceId?: string;
-  // Privilege configuration
   privileges?: PlanPrivilegeDto[];
 }
 
-export interface UpdateSubscriptionPlanDto {
-  id: string;
-  name: string;
-  description?: string;
-  shortDescription?: string;
-  price: number;
-  discountedPrice?: number;
-  discountValidUntil?: Date;
-  billingCycleId: string;
-  currencyId: string;
-  categoryId: string;
-  messagingCount: number;
-  includesMedicationDelivery: boolean;
-  includesFollowUpCare: boolean;
-  deliveryFrequencyDays: number;
-  maxPauseDurationDays: number;
-  maxConcurrentUsers: number;
-  gracePeriodDays: number;
-  isActive: boolean;
-  isFeatured: boolean;
-  isTrialAllowed: boolean;
-  trialDurationInDays: number;
-  isMostPopular: boolean;
-  isTrending: boolean;
-  displayOrder?: number;
-  features?: string;
-  terms?: string;
-  effectiveDate?: Date;
-  expirationDate?: Date;
-  // Stripe integration fields
-  stripeProductId?: string;
-  stripeMonthlyPriceId?: string;
-  stripeQuarterlyPriceId?: string;
-  stripeAnnualPriceId?: string;
-  // Privilege configuration
-  privileges?: PlanPrivilegeDto[];
-}
-
-export interface ApiResponse<T> {
-  data: any;
-  message: string;
-  statusCode: number;
-}
-
-export interface PaginatedResponse<T> {
-  items: T[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
-}
-
 // Master Data Models
 export interface MasterBillingCycle {
   id: string;
@@ -248,20 +191,17 @@ export interface Privilege {
   deletedDate?: Date;
 }
 
-export interface PlanPrivilegeDto {
-  privilegeId: string;
+// value is -1 for unlimited, 0 for disabled and the limit otherwise; the names are shown next to the ids
+export interface PlanPrivilegeDto extends ApiRequestBody<'PUT /webadmin/subscription-management/plans/{planId}/privileges/{privilegeId}'> {
   privilegeName?: string;
-  value: number; // -1 for unlimited, 0 for disabled, >0 for limited
-  usagePeriodId: string;
   usagePeriodName?: string;
-  durationMonths: number;
-  description?: string;
-  effectiveDate?: Date;
-  expirationDate?: Date;
-  // Time-based limits
-  dailyLimit?: number;
-  weeklyLimit?: number;
-  monthlyLimit?: number;
+}
+
+// Edits to a plan's privileges, matched by privilegeId
+export interface PlanPrivilegeChanges {
+  added: PlanPrivilegeDto[];
+  updated: PlanPrivilegeDto[];
+  removed: PlanPrivilegeDto[];
 }
 
 // Additional interfaces for comprehensive subscription management
@@ -271,9 +211,10 @@ export interface SubscriptionStatusHistoryDto {
   fromStatus: string;
   toStatus: string;
   reason?: string;
-  changedBy?: number;
-  changedDate: Date;
-  notes?: string;
+  changedByUserId?: string;
+  changedAt: Date;
+  // Free-text notes recorded with the change, e.g. why an extension was granted
+  metadata?: string;
 }
 
 export interface BillingRecordDto {
@@ -287,6 +228,37 @@ export interface BillingRecordDto {
   status: string;
   paymentMethodId?: string;
   stripeInvoiceId?: string;
+  description?: string;
+  failureReason?: string;
+  taxAmount?: number;
+  refundAmount?: number;
+  // Invoice breakdown, only present when line items and payment attempts are stored for the invoice
+  subtotal?: number;
+  discountAmount?: number;
+  lineItems?: BillingLineItemDto[];
+  payments?: SubscriptionPaymentDto[];
+}
+
+export interface BillingLineItemDto {
+  id: string;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+// Returned by GET /api/Billing/{id}/adjustments
+export interface BillingAdjustmentDto {
+  id: string;
+  billingRecordId: string;
+  amount: number;
+  adjustmentType: string;
+  reason: string;
+  appliedBy?: string;
+  appliedAt: Date;
+  isPercentage: boolean;
   notes?: string;
 }
 
@@ -301,17 +273,17 @@ export interface SubscriptionPaymentDto {
   stripePaymentIntentId?: string;
   status: string;
   failureReason?: string;
+  billingRecordId?: string;
+  attemptNumber?: number;
 }
 
-export interface UserSubscriptionPrivilegeUsageDto {
-  id: string;
-  subscriptionId: string;
-  privilegeId: string;
+// Rows from GET /api/Privileges/usage-history
+export interface PrivilegeUsageHistoryDto {
   privilegeName: string;
-  usedCount: number;
-  allowedCount: number;
-  resetDate: Date;
-  lastUsedDate?: Date;
+  userName: string;
+  usedValue: number;
+  usedAt: Date;
+  usageDate: Date;
 }
 
 export interface CategoryDto {
@@ -320,36 +292,194 @@ export interface CategoryDto {
   description?: string;
   isActive: boolean;
   sortOrder: number;
+  isMostPopular?: boolean;
+  isTrending?: boolean;
   createdDate: Date;
 }
 
+// Shape returned by GET /api/admin/AdminSubscription/analytics
 export interface SubscriptionAnalyticsDto {
-  totalSubscriptions: number;
+  period: { startDate: string; endDate: string };
+  subscriptionMetrics: {
+    totalSubscriptions: number;
+    activeSubscriptions: number;
+    trialSubscriptions: number;
+    pausedSubscriptions: number;
+    cancelledSubscriptions: number;
+    activationRate: number;
+    trialConversionRate: number;
+  };
+  revenueMetrics: {
+    totalRevenue: number;
+    averageOrderValue: number;
+    totalTransactions: number;
+    revenuePerDay: number;
+  };
+  churnMetrics: {
+    churnRate: number;
+    cancelledSubscriptions: number;
+    totalAtStart: number;
+  };
+  growthMetrics: {
+    newSubscriptions: number;
+    growthRate: number;
+    averageDailyGrowth: number;
+  };
+  planDistribution: Array<{ planId: string; plan: string; count: number }>;
+  statusByMonth: MonthlyStatusData[];
+  userEngagement: {
+    activeUsers: number;
+    totalUsers: number;
+    engagementRate: number;
+  };
+}
+
+// Plan changes
+export type PlanChangeDirection = 'upgrade' | 'downgrade';
+
+export type PlanChangeTiming = 'immediately' | 'period_end';
+
+// Subscription extensions; the label is what the status history records
+export type ExtensionReasonCategory = 'goodwill' | 'outage_credit' | 'clinical_delay';
+
+export const EXTENSION_REASON_LABELS: Record<ExtensionReasonCategory, string> = {
+  goodwill: 'Goodwill',
+  outage_credit: 'Outage credit',
+  clinical_delay: 'Clinical delay'
+};
+
+export interface PlanChangeResultDto {
+  subscriptionId: string;
+  oldPlanId: string;
+  newPlanId: string;
+  // Positive when the customer owes the difference for the rest of the period, negative for a credit
+  prorationAmount: number;
+  effectiveDate: string;
+  changedBy: number;
+}
+
+export interface BillingCycleChangeResultDto {
+  subscriptionId: string;
+  oldBillingCycleId: string;
+  newBillingCycleId: string;
+  newPrice: number;
+  // The subscription's next billing date, when the new cycle starts
+  effectiveDate: string;
+  changedBy: number;
+}
+
+// Proration preview for plan changes
+export interface ProrationLineItem {
+  type: 'credit' | 'charge' | 'discount';
+  description: string;
+  amount: number;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface ProrationResult {
+  timing: PlanChangeTiming;
+  effectiveDate: Date;
+  periodDays: number;
+  remainingDays: number;
+  credit: number;
+  charge: number;
+  // charge - credit; negative when the customer is owed money
+  net: number;
+  // Invoiced on effectiveDate
+  amountDue: number;
+  creditBalance: number;
+  nextBillingDate: Date;
+  nextBillingAmount: number;
+  billingAnchorReset: boolean;
+  lineItems: ProrationLineItem[];
+}
+
+export interface MonthlyRevenueData {
+  month: string;
+  revenue: number;
+  subscriptions: number;
+}
+
+// Subscription counts by status as they stood at the end of the month
+export interface MonthlyStatusData {
+  month: string;
   activeSubscriptions: number;
+  trialSubscriptions: number;
   pausedSubscriptions: number;
   cancelledSubscriptions: number;
-  trialSubscriptions: number;
-  monthlyRevenue: number;
-  yearlyRevenue: number;
-  averageRevenuePerUser: number;
-  churnRate: number;
-  conversionRate: number;
-  popularPlans: Array<{
-    planId: string;
-    planName: string;
-    subscriptionCount: number;
-    revenue: number;
-  }>;
+}
+
+// Revenue charged in one currency, and its value in the reporting currency when the currency has a rate
+export interface CurrencyRevenueDto {
+  currencyId?: string;
+  currency: string; // ISO code
+  totalRevenue: number;
+  monthlyRecurringRevenue: number;
+  subscriptionCount: number;
+  // Null when the currency has no exchange rate yet
+  exchangeRate?: number | null;
+  normalizedRevenue?: number | null;
+  normalizedMonthlyRecurringRevenue?: number | null;
+}
+
+// Shape returned by GET /api/admin/AdminSubscription/analytics/revenue
+export interface RevenueAnalyticsDto {
+  period: { startDate: string; endDate: string };
+  totalRevenue: number;
+  monthlyRecurringRevenue: number;
+  annualRecurringRevenue: number;
   revenueByPlan: Array<{
     planId: string;
     planName: string;
     revenue: number;
     subscriptionCount: number;
   }>;
-  subscriptionsByStatus: Array<{
-    status: string;
-    count: number;
+  revenueByMonth: MonthlyRevenueData[];
+  paymentSuccessRate: number;
+  averageRevenuePerUser: number;
+  revenueGrowth: {
+    firstHalfRevenue: number;
+    secondHalfRevenue: number;
+    growthRate: number;
+  };
+  // Revenue in each currency it was charged in, and the totals converted to the reporting currency
+  reportingCurrency?: string;
+  revenueByCurrency?: CurrencyRevenueDto[];
+  normalizedTotalRevenue?: number;
+  normalizedMonthlyRecurringRevenue?: number;
+  // Codes of the currencies left out of the normalized totals because they have no exchange rate
+  currenciesWithoutRate?: string[];
+}
+
+export interface ChurnCohortDto {
+  cohort: string;
+  startingSubscriptions: number;
+  // Percentage of the cohort still subscribed, indexed by months since signup
+  retention: number[];
+}
+
+// Shape returned by GET /api/admin/AdminSubscription/analytics/churn
+export interface ChurnAnalyticsDto {
+  period: { startDate: string; endDate: string };
+  churnRate: number;
+  churnByPlan: Array<{ plan: string; churnedCount: number }>;
+  churnByMonth: Array<{ month: string; churnedCount: number }>;
+  churnReasons: Array<{ reason: string; count: number }>;
+  retentionByPlan: Array<{
+    plan: string;
+    totalSubscriptions: number;
+    activeSubscriptions: number;
+    retentionRate: number;
   }>;
+  cohorts: ChurnCohortDto[];
+  customerLifetimeValue: number;
+}
+
+export interface AnalyticsFilter {
+  startDate?: Date;
+  endDate?: Date;
+  currencyId?: string;
 }
 
 export interface SubscriptionDetailsDto extends SubscriptionDto {
@@ -357,5 +487,5 @@ export interface SubscriptionDetailsDto extends SubscriptionDto {
   billingHistory: BillingRecordDto[];
   paymentHistory: SubscriptionPaymentDto[];
   statusHistory: SubscriptionStatusHistoryDto[];
-  privilegeUsage: UserSubscriptionPrivilegeUsageDto[];
+  privilegeUsage: PrivilegeUsageDto[];
 }
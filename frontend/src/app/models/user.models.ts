@@ -0,0 +1,54 @@
+// Patients and members as returned by /api/Users
+
+export interface UserDto {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  phoneNumber: string;
+  userType: string;
+  role: string;
+  isActive: boolean;
+  isEmailVerified: boolean;
+  isPhoneVerified: boolean;
+  createdDate: Date;
+  lastLoginAt?: Date;
+  profilePicture?: string;
+  dateOfBirth?: Date;
+  gender?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+  emergencyContact?: string;
+  emergencyPhone?: string;
+  stripeCustomerId?: string;
+}
+
+// The backend's "role" filter matches on the user's type
+export type UserType = 'Patient' | 'Provider' | 'Admin';
+
+export interface UserSearchFilter {
+  searchText?: string;
+  userType?: UserType;
+  isActive?: boolean;
+}
+
+export interface CardDto {
+  brand?: string;
+  last4?: string;
+  expMonth: number;
+  expYear: number;
+}
+
+// A saved Stripe payment method on the user's customer
+export interface PaymentMethodDto {
+  id: string;
+  customerId: string;
+  type: string;
+  card?: CardDto;
+  isDefault: boolean;
+  createdDate: Date;
+}
@@ -0,0 +1,78 @@
+import { currencyCode, currencySymbol, formatMoney } from './money.pipe';
+import { MasterCurrency } from '../models/subscription.models';
+
+const USD: MasterCurrency = {
+  id: 'cur-usd',
+  code: 'USD',
+  name: 'US Dollar',
+  symbol: '$',
+  sortOrder: 1,
+  isActive: true,
+  isDeleted: false
+};
+
+const CAD: MasterCurrency = { ...USD, id: 'cur-cad', code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', sortOrder: 2 };
+
+const GBP: MasterCurrency = { ...USD, id: 'cur-gbp', code: 'GBP', name: 'Pound Sterling', symbol: undefined, sortOrder: 3 };
+
+const CURRENCIES = [USD, CAD, GBP];
+
+describe('currencyCode', () => {
+  it('finds the code for a currency id or code', () => {
+    expect(currencyCode('cur-cad', CURRENCIES)).toBe('CAD');
+    expect(currencyCode('cad', CURRENCIES)).toBe('CAD');
+  });
+
+  it('keeps ISO codes that are not in master data', () => {
+    expect(currencyCode('eur', CURRENCIES)).toBe('EUR');
+  });
+
+  it('returns null for an id that is not loaded yet', () => {
+    expect(currencyCode('cur-unknown', [])).toBeNull();
+  });
+});
+
+describe('currencySymbol', () => {
+  it('uses the master data symbol for a currency id', () => {
+    expect(currencySymbol('cur-cad', CURRENCIES)).toBe('C$');
+  });
+
+  it('matches ISO codes regardless of case', () => {
+    expect(currencySymbol('cad', CURRENCIES)).toBe('C$');
+  });
+
+  it('falls back to the standard symbol when master data has none', () => {
+    expect(currencySymbol('cur-gbp', CURRENCIES)).toBe('£');
+    expect(currencySymbol('JPY', CURRENCIES)).toBe('¥');
+  });
+
+  it('defaults to US dollars', () => {
+    expect(currencySymbol(null, CURRENCIES)).toBe('$');
+    expect(currencySymbol(undefined, [])).toBe('$');
+  });
+
+  it('shows no symbol for an id that is not loaded yet', () => {
+    expect(currencySymbol('cur-unknown', [])).toBe('');
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats an amount with its symbol and two decimals', () => {
+    expect(formatMoney(1234.5, 'CAD', CURRENCIES)).toBe('C$1,234.50');
+    expect(formatMoney(0, 'cur-usd', CURRENCIES)).toBe('$0.00');
+  });
+
+  it('puts the sign in front of the symbol', () => {
+    expect(formatMoney(-12, 'cur-cad', CURRENCIES)).toBe('-C$12.00');
+  });
+
+  it('accepts digits info', () => {
+    expect(formatMoney(1234.5, 'USD', CURRENCIES, '1.0-0')).toBe('$1,235');
+  });
+
+  it('leaves missing amounts blank', () => {
+    expect(formatMoney(null, 'USD', CURRENCIES)).toBe('');
+    expect(formatMoney(undefined, 'USD', CURRENCIES)).toBe('');
+    expect(formatMoney(NaN, 'USD', CURRENCIES)).toBe('');
+  });
+});
@@ -0,0 +1,60 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { formatNumber, getCurrencySymbol } from '@angular/common';
+import { MasterCurrency } from '../models/subscription.models';
+import { MasterDataStoreService } from '../services/master-data-store.service';
+
+/**
+ * The ISO code for a currency id or code, or null for an id that is not in master data (yet)
+ */
+export function currencyCode(currency: string | null | undefined, currencies: MasterCurrency[]): string | null {
+  const code = currency || 'USD';
+  const match = currencies.find(c => c.id === code || c.code.toUpperCase() === code.toUpperCase());
+  return match?.code ?? (/^[A-Za-z]{3}$/.test(code) ? code.toUpperCase() : null);
+}
+
+/**
+ * The symbol a currency has in master data. `currency` is a currency id or ISO code;
+ * codes missing from master data fall back to their standard symbol.
+ */
+export function currencySymbol(currency: string | null | undefined, currencies: MasterCurrency[]): string {
+  const code = currency || 'USD';
+  const match = currencies.find(c => c.id === code || c.code.toUpperCase() === code.toUpperCase());
+  const isoCode = currencyCode(currency, currencies);
+  // An id that is not loaded yet has no symbol to show
+  return match?.symbol || (isoCode ? getCurrencySymbol(isoCode, 'narrow', 'en-US') : '');
+}
+
+/**
+ * Format an amount with its currency symbol, e.g. 1234.5 in EUR → "€1,234.50"
+ */
+export function formatMoney(
+  value: number | null | undefined,
+  currency: string | null | undefined,
+  currencies: MasterCurrency[],
+  digitsInfo = '1.2-2'
+): string {
+  if (value === null || value === undefined || isNaN(value)) return '';
+
+  const amount = formatNumber(Math.abs(value), 'en-US', digitsInfo);
+  return `${value < 0 ? '-' : ''}${currencySymbol(currency, currencies)}${amount}`;
+}
+
+// Impure so amounts pick up symbols once the currency list arrives
+@Pipe({
+  name: 'money',
+  standalone: true,
+  pure: false
+})
+export class MoneyPipe implements PipeTransform {
+  private masterData = inject(MasterDataStoreService);
+
+  constructor() {
+    this.masterData.load('currencies').subscribe({
+      error: (error) => console.error('Error loading currencies:', error)
+    });
+  }
+
+  transform(value: number | null | undefined, currency?: string | null, digitsInfo?: string): string {
+    return formatMoney(value, currency, this.masterData.snapshot('currencies'), digitsInfo);
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * Settings read from /config.json at startup, so one build can be deployed to any environment
+ */
+export interface AppConfig {
+  // Origin of the backend API, e.g. "https://api.staging.smarttelehealth.com". Empty means same origin.
+  apiBaseUrl: string;
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+  apiBaseUrl: ''
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+  // HttpBackend skips the interceptors, which themselves depend on the config
+  private http = new HttpClient(inject(HttpBackend));
+  private config: AppConfig = DEFAULT_CONFIG;
+
+  /**
+   * Load the runtime config. Called once by the app initializer before anything else runs.
+   */
+  async load(): Promise<void> {
+    try {
+      const config = await firstValueFrom(this.http.get<Partial<AppConfig>>('config.json'));
+      this.config = { ...DEFAULT_CONFIG, ...config };
+    } catch (error) {
+      console.error('Error loading config.json, falling back to defaults:', error);
+    }
+  }
+
+  get apiBaseUrl(): string {
+    return this.config.apiBaseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Absolute URL for an API path such as "/api/Subscriptions"
+   */
+  apiUrl(path: string): string {
+    return `${this.apiBaseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+}
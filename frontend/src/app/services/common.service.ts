@@ -1,7 +1,8 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams, HttpHeaders, HttpErrorResponse } from '@angular/common/http';
+import { HttpClient, HttpParams, HttpErrorResponse, HttpEvent } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { catchError } from 'rxjs/operators';
+import { AppConfigService } from './app-config.service';
 
 export interface ApiResponse<T = any> {
   data: T;
@@ -23,23 +24,26 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+// Actions that bind `[FromBody] string` need a JSON string; HttpClient would send a bare string as text/plain
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+/**
+ * The API client every service goes through. Endpoints are resolved against the runtime config,
+ * the bearer token is attached by AuthInterceptor, and failures are normalized by handleError.
+ */
 @Injectable({
   providedIn: 'root'
 })
 export class CommonService {
-  private readonly baseUrl = 'http://localhost:61376'; // Updated to match backend port
-
-  constructor(private http: HttpClient) {}
+  constructor(private http: HttpClient, private config: AppConfigService) {}
 
   /**
    * Get request with optional query parameters
    */
   getWithAuth<T>(endpoint: string, params?: any): Observable<ApiResponse<T>> {
     const httpParams = this.buildHttpParams(params);
-    const headers = this.getAuthHeaders();
     
-    return this.http.get<ApiResponse<T>>(`${this.baseUrl}${endpoint}`, { 
-      headers, 
+    return this.http.get<ApiResponse<T>>(this.config.apiUrl(endpoint), { 
       params: httpParams 
     }).pipe(
       catchError(this.handleError)
@@ -51,11 +55,10 @@ export class CommonService {
    */
   postWithAuth<T>(endpoint: string, body: any, params?: any): Observable<ApiResponse<T>> {
     const httpParams = this.buildHttpParams(params);
-    const headers = this.getAuthHeaders();
     
-    return this.http.post<ApiResponse<T>>(`${this.baseUrl}${endpoint}`, body, { 
-      headers, 
-      params: httpParams 
+    return this.http.post<ApiResponse<T>>(this.config.apiUrl(endpoint), this.toJsonBody(body), { 
+      params: httpParams,
+      headers: JSON_HEADERS
     }).pipe(
       catchError(this.handleError)
     );
@@ -66,11 +69,10 @@ export class CommonService {
    */
   putWithAuth<T>(endpoint: string, body: any, params?: any): Observable<ApiResponse<T>> {
     const httpParams = this.buildHttpParams(params);
-    const headers = this.getAuthHeaders();
     
-    return this.http.put<ApiResponse<T>>(`${this.baseUrl}${endpoint}`, body, { 
-      headers, 
-      params: httpParams 
+    return this.http.put<ApiResponse<T>>(this.config.apiUrl(endpoint), this.toJsonBody(body), { 
+      params: httpParams,
+      headers: JSON_HEADERS
     }).pipe(
       catchError(this.handleError)
     );
@@ -81,16 +83,37 @@ export class CommonService {
    */
   deleteWithAuth<T>(endpoint: string, params?: any): Observable<ApiResponse<T>> {
     const httpParams = this.buildHttpParams(params);
-    const headers = this.getAuthHeaders();
     
-    return this.http.delete<ApiResponse<T>>(`${this.baseUrl}${endpoint}`, { 
-      headers, 
+    return this.http.delete<ApiResponse<T>>(this.config.apiUrl(endpoint), { 
       params: httpParams 
     }).pipe(
       catchError(this.handleError)
     );
   }
 
+  /**
+   * Download a file. Emits progress events so the caller can show a progress bar.
+   */
+  downloadWithAuth(endpoint: string, params?: any): Observable<HttpEvent<Blob>> {
+    const httpParams = this.buildHttpParams(params);
+
+    return this.http.get(this.config.apiUrl(endpoint), {
+      params: httpParams,
+      responseType: 'blob',
+      reportProgress: true,
+      observe: 'events'
+    }).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Encode string bodies as JSON; everything else HttpClient already serializes as JSON
+   */
+  private toJsonBody(body: any): any {
+    return typeof body === 'string' ? JSON.stringify(body) : body;
+  }
+
   /**
    * Build HTTP parameters from object
    */
@@ -115,24 +138,6 @@ export class CommonService {
     return httpParams;
   }
 
-  /**
-   * Get authentication headers
-   */
-  private getAuthHeaders(): HttpHeaders {
-    const token = localStorage.getItem('adminToken') || localStorage.getItem('token');
-    
-    let headers = new HttpHeaders({
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    });
-
-    if (token) {
-      headers = headers.set('Authorization', `Bearer ${token}`);
-    }
-
-    return headers;
-  }
-
   /**
    * Handle HTTP errors
    */
@@ -161,9 +166,7 @@ export class CommonService {
       } else if (error.status === 401) {
         errorMessage = 'Unauthorized. Please log in again.';
         userFriendlyMessage = 'Your session has expired. Please log in again.';
-        // Optionally redirect to login
-        localStorage.removeItem('adminToken');
-        localStorage.removeItem('token');
+        // AuthInterceptor has already tried a refresh and ends the session if it failed
       } else if (error.status === 403) {
         errorMessage = 'Access denied. You do not have permission to perform this action.';
         userFriendlyMessage = 'You do not have permission to perform this action.';
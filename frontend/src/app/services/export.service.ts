@@ -0,0 +1,125 @@
+import { Injectable } from '@angular/core';
+import { HttpEvent, HttpEventType, HttpResponse } from '@angular/common/http';
+import { Observable, from, of } from 'rxjs';
+import { filter, mergeMap } from 'rxjs/operators';
+import { EXPORT_MIME_TYPES, ExportFormat, ExportProgress, ExportTable } from './export/export.models';
+import { writeCsv } from './export/csv-writer';
+import { writeXlsx } from './export/xlsx-writer';
+import { writePdf } from './export/pdf-writer';
+
+export * from './export/export.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+
+  /**
+   * Generate a CSV, XLSX or PDF file from table data in the browser and save it
+   */
+  exportTable<T>(table: ExportTable<T>, format: ExportFormat, baseName: string): string {
+    const blob = this.buildFile(table, format);
+    const fileName = this.buildFileName(baseName, format);
+    this.saveBlob(blob, fileName);
+    return fileName;
+  }
+
+  /**
+   * Track a server-side file download (requested with observe: 'events') and save the blob when it completes.
+   * Errors instead of saving when the server answers with JSON rather than a file.
+   */
+  downloadFile(request: Observable<HttpEvent<Blob>>, baseName: string, format: ExportFormat): Observable<ExportProgress> {
+    return request.pipe(
+      filter(event => event.type === HttpEventType.Sent
+        || event.type === HttpEventType.DownloadProgress
+        || event.type === HttpEventType.Response),
+      mergeMap((event): Observable<ExportProgress> => {
+        if (event.type === HttpEventType.DownloadProgress) {
+          return of({
+            state: 'downloading',
+            percent: event.total ? Math.round((event.loaded / event.total) * 100) : null
+          });
+        }
+
+        if (event.type === HttpEventType.Response) {
+          const response = event as HttpResponse<Blob>;
+          if (this.isJsonResponse(response)) {
+            return from(this.readJsonError(response.body));
+          }
+
+          const fileName = this.getFileNameFromHeaders(response) || this.buildFileName(baseName, format);
+          const blob = response.body ?? new Blob([], { type: EXPORT_MIME_TYPES[format] });
+          this.saveBlob(blob, fileName);
+          return of({ state: 'done', percent: 100, fileName });
+        }
+
+        return of({ state: 'pending', percent: null });
+      })
+    );
+  }
+
+  /**
+   * Build a file name like "subscriptions-2024-03-31.csv"
+   */
+  buildFileName(baseName: string, format: ExportFormat, date = new Date()): string {
+    const slug = baseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${slug}-${date.getFullYear()}-${month}-${day}.${format}`;
+  }
+
+  /**
+   * Trigger a browser download for a blob
+   */
+  saveBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoke on the next tick so the download has started before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private buildFile<T>(table: ExportTable<T>, format: ExportFormat): Blob {
+    switch (format) {
+      case 'xlsx':
+        return writeXlsx(table);
+      case 'pdf':
+        return writePdf(table);
+      default:
+        return writeCsv(table);
+    }
+  }
+
+  private isJsonResponse(response: HttpResponse<Blob>): boolean {
+    const contentType = response.headers.get('Content-Type') || response.body?.type || '';
+    return /[/+]json\b/i.test(contentType);
+  }
+
+  // The API wraps failures and unfinished exports in a JsonModel; surface its message as the error
+  private async readJsonError(body: Blob | null): Promise<never> {
+    let message = 'The server did not return a file';
+    try {
+      const json = JSON.parse(await body?.text() || '{}');
+      message = json.message || json.Message || message;
+    } catch {
+      // Not parseable; keep the generic message
+    }
+    throw new Error(message);
+  }
+
+  private getFileNameFromHeaders(response: HttpResponse<Blob>): string | null {
+    const disposition = response.headers.get('Content-Disposition');
+    if (!disposition) return null;
+
+    const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition);
+    if (encoded) return decodeURIComponent(encoded[1].trim());
+
+    const plain = /filename="?([^";]+)"?/i.exec(disposition);
+    return plain ? plain[1].trim() : null;
+  }
+}
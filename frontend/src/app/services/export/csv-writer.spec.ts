@@ -0,0 +1,58 @@
+import { writeCsv } from './csv-writer';
+import { ExportTable } from './export.models';
+
+interface Row {
+  name: string;
+  amount: number;
+}
+
+const table: ExportTable<Row> = {
+  title: 'Payments',
+  columns: [
+    { header: 'Name', value: r => r.name },
+    { header: 'Amount', value: r => r.amount }
+  ],
+  rows: []
+};
+
+async function csvLines(rows: Row[]): Promise<string[]> {
+  const text = await writeCsv({ ...table, rows }).text();
+  return text.split('\r\n');
+}
+
+describe('writeCsv', () => {
+  it('starts with a UTF-8 BOM and writes the header row', async () => {
+    const bytes = new Uint8Array(await writeCsv(table).arrayBuffer());
+
+    // Blob.text() drops the BOM while decoding, so check the raw bytes
+    expect(Array.from(bytes.subarray(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+    expect(new TextDecoder().decode(bytes.subarray(3))).toBe('Name,Amount');
+  });
+
+  it('quotes cells containing commas, quotes and line breaks', async () => {
+    const lines = await csvLines([{ name: 'Smith, "Jo"', amount: 1 }, { name: 'two\nlines', amount: 2 }]);
+
+    expect(lines[1]).toBe('"Smith, ""Jo""",1');
+    expect(lines[2]).toBe('"two\nlines",2');
+  });
+
+  it('prefixes text that a spreadsheet would run as a formula', async () => {
+    const lines = await csvLines([
+      { name: '=HYPERLINK("http://x")', amount: 0 },
+      { name: '+1', amount: 0 },
+      { name: '-2', amount: 0 },
+      { name: '@SUM(A1)', amount: 0 }
+    ]);
+
+    expect(lines[1]).toBe(`"'=HYPERLINK(""http://x"")",0`);
+    expect(lines[2]).toBe(`'+1,0`);
+    expect(lines[3]).toBe(`'-2,0`);
+    expect(lines[4]).toBe(`'@SUM(A1),0`);
+  });
+
+  it('leaves negative numbers numeric', async () => {
+    const lines = await csvLines([{ name: 'Refund', amount: -25.5 }]);
+
+    expect(lines[1]).toBe('Refund,-25.5');
+  });
+});
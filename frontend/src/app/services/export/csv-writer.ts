@@ -0,0 +1,20 @@
+import { ExportCellValue, ExportTable, formatCell } from './export.models';
+
+/**
+ * Build a CSV document (RFC 4180) with a UTF-8 BOM so Excel detects the encoding
+ */
+export function writeCsv<T>(table: ExportTable<T>): Blob {
+  const lines = [
+    table.columns.map(c => csvCell(c.header)).join(','),
+    ...table.rows.map(row => table.columns.map(c => csvCell(c.value(row))).join(','))
+  ];
+
+  return new Blob(['﻿' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+}
+
+function csvCell(value: ExportCellValue): string {
+  const text = formatCell(value);
+  // Spreadsheets run text starting with these characters as a formula; numbers such as -5 stay numeric
+  const guarded = typeof value !== 'number' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+}
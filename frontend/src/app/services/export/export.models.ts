@@ -0,0 +1,48 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportCellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCellValue;
+  // ISO code of the amount in this column; PDF output prints it as "EUR 1,234.50", CSV and XLSX keep the number
+  currency?: (row: T) => string | null | undefined;
+}
+
+export interface ExportTable<T> {
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export interface ExportProgress {
+  state: 'pending' | 'downloading' | 'done';
+  // 0-100 when the server sends Content-Length, otherwise null
+  percent: number | null;
+  fileName?: string;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+/**
+ * Normalise a cell to the text written into CSV/PDF output
+ */
+export function formatCell(value: ExportCellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString().substring(0, 10);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * API dates arrive as ISO strings; convert them so XLSX stores real date cells
+ */
+export function toExportDate(value?: Date | string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
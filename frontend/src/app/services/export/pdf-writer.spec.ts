@@ -0,0 +1,70 @@
+import { writePdf } from './pdf-writer';
+import { ExportTable } from './export.models';
+
+interface Row {
+  note: string;
+  amount: number;
+  currency: string;
+}
+
+const table: ExportTable<Row> = {
+  title: 'Payments',
+  columns: [
+    { header: 'Note', value: r => r.note },
+    { header: 'Amount', value: r => r.amount, currency: r => r.currency }
+  ],
+  rows: []
+};
+
+// One character per byte, so string offsets line up with the xref byte offsets
+async function pdfText(rows: Row[]): Promise<string> {
+  const bytes = new Uint8Array(await writePdf({ ...table, rows }, new Date(Date.UTC(2024, 0, 1))).arrayBuffer());
+  return Array.from(bytes, b => String.fromCharCode(b)).join('');
+}
+
+describe('writePdf', () => {
+  it('writes an xref table pointing at each object', async () => {
+    const pdf = await pdfText([{ note: 'x', amount: 1, currency: 'USD' }]);
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const entries = pdf.substring(xrefStart).split('\n').filter(line => line.endsWith(' n '));
+
+    expect(pdf.startsWith('xref', xrefStart)).toBeTrue();
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((entry, i) => {
+      expect(pdf.startsWith(`${i + 1} 0 obj`, Number(entry.substring(0, 10)))).toBeTrue();
+    });
+  });
+
+  it('escapes parentheses and backslashes in text', async () => {
+    const pdf = await pdfText([{ note: 'a (b) c\\d', amount: 1, currency: 'USD' }]);
+
+    expect(pdf).toContain('(a \\(b\\) c\\\\d) Tj');
+  });
+
+  it('writes the euro sign in WinAnsiEncoding and spells out signs the font lacks', async () => {
+    const pdf = await pdfText([
+      { note: 'Paid €5', amount: 5, currency: 'EUR' },
+      { note: 'Paid ₹99', amount: 99, currency: 'INR' }
+    ]);
+
+    expect(pdf).toContain('(Paid \x805) Tj');
+    expect(pdf).toContain('(Paid INR 99) Tj');
+    expect(pdf).not.toContain('?');
+  });
+
+  it('prints amounts with their ISO currency code', async () => {
+    const pdf = await pdfText([{ note: 'x', amount: 1234.5, currency: 'eur' }]);
+
+    expect(pdf).toContain('(EUR 1,234.50) Tj');
+  });
+
+  it('repeats the header on every page of a long table', async () => {
+    const rows = Array.from({ length: 120 }, (_, i) => ({ note: `row ${i}`, amount: i, currency: 'USD' }));
+    const pdf = await pdfText(rows);
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf.split('(Amount) Tj').length - 1).toBe(pageCount);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+  });
+});
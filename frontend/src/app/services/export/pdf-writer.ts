@@ -0,0 +1,149 @@
+import { ExportCellValue, ExportTable, formatCell } from './export.models';
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 14;
+const TITLE_SIZE = 14;
+// Helvetica averages roughly half an em per character
+const CHAR_WIDTH = FONT_SIZE * 0.5;
+
+// Characters WinAnsiEncoding places in 0x80-0x9F instead of the Latin-1 control range
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Currency signs the standard fonts cannot draw, written as their ISO code instead
+const CURRENCY_CODES: Record<string, string> = {
+  '₹': 'INR', '₽': 'RUB', '₩': 'KRW', '₪': 'ILS', '₫': 'VND', '₺': 'TRY',
+  '₴': 'UAH', '₦': 'NGN', '₱': 'PHP', '₸': 'KZT', '₼': 'AZN', '₾': 'GEL'
+};
+
+/**
+ * Build a printable PDF table using the standard Helvetica fonts.
+ * Long tables are split across pages with the header repeated on each one.
+ */
+export function writePdf<T>(table: ExportTable<T>, generatedAt = new Date()): Blob {
+  const header = table.columns.map(c => c.header);
+  const body = table.rows.map(row => table.columns.map(c => c.currency ? formatAmount(c.value(row), c.currency(row)) : formatCell(c.value(row))));
+  const widths = columnWidths(header, body);
+
+  const firstRowY = PAGE_HEIGHT - MARGIN - TITLE_SIZE - 24;
+  const rowsPerPage = Math.max(1, Math.floor((firstRowY - MARGIN) / ROW_HEIGHT) - 1);
+  const pageCount = Math.max(1, Math.ceil(body.length / rowsPerPage));
+  const subtitle = `Generated ${generatedAt.toISOString().replace('T', ' ').substring(0, 16)} UTC - ${body.length} rows`;
+
+  const pages: string[] = [];
+  for (let page = 0; page < pageCount; page++) {
+    const ops: string[] = [];
+    ops.push(text(MARGIN, PAGE_HEIGHT - MARGIN - TITLE_SIZE, 'F2', TITLE_SIZE, table.title));
+    ops.push(text(MARGIN, PAGE_HEIGHT - MARGIN - TITLE_SIZE - 14, 'F1', FONT_SIZE, subtitle));
+    ops.push(text(PAGE_WIDTH - MARGIN - 60, MARGIN - 16, 'F1', FONT_SIZE, `Page ${page + 1} of ${pageCount}`));
+
+    let y = firstRowY;
+    ops.push(`0.93 0.94 0.99 rg ${MARGIN} ${y - 4} ${PAGE_WIDTH - 2 * MARGIN} ${ROW_HEIGHT} re f 0 0 0 rg`);
+    ops.push(...rowOps(header, widths, y, 'F2'));
+
+    for (const cells of body.slice(page * rowsPerPage, (page + 1) * rowsPerPage)) {
+      y -= ROW_HEIGHT;
+      ops.push(`0.9 0.9 0.9 RG 0.5 w ${MARGIN} ${y - 4} m ${PAGE_WIDTH - MARGIN} ${y - 4} l S`);
+      ops.push(...rowOps(cells, widths, y, 'F1'));
+    }
+
+    pages.push(ops.join('\n'));
+  }
+
+  return new Blob([toBytes(buildDocument(pages))], { type: 'application/pdf' });
+}
+
+function formatAmount(value: ExportCellValue, currency: string | null | undefined): string {
+  if (typeof value !== 'number' || !isFinite(value)) return formatCell(value);
+  const amount = value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${currency.toUpperCase()} ${amount}` : amount;
+}
+
+function columnWidths(header: string[], body: string[][]): number[] {
+  const available = PAGE_WIDTH - 2 * MARGIN;
+  // Size columns by their longest value (capped) so ids and notes do not crowd out amounts
+  const weights = header.map((h, i) => {
+    const longest = Math.max(h.length, ...body.slice(0, 200).map(row => row[i]?.length ?? 0));
+    return Math.min(Math.max(longest, 4), 40);
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => (w / total) * available);
+}
+
+function rowOps(cells: string[], widths: number[], y: number, font: string): string[] {
+  let x = MARGIN;
+  return cells.map((cell, i) => {
+    const maxChars = Math.max(1, Math.floor((widths[i] - 4) / CHAR_WIDTH));
+    const value = cell.length > maxChars ? `${cell.substring(0, Math.max(1, maxChars - 3))}...` : cell;
+    const op = text(x + 2, y, font, FONT_SIZE, value);
+    x += widths[i];
+    return op;
+  });
+}
+
+function text(x: number, y: number, font: string, size: number, value: string): string {
+  return `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdf(value)}) Tj ET`;
+}
+
+function escapePdf(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, char => {
+      // The standard fonts only cover WinAnsiEncoding
+      if (char in WIN_ANSI) return String.fromCharCode(WIN_ANSI[char]);
+      if (char in CURRENCY_CODES) return `${CURRENCY_CODES[char]} `;
+      return '?';
+    })
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function buildDocument(pageStreams: string[]): string {
+  // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair per page
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, i) => 5 + i * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pageStreams.forEach((stream, i) => {
+    const contentId = pageIds[i] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return output;
+}
+
+function toBytes(value: string): Uint8Array {
+  // Every character is <= 0xFF after escaping, so offsets measured in characters equal byte offsets
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,113 @@
+import { columnName, crc32, writeXlsx } from './xlsx-writer';
+import { ExportTable } from './export.models';
+
+interface Row {
+  name: string;
+  amount: number;
+}
+
+interface ZipFile {
+  name: string;
+  crc: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+const decoder = new TextDecoder();
+
+// Walk the central directory and read each entry back through its local header
+function readZip(bytes: Uint8Array): { files: ZipFile[]; entryCount: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const files: ZipFile[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    files.push({ name, crc, offset, data: bytes.subarray(dataStart, dataStart + size) });
+
+    position += 46 + nameLength;
+  }
+  return { files, entryCount };
+}
+
+async function xlsxFiles(table: ExportTable<Row>): Promise<ZipFile[]> {
+  return readZip(new Uint8Array(await writeXlsx(table).arrayBuffer())).files;
+}
+
+const table: ExportTable<Row> = {
+  title: 'Revenue: Q1/Q2',
+  columns: [
+    { header: 'Name', value: r => r.name },
+    { header: 'Amount', value: r => r.amount }
+  ],
+  rows: [{ name: 'A & B <"Ltd">', amount: 12.5 }]
+};
+
+describe('xlsx-writer', () => {
+  it('computes the standard CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('names columns past Z the way Excel does', () => {
+    expect(columnName(0)).toBe('A');
+    expect(columnName(25)).toBe('Z');
+    expect(columnName(26)).toBe('AA');
+    expect(columnName(51)).toBe('AZ');
+    expect(columnName(52)).toBe('BA');
+    expect(columnName(701)).toBe('ZZ');
+    expect(columnName(702)).toBe('AAA');
+  });
+
+  it('packs the workbook parts into a readable zip', async () => {
+    const files = await xlsxFiles(table);
+
+    expect(files.map(f => f.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files[0].offset).toBe(0);
+    for (const file of files) {
+      expect(crc32(file.data)).toBe(file.crc);
+    }
+  });
+
+  it('escapes cell text and cleans the sheet name', async () => {
+    const files = await xlsxFiles(table);
+    const sheet = decoder.decode(files.find(f => f.name === 'xl/worksheets/sheet1.xml')!.data);
+    const workbook = decoder.decode(files.find(f => f.name === 'xl/workbook.xml')!.data);
+
+    expect(sheet).toContain('<t xml:space="preserve">A &amp; B &lt;&quot;Ltd&quot;&gt;</t>');
+    expect(sheet).toContain('<c r="B2"><v>12.5</v></c>');
+    expect(workbook).toContain('<sheet name="Revenue  Q1 Q2"');
+  });
+
+  it('writes cell references past column Z', async () => {
+    const wide: ExportTable<Row> = {
+      title: 'Wide',
+      columns: Array.from({ length: 28 }, (_, i) => ({ header: `C${i}`, value: (r: Row) => r.amount + i })),
+      rows: [{ name: 'x', amount: 0 }]
+    };
+    const files = await xlsxFiles(wide);
+    const sheet = decoder.decode(files[files.length - 1].data);
+
+    expect(sheet).toContain('<c r="AB2"><v>27</v></c>');
+  });
+});
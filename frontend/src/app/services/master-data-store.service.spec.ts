@@ -0,0 +1,167 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, Subject, of } from 'rxjs';
+
+import { MasterDataStoreService } from './master-data-store.service';
+import { MasterDataService } from './master-data.service';
+import { SubscriptionService } from './subscription.service';
+import { ApiResponse } from './common.service';
+import { AuthService } from '../admin/auth/auth.service';
+import { MasterBillingCycle } from '../models/subscription.models';
+
+const MINUTE_MS = 60 * 1000;
+
+const MONTHLY: MasterBillingCycle = {
+  id: 'monthly',
+  name: 'Monthly',
+  durationInDays: 30,
+  sortOrder: 1,
+  isActive: true,
+  isDeleted: false
+};
+
+function ok<T>(data: T): ApiResponse<T> {
+  return { data, message: '', statusCode: 200 };
+}
+
+describe('MasterDataStoreService', () => {
+  let store: MasterDataStoreService;
+  let masterDataService: jasmine.SpyObj<MasterDataService>;
+  let authenticated: BehaviorSubject<boolean>;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1, 9, 0));
+
+    masterDataService = jasmine.createSpyObj<MasterDataService>('MasterDataService', [
+      'getBillingCycles', 'getCurrencies', 'getPrivilegeTypes', 'getPrivileges'
+    ]);
+    masterDataService.getBillingCycles.and.callFake(() => of(ok([MONTHLY])));
+    masterDataService.getPrivileges.and.callFake(() => of(ok([])));
+    authenticated = new BehaviorSubject(true);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MasterDataService, useValue: masterDataService },
+        { provide: SubscriptionService, useValue: jasmine.createSpyObj<SubscriptionService>('SubscriptionService', ['getCategories']) },
+        { provide: AuthService, useValue: { isAuthenticated$: authenticated.asObservable() } }
+      ]
+    });
+    store = TestBed.inject(MasterDataStoreService);
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+    sessionStorage.clear();
+  });
+
+  it('fetches a list once and serves it from the cache while it is fresh', () => {
+    store.load('billingCycles').subscribe();
+    let cycles: MasterBillingCycle[] = [];
+    store.load('billingCycles').subscribe(data => cycles = data);
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+    expect(cycles).toEqual([MONTHLY]);
+    expect(store.getBillingCycleName('monthly')).toBe('Monthly');
+  });
+
+  it('fetches a list again once its TTL has passed', () => {
+    store.load('billingCycles').subscribe();
+    jasmine.clock().tick(29 * MINUTE_MS);
+    store.load('billingCycles').subscribe();
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+
+    jasmine.clock().tick(2 * MINUTE_MS);
+    store.load('billingCycles').subscribe();
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps privileges for a shorter time than billing cycles', () => {
+    store.load('billingCycles').subscribe();
+    store.load('privileges').subscribe();
+    jasmine.clock().tick(6 * MINUTE_MS);
+
+    store.load('billingCycles').subscribe();
+    store.load('privileges').subscribe();
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+    expect(masterDataService.getPrivileges).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between callers while it is in flight', () => {
+    const response = new Subject<ApiResponse<MasterBillingCycle[]>>();
+    masterDataService.getBillingCycles.and.returnValue(response);
+    const received: MasterBillingCycle[][] = [];
+
+    store.load('billingCycles').subscribe(data => received.push(data));
+    store.load('billingCycles').subscribe(data => received.push(data));
+    response.next(ok([MONTHLY]));
+    response.complete();
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+    expect(received).toEqual([[MONTHLY], [MONTHLY]]);
+
+    store.load('billingCycles', true).subscribe();
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the API does not return the list', () => {
+    masterDataService.getBillingCycles.and.returnValue(of({ data: [], message: 'Not allowed', statusCode: 403 }));
+    let failure: Error | undefined;
+
+    store.load('billingCycles').subscribe({ error: (error: Error) => failure = error });
+
+    expect(failure?.message).toBe('Not allowed');
+    expect(store.snapshot('billingCycles')).toEqual([]);
+  });
+
+  it('reloads an invalidated list right away when someone is watching it', () => {
+    const seen: string[][] = [];
+    store.select('billingCycles').subscribe(cycles => seen.push(cycles.map(cycle => cycle.name)));
+    masterDataService.getBillingCycles.and.callFake(() => of(ok([{ ...MONTHLY, name: 'Every month' }])));
+
+    store.invalidate('billingCycles');
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(2);
+    expect(seen[seen.length - 1]).toEqual(['Every month']);
+  });
+
+  it('treats an invalidated list as stale without dropping it', () => {
+    store.load('billingCycles').subscribe();
+
+    store.invalidate('billingCycles');
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+    expect(store.getBillingCycleName('monthly')).toBe('Monthly');
+    expect(sessionStorage.getItem('masterData.billingCycles')).toBeNull();
+    store.load('billingCycles').subscribe();
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(2);
+  });
+
+  it('picks up fresh lists from sessionStorage', () => {
+    store.load('billingCycles').subscribe();
+
+    const restored = TestBed.runInInjectionContext(() => new MasterDataStoreService());
+    restored.load('billingCycles').subscribe();
+
+    expect(masterDataService.getBillingCycles).toHaveBeenCalledTimes(1);
+    expect(restored.getBillingCycleName('monthly')).toBe('Monthly');
+  });
+
+  it('forgets every list when the admin signs out', () => {
+    store.load('billingCycles').subscribe();
+
+    authenticated.next(false);
+
+    expect(store.snapshot('billingCycles')).toEqual([]);
+    expect(sessionStorage.getItem('masterData.billingCycles')).toBeNull();
+  });
+
+  it('gives each caller its own empty list before anything is loaded', () => {
+    const first = store.snapshot('currencies');
+
+    expect(first).toEqual([]);
+    expect(store.snapshot('currencies')).not.toBe(first);
+    expect(store.getCurrencyName('usd')).toBe('Unknown Currency');
+  });
+});
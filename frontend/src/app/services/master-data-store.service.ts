@@ -0,0 +1,207 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, defer, merge, of, throwError } from 'rxjs';
+import { filter, finalize, ignoreElements, map, shareReplay, switchMap, tap } from 'rxjs/operators';
+import { ApiResponse } from './common.service';
+import { MasterDataService } from './master-data.service';
+import { SubscriptionService } from './subscription.service';
+import { AuthService } from '../admin/auth/auth.service';
+import { MasterDataListKey, MasterDataLists } from '../models/master-data.models';
+
+interface CachedList<K extends MasterDataListKey> {
+  data: MasterDataLists[K];
+  fetchedAt: number;
+}
+
+const STORAGE_PREFIX = 'masterData.';
+const MINUTE_MS = 60 * 1000;
+
+// How long a loaded list is used before it is fetched again. Privileges change the most often.
+const LIST_TTL_MS: Record<MasterDataListKey, number> = {
+  billingCycles: 30 * MINUTE_MS,
+  currencies: 30 * MINUTE_MS,
+  privilegeTypes: 30 * MINUTE_MS,
+  categories: 10 * MINUTE_MS,
+  privileges: 5 * MINUTE_MS
+};
+
+const LIST_KEYS = Object.keys(LIST_TTL_MS) as MasterDataListKey[];
+
+// What a list reads as before it is loaded. A new object each time, so callers cannot share one array.
+function emptyLists(): MasterDataLists {
+  return { billingCycles: [], currencies: [], privilegeTypes: [], privileges: [], categories: [] };
+}
+
+/**
+ * Billing cycles, currencies, privilege types, privileges and categories for the whole app.
+ * Lists are loaded once, kept in memory and sessionStorage until their TTL passes, and reloaded
+ * when an admin screen invalidates them after an edit.
+ */
+@Injectable({ providedIn: 'root' })
+export class MasterDataStoreService {
+  private masterDataService = inject(MasterDataService);
+  private subscriptionService = inject(SubscriptionService);
+  private authService = inject(AuthService);
+
+  private lists = {} as { [K in MasterDataListKey]: BehaviorSubject<CachedList<K> | null> };
+  // Shared by every caller while a list is being fetched, so concurrent callers fetch it once
+  private inFlight: { [K in MasterDataListKey]?: Observable<MasterDataLists[K]> } = {};
+
+  constructor() {
+    for (const key of LIST_KEYS) {
+      this.setSubject(key, new BehaviorSubject(this.readStorage(key)));
+    }
+
+    // Another admin may see different data, so nothing outlives the session
+    this.authService.isAuthenticated$.pipe(filter(authenticated => !authenticated)).subscribe(() => this.clear());
+  }
+
+  /**
+   * A list now and again every time it is reloaded. Loads it first when it is missing or stale.
+   */
+  select<K extends MasterDataListKey>(key: K): Observable<MasterDataLists[K]> {
+    return defer(() => merge(
+      this.isFresh(key) ? EMPTY : this.load(key).pipe(ignoreElements()),
+      this.getSubject(key).pipe(
+        filter((cached): cached is CachedList<K> => cached !== null),
+        map(cached => cached.data)
+      )
+    ));
+  }
+
+  /**
+   * A list once, from the cache while it is fresh. `force` skips the cache.
+   */
+  load<K extends MasterDataListKey>(key: K, force = false): Observable<MasterDataLists[K]> {
+    const cached = this.getSubject(key).value;
+    if (!force && cached && this.isFresh(key)) {
+      return of(cached.data);
+    }
+
+    const pending = this.inFlight[key] as Observable<MasterDataLists[K]> | undefined;
+    if (pending) return pending;
+
+    const request = this.fetch(key).pipe(
+      switchMap(response => response.statusCode === 200
+        ? of(this.toList(key, response.data))
+        : throwError(() => new Error(response.message || `Failed to load ${key}`))),
+      tap(data => {
+        const entry: CachedList<K> = { data, fetchedAt: Date.now() };
+        this.getSubject(key).next(entry);
+        this.writeStorage(key, entry);
+      }),
+      finalize(() => delete this.inFlight[key]),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+    (this.inFlight as Record<MasterDataListKey, Observable<unknown>>)[key] = request;
+    return request;
+  }
+
+  /**
+   * Drop cached lists after they were edited. Lists someone is watching are reloaded right away.
+   */
+  invalidate(...keys: MasterDataListKey[]): void {
+    for (const key of keys.length > 0 ? keys : LIST_KEYS) {
+      sessionStorage.removeItem(STORAGE_PREFIX + key);
+      const subject = this.getSubject(key);
+      const cached = subject.value;
+      if (cached) {
+        // Keep showing the old list until the new one arrives, but never treat it as fresh again
+        subject.next({ ...cached, fetchedAt: 0 });
+      }
+      if (subject.observed) {
+        this.load(key, true).subscribe({
+          error: (error) => console.error(`Error reloading ${key}:`, error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Current value of a list, or an empty list when it has not been loaded
+   */
+  snapshot<K extends MasterDataListKey>(key: K): MasterDataLists[K] {
+    return this.getSubject(key).value?.data ?? emptyLists()[key];
+  }
+
+  getBillingCycleName(billingCycleId?: string | null): string {
+    return this.findName('billingCycles', billingCycleId) ?? 'Unknown Cycle';
+  }
+
+  getCurrencyName(currencyId?: string | null): string {
+    return this.findName('currencies', currencyId) ?? 'Unknown Currency';
+  }
+
+  getCategoryName(categoryId?: string | null): string {
+    return this.findName('categories', categoryId) ?? 'Unknown Category';
+  }
+
+  getPrivilegeTypeName(privilegeTypeId?: string | null): string {
+    return this.findName('privilegeTypes', privilegeTypeId) ?? 'Unknown Type';
+  }
+
+  getPrivilegeName(privilegeId?: string | null): string {
+    return this.findName('privileges', privilegeId) ?? 'Unknown Privilege';
+  }
+
+  private findName(key: MasterDataListKey, id?: string | null): string | undefined {
+    if (!id) return undefined;
+    const list: { id: string; name: string }[] = this.snapshot(key);
+    return list.find(item => item.id === id)?.name;
+  }
+
+  private fetch(key: MasterDataListKey): Observable<ApiResponse<unknown>> {
+    switch (key) {
+      case 'billingCycles': return this.masterDataService.getBillingCycles();
+      case 'currencies': return this.masterDataService.getCurrencies();
+      case 'privilegeTypes': return this.masterDataService.getPrivilegeTypes();
+      case 'privileges': return this.masterDataService.getPrivileges();
+      case 'categories': return this.subscriptionService.getCategories();
+    }
+  }
+
+  // Some endpoints wrap the list, e.g. { categories: [...] }
+  private toList<K extends MasterDataListKey>(key: K, data: unknown): MasterDataLists[K] {
+    if (Array.isArray(data)) return data as MasterDataLists[K];
+    const wrapped = (data as Record<string, unknown> | null)?.[key];
+    return (Array.isArray(wrapped) ? wrapped : []) as MasterDataLists[K];
+  }
+
+  private isFresh(key: MasterDataListKey): boolean {
+    const cached = this.getSubject(key).value;
+    return !!cached && Date.now() - cached.fetchedAt < LIST_TTL_MS[key];
+  }
+
+  private clear(): void {
+    for (const key of LIST_KEYS) {
+      sessionStorage.removeItem(STORAGE_PREFIX + key);
+      this.getSubject(key).next(null);
+    }
+  }
+
+  private readStorage<K extends MasterDataListKey>(key: K): CachedList<K> | null {
+    try {
+      const stored = sessionStorage.getItem(STORAGE_PREFIX + key);
+      const cached = stored ? JSON.parse(stored) as CachedList<K> : null;
+      return cached && Date.now() - cached.fetchedAt < LIST_TTL_MS[key] ? cached : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeStorage<K extends MasterDataListKey>(key: K, entry: CachedList<K>): void {
+    try {
+      sessionStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      // A full storage quota only costs the cache across reloads
+      console.warn(`Could not cache ${key} in sessionStorage:`, error);
+    }
+  }
+
+  private getSubject<K extends MasterDataListKey>(key: K): BehaviorSubject<CachedList<K> | null> {
+    return this.lists[key] as BehaviorSubject<CachedList<K> | null>;
+  }
+
+  private setSubject<K extends MasterDataListKey>(key: K, subject: BehaviorSubject<CachedList<K> | null>): void {
+    (this.lists as Record<MasterDataListKey, unknown>)[key] = subject;
+  }
+}
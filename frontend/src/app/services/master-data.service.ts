@@ -1,33 +1,51 @@
 import { Injectable } from '@angular/core';
 import { Observable } from 'rxjs';
 import { CommonService, ApiResponse } from './common.service';
-import { MasterBillingCycle, MasterCurrency, MasterPrivilegeType, Privilege } from '../models/subscription.models';
+import { CategoryDto, MasterBillingCycle, MasterCurrency, MasterPrivilegeType, Privilege } from '../models/subscription.models';
+import {
+  AuditFieldChange,
+  AuditLogDto,
+  ExchangeRateDto,
+  SaveBillingCycleDto,
+  SaveCategoryDto,
+  SaveCurrencyDto,
+  SaveExchangeRateDto,
+  SavePrivilegeTypeDto
+} from '../models/master-data.models';
+import { ApiRequestBody } from '../api/api-contract';
 
+// Screens read these lists through MasterDataStoreService, which caches them; this service only talks to the API
 @Injectable({
   providedIn: 'root'
 })
 export class MasterDataService {
+  private readonly billingCyclesEndpoint = '/api/MasterData/billing-cycles';
+  private readonly currenciesEndpoint = '/api/MasterData/currencies';
+  private readonly privilegeTypesEndpoint = '/api/MasterData/privilege-types';
+  private readonly categoriesEndpoint = '/api/Categories';
+  private readonly exchangeRatesEndpoint = '/api/MasterData/exchange-rates';
+
   constructor(private commonService: CommonService) {}
 
   /**
-   * Get all billing cycles
+   * Get the active billing cycles
    */
   getBillingCycles(): Observable<ApiResponse<MasterBillingCycle[]>> {
-    return this.commonService.getWithAuth<MasterBillingCycle[]>('/api/MasterData/billing-cycles');
+    return this.commonService.getWithAuth<MasterBillingCycle[]>(this.billingCyclesEndpoint);
   }
 
   /**
-   * Get all currencies
+   * Get the active currencies
    */
   getCurrencies(): Observable<ApiResponse<MasterCurrency[]>> {
-    return this.commonService.getWithAuth<MasterCurrency[]>('/api/MasterData/currencies');
+    return this.commonService.getWithAuth<MasterCurrency[]>(this.currenciesEndpoint);
   }
 
   /**
-   * Get all privilege types
+   * Get the active privilege types
    */
   getPrivilegeTypes(): Observable<ApiResponse<MasterPrivilegeType[]>> {
-    return this.commonService.getWithAuth<MasterPrivilegeType[]>('/api/MasterData/privilege-types');
+    return this.commonService.getWithAuth<MasterPrivilegeType[]>(this.privilegeTypesEndpoint);
   }
 
   /**
@@ -38,23 +56,199 @@ export class MasterDataService {
   }
 
   /**
-   * Get active billing cycles only
+   * Get every billing cycle, including inactive and deleted ones
+   */
+  getAllBillingCycles(): Observable<ApiResponse<MasterBillingCycle[]>> {
+    return this.commonService.getWithAuth<MasterBillingCycle[]>(this.billingCyclesEndpoint, { includeInactive: true, includeDeleted: true });
+  }
+
+  /**
+   * Create a billing cycle
+   */
+  createBillingCycle(billingCycle: SaveBillingCycleDto): Observable<ApiResponse<MasterBillingCycle>> {
+    return this.commonService.postWithAuth<MasterBillingCycle>(this.billingCyclesEndpoint, billingCycle);
+  }
+
+  /**
+   * Update a billing cycle
+   */
+  updateBillingCycle(id: string, billingCycle: SaveBillingCycleDto): Observable<ApiResponse<MasterBillingCycle>> {
+    return this.commonService.putWithAuth<MasterBillingCycle>(`${this.billingCyclesEndpoint}/${id}`, billingCycle);
+  }
+
+  /**
+   * Soft-delete a billing cycle
+   */
+  deleteBillingCycle(id: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`${this.billingCyclesEndpoint}/${id}`);
+  }
+
+  /**
+   * Restore a soft-deleted billing cycle
+   */
+  restoreBillingCycle(id: string): Observable<ApiResponse<MasterBillingCycle>> {
+    return this.commonService.postWithAuth<MasterBillingCycle>(`${this.billingCyclesEndpoint}/${id}/restore`, {});
+  }
+
+  /**
+   * Get every currency, including inactive and deleted ones
+   */
+  getAllCurrencies(): Observable<ApiResponse<MasterCurrency[]>> {
+    return this.commonService.getWithAuth<MasterCurrency[]>(this.currenciesEndpoint, { includeInactive: true, includeDeleted: true });
+  }
+
+  /**
+   * Create a currency
+   */
+  createCurrency(currency: SaveCurrencyDto): Observable<ApiResponse<MasterCurrency>> {
+    return this.commonService.postWithAuth<MasterCurrency>(this.currenciesEndpoint, currency);
+  }
+
+  /**
+   * Update a currency
+   */
+  updateCurrency(id: string, currency: SaveCurrencyDto): Observable<ApiResponse<MasterCurrency>> {
+    return this.commonService.putWithAuth<MasterCurrency>(`${this.currenciesEndpoint}/${id}`, currency);
+  }
+
+  /**
+   * Soft-delete a currency
    */
-  getActiveBillingCycles(): Observable<ApiResponse<MasterBillingCycle[]>> {
-    return this.commonService.getWithAuth<MasterBillingCycle[]>('/api/MasterData/billing-cycles?isActive=true');
+  deleteCurrency(id: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`${this.currenciesEndpoint}/${id}`);
   }
 
   /**
-   * Get active currencies only
+   * Restore a soft-deleted currency
    */
-  getActiveCurrencies(): Observable<ApiResponse<MasterCurrency[]>> {
-    return this.commonService.getWithAuth<MasterCurrency[]>('/api/MasterData/currencies?isActive=true');
+  restoreCurrency(id: string): Observable<ApiResponse<MasterCurrency>> {
+    return this.commonService.postWithAuth<MasterCurrency>(`${this.currenciesEndpoint}/${id}/restore`, {});
   }
 
   /**
-   * Get active privileges only
+   * Get every privilege type, including inactive and deleted ones
    */
-  getActivePrivileges(): Observable<ApiResponse<Privilege[]>> {
-    return this.commonService.getWithAuth<Privilege[]>('/api/Privileges?isActive=true');
+  getAllPrivilegeTypes(): Observable<ApiResponse<MasterPrivilegeType[]>> {
+    return this.commonService.getWithAuth<MasterPrivilegeType[]>(this.privilegeTypesEndpoint, { includeInactive: true, includeDeleted: true });
+  }
+
+  /**
+   * Create a privilege type
+   */
+  createPrivilegeType(privilegeType: SavePrivilegeTypeDto): Observable<ApiResponse<MasterPrivilegeType>> {
+    return this.commonService.postWithAuth<MasterPrivilegeType>(this.privilegeTypesEndpoint, privilegeType);
+  }
+
+  /**
+   * Update a privilege type
+   */
+  updatePrivilegeType(id: string, privilegeType: SavePrivilegeTypeDto): Observable<ApiResponse<MasterPrivilegeType>> {
+    return this.commonService.putWithAuth<MasterPrivilegeType>(`${this.privilegeTypesEndpoint}/${id}`, privilegeType);
+  }
+
+  /**
+   * Soft-delete a privilege type
+   */
+  deletePrivilegeType(id: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`${this.privilegeTypesEndpoint}/${id}`);
+  }
+
+  /**
+   * Restore a soft-deleted privilege type
+   */
+  restorePrivilegeType(id: string): Observable<ApiResponse<MasterPrivilegeType>> {
+    return this.commonService.postWithAuth<MasterPrivilegeType>(`${this.privilegeTypesEndpoint}/${id}/restore`, {});
+  }
+
+  /**
+   * Get every plan category, including inactive ones
+   */
+  getAllCategories(): Observable<ApiResponse<CategoryDto[]>> {
+    return this.commonService.getWithAuth<CategoryDto[]>(this.categoriesEndpoint);
+  }
+
+  /**
+   * Create a plan category
+   */
+  createCategory(category: SaveCategoryDto): Observable<ApiResponse<CategoryDto>> {
+    const body: ApiRequestBody<'POST /api/Categories'> = {
+      name: category.name,
+      description: category.description,
+      isActive: category.isActive,
+      displayOrder: category.sortOrder
+    };
+    return this.commonService.postWithAuth<CategoryDto>(this.categoriesEndpoint, body);
+  }
+
+  /**
+   * Update a plan category. Its position is set when it is created and cannot be changed.
+   */
+  updateCategory(id: string, category: SaveCategoryDto): Observable<ApiResponse<CategoryDto>> {
+    const body: ApiRequestBody<'PUT /api/Categories/{id}'> = {
+      id,
+      name: category.name,
+      description: category.description ?? null,
+      isActive: category.isActive,
+      isMostPopular: category.isMostPopular ?? false,
+      isTrending: category.isTrending ?? false
+    };
+    return this.commonService.putWithAuth<CategoryDto>(`${this.categoriesEndpoint}/${id}`, body);
+  }
+
+  /**
+   * Soft-delete a plan category
+   */
+  deleteCategory(id: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`${this.categoriesEndpoint}/${id}`);
+  }
+
+  /**
+   * Get the exchange rates used to convert revenue to the reporting currency
+   */
+  getExchangeRates(): Observable<ApiResponse<ExchangeRateDto[]>> {
+    return this.commonService.getWithAuth<ExchangeRateDto[]>(this.exchangeRatesEndpoint);
+  }
+
+  /**
+   * Set the exchange rate of a currency
+   */
+  saveExchangeRate(currencyId: string, exchangeRate: SaveExchangeRateDto): Observable<ApiResponse<ExchangeRateDto>> {
+    return this.commonService.putWithAuth<ExchangeRateDto>(`${this.exchangeRatesEndpoint}/${currencyId}`, exchangeRate);
+  }
+
+  /**
+   * Get the audit log of a database table
+   */
+  getAuditLogs(tableName: string): Observable<ApiResponse<AuditLogDto[]>> {
+    return this.commonService.getWithAuth<AuditLogDto[]>(`/api/Audit/database/${tableName}`);
+  }
+
+  /**
+   * Id of the record an audit log row is about
+   */
+  getAuditRecordId(log: AuditLogDto): string | null {
+    const key = this.parseAuditJson<Record<string, unknown>>(log.primaryKey);
+    const id = key?.['Id'] ?? key?.['id'];
+    return id === undefined || id === null ? null : String(id);
+  }
+
+  /**
+   * Column-by-column changes recorded in an audit log row
+   */
+  getAuditChanges(log: AuditLogDto): AuditFieldChange[] {
+    const oldValues = this.parseAuditJson<Record<string, unknown>>(log.oldValues) ?? {};
+    const newValues = this.parseAuditJson<Record<string, unknown>>(log.newValues) ?? {};
+    const columns = this.parseAuditJson<string[]>(log.affectedColumns)
+      ?? [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])];
+    return columns.map(column => ({ column, oldValue: oldValues[column], newValue: newValues[column] }));
+  }
+
+  private parseAuditJson<T>(value?: string): T | null {
+    if (!value) return null;
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
   }
 }
@@ -0,0 +1,123 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, defer, of } from 'rxjs';
+import { ApiResponse } from './common.service';
+import { AuthService } from '../admin/auth/auth.service';
+import { PlanFormValues } from '../models/subscription.models';
+import {
+  CreatePlanTemplateDto,
+  PlanTemplateDto,
+  PlanTemplateStripeSlot,
+  PlanTemplateValues
+} from '../models/plan-template.models';
+
+// Plan fields a template carries over, besides privileges and Stripe placeholders
+type PlanTemplateSource = Omit<PlanFormValues, 'displayOrder'>;
+
+const STORAGE_KEY = 'planTemplates';
+
+/**
+ * The plan template library. The backend has no table for templates, so they are kept in this browser's
+ * localStorage; the methods answer like the API so callers do not depend on where templates live.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PlanTemplateService {
+  private authService = inject(AuthService);
+
+  /**
+   * Get all plan templates
+   */
+  getTemplates(): Observable<ApiResponse<PlanTemplateDto[]>> {
+    return defer(() => of(this.ok(this.readTemplates(), 'Plan templates retrieved')));
+  }
+
+  /**
+   * Save a plan template
+   */
+  createTemplate(template: CreatePlanTemplateDto): Observable<ApiResponse<PlanTemplateDto>> {
+    return defer(() => {
+      const user = this.authService.getCurrentUser();
+      const saved: PlanTemplateDto = {
+        ...template,
+        id: crypto.randomUUID(),
+        createdDate: new Date(),
+        createdByName: user ? `${user.firstName} ${user.lastName}`.trim() : undefined
+      };
+      this.writeTemplates([...this.readTemplates(), saved]);
+      return of(this.ok(saved, 'Plan template saved'));
+    });
+  }
+
+  /**
+   * Delete a plan template. Plans started from it are not affected.
+   */
+  deleteTemplate(templateId: string): Observable<ApiResponse<boolean>> {
+    return defer(() => {
+      this.writeTemplates(this.readTemplates().filter(template => template.id !== templateId));
+      return of(this.ok(true, 'Plan template deleted'));
+    });
+  }
+
+  /**
+   * Reusable values of a plan, with its Stripe IDs replaced by placeholders for the ones it had
+   */
+  toTemplateValues(plan: PlanTemplateSource): PlanTemplateValues {
+    const stripeIds: Record<PlanTemplateStripeSlot, string | undefined> = {
+      product: plan.stripeProductId,
+      monthly: plan.stripeMonthlyPriceId,
+      quarterly: plan.stripeQuarterlyPriceId,
+      annual: plan.stripeAnnualPriceId
+    };
+
+    return {
+      description: plan.description,
+      shortDescription: plan.shortDescription,
+      price: plan.price,
+      discountedPrice: plan.discountedPrice,
+      discountValidUntil: plan.discountValidUntil,
+      billingCycleId: plan.billingCycleId,
+      currencyId: plan.currencyId,
+      categoryId: plan.categoryId,
+      messagingCount: plan.messagingCount,
+      includesMedicationDelivery: plan.includesMedicationDelivery,
+      includesFollowUpCare: plan.includesFollowUpCare,
+      deliveryFrequencyDays: plan.deliveryFrequencyDays,
+      maxPauseDurationDays: plan.maxPauseDurationDays,
+      maxConcurrentUsers: plan.maxConcurrentUsers,
+      gracePeriodDays: plan.gracePeriodDays,
+      isActive: plan.isActive,
+      isFeatured: plan.isFeatured,
+      isTrialAllowed: plan.isTrialAllowed,
+      trialDurationInDays: plan.trialDurationInDays,
+      isMostPopular: plan.isMostPopular,
+      isTrending: plan.isTrending,
+      features: plan.features,
+      terms: plan.terms,
+      // Stripe prices belong to the source plan, so the new plan gets its own
+      currencyPrices: (plan.currencyPrices ?? []).map(({ stripePriceId, ...price }) => ({ ...price })),
+      cyclePrices: (plan.cyclePrices ?? []).map(({ stripePriceId, ...price }) => ({ ...price })),
+      // Copies, so the template does not change when the source plan's privileges are edited
+      privileges: (plan.privileges ?? []).map(privilege => ({ ...privilege })),
+      stripePlaceholders: (Object.keys(stripeIds) as PlanTemplateStripeSlot[]).filter(slot => !!stripeIds[slot])
+    };
+  }
+
+  private readTemplates(): PlanTemplateDto[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) as PlanTemplateDto[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Throws when the storage quota is full, which surfaces through the caller's error handler
+  private writeTemplates(templates: PlanTemplateDto[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }
+
+  private ok<T>(data: T, message: string): ApiResponse<T> {
+    return { data, message, statusCode: 200 };
+  }
+}
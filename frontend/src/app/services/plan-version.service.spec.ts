@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PlanVersionService } from './plan-version.service';
+import { CommonService } from './common.service';
+import { PlanVersionSnapshot } from '../models/plan-version.models';
+import { PlanCurrencyPrice, PlanPrivilegeDto } from '../models/subscription.models';
+
+const BASIC_PLAN: PlanVersionSnapshot = {
+  name: 'Basic',
+  description: 'Everyday care',
+  price: 30,
+  categoryId: 'cat-1',
+  categoryName: 'Primary Care',
+  isActive: true,
+  isFeatured: false,
+  isMostPopular: false,
+  isTrending: false,
+  privileges: []
+};
+
+const CONSULTATIONS: PlanPrivilegeDto = {
+  privilegeId: 'priv-consults',
+  privilegeName: 'Consultations',
+  value: 5,
+  usagePeriodId: 'period-month',
+  usagePeriodName: 'Month',
+  durationMonths: 1
+};
+
+const MESSAGES: PlanPrivilegeDto = { ...CONSULTATIONS, privilegeId: 'priv-messages', privilegeName: 'Messages', value: -1 };
+
+const DELIVERY: PlanPrivilegeDto = { ...CONSULTATIONS, privilegeId: 'priv-delivery', privilegeName: 'Delivery', value: 0 };
+
+const CAD_PRICE: PlanCurrencyPrice = { currencyId: 'cur-cad', currencyCode: 'CAD', price: 40 };
+
+const EUR_PRICE: PlanCurrencyPrice = { ...CAD_PRICE, currencyId: 'cur-eur', currencyCode: 'EUR', price: 28 };
+
+describe('PlanVersionService', () => {
+  let service: PlanVersionService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      // Only the version comparison is tested here, so nothing reaches the API
+      providers: [{ provide: CommonService, useValue: {} }]
+    });
+    service = TestBed.inject(PlanVersionService);
+  });
+
+  it('reports nothing for identical versions', () => {
+    expect(service.diffVersions(BASIC_PLAN, { ...BASIC_PLAN })).toEqual([]);
+  });
+
+  it('lists changed fields in display order', () => {
+    const changes = service.diffVersions(BASIC_PLAN, { ...BASIC_PLAN, price: 45, name: 'Basic Plus' });
+
+    expect(changes).toEqual([
+      { field: 'Name', from: 'Basic', to: 'Basic Plus' },
+      { field: 'Price', from: '30', to: '45' }
+    ]);
+  });
+
+  it('shows lookup names instead of ids', () => {
+    const changes = service.diffVersions(BASIC_PLAN, { ...BASIC_PLAN, categoryId: 'cat-2', categoryName: 'Specialist Care' });
+
+    expect(changes).toEqual([{ field: 'Category', from: 'Primary Care', to: 'Specialist Care' }]);
+  });
+
+  it('does not report a lookup whose name changed but id did not', () => {
+    expect(service.diffVersions(BASIC_PLAN, { ...BASIC_PLAN, categoryName: 'Renamed' })).toEqual([]);
+  });
+
+  it('formats booleans and empty values', () => {
+    const changes = service.diffVersions(
+      { ...BASIC_PLAN, description: null },
+      { ...BASIC_PLAN, isFeatured: true }
+    );
+
+    expect(changes).toEqual([
+      { field: 'Description', from: '—', to: 'Everyday care' },
+      { field: 'Featured', from: 'No', to: 'Yes' }
+    ]);
+  });
+
+  it('lists privileges added, removed and changed with their limits', () => {
+    const from = { ...BASIC_PLAN, privileges: [CONSULTATIONS, MESSAGES] };
+    const to = { ...BASIC_PLAN, privileges: [{ ...CONSULTATIONS, value: 8 }, DELIVERY] };
+
+    expect(service.diffVersions(from, to)).toEqual([
+      { field: 'Privilege: Consultations', from: '5 per month', to: '8 per month' },
+      { field: 'Privilege: Messages', from: 'Unlimited', to: '—' },
+      { field: 'Privilege: Delivery', from: '—', to: 'Disabled' }
+    ]);
+  });
+
+  it('ignores privilege changes that do not change the limit', () => {
+    const from = { ...BASIC_PLAN, privileges: [CONSULTATIONS] };
+    const to = { ...BASIC_PLAN, privileges: [{ ...CONSULTATIONS, description: 'Video visits' }] };
+
+    expect(service.diffVersions(from, to)).toEqual([]);
+  });
+
+  it('shows prices in other currencies by code and ignores the order they were entered in', () => {
+    const from = { ...BASIC_PLAN, currencyPrices: [CAD_PRICE, EUR_PRICE] };
+
+    expect(service.diffVersions(from, { ...BASIC_PLAN, currencyPrices: [EUR_PRICE, CAD_PRICE] })).toEqual([]);
+    expect(service.diffVersions(from, { ...BASIC_PLAN, currencyPrices: [{ ...CAD_PRICE, discountedPrice: 35 }] })).toEqual([
+      { field: 'Other Currency Prices', from: 'CAD 40, EUR 28', to: 'CAD 40 (35)' }
+    ]);
+  });
+});
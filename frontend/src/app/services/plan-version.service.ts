@@ -0,0 +1,121 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CommonService, ApiResponse } from './common.service';
+import { PlanCurrencyPrice, PlanCyclePrice, PlanPrivilegeDto } from '../models/subscription.models';
+import { CreatePlanVersionDto, PlanVersionChange, PlanVersionDto, PlanVersionSnapshot } from '../models/plan-version.models';
+
+// A version's prices in other currencies, in currency order so the order they were entered in is not a change
+function formatCurrencyPrices(snapshot: PlanVersionSnapshot, currency: (price: PlanCurrencyPrice) => string): string {
+  return [...(snapshot.currencyPrices ?? [])]
+    .sort((a, b) => a.currencyId.localeCompare(b.currencyId))
+    .map(p => `${currency(p)} ${p.price}${p.discountedPrice ? ` (${p.discountedPrice})` : ''}`)
+    .join(', ');
+}
+
+// A version's prices on other billing cycles, in billing cycle order for the same reason
+function formatCyclePrices(snapshot: PlanVersionSnapshot, cycle: (price: PlanCyclePrice) => string): string {
+  return [...(snapshot.cyclePrices ?? [])]
+    .sort((a, b) => a.billingCycleId.localeCompare(b.billingCycleId))
+    .map(p => `${cycle(p)} ${p.price}${p.discountedPrice ? ` (${p.discountedPrice})` : ''}`)
+    .join(', ');
+}
+
+// The plan fields a version saves, compared in the order they are listed.
+// Lookups compare by id and show the name when the snapshot carries one.
+const DIFF_FIELDS: {
+  field: string;
+  value: (snapshot: PlanVersionSnapshot) => unknown;
+  label?: (snapshot: PlanVersionSnapshot) => string | undefined;
+}[] = [
+  { field: 'Name', value: s => s.name },
+  { field: 'Description', value: s => s.description },
+  { field: 'Price', value: s => s.price },
+  { field: 'Category', value: s => s.categoryId, label: s => s.categoryName },
+  {
+    field: 'Other Currency Prices',
+    value: s => formatCurrencyPrices(s, p => p.currencyId),
+    label: s => formatCurrencyPrices(s, p => p.currencyCode || p.currencyId)
+  },
+  {
+    field: 'Other Billing Cycles',
+    value: s => formatCyclePrices(s, p => p.billingCycleId),
+    label: s => formatCyclePrices(s, p => p.billingCycleName || p.billingCycleId)
+  },
+  { field: 'Active', value: s => s.isActive },
+  { field: 'Featured', value: s => s.isFeatured },
+  { field: 'Most Popular', value: s => s.isMostPopular },
+  { field: 'Trending', value: s => s.isTrending }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PlanVersionService {
+  constructor(private commonService: CommonService) {}
+
+  /**
+   * Get every version of a plan, newest first
+   */
+  getVersions(planId: string): Observable<ApiResponse<PlanVersionDto[]>> {
+    return this.commonService.getWithAuth<PlanVersionDto[]>(`/api/SubscriptionPlans/admin/${planId}/versions`);
+  }
+
+  /**
+   * Publish a new version of a plan. A future effectiveDate schedules it.
+   */
+  createVersion(planId: string, version: CreatePlanVersionDto): Observable<ApiResponse<PlanVersionDto>> {
+    return this.commonService.postWithAuth<PlanVersionDto>(`/api/SubscriptionPlans/admin/${planId}/versions`, version);
+  }
+
+  /**
+   * Cancel a version that has not taken effect yet
+   */
+  cancelScheduledVersion(planId: string, versionId: string): Observable<ApiResponse<PlanVersionDto>> {
+    return this.commonService.deleteWithAuth<PlanVersionDto>(`/api/SubscriptionPlans/admin/${planId}/versions/${versionId}`);
+  }
+
+  /**
+   * Fields that differ between two versions, including privileges added, removed or changed
+   */
+  diffVersions(from: PlanVersionSnapshot, to: PlanVersionSnapshot): PlanVersionChange[] {
+    const changes: PlanVersionChange[] = [];
+    for (const { field, value, label } of DIFF_FIELDS) {
+      const before = this.formatValue(value(from));
+      const after = this.formatValue(value(to));
+      if (before !== after) {
+        changes.push({
+          field,
+          from: label?.(from) || before,
+          to: label?.(to) || after
+        });
+      }
+    }
+
+    const beforePrivileges = new Map((from.privileges ?? []).map(p => [p.privilegeId, p]));
+    const afterPrivileges = new Map((to.privileges ?? []).map(p => [p.privilegeId, p]));
+    for (const id of new Set([...beforePrivileges.keys(), ...afterPrivileges.keys()])) {
+      const before = beforePrivileges.get(id);
+      const after = afterPrivileges.get(id);
+      const name = after?.privilegeName || before?.privilegeName || 'Privilege';
+      const beforeLimit = before ? this.formatPrivilegeLimit(before) : '—';
+      const afterLimit = after ? this.formatPrivilegeLimit(after) : '—';
+      if (beforeLimit !== afterLimit) {
+        changes.push({ field: `Privilege: ${name}`, from: beforeLimit, to: afterLimit });
+      }
+    }
+    return changes;
+  }
+
+  private formatPrivilegeLimit(privilege: PlanPrivilegeDto): string {
+    const period = privilege.usagePeriodName ? ` per ${privilege.usagePeriodName.toLowerCase()}` : '';
+    if (privilege.value === -1) return 'Unlimited';
+    if (privilege.value === 0) return 'Disabled';
+    return `${privilege.value}${period}`;
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return `${value}`;
+  }
+}
@@ -0,0 +1,85 @@
+import { Injectable } from '@angular/core';
+import { Observable, forkJoin, of } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { CommonService, ApiResponse } from './common.service';
+import { SubscriptionService } from './subscription.service';
+import { ApiQuery, ApiRequestBody } from '../api/api-contract';
+import { Privilege } from '../models/subscription.models';
+import { PrivilegePlanUsageDto, PrivilegeSearchFilter } from '../models/privilege.models';
+
+// Large enough to check every plan in one page, like the plans catalog
+const ALL_PLANS_PAGE_SIZE = 500;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PrivilegeService {
+  private readonly baseEndpoint = '/api/Privileges';
+
+  constructor(private commonService: CommonService, private subscriptionService: SubscriptionService) {}
+
+  /**
+   * Search privileges, one page at a time
+   */
+  getPrivileges(filter: PrivilegeSearchFilter = {}, page: number = 1, pageSize: number = 20): Observable<ApiResponse<Privilege[]>> {
+    const params: ApiQuery<'GET /api/Privileges'> = { page, pageSize };
+    if (filter.search) params.search = filter.search;
+    if (filter.isActive !== undefined) params.status = filter.isActive ? 'active' : 'inactive';
+
+    return this.commonService.getWithAuth<Privilege[]>(this.baseEndpoint, params);
+  }
+
+  /**
+   * Create a privilege
+   */
+  createPrivilege(privilege: ApiRequestBody<'POST /api/Privileges'>): Observable<ApiResponse<Privilege>> {
+    return this.commonService.postWithAuth<Privilege>(this.baseEndpoint, privilege);
+  }
+
+  /**
+   * Update a privilege's name, description, type or status
+   */
+  updatePrivilege(privilegeId: string, privilege: ApiRequestBody<'PUT /api/Privileges/{id}'>): Observable<ApiResponse<Privilege>> {
+    return this.commonService.putWithAuth<Privilege>(`${this.baseEndpoint}/${privilegeId}`, privilege);
+  }
+
+  /**
+   * Delete a privilege. Check getPrivilegePlans first; privileges granted by a plan cannot be deleted.
+   */
+  deletePrivilege(privilegeId: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`${this.baseEndpoint}/${privilegeId}`);
+  }
+
+  /**
+   * Plans that grant a privilege. The backend has no lookup by privilege, so every plan's privileges are checked.
+   */
+  getPrivilegePlans(privilegeId: string): Observable<ApiResponse<PrivilegePlanUsageDto[]>> {
+    return this.subscriptionService.getAllPlans(1, ALL_PLANS_PAGE_SIZE).pipe(
+      switchMap(plansResponse => {
+        const plans = plansResponse.statusCode === 200 ? plansResponse.data || [] : [];
+        if (plans.length === 0) return of({ ...plansResponse, data: [] });
+
+        return forkJoin(plans.map(plan => this.subscriptionService.getPlanPrivileges(plan.id).pipe(
+          map(response => ({ plan, response }))
+        ))).pipe(
+          map((results): ApiResponse<PrivilegePlanUsageDto[]> => {
+            const failed = results.find(({ response }) => response.statusCode !== 200);
+            if (failed) return { ...failed.response, data: [] };
+
+            const usage = results.flatMap(({ plan, response }) => (response.data || [])
+              .filter(planPrivilege => planPrivilege.privilegeId === privilegeId)
+              .map(planPrivilege => ({
+                planId: plan.id,
+                planName: plan.name,
+                isActive: plan.isActive,
+                value: planPrivilege.value,
+                usagePeriodName: planPrivilege.usagePeriodName,
+                totalActiveSubscriptions: plan.totalActiveSubscriptions
+              })));
+            return { data: usage, message: 'Plans granting the privilege retrieved', statusCode: 200 };
+          })
+        );
+      })
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ProrationService } from './proration.service';
+import { SubscriptionDto, SubscriptionPlanDto } from '../models/subscription.models';
+
+function buildSubscription(overrides: Partial<SubscriptionDto> = {}): SubscriptionDto {
+  return {
+    id: 'sub-1',
+    userId: 1,
+    userName: 'Test Patient',
+    planId: 'plan-basic',
+    planName: 'Basic',
+    planDescription: '',
+    status: 'Active',
+    currentPeriodStart: new Date(2024, 0, 1),
+    currentPeriodEnd: new Date(2024, 0, 31),
+    currentPrice: 30,
+    autoRenew: true,
+    startDate: new Date(2023, 11, 1),
+    nextBillingDate: new Date(2024, 0, 31),
+    isActive: true,
+    isPaused: false,
+    isCancelled: false,
+    isExpired: false,
+    ...overrides
+  };
+}
+
+function buildPlan(overrides: Partial<SubscriptionPlanDto> = {}): SubscriptionPlanDto {
+  return {
+    id: 'plan-premium',
+    name: 'Premium',
+    description: '',
+    price: 60,
+    billingCycleId: 'monthly',
+    currencyId: 'usd',
+    categoryId: 'cat-1',
+    isActive: true,
+    isFeatured: false,
+    isTrialAllowed: false,
+    trialDurationInDays: 0,
+    isMostPopular: false,
+    isTrending: false,
+    displayOrder: 1,
+    effectivePrice: 60,
+    hasActiveDiscount: false,
+    isCurrentlyAvailable: true,
+    createdDate: new Date(2023, 0, 1),
+    messagingCount: 0,
+    includesMedicationDelivery: false,
+    includesFollowUpCare: false,
+    deliveryFrequencyDays: 0,
+    maxPauseDurationDays: 0,
+    maxConcurrentUsers: 1,
+    gracePeriodDays: 0,
+    ...overrides
+  };
+}
+
+describe('ProrationService', () => {
+  let service: ProrationService;
+  const midPeriod = new Date(2024, 0, 16);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ProrationService);
+  });
+
+  it('credits unused time and charges the remainder when upgrading on the same cycle', () => {
+    const result = service.calculate(buildSubscription(), buildPlan(), 30, { changeDate: midPeriod });
+
+    expect(result.periodDays).toBe(30);
+    expect(result.remainingDays).toBe(15);
+    expect(result.credit).toBe(15);
+    expect(result.charge).toBe(30);
+    expect(result.net).toBe(15);
+    expect(result.amountDue).toBe(15);
+    expect(result.creditBalance).toBe(0);
+    expect(result.billingAnchorReset).toBeFalse();
+    expect(result.nextBillingDate).toEqual(new Date(2024, 0, 31));
+    expect(result.nextBillingAmount).toBe(60);
+    expect(result.lineItems.map(i => i.type)).toEqual(['credit', 'charge']);
+    expect(result.lineItems[0].amount).toBe(-15);
+  });
+
+  it('leaves a credit balance when downgrading', () => {
+    const result = service.calculate(
+      buildSubscription({ currentPrice: 60 }),
+      buildPlan({ price: 30, effectivePrice: 30 }),
+      30,
+      { changeDate: midPeriod }
+    );
+
+    expect(result.net).toBe(-15);
+    expect(result.amountDue).toBe(0);
+    expect(result.creditBalance).toBe(15);
+  });
+
+  it('starts a new full period when the billing cycle length changes', () => {
+    const result = service.calculate(
+      buildSubscription(),
+      buildPlan({ price: 600, effectivePrice: 600, billingCycleId: 'annual' }),
+      { id: 'annual', name: 'Annual', durationInDays: 365, sortOrder: 3, isActive: true, isDeleted: false },
+      { changeDate: midPeriod }
+    );
+
+    expect(result.billingAnchorReset).toBeTrue();
+    expect(result.credit).toBe(15);
+    expect(result.charge).toBe(600);
+    expect(result.net).toBe(585);
+    expect(result.nextBillingDate).toEqual(new Date(2025, 0, 15));
+  });
+
+  it('applies a discount that is still valid as a separate line item', () => {
+    const plan = buildPlan({ discountedPrice: 40, discountValidUntil: new Date(2024, 1, 1).toISOString() });
+    const result = service.calculate(buildSubscription(), plan, 30, { changeDate: midPeriod });
+
+    const discount = result.lineItems.find(i => i.type === 'discount');
+    expect(discount?.amount).toBe(-10);
+    expect(result.charge).toBe(20);
+    expect(result.net).toBe(5);
+  });
+
+  it('ignores a discount that has expired', () => {
+    const plan = buildPlan({ discountedPrice: 40, discountValidUntil: new Date(2024, 0, 10).toISOString() });
+    const result = service.calculate(buildSubscription(), plan, 30, { changeDate: midPeriod });
+
+    expect(result.lineItems.some(i => i.type === 'discount')).toBeFalse();
+    expect(result.charge).toBe(30);
+  });
+
+  it('charges nothing now for changes at period end', () => {
+    const result = service.calculate(buildSubscription(), buildPlan(), 30, { timing: 'period_end', changeDate: midPeriod });
+
+    expect(result.credit).toBe(0);
+    expect(result.effectiveDate).toEqual(new Date(2024, 0, 31));
+    expect(result.nextBillingDate).toEqual(new Date(2024, 0, 31));
+    expect(result.amountDue).toBe(60);
+    expect(result.lineItems.length).toBe(1);
+  });
+
+  it('charges a full period when the current period is unknown', () => {
+    const subscription = buildSubscription({ currentPeriodStart: undefined, currentPeriodEnd: undefined });
+    const result = service.calculate(subscription, buildPlan(), 30, { changeDate: midPeriod });
+
+    expect(result.credit).toBe(0);
+    expect(result.charge).toBe(60);
+    expect(result.billingAnchorReset).toBeTrue();
+    expect(result.lineItems.some(i => i.type === 'credit')).toBeFalse();
+  });
+
+  it('accepts ISO date strings from the API', () => {
+    const subscription = buildSubscription({
+      currentPeriodStart: '2024-01-01T00:00:00' as unknown as Date,
+      currentPeriodEnd: '2024-01-31T00:00:00' as unknown as Date
+    });
+    const result = service.calculate(subscription, buildPlan(), 30, { changeDate: midPeriod });
+
+    expect(result.remainingDays).toBe(15);
+  });
+
+  it('rejects a billing cycle without a duration', () => {
+    expect(() => service.calculate(buildSubscription(), buildPlan(), 0)).toThrowError(/positive duration/);
+  });
+});
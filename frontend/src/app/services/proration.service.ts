@@ -0,0 +1,231 @@
+import { Injectable } from '@angular/core';
+import {
+  MasterBillingCycle,
+  PlanChangeTiming,
+  ProrationLineItem,
+  ProrationResult,
+  SubscriptionDto,
+  SubscriptionPlanDto
+} from '../models/subscription.models';
+
+export interface ProrationOptions {
+  timing?: PlanChangeTiming;
+  // Defaults to now; pass a fixed date for previews and tests
+  changeDate?: Date;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Calendar months and quarters vary by a few days, so cycles this close are treated as the same length
+const SAME_CYCLE_TOLERANCE_DAYS = 3;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProrationService {
+
+  /**
+   * Preview what a plan change will cost.
+   *
+   * Immediate changes credit the unused part of the current period at the current price.
+   * If the target plan bills on the same cycle length, the remaining days are charged at the
+   * new price and the billing date is kept; otherwise a full new period starts today.
+   * Period-end changes cost nothing now and renew on the target plan at the period end.
+   */
+  calculate(
+    subscription: SubscriptionDto,
+    targetPlan: SubscriptionPlanDto,
+    targetCycle: MasterBillingCycle | number,
+    options: ProrationOptions = {}
+  ): ProrationResult {
+    const timing = options.timing ?? 'immediately';
+    const changeDate = options.changeDate ?? new Date();
+    const cycleDays = typeof targetCycle === 'number' ? targetCycle : targetCycle.durationInDays;
+
+    if (!cycleDays || cycleDays <= 0) {
+      throw new Error('Target billing cycle must have a positive duration');
+    }
+
+    const periodStart = this.toDate(subscription.currentPeriodStart);
+    const periodEnd = this.toDate(subscription.currentPeriodEnd) ?? this.toDate(subscription.nextBillingDate);
+
+    if (timing === 'period_end') {
+      return this.calculateAtPeriodEnd(targetPlan, cycleDays, periodStart, periodEnd ?? changeDate);
+    }
+
+    return this.calculateImmediate(subscription, targetPlan, cycleDays, periodStart, periodEnd, changeDate);
+  }
+
+  /**
+   * Price of a plan on a given date, honouring a discount only while it is valid
+   */
+  getPriceOn(plan: SubscriptionPlanDto, date: Date): number {
+    const discountValidUntil = this.toDate(plan.discountValidUntil);
+    const hasDiscount = plan.discountedPrice !== undefined && plan.discountedPrice !== null && plan.discountedPrice < plan.price;
+
+    if (hasDiscount && discountValidUntil) {
+      return date.getTime() <= discountValidUntil.getTime() ? plan.discountedPrice! : plan.price;
+    }
+    if (hasDiscount) {
+      return plan.discountedPrice!;
+    }
+    return plan.effectivePrice ?? plan.price;
+  }
+
+  private calculateImmediate(
+    subscription: SubscriptionDto,
+    targetPlan: SubscriptionPlanDto,
+    cycleDays: number,
+    periodStart: Date | null,
+    periodEnd: Date | null,
+    changeDate: Date
+  ): ProrationResult {
+    const lineItems: ProrationLineItem[] = [];
+
+    // Without a known current period there is nothing to credit, so a full new period starts today
+    const hasPeriod = !!periodStart && !!periodEnd && periodEnd.getTime() > periodStart.getTime();
+    const periodDays = hasPeriod ? this.daysBetween(periodStart!, periodEnd!) : 0;
+    const remainingDays = hasPeriod ? Math.min(periodDays, Math.max(0, this.daysBetween(changeDate, periodEnd!))) : 0;
+
+    if (remainingDays > 0) {
+      lineItems.push({
+        type: 'credit',
+        description: `Unused time on ${subscription.planName} (${remainingDays} of ${periodDays} days)`,
+        amount: -this.round(subscription.currentPrice * remainingDays / periodDays),
+        periodStart: changeDate,
+        periodEnd: periodEnd!
+      });
+    }
+
+    const billingAnchorReset = !hasPeriod || remainingDays === 0
+      || Math.abs(cycleDays - periodDays) > SAME_CYCLE_TOLERANCE_DAYS;
+
+    const listPrice = targetPlan.price;
+    const salePrice = this.getPriceOn(targetPlan, changeDate);
+    const chargeStart = changeDate;
+    let chargeEnd: Date;
+    let fraction: number;
+    let chargeDescription: string;
+
+    if (billingAnchorReset) {
+      chargeEnd = this.addDays(changeDate, cycleDays);
+      fraction = 1;
+      chargeDescription = `${targetPlan.name} (${cycleDays} days)`;
+    } else {
+      chargeEnd = periodEnd!;
+      fraction = remainingDays / periodDays;
+      chargeDescription = `Remaining time on ${targetPlan.name} (${remainingDays} of ${periodDays} days)`;
+    }
+
+    lineItems.push({
+      type: 'charge',
+      description: chargeDescription,
+      amount: this.round(listPrice * fraction),
+      periodStart: chargeStart,
+      periodEnd: chargeEnd
+    });
+
+    if (salePrice < listPrice) {
+      lineItems.push({
+        type: 'discount',
+        description: `${targetPlan.name} discount`,
+        amount: -this.round((listPrice - salePrice) * fraction),
+        periodStart: chargeStart,
+        periodEnd: chargeEnd
+      });
+    }
+
+    const credit = -this.sum(lineItems.filter(i => i.type === 'credit'));
+    const charge = this.sum(lineItems.filter(i => i.type !== 'credit'));
+    const net = this.round(charge - credit);
+
+    return {
+      timing: 'immediately',
+      effectiveDate: changeDate,
+      periodDays,
+      remainingDays,
+      credit,
+      charge,
+      net,
+      amountDue: Math.max(0, net),
+      creditBalance: Math.max(0, -net),
+      nextBillingDate: chargeEnd,
+      nextBillingAmount: this.getPriceOn(targetPlan, chargeEnd),
+      billingAnchorReset,
+      lineItems
+    };
+  }
+
+  private calculateAtPeriodEnd(
+    targetPlan: SubscriptionPlanDto,
+    cycleDays: number,
+    periodStart: Date | null,
+    periodEnd: Date
+  ): ProrationResult {
+    const renewalEnd = this.addDays(periodEnd, cycleDays);
+    const price = this.getPriceOn(targetPlan, periodEnd);
+
+    const lineItems: ProrationLineItem[] = [{
+      type: 'charge',
+      description: `${targetPlan.name} (${cycleDays} days)`,
+      amount: this.round(targetPlan.price),
+      periodStart: periodEnd,
+      periodEnd: renewalEnd
+    }];
+
+    if (price < targetPlan.price) {
+      lineItems.push({
+        type: 'discount',
+        description: `${targetPlan.name} discount`,
+        amount: -this.round(targetPlan.price - price),
+        periodStart: periodEnd,
+        periodEnd: renewalEnd
+      });
+    }
+
+    const charge = this.sum(lineItems);
+
+    return {
+      timing: 'period_end',
+      effectiveDate: periodEnd,
+      periodDays: periodStart ? this.daysBetween(periodStart, periodEnd) : 0,
+      remainingDays: 0,
+      credit: 0,
+      charge,
+      net: charge,
+      amountDue: charge,
+      creditBalance: 0,
+      nextBillingDate: periodEnd,
+      nextBillingAmount: charge,
+      billingAnchorReset: false,
+      lineItems
+    };
+  }
+
+  private toDate(value?: Date | string | null): Date | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Whole calendar days, so daylight saving shifts do not add or drop a day
+  private daysBetween(from: Date, to: Date): number {
+    const fromDay = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const toDay = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((toDay - fromDay) / DAY_IN_MS);
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private sum(items: ProrationLineItem[]): number {
+    return this.round(items.reduce((total, item) => total + item.amount, 0));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CommonService, ApiResponse } from './common.service';
+import { ApiQuery, ApiResponseData } from '../api/api-contract';
+import { RefundLedgerFilter } from '../models/refund.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RefundService {
+  private readonly baseEndpoint = '/api/Billing/refunds';
+
+  constructor(private commonService: CommonService) {}
+
+  /**
+   * Get the refunds ledger, newest first
+   */
+  getRefunds(filter: RefundLedgerFilter = {}, page: number = 1, pageSize: number = 20): Observable<ApiResponse<ApiResponseData<'GET /api/Billing/refunds'>>> {
+    const params: ApiQuery<'GET /api/Billing/refunds'> = { page, pageSize };
+    if (filter.startDate) params.startDate = filter.startDate.toISOString();
+    if (filter.endDate) params.endDate = filter.endDate.toISOString();
+    if (filter.planId) params.planId = filter.planId;
+    if (filter.refundedBy) params.refundedBy = filter.refundedBy;
+
+    return this.commonService.getWithAuth<ApiResponseData<'GET /api/Billing/refunds'>>(this.baseEndpoint, params);
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { CommonService, ApiResponse } from './common.service';
+import { ApiQuery } from '../api/api-contract';
+import { REPORT_COLUMNS, ReportParameters, ReportResult, ReportRow, ReportType } from '../models/report.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportService {
+  private readonly baseEndpoint = '/api/Analytics';
+
+  constructor(private commonService: CommonService) {}
+
+  /**
+   * Run a report from the catalog and flatten its summary into section/metric/value rows
+   */
+  runReport(reportType: ReportType, parameters: ReportParameters): Observable<ApiResponse<ReportResult | null>> {
+    return this.fetchReport(reportType, this.buildParams(parameters)).pipe(
+      map(response => ({
+        ...response,
+        data: response.statusCode === 200 ? this.toResult(reportType, response.data) : null
+      }))
+    );
+  }
+
+  private fetchReport(reportType: ReportType, params: ApiQuery<'GET /api/Analytics/revenue'>): Observable<ApiResponse<unknown>> {
+    switch (reportType) {
+      case 'subscriptions':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/reports/subscriptions`, params);
+      case 'billing':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/reports/billing`, params);
+      case 'users':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/reports/users`, params);
+      case 'providers':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/reports/providers`, params);
+      case 'revenue':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/revenue`, params);
+      case 'churn':
+        return this.commonService.getWithAuth<unknown>(`${this.baseEndpoint}/churn`, params);
+    }
+  }
+
+  private buildParams(parameters: ReportParameters): ApiQuery<'GET /api/Analytics/revenue'> {
+    const params: ApiQuery<'GET /api/Analytics/revenue'> = {};
+    if (parameters.startDate) params.startDate = parameters.startDate;
+    if (parameters.endDate) params.endDate = parameters.endDate;
+    return params;
+  }
+
+  private toResult(reportType: ReportType, data: unknown): ReportResult {
+    const rows: ReportRow[] = [];
+    let generatedAt = new Date();
+
+    if (this.isRecord(data)) {
+      if (typeof data['generatedAt'] === 'string') generatedAt = new Date(data['generatedAt']);
+      for (const [key, value] of Object.entries(data)) {
+        if (key === 'generatedAt' || key === 'generatedBy') continue;
+        // Scalars at the top level are the headline figures; nested objects become their own section
+        if (this.isRecord(value) || Array.isArray(value)) {
+          this.collectRows(value, this.humanize(key), '', rows);
+        } else {
+          this.collectRows(value, 'Summary', this.humanize(key), rows);
+        }
+      }
+    }
+
+    return { reportType, generatedAt, columns: REPORT_COLUMNS, rows };
+  }
+
+  private collectRows(value: unknown, section: string, metric: string, rows: ReportRow[]) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.collectRows(item, section, this.join(metric, this.itemLabel(item, index)), rows));
+    } else if (this.isRecord(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        this.collectRows(child, section, this.join(metric, this.humanize(key)), rows);
+      }
+    } else if (typeof value === 'number') {
+      rows.push({ section, metric, value: Math.round(value * 100) / 100 });
+    } else if (typeof value === 'string') {
+      // ISO timestamps read better as plain dates in a summary table
+      rows.push({ section, metric, value: /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.substring(0, 10) : value });
+    } else if (typeof value === 'boolean' || value === null) {
+      rows.push({ section, metric, value });
+    }
+  }
+
+  // List entries are labelled by their name when they have one, otherwise by position
+  private itemLabel(item: unknown, index: number): string {
+    if (this.isRecord(item)) {
+      const name = item['name'] ?? item['categoryName'] ?? item['planName'] ?? item['reason'];
+      if (typeof name === 'string' && name) return name;
+    }
+    return `#${index + 1}`;
+  }
+
+  private join(metric: string, part: string): string {
+    return metric ? `${metric} / ${part}` : part;
+  }
+
+  private humanize(key: string): string {
+    const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+    return words.charAt(0).toUpperCase() + words.substring(1);
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
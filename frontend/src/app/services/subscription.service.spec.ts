@@ -0,0 +1,143 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SubscriptionService } from './subscription.service';
+import { CommonService } from './common.service';
+import { MasterBillingCycle, PlanPrivilegeDto, SubscriptionPlanDto } from '../models/subscription.models';
+
+const CONSULTATIONS: PlanPrivilegeDto = {
+  privilegeId: 'priv-consults',
+  privilegeName: 'Consultations',
+  value: 5,
+  usagePeriodId: 'period-month',
+  usagePeriodName: 'Month',
+  durationMonths: 1
+};
+
+const MESSAGES: PlanPrivilegeDto = { ...CONSULTATIONS, privilegeId: 'priv-messages', privilegeName: 'Messages', value: -1 };
+
+const MONTHLY: MasterBillingCycle = {
+  id: 'cycle-month',
+  name: 'Monthly',
+  durationInDays: 30,
+  sortOrder: 1,
+  isActive: true,
+  isDeleted: false
+};
+
+const QUARTERLY: MasterBillingCycle = { ...MONTHLY, id: 'cycle-quarter', name: 'Quarterly', durationInDays: 90, sortOrder: 2 };
+
+const ANNUAL: MasterBillingCycle = { ...MONTHLY, id: 'cycle-year', name: 'Annual', durationInDays: 365, sortOrder: 3 };
+
+const BILLING_CYCLES = [MONTHLY, QUARTERLY, ANNUAL];
+
+// Monthly at 50, or 480 paid up front for a year, which is 40 a month
+const PLAN_PRICING: Pick<SubscriptionPlanDto, 'billingCycleId' | 'price' | 'discountedPrice' | 'cyclePrices'> = {
+  billingCycleId: MONTHLY.id,
+  price: 50,
+  cyclePrices: [{ billingCycleId: ANNUAL.id, price: 480 }]
+};
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      // Only the pure privilege helpers are tested here, so nothing reaches the API
+      providers: [{ provide: CommonService, useValue: {} }]
+    });
+    service = TestBed.inject(SubscriptionService);
+  });
+
+  describe('diffPlanPrivileges', () => {
+    it('finds privileges that were added, changed and removed', () => {
+      const kept = { ...CONSULTATIONS, privilegeId: 'priv-kept' };
+      const changed = { ...CONSULTATIONS, privilegeId: 'priv-changed', value: 2 };
+      const removed = { ...CONSULTATIONS, privilegeId: 'priv-removed' };
+      const added = { ...CONSULTATIONS, privilegeId: 'priv-added' };
+      const edited = [kept, { ...changed, value: 4 }, added];
+
+      const changes = service.diffPlanPrivileges([kept, changed, removed], edited);
+
+      expect(changes.added).toEqual([added]);
+      expect(changes.updated).toEqual([edited[1]]);
+      expect(changes.removed).toEqual([removed]);
+    });
+
+    it('reports nothing when the privileges are unchanged', () => {
+      const changes = service.diffPlanPrivileges([CONSULTATIONS, MESSAGES], [{ ...CONSULTATIONS }, { ...MESSAGES }]);
+
+      expect(changes).toEqual({ added: [], updated: [], removed: [] });
+    });
+
+    it('treats a privilege left out of the edited list as removed', () => {
+      const changes = service.diffPlanPrivileges([CONSULTATIONS], []);
+
+      expect(changes.removed).toEqual([CONSULTATIONS]);
+      expect(changes.added).toEqual([]);
+      expect(changes.updated).toEqual([]);
+    });
+  });
+
+  describe('getCycleOptions', () => {
+    it('lists the primary cycle and the extra cycles, shortest first', () => {
+      const options = service.getCycleOptions({ ...PLAN_PRICING, billingCycleId: ANNUAL.id, price: 480, cyclePrices: [{ billingCycleId: MONTHLY.id, price: 50 }] }, BILLING_CYCLES);
+
+      expect(options.map(o => o.billingCycleName)).toEqual(['Monthly', 'Annual']);
+      expect(options.map(o => o.isPrimary)).toEqual([false, true]);
+    });
+
+    it('works out the monthly cost and the saving against the shortest cycle', () => {
+      const [monthly, annual] = service.getCycleOptions(PLAN_PRICING, BILLING_CYCLES);
+
+      expect(monthly.savingsPercent).toBeNull();
+      expect(annual.monthlyEquivalent).toBeCloseTo(40, 2);
+      expect(annual.savingsPercent).toBeCloseTo((1 - 40 / monthly.monthlyEquivalent) * 100, 2);
+      expect(annual.savingsPercent).toBeGreaterThan(20);
+    });
+
+    it('compares discounted prices when they are lower than the price', () => {
+      const [, annual] = service.getCycleOptions({ ...PLAN_PRICING, cyclePrices: [{ billingCycleId: ANNUAL.id, price: 480, discountedPrice: 420 }] }, BILLING_CYCLES);
+
+      expect(annual.price).toBe(480);
+      expect(annual.effectivePrice).toBe(420);
+      expect(annual.monthlyEquivalent).toBeCloseTo(35, 2);
+    });
+
+    it('reports a negative saving when the longer cycle costs more per month', () => {
+      const [, quarterly] = service.getCycleOptions({ ...PLAN_PRICING, cyclePrices: [{ billingCycleId: QUARTERLY.id, price: 180 }] }, BILLING_CYCLES);
+
+      expect(quarterly.savingsPercent).toBeLessThan(0);
+    });
+
+    it('leaves out cycles that are not in master data', () => {
+      const options = service.getCycleOptions({ ...PLAN_PRICING, cyclePrices: [{ billingCycleId: 'cycle-unknown', price: 100 }] }, BILLING_CYCLES);
+
+      expect(options.map(o => o.billingCycleId)).toEqual([MONTHLY.id]);
+    });
+  });
+
+  describe('isSamePlanPrivilege', () => {
+    it('compares dates by day, whether they are timestamps or yyyy-mm-dd', () => {
+      const saved = { ...CONSULTATIONS, effectiveDate: '2024-03-01T13:30:00Z' };
+
+      expect(service.isSamePlanPrivilege(saved, { ...CONSULTATIONS, effectiveDate: '2024-03-01' })).toBeTrue();
+      expect(service.isSamePlanPrivilege(saved, { ...CONSULTATIONS, effectiveDate: '2024-03-02' })).toBeFalse();
+    });
+
+    it('treats a missing limit the same as a null one', () => {
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, dailyLimit: null })).toBeTrue();
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, dailyLimit: 1 })).toBeFalse();
+    });
+
+    it('treats a missing description the same as an empty one', () => {
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, description: '' })).toBeTrue();
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, description: 'Video visits' })).toBeFalse();
+    });
+
+    it('notices a different value, usage period or duration', () => {
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, value: -1 })).toBeFalse();
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, usagePeriodId: 'period-week' })).toBeFalse();
+      expect(service.isSamePlanPrivilege(CONSULTATIONS, { ...CONSULTATIONS, durationMonths: 12 })).toBeFalse();
+    });
+  });
+});
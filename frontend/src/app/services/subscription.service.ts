@@ -1,17 +1,30 @@
 import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
+import { Observable, forkJoin, of } from 'rxjs';
 import { 
   SubscriptionDto, 
-  CreateSubscriptionDto, 
   SubscriptionPlanDto, 
-  CreateSubscriptionPlanDto, 
-  UpdateSubscriptionPlanDto,
+  PlanFormValues,
+  PlanChangeResultDto,
+  BillingCycleChangeResultDto,
+  ChangeSubscriptionBillingCycleDto,
+  PlanCycleOption,
   MasterBillingCycle,
-  MasterCurrency,
-  MasterPrivilegeType,
-  Privilege
+  BillingRecordDto,
+  BillingAdjustmentDto,
+  PrivilegeUsageHistoryDto,
+  CategoryDto,
+  PlanPrivilegeDto,
+  PlanPrivilegeChanges,
+  SubscriptionStatusHistoryDto
 } from '../models/subscription.models';
-import { CommonService, ApiResponse, PaginatedResponse } from './common.service';
+import { PaymentMethodDto } from '../models/user.models';
+import { CommonService, ApiResponse } from './common.service';
+import { ApiQuery, ApiRequestBody, ApiResponseData } from '../api/api-contract';
+
+const DAYS_PER_MONTH = 365 / 12;
+
+// The plan fields that decide what each of its billing cycles costs
+type PlanCyclePricing = Pick<SubscriptionPlanDto, 'billingCycleId' | 'price' | 'discountedPrice' | 'cyclePrices'>;
 
 @Injectable({
   providedIn: 'root'
@@ -21,160 +34,321 @@ export class SubscriptionService {
 
   // Subscription Plans CRUD
   getAllPlans(page: number = 1, pageSize: number = 20, searchTerm?: string, categoryId?: string, isActive?: boolean): Observable<ApiResponse<SubscriptionPlanDto[]>> {
-    const params: any = { page, pageSize };
+    const params: ApiQuery<'GET /api/SubscriptionPlans/admin'> = { page, pageSize };
     if (searchTerm) params.searchTerm = searchTerm;
     if (categoryId) params.categoryId = categoryId;
     if (isActive !== undefined) params.isActive = isActive;
 
-    return this.commonService.getWithAuth<SubscriptionPlanDto[]>('/api/Subscriptions/admin/plans', params);
+    return this.commonService.getWithAuth<SubscriptionPlanDto[]>('/api/SubscriptionPlans/admin', params);
   }
 
   getPlanById(planId: string): Observable<ApiResponse<SubscriptionPlanDto>> {
-    return this.commonService.getWithAuth<SubscriptionPlanDto>(`/api/Subscriptions/admin/plans/${planId}`);
-  }
-
-  createPlan(planDto: CreateSubscriptionPlanDto): Observable<ApiResponse<SubscriptionPlanDto>> {
-    return this.commonService.postWithAuth<SubscriptionPlanDto>('/api/Subscriptions/admin/plans', planDto);
-  }
-
-  updatePlan(planId: string, planDto: UpdateSubscriptionPlanDto): Observable<ApiResponse<SubscriptionPlanDto>> {
-    return this.commonService.putWithAuth<SubscriptionPlanDto>(`/api/Subscriptions/admin/plans/${planId}`, planDto);
-  }
-
-  deletePlan(planId: string): Observable<ApiResponse<any>> {
-    return this.commonService.deleteWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}`);
+    return this.commonService.getWithAuth<SubscriptionPlanDto>(`/api/SubscriptionPlans/admin/${planId}`);
+  }
+
+  createPlan(planDto: ApiRequestBody<'POST /api/SubscriptionPlans/admin'>): Observable<ApiResponse<SubscriptionPlanDto>> {
+    return this.commonService.postWithAuth<SubscriptionPlanDto>('/api/SubscriptionPlans/admin', planDto);
+  }
+
+  updatePlan(planId: string, planDto: ApiRequestBody<'PUT /api/SubscriptionPlans/admin/{planId}'>): Observable<ApiResponse<SubscriptionPlanDto>> {
+    return this.commonService.putWithAuth<SubscriptionPlanDto>(`/api/SubscriptionPlans/admin/${planId}`, planDto);
+  }
+
+  /**
+   * Change a few fields of a plan. The backend keeps the fields that are not sent, except isActive,
+   * which it always applies and so is sent as the plan has it.
+   */
+  patchPlan(plan: SubscriptionPlanDto, changes: ApiRequestBody<'PUT /api/SubscriptionPlans/admin/{planId}'>): Observable<ApiResponse<SubscriptionPlanDto>> {
+    return this.updatePlan(plan.id, { id: plan.id, isActive: plan.isActive, ...changes });
+  }
+
+  /**
+   * Save the display order of several plans in one request
+   */
+  updatePlanDisplayOrder(orders: ApiRequestBody<'PUT /api/SubscriptionPlans/admin/display-order'>): Observable<ApiResponse<ApiResponseData<'PUT /api/SubscriptionPlans/admin/display-order'>>> {
+    return this.commonService.putWithAuth<ApiResponseData<'PUT /api/SubscriptionPlans/admin/display-order'>>('/api/SubscriptionPlans/admin/display-order', orders);
+  }
+
+  /**
+   * The create payload for the values entered in the plan stepper
+   */
+  toCreatePlanDto(values: PlanFormValues): ApiRequestBody<'POST /api/SubscriptionPlans/admin'> {
+    const { stripeProductId, stripeMonthlyPriceId, stripeQuarterlyPriceId, stripeAnnualPriceId, ...plan } = values;
+    return plan;
+  }
+
+  /**
+   * The update payload for a plan, with the fields the backend accepts on update
+   */
+  toUpdatePlanDto(planId: string, plan: PlanFormValues): ApiRequestBody<'PUT /api/SubscriptionPlans/admin/{planId}'> {
+    return {
+      id: planId,
+      name: plan.name,
+      description: plan.description,
+      price: plan.price,
+      billingCycleId: plan.billingCycleId,
+      currencyId: plan.currencyId,
+      categoryId: plan.categoryId,
+      isActive: plan.isActive,
+      isFeatured: plan.isFeatured,
+      isMostPopular: plan.isMostPopular,
+      isTrending: plan.isTrending,
+      displayOrder: plan.displayOrder,
+      currencyPrices: plan.currencyPrices,
+      cyclePrices: plan.cyclePrices
+    };
+  }
+
+  /**
+   * The plan as priced in another currency, or null when it has no price in that currency
+   */
+  priceInCurrency(plan: SubscriptionPlanDto, currencyId: string): SubscriptionPlanDto | null {
+    if (plan.currencyId === currencyId) return plan;
+
+    const currencyPrice = plan.currencyPrices?.find(price => price.currencyId === currencyId);
+    if (!currencyPrice) return null;
+
+    return {
+      ...plan,
+      currencyId,
+      currencyName: currencyPrice.currencyCode ?? undefined,
+      price: currencyPrice.price,
+      discountedPrice: currencyPrice.discountedPrice ?? undefined,
+      effectivePrice: currencyPrice.discountedPrice ?? currencyPrice.price,
+      // Other billing cycles are only priced in the plan's own currency
+      cyclePrices: []
+    };
+  }
+
+  /**
+   * Every billing cycle a plan is offered on, shortest first, with what each costs per month
+   * and how much it saves against the shortest one
+   */
+  getCycleOptions(plan: PlanCyclePricing, billingCycles: MasterBillingCycle[]): PlanCycleOption[] {
+    const prices = [
+      { billingCycleId: plan.billingCycleId, price: plan.price, discountedPrice: plan.discountedPrice, isPrimary: true },
+      ...(plan.cyclePrices ?? []).map(price => ({ ...price, isPrimary: false }))
+    ];
+
+    const options = prices
+      .map(price => {
+        const cycle = billingCycles.find(c => c.id === price.billingCycleId);
+        if (!cycle?.durationInDays) return null;
+
+        const effectivePrice = price.discountedPrice != null && price.discountedPrice < price.price
+          ? price.discountedPrice
+          : price.price;
+        return {
+          billingCycleId: cycle.id,
+          billingCycleName: cycle.name,
+          durationInDays: cycle.durationInDays,
+          price: price.price,
+          effectivePrice,
+          monthlyEquivalent: effectivePrice / cycle.durationInDays * DAYS_PER_MONTH,
+          savingsPercent: null as number | null,
+          isPrimary: price.isPrimary
+        };
+      })
+      .filter((option): option is PlanCycleOption => option !== null)
+      .sort((a, b) => a.durationInDays - b.durationInDays);
+
+    const baseline = options[0]?.monthlyEquivalent;
+    if (baseline) {
+      for (const option of options.slice(1)) {
+        option.savingsPercent = (1 - option.monthlyEquivalent / baseline) * 100;
+      }
+    }
+    return options;
+  }
+
+  deletePlan(planId: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`/api/SubscriptionPlans/admin/${planId}`);
   }
 
   // User Subscriptions CRUD
-  getAllSubscriptions(page: number = 1, pageSize: number = 20, searchTerm?: string, status?: string[], planId?: string[]): Observable<ApiResponse<SubscriptionDto[]>> {
-    const params: any = { page, pageSize };
+  getAllSubscriptions(page: number = 1, pageSize: number = 20, searchTerm?: string, status?: string[], planId?: string[], createdFrom?: string, createdTo?: string): Observable<ApiResponse<SubscriptionDto[]>> {
+    const params: ApiQuery<'GET /api/Subscriptions/admin/user-subscriptions'> = { page, pageSize };
     if (searchTerm) params.searchTerm = searchTerm;
     if (status?.length) params.status = status;
     if (planId?.length) params.planId = planId;
+    // startDate and endDate filter on the date the subscription was created; the end day is inclusive
+    if (createdFrom) params.startDate = createdFrom;
+    if (createdTo) params.endDate = `${createdTo}T23:59:59`;
 
     return this.commonService.getWithAuth<SubscriptionDto[]>('/api/Subscriptions/admin/user-subscriptions', params);
   }
 
+  getUserSubscriptions(userId: number): Observable<ApiResponse<SubscriptionDto[]>> {
+    return this.commonService.getWithAuth<SubscriptionDto[]>(`/api/Subscriptions/user/${userId}`);
+  }
+
+  getUserPaymentMethods(userId: number): Observable<ApiResponse<PaymentMethodDto[]>> {
+    return this.commonService.getWithAuth<PaymentMethodDto[]>(`/api/Subscriptions/user/${userId}/payment-methods`);
+  }
+
   getSubscriptionById(subscriptionId: string): Observable<ApiResponse<SubscriptionDto>> {
-    return this.commonService.getWithAuth<SubscriptionDto>(`/api/Subscriptions/admin/${subscriptionId}`);
+    return this.commonService.getWithAuth<SubscriptionDto>(`/api/Subscriptions/${subscriptionId}`);
   }
 
-  createSubscription(subscriptionDto: CreateSubscriptionDto): Observable<ApiResponse<SubscriptionDto>> {
+  createSubscription(subscriptionDto: ApiRequestBody<'POST /api/Subscriptions'>): Observable<ApiResponse<SubscriptionDto>> {
     return this.commonService.postWithAuth<SubscriptionDto>('/api/subscriptions', subscriptionDto);
   }
 
-  updateSubscription(subscriptionId: string, updateDto: any): Observable<ApiResponse<SubscriptionDto>> {
+  updateSubscription(subscriptionId: string, updateDto: ApiRequestBody<'PUT /api/Subscriptions/{id}'>): Observable<ApiResponse<SubscriptionDto>> {
     return this.commonService.putWithAuth<SubscriptionDto>(`/api/subscriptions/${subscriptionId}`, updateDto);
   }
 
-  cancelSubscription(subscriptionId: string, reason: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/cancel`, { reason });
+  cancelSubscription(subscriptionId: string, reason: ApiRequestBody<'POST /api/Subscriptions/admin/{id}/cancel'>): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`/api/Subscriptions/admin/${subscriptionId}/cancel`, reason);
   }
 
-  pauseSubscription(subscriptionId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/pause`, {});
+  pauseSubscription(subscriptionId: string, request: ApiRequestBody<'POST /api/Subscriptions/admin/{id}/pause'>): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`/api/Subscriptions/admin/${subscriptionId}/pause`, request);
   }
 
-  resumeSubscription(subscriptionId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/resume`, {});
+  resumeSubscription(subscriptionId: string): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`/api/Subscriptions/admin/${subscriptionId}/resume`, {});
   }
 
-  extendSubscription(subscriptionId: string, additionalDays: number): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/extend`, { additionalDays });
+  extendSubscription(subscriptionId: string, request: ApiRequestBody<'POST /api/Subscriptions/admin/{id}/extend'>): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`/api/Subscriptions/admin/${subscriptionId}/extend`, request);
   }
 
   // Categories
-  getCategories(): Observable<ApiResponse<any>> {
-    return this.commonService.getWithAuth<any>('/api/Subscriptions/admin/categories');
+  getCategories(): Observable<ApiResponse<CategoryDto[]>> {
+    return this.commonService.getWithAuth<CategoryDto[]>('/api/Subscriptions/admin/categories');
   }
 
-  // Analytics
-  getSubscriptionAnalytics(startDate?: Date, endDate?: Date): Observable<ApiResponse<any>> {
-    const params: any = {};
-    if (startDate) params.startDate = startDate.toISOString();
-    if (endDate) params.endDate = endDate.toISOString();
+  // Plan Privilege Management
+  getPlanPrivileges(planId: string): Observable<ApiResponse<PlanPrivilegeDto[]>> {
+    return this.commonService.getWithAuth<PlanPrivilegeDto[]>(`/webadmin/subscription-management/plans/${planId}/privileges`);
+  }
 
-    return this.commonService.getWithAuth<any>('/api/Subscriptions/admin/analytics', params);
+  assignPrivilegesToPlan(planId: string, privileges: ApiRequestBody<'POST /webadmin/subscription-management/plans/{planId}/privileges'>): Observable<ApiResponse<PlanPrivilegeDto[]>> {
+    return this.commonService.postWithAuth<PlanPrivilegeDto[]>(`/webadmin/subscription-management/plans/${planId}/privileges`, privileges);
   }
 
-  // Master Data APIs
-  getBillingCycles(): Observable<ApiResponse<MasterBillingCycle[]>> {
-    return this.commonService.getWithAuth<MasterBillingCycle[]>('/api/MasterData/billing-cycles');
+  removePrivilegeFromPlan(planId: string, privilegeId: string): Observable<ApiResponse<boolean>> {
+    return this.commonService.deleteWithAuth<boolean>(`/webadmin/subscription-management/plans/${planId}/privileges/${privilegeId}`);
   }
 
-  getCurrencies(): Observable<ApiResponse<MasterCurrency[]>> {
-    return this.commonService.getWithAuth<MasterCurrency[]>('/api/MasterData/currencies');
+  updatePlanPrivilege(planId: string, privilegeId: string, privilegeDto: ApiRequestBody<'PUT /webadmin/subscription-management/plans/{planId}/privileges/{privilegeId}'>): Observable<ApiResponse<PlanPrivilegeDto>> {
+    return this.commonService.putWithAuth<PlanPrivilegeDto>(`/webadmin/subscription-management/plans/${planId}/privileges/${privilegeId}`, privilegeDto);
   }
 
-  getPrivilegeTypes(): Observable<ApiResponse<MasterPrivilegeType[]>> {
-    return this.commonService.getWithAuth<MasterPrivilegeType[]>('/api/MasterData/privilege-types');
+  /**
+   * Privileges added, changed or removed between a plan's saved privileges and an edited list, matched by privilegeId
+   */
+  diffPlanPrivileges(original: PlanPrivilegeDto[], edited: PlanPrivilegeDto[]): PlanPrivilegeChanges {
+    const originalById = new Map(original.map(p => [p.privilegeId, p]));
+    const editedIds = new Set(edited.map(p => p.privilegeId));
+    return {
+      added: edited.filter(p => !originalById.has(p.privilegeId)),
+      updated: edited.filter(p => {
+        const saved = originalById.get(p.privilegeId);
+        return !!saved && !this.isSamePlanPrivilege(saved, p);
+      }),
+      removed: original.filter(p => !editedIds.has(p.privilegeId))
+    };
   }
 
-  getPrivileges(): Observable<ApiResponse<Privilege[]>> {
-    return this.commonService.getWithAuth<Privilege[]>('/api/Privileges');
+  /**
+   * Whether two entries for the same privilege grant the same limits, dates and description
+   */
+  isSamePlanPrivilege(a: PlanPrivilegeDto, b: PlanPrivilegeDto): boolean {
+    // Dates come back from the API as timestamps but the stepper edits them as yyyy-mm-dd
+    const day = (date?: string | null) => date ? date.slice(0, 10) : '';
+    const limit = (value?: number | null) => value ?? null;
+    return a.value === b.value
+      && a.usagePeriodId === b.usagePeriodId
+      && a.durationMonths === b.durationMonths
+      && (a.description || '') === (b.description || '')
+      && day(a.effectiveDate) === day(b.effectiveDate)
+      && day(a.expirationDate) === day(b.expirationDate)
+      && limit(a.dailyLimit) === limit(b.dailyLimit)
+      && limit(a.weeklyLimit) === limit(b.weeklyLimit)
+      && limit(a.monthlyLimit) === limit(b.monthlyLimit);
   }
 
-  // Plan Privilege Management
-  getPlanPrivileges(planId: string): Observable<ApiResponse<any[]>> {
-    return this.commonService.getWithAuth<any[]>(`/api/Subscriptions/admin/plans/${planId}/privileges`);
+  // Plan activation/deactivation
+  activatePlan(planId: string): Observable<ApiResponse<SubscriptionPlanDto>> {
+    return this.commonService.postWithAuth<SubscriptionPlanDto>(`/webadmin/subscription-management/plans/${planId}/activate`, {});
   }
 
-  assignPrivilegesToPlan(planId: string, privileges: any[]): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}/privileges`, privileges);
+  deactivatePlan(planId: string): Observable<ApiResponse<SubscriptionPlanDto>> {
+    return this.commonService.postWithAuth<SubscriptionPlanDto>(`/webadmin/subscription-management/plans/${planId}/deactivate`, {});
   }
 
-  removePrivilegeFromPlan(planId: string, privilegeId: string): Observable<ApiResponse<any>> {
-    return this.commonService.deleteWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}/privileges/${privilegeId}`);
+  // Additional User Subscription Management Methods
+  // Upgrades and downgrades both go through change-plan, which switches the plan immediately with proration
+  changeSubscriptionPlan(subscriptionId: string, newPlanId: string): Observable<ApiResponse<PlanChangeResultDto>> {
+    const body: ApiRequestBody<'POST /api/admin/AdminSubscription/{id}/change-plan'> = { newPlanId, prorate: true };
+    return this.commonService.postWithAuth<PlanChangeResultDto>(`/api/admin/AdminSubscription/${subscriptionId}/change-plan`, body);
   }
 
-  updatePlanPrivilege(planId: string, privilegeId: string, privilegeDto: any): Observable<ApiResponse<any>> {
-    return this.commonService.putWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}/privileges/${privilegeId}`, privilegeDto);
+  // The new cycle and its price apply from the subscription's next billing date
+  changeBillingCycle(subscriptionId: string, billingCycleId: string, reason?: string): Observable<ApiResponse<BillingCycleChangeResultDto>> {
+    const body: ChangeSubscriptionBillingCycleDto = { billingCycleId, reason };
+    return this.commonService.postWithAuth<BillingCycleChangeResultDto>(`/api/admin/AdminSubscription/${subscriptionId}/change-billing-cycle`, body);
   }
 
-  // Plan activation/deactivation
-  activatePlan(planId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}/activate`, {});
+  reactivateSubscription(subscriptionId: string): Observable<ApiResponse<SubscriptionDto>> {
+    return this.commonService.postWithAuth<SubscriptionDto>(`/api/Subscriptions/${subscriptionId}/reactivate`, {});
   }
 
-  deactivatePlan(planId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/plans/${planId}/deactivate`, {});
+  getSubscriptionHistory(subscriptionId: string): Observable<ApiResponse<SubscriptionStatusHistoryDto[]>> {
+    return this.commonService.getWithAuth<SubscriptionStatusHistoryDto[]>(`/api/Subscriptions/admin/${subscriptionId}/history`);
   }
 
-  // Additional User Subscription Management Methods
-  upgradeSubscription(subscriptionId: string, newPlanId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/upgrade`, { newPlanId });
+  getBillingHistory(subscriptionId: string): Observable<ApiResponse<BillingRecordDto[]>> {
+    return this.commonService.getWithAuth<BillingRecordDto[]>(`/api/Subscriptions/${subscriptionId}/billing-history`);
   }
 
-  downgradeSubscription(subscriptionId: string, newPlanId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/downgrade`, { newPlanId });
+  // Billing record actions
+  getBillingAdjustments(billingRecordId: string): Observable<ApiResponse<BillingAdjustmentDto[]>> {
+    return this.commonService.getWithAuth<BillingAdjustmentDto[]>(`/api/Billing/${billingRecordId}/adjustments`);
   }
 
-  reactivateSubscription(subscriptionId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/reactivate`, {});
+  retryBillingPayment(billingRecordId: string): Observable<ApiResponse<BillingRecordDto>> {
+    return this.commonService.postWithAuth<BillingRecordDto>(`/api/Billing/${billingRecordId}/retry`, {});
   }
 
-  renewSubscription(subscriptionId: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>(`/api/Subscriptions/admin/${subscriptionId}/renew`, {});
+  // Sets the record to paid; the endpoint takes no payment details
+  markBillingRecordPaid(billingRecordId: string): Observable<ApiResponse<BillingRecordDto>> {
+    return this.commonService.postWithAuth<BillingRecordDto>(`/api/Billing/${billingRecordId}/process-payment`, {});
   }
 
-  getSubscriptionHistory(subscriptionId: string): Observable<ApiResponse<any[]>> {
-    return this.commonService.getWithAuth<any[]>(`/api/Subscriptions/admin/${subscriptionId}/history`);
+  refundBillingRecord(billingRecordId: string, refund: ApiRequestBody<'POST /api/Billing/{id}/process-refund'>): Observable<ApiResponse<BillingRecordDto>> {
+    return this.commonService.postWithAuth<BillingRecordDto>(`/api/Billing/${billingRecordId}/process-refund`, refund);
   }
 
-  getBillingHistory(subscriptionId: string): Observable<ApiResponse<any[]>> {
-    return this.commonService.getWithAuth<any[]>(`/api/Subscriptions/admin/${subscriptionId}/billing-history`);
+  getUsageStatistics(subscriptionId: string): Observable<ApiResponse<ApiResponseData<'GET /api/Subscriptions/{id}/usage-statistics'>>> {
+    return this.commonService.getWithAuth<ApiResponseData<'GET /api/Subscriptions/{id}/usage-statistics'>>(`/api/Subscriptions/${subscriptionId}/usage-statistics`);
   }
 
-  getPrivilegeUsage(subscriptionId: string): Observable<ApiResponse<any[]>> {
-    return this.commonService.getWithAuth<any[]>(`/api/Subscriptions/admin/${subscriptionId}/privilege-usage`);
+  getPrivilegeUsageHistory(subscriptionId: string, startDate?: Date, endDate?: Date): Observable<ApiResponse<PrivilegeUsageHistoryDto[]>> {
+    // Large enough that one page covers the history chart's range
+    const params: ApiQuery<'GET /api/Privileges/usage-history'> = { subscriptionId, pageSize: 1000 };
+    if (startDate) params.startDate = startDate.toISOString();
+    if (endDate) params.endDate = endDate.toISOString();
+    return this.commonService.getWithAuth<PrivilegeUsageHistoryDto[]>('/api/Privileges/usage-history', params);
   }
 
-  // Bulk Operations
-  bulkUpdateSubscriptions(subscriptionIds: string[], updateData: any): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>('/api/Subscriptions/admin/bulk-update', { subscriptionIds, updateData });
+  // Manual adjustments to a subscription's privilege usage for the current period
+  grantPrivilegeUsage(request: ApiRequestBody<'POST /api/Privileges/usage/grant'>): Observable<ApiResponse<ApiResponseData<'POST /api/Privileges/usage/grant'>>> {
+    return this.commonService.postWithAuth<ApiResponseData<'POST /api/Privileges/usage/grant'>>('/api/Privileges/usage/grant', request);
   }
 
-  bulkCancelSubscriptions(subscriptionIds: string[], reason: string): Observable<ApiResponse<any>> {
-    return this.commonService.postWithAuth<any>('/api/Subscriptions/admin/bulk-cancel', { subscriptionIds, reason });
+  resetPrivilegeUsage(request: ApiRequestBody<'POST /api/Privileges/usage/reset'>): Observable<ApiResponse<ApiResponseData<'POST /api/Privileges/usage/reset'>>> {
+    return this.commonService.postWithAuth<ApiResponseData<'POST /api/Privileges/usage/reset'>>('/api/Privileges/usage/reset', request);
+  }
+
+  // Bulk Operations
+  /**
+   * Apply the same update to several subscriptions with one request each; the backend has no bulk update
+   */
+  bulkUpdateSubscriptions(subscriptionIds: string[], updateData: ApiRequestBody<'PUT /api/Subscriptions/{id}'>): Observable<ApiResponse<SubscriptionDto>[]> {
+    const requests = subscriptionIds.map(id => this.commonService.putWithAuth<SubscriptionDto>(`/api/Subscriptions/${id}`, updateData));
+    return requests.length > 0 ? forkJoin(requests) : of([]);
   }
 }
@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CommonService, ApiResponse } from './common.service';
+import { ApiQuery } from '../api/api-contract';
+import { UserDto, UserSearchFilter } from '../models/user.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class UserService {
+  private readonly baseEndpoint = '/api/Users';
+
+  constructor(private commonService: CommonService) {}
+
+  /**
+   * Search users by name or email
+   */
+  searchUsers(filter: UserSearchFilter = {}, page: number = 1, pageSize: number = 20): Observable<ApiResponse<UserDto[]>> {
+    const params: ApiQuery<'GET /api/Users'> = { page, pageSize };
+    if (filter.searchText) params.searchText = filter.searchText;
+    if (filter.userType) params.role = filter.userType;
+    if (filter.isActive !== undefined) params.isActive = filter.isActive;
+
+    return this.commonService.getWithAuth<UserDto[]>(this.baseEndpoint, params);
+  }
+
+  /**
+   * Get a single user's profile
+   */
+  getUser(userId: number): Observable<ApiResponse<UserDto>> {
+    return this.commonService.getWithAuth<UserDto>(`${this.baseEndpoint}/${userId}`);
+  }
+}